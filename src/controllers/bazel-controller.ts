@@ -24,12 +24,12 @@
 
 import { BazelTarget } from '../models/bazel-target';
 import { BazelTargetManager } from '../models/bazel-target-manager';
+import { BazelParser } from '../services/bazel-parser';
 import { BazelService } from '../services/bazel-service';
 import { ConfigurationManager } from '../services/configuration-manager';
 import { Console } from '../services/console';
 import { FileWatcherService } from '../services/file-watcher-service';
 import { TaskService } from '../services/task-service';
-import { WorkspaceService } from '../services/workspace-service';
 import { BazelTargetTreeProvider, BazelTreeElement } from '../ui/bazel-target-tree-provider';
 import { showProgress } from '../ui/progress';
 import * as path from 'path';
@@ -46,10 +46,12 @@ export class BazelController {
         private readonly bazelTreeProvider: BazelTargetTreeProvider
     ) {
         if (this.configurationManager.shouldRefreshTargetsOnFileChange()) {
-            fileWatcherService.watch('**/BUILD{,.bazel}',
+            fileWatcherService.watch(new vscode.RelativePattern(this.bazelService.getWorkspaceFolder(), '**/BUILD{,.bazel}'),
                 (affectedFiles: string[]) => {
                     Console.log(`BUILD files affected: ${affectedFiles.length}`);
-                    this.refreshAvailableTargets(affectedFiles);
+                    this.refreshAvailableTargets(affectedFiles).catch(error => {
+                        vscode.window.showErrorMessage(`Cannot update available targets: ${error}`);
+                    });
                 }
             );
         }
@@ -59,6 +61,10 @@ export class BazelController {
             this.refreshAvailableTargets().catch(error => {
                 vscode.window.showErrorMessage(`Cannot update available targets: ${error}`);
             });
+        } else {
+            this.refreshStaleAvailableTargets().catch(error => {
+                vscode.window.showErrorMessage(`Cannot update available targets: ${error}`);
+            });
         }
     }
 
@@ -101,15 +107,18 @@ export class BazelController {
         }
 
         let filePath = textEditor.document.uri.fsPath;
-        // Get relative path from the workspace
-        filePath = path.relative(WorkspaceService.getInstance().getWorkspaceFolder().uri.fsPath, filePath);
+        const workspaceFolderPath = this.bazelService.getWorkspaceFolder().uri.fsPath;
 
         // Check if there are any `..`, as this would indicate we are outside of the workspace
-        if (filePath.includes('..')) {
+        if (path.relative(workspaceFolderPath, filePath).includes('..')) {
             vscode.window.showErrorMessage('Build failed. Please open a file in the current workspace.');
             return;
         }
 
+        // Get relative path from the (possibly nested) bazel workspace that owns the file
+        const workspaceRoot = await BazelParser.findWorkspaceRootForFile(filePath, workspaceFolderPath);
+        filePath = path.relative(workspaceRoot, filePath);
+
         // Build single file command
         return showProgress(`Building ${filePath}`, (cancellationToken) => {
             const executable = this.configurationManager.getExecutableCommand();
@@ -118,19 +127,29 @@ export class BazelController {
                 `${executable} build --compile_one_dependency ${filePath}`,
                 this.configurationManager.isClearTerminalBeforeAction(),
                 cancellationToken,
-                filePath
+                filePath,
+                {}, 'shell', 'onDidEndTask', '$gcc',
+                workspaceRoot
             );
         });
     }
 
-    public async refreshAvailableTargets(_affectedFiles?: string[]): Promise<void> {
-        // TODO: In the future, use uri to only update the available targets based on
-        // uri if present in an append mode.
+    public async refreshAvailableTargets(affectedFiles?: string[]): Promise<void> {
+        // Query results cannot be scoped to BUILD files, so those always refresh everything.
+        const canRefreshIncrementally = affectedFiles !== undefined &&
+            affectedFiles.length > 0 &&
+            !this.configurationManager.shouldFetchTargetsUsingQuery() &&
+            this.bazelTargetManager.getAvailableTargets().length > 0;
+
+        if (affectedFiles && canRefreshIncrementally) {
+            return this.refreshAvailableTargetsForBuildFiles(affectedFiles);
+        }
+
         return showProgress('Updating available targets', async (cancellationToken) => {
             try {
                 const timeoutMs = this.configurationManager.getRefreshTargetsTimeoutMs();
-                const targets = await this.bazelService.fetchAllTargetsByAction(cancellationToken, timeoutMs);
-                await this.bazelTargetManager.updateAvailableTargets(targets);
+                const result = await this.bazelService.fetchAllTargetsByAction(cancellationToken, timeoutMs);
+                await this.bazelTargetManager.updateAvailableTargets(result.targets, result.buildFiles);
                 vscode.window.showInformationMessage('Updated available targets');
             } catch (error) {
                 Console.error(error);
@@ -139,6 +158,39 @@ export class BazelController {
         }, undefined, true);
     }
 
+    private async refreshAvailableTargetsForBuildFiles(buildFiles: string[]): Promise<void> {
+        return showProgress('Updating available targets', async (cancellationToken) => {
+            try {
+                const result = await this.bazelService.fetchTargetsByActionForBuildFiles(buildFiles, cancellationToken);
+                await this.bazelTargetManager.updateAvailableTargetsForBuildFiles(buildFiles, result.targets);
+                Console.info(`Updated available targets for ${result.packages.length} package(s)`);
+            } catch (error) {
+                Console.error(error);
+                return Promise.reject(error);
+            }
+        }, undefined, true);
+    }
+
+    /**
+     * Parses only the BUILD files that were added, changed or deleted since the
+     * available targets were last indexed, e.g. while the workspace was closed.
+     */
+    private async refreshStaleAvailableTargets(): Promise<void> {
+        const buildFiles = await BazelParser.findBazelBuildFiles(this.bazelService.getWorkspaceFolder().uri.path);
+        const staleBuildFiles = await this.bazelTargetManager.getStaleBuildFiles(buildFiles.build);
+        if (staleBuildFiles.length === 0) {
+            Console.info('Available targets are up to date');
+            return;
+        }
+
+        Console.info(`BUILD files changed since targets were indexed: ${staleBuildFiles.length}`);
+        // Query results cannot be scoped to BUILD files, so those always refresh everything.
+        if (this.configurationManager.shouldFetchTargetsUsingQuery()) {
+            return this.refreshAvailableTargets();
+        }
+        return this.refreshAvailableTargetsForBuildFiles(staleBuildFiles);
+    }
+
     public onTreeSelectionChanged(event: vscode.TreeViewSelectionChangeEvent<BazelTreeElement>) {
         const selectedItems = event.selection;
 
@@ -146,8 +198,9 @@ export class BazelController {
             return;
         }
 
+        // The tree shows the targets of every workspace folder, only select the ones of this folder.
         selectedItems.forEach((element) => {
-            if (element instanceof BazelTarget) {
+            if (element instanceof BazelTarget && this.bazelTargetManager.hasTarget(element)) {
                 this.bazelTargetManager.updateSelectedTarget(element);
                 this.bazelTreeProvider.refresh();
             }
@@ -107,6 +107,15 @@ export class BazelTargetOperationsController {
     }
 
 
+    /**
+     * Adds a copy of the given target to the tree under the given action.
+     */
+    public addTargetForAction(target: BazelTarget, action: BazelAction) {
+        const newTarget = target.clone();
+        newTarget.action = action;
+        this.addOrUpdateTarget(newTarget);
+    }
+
     private addOrUpdateTarget(newTarget: BazelTarget, oldTarget?: BazelTarget) {
         if (oldTarget && this.bazelTargetManager.hasTarget(oldTarget)) {
             this.bazelTargetManager.updateTarget(newTarget.clone(), oldTarget);
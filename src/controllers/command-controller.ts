@@ -22,38 +22,47 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 
-import { BazelController } from './bazel-controller';
-import { BazelTargetOperationsController } from './bazel-target-operations-controller';
 import { registerBazelCommands } from './commands/bazel-commands';
 import { registerBazelTargetOperationsCommands } from './commands/bazel-target-operations-commands';
+import { registerCoverageCommands } from './commands/coverage-commands';
 import { registerDebugCommands } from './commands/debug-commands';
+import { registerDependencyGraphCommands } from './commands/dependency-graph-commands';
+import { registerExecutionHistoryCommands } from './commands/execution-history-commands';
+import { registerInvocationQueueCommands } from './commands/invocation-queue-commands';
 import { registerMultiPropTreeItemCommands } from './commands/multi-prop-tree-item-commands';
+import { registerProfileCommands } from './commands/profile-commands';
+import { registerReverseDependenciesCommands } from './commands/reverse-dependencies-commands';
 import { registerSinglePropTreeItemCommands } from './commands/single-prop-tree-item-commands';
 import { registerTreeDataProviderCommands } from './commands/tree-data-provider-commands';
 import { registerUserCommands } from './commands/user-commands';
-import { BazelTargetControllerManager } from './target-controllers/bazel-target-controller-manager';
-import { DebugController } from './target-controllers/debug-controller';
-import { UserCommandsController } from './user-commands-controller';
-import { BazelTargetManager } from '../models/bazel-target-manager';
-import { ConfigurationManager } from '../services/configuration-manager';
+import { ProfileViewerController } from './profile-viewer-controller';
+import { WorkspaceFolderControllerManager } from './workspace-folder-controller-manager';
+import { BazelCoverageManager } from '../models/bazel-coverage-manager';
+import { BazelExecutionHistoryManager } from '../models/bazel-execution-history-manager';
+import { BazelInvocationScheduler } from '../services/invocation-scheduler';
 import { BazelTargetTreeProvider } from '../ui/bazel-target-tree-provider';
 import * as vscode from 'vscode';
 
 export function registerCommands(context: vscode.ExtensionContext,
-    configurationManager: ConfigurationManager,
-    userCommandsController: UserCommandsController,
-    bazelController: BazelController,
-    bazelTargetControllerManager: BazelTargetControllerManager,
-    bazelTargetOpsController: BazelTargetOperationsController,
-    bazelTargetManager: BazelTargetManager,
-    bazelTreeDataProvider: BazelTargetTreeProvider
+    workspaceFolderControllerManager: WorkspaceFolderControllerManager,
+    bazelTreeDataProvider: BazelTargetTreeProvider,
+    bazelCoverageManager: BazelCoverageManager,
+    invocationScheduler: BazelInvocationScheduler,
+    bazelExecutionHistoryManager: BazelExecutionHistoryManager,
+    profileViewerController: ProfileViewerController
 ) {
     registerTreeDataProviderCommands(context);
     registerMultiPropTreeItemCommands(context, bazelTreeDataProvider);
     registerSinglePropTreeItemCommands(context, bazelTreeDataProvider);
-    registerBazelCommands(context, bazelController);
-    registerBazelTargetOperationsCommands(context, bazelTargetOpsController, bazelTargetManager);
-    registerDebugCommands(context, bazelTargetControllerManager.getController('debug') as DebugController, bazelTargetManager);
-    registerUserCommands(context, configurationManager, userCommandsController);
+    registerBazelCommands(context, workspaceFolderControllerManager);
+    registerBazelTargetOperationsCommands(context, workspaceFolderControllerManager);
+    registerDebugCommands(context, workspaceFolderControllerManager);
+    registerUserCommands(context, workspaceFolderControllerManager);
+    registerReverseDependenciesCommands(context, workspaceFolderControllerManager);
+    registerDependencyGraphCommands(context, workspaceFolderControllerManager);
+    registerCoverageCommands(context, bazelCoverageManager);
+    registerInvocationQueueCommands(context, invocationScheduler);
+    registerExecutionHistoryCommands(context, workspaceFolderControllerManager, bazelExecutionHistoryManager);
+    registerProfileCommands(context, workspaceFolderControllerManager, profileViewerController);
 }
 
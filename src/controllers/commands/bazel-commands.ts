@@ -22,30 +22,41 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 import { ExtensionUtils } from '../../services/extension-utils';
-import { BazelController } from '../bazel-controller';
+import { BazelTargetCategory } from '../../ui/bazel-target-tree-provider';
+import { WorkspaceFolderControllerManager } from '../workspace-folder-controller-manager';
 import * as vscode from 'vscode';
 
 
 
 export function registerBazelCommands(context: vscode.ExtensionContext,
-    bazelController: BazelController) {
+    workspaceFolderControllerManager: WorkspaceFolderControllerManager) {
 
     const extensionName = ExtensionUtils.getExtensionName(context);
 
+    // Commands from a category run in its workspace folder, otherwise in the one the user works in.
+    const getBazelController = async (category?: BazelTargetCategory) => {
+        const controllers = category instanceof BazelTargetCategory
+            ? workspaceFolderControllerManager.getControllers(category.workspaceFolder)
+            : await workspaceFolderControllerManager.pickControllers();
+        return controllers?.bazelController;
+    };
+
     context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.refreshTargets`, () => {
-        bazelController.refreshAvailableTargets();
+        workspaceFolderControllerManager.getAllControllers().forEach(controllers => {
+            controllers.bazelController.refreshAvailableTargets();
+        });
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.format`, () => {
-        bazelController.format();
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.format`, async (category?: BazelTargetCategory) => {
+        (await getBazelController(category))?.format();
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.clean`, () => {
-        bazelController.clean();
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.clean`, async (category?: BazelTargetCategory) => {
+        (await getBazelController(category))?.clean();
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.buildCurrentFile`, () => {
-        bazelController.buildSingle();
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.buildCurrentFile`, async (category?: BazelTargetCategory) => {
+        (await getBazelController(category))?.buildSingle();
     }));
 
 }
\ No newline at end of file
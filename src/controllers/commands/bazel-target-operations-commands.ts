@@ -22,63 +22,67 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 import { BazelTarget } from '../../models/bazel-target';
-import { BazelTargetManager } from '../../models/bazel-target-manager';
 import { ExtensionUtils } from '../../services/extension-utils';
 import { BazelTargetCategory } from '../../ui/bazel-target-tree-provider';
-import { BazelTargetOperationsController } from '../bazel-target-operations-controller';
+import { WorkspaceFolderControllerManager } from '../workspace-folder-controller-manager';
 import * as vscode from 'vscode';
 
 export function registerBazelTargetOperationsCommands(
     context: vscode.ExtensionContext,
-    bazelTargetOpsController: BazelTargetOperationsController,
-    bazelTargetManager: BazelTargetManager,
+    workspaceFolderControllerManager: WorkspaceFolderControllerManager
 ) {
 
 
     const extensionName = ExtensionUtils.getExtensionName(context);
 
+    // Target commands run in the workspace folder of the target.
+    const getOpsController = (target: BazelTarget) => {
+        return workspaceFolderControllerManager.getControllersForTarget(target)?.bazelTargetOpsController;
+    };
+
     context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.addTarget`, (targetCategory: BazelTargetCategory) => {
-        bazelTargetOpsController.pickTarget(targetCategory.action);
+        workspaceFolderControllerManager.getControllers(targetCategory.workspaceFolder)?.bazelTargetOpsController.pickTarget(targetCategory.action);
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.addActionAndTarget`, () => {
-        bazelTargetOpsController.pickTarget();
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.addActionAndTarget`, async () => {
+        (await workspaceFolderControllerManager.pickControllers())?.bazelTargetOpsController.pickTarget();
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.removeTarget`, (target: BazelTarget) => {
         if (target) {
-            bazelTargetOpsController.removeTarget(target);
+            getOpsController(target)?.removeTarget(target);
         }
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.copyTarget`, (target: BazelTarget) => {
         if (target) {
-            bazelTargetOpsController.copyTarget(target);
+            getOpsController(target)?.copyTarget(target);
         }
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.copyCommand`, (target: BazelTarget) => {
         if (target) {
-            bazelTargetOpsController.copyCommandToClipboard(target);
+            getOpsController(target)?.copyCommandToClipboard(target);
         }
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.pickTarget`, (target: BazelTarget) => {
-        bazelTargetOpsController.pickTarget(target);
+        getOpsController(target)?.pickTarget(target);
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.executeTarget`, (target: BazelTarget) => {
-        bazelTargetOpsController.executeTarget(target);
+        getOpsController(target)?.executeTarget(target);
     }), vscode.commands.registerCommand(`${extensionName}.executingTarget`, () => {
         // Do nothing
     }));
 
     // Make build, run, and test selected target commands public for hotkey binding
     ['build', 'run', 'test'].forEach(action => {
-        context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.${action}`, () => {
-            const selectedTarget = bazelTargetManager.getSelectedTarget(action);
-            if (selectedTarget) {
-                bazelTargetOpsController.executeTarget(selectedTarget);
+        context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.${action}`, async () => {
+            const controllers = await workspaceFolderControllerManager.pickControllers();
+            const selectedTarget = controllers?.bazelTargetManager.getSelectedTarget(action);
+            if (controllers && selectedTarget) {
+                controllers.bazelTargetOpsController.executeTarget(selectedTarget);
             }
         }));
     });
@@ -22,27 +22,34 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 import { BazelTarget } from '../../models/bazel-target';
-import { BazelTargetManager } from '../../models/bazel-target-manager';
 import { ExtensionUtils } from '../../services/extension-utils';
-import { DebugController } from '../target-controllers/debug-controller';
+import { WorkspaceFolderControllers, WorkspaceFolderControllerManager } from '../workspace-folder-controller-manager';
 import * as vscode from 'vscode';
 
 
 export function registerDebugCommands(context: vscode.ExtensionContext,
-    debugController: DebugController,
-    bazelTargetManager: BazelTargetManager) {
+    workspaceFolderControllerManager: WorkspaceFolderControllerManager) {
+
+    const getDebugController = (controllers: WorkspaceFolderControllers) => {
+        return controllers.bazelTargetControllerManager.getController('debug');
+    };
 
     const extensionName = ExtensionUtils.getExtensionName(context);
     context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.debugTarget`, (target: BazelTarget) => {
-        debugController.execute(target).catch(error => {
+        const controllers = workspaceFolderControllerManager.getControllersForTarget(target);
+        if (!controllers) {
+            return;
+        }
+        getDebugController(controllers)?.execute(target).catch(error => {
             vscode.window.showErrorMessage(`${error}`);
         });
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.debug`, () => {
-        const selectedTarget = bazelTargetManager.getSelectedTarget('run');
-        if (selectedTarget) {
-            debugController.execute(selectedTarget).catch(error => {
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.debug`, async () => {
+        const controllers = await workspaceFolderControllerManager.pickControllers();
+        const selectedTarget = controllers?.bazelTargetManager.getSelectedTarget('run');
+        if (controllers && selectedTarget) {
+            getDebugController(controllers)?.execute(selectedTarget).catch(error => {
                 vscode.window.showErrorMessage(`${error}`);
             });
         }
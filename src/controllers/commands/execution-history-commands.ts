@@ -0,0 +1,73 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelExecution } from '../../models/bazel-execution';
+import { BazelExecutionHistoryManager } from '../../models/bazel-execution-history-manager';
+import { ExtensionUtils } from '../../services/extension-utils';
+import { WorkspaceFolderControllerManager } from '../workspace-folder-controller-manager';
+import * as vscode from 'vscode';
+
+export function registerExecutionHistoryCommands(context: vscode.ExtensionContext,
+    workspaceFolderControllerManager: WorkspaceFolderControllerManager,
+    bazelExecutionHistoryManager: BazelExecutionHistoryManager) {
+
+    const rerun = (execution: BazelExecution) => {
+        const controllers = workspaceFolderControllerManager.getControllersForUri(vscode.Uri.parse(execution.workspaceFolder));
+        if (!controllers) {
+            vscode.window.showErrorMessage(`Cannot run ${execution.action} ${execution.label} again. Its workspace folder is not open.`);
+            return;
+        }
+        controllers.executionHistoryController.rerun(execution).catch(error => {
+            vscode.window.showErrorMessage(`${error}`);
+        });
+    };
+
+    const extensionName = ExtensionUtils.getExtensionName(context);
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.rerunExecution`, (execution: BazelExecution) => {
+        rerun(execution);
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.repeatLastAction`, () => {
+        const execution = bazelExecutionHistoryManager.getLastExecution();
+        if (!execution) {
+            vscode.window.showInformationMessage('No action has run yet.');
+            return;
+        }
+        rerun(execution);
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.copyExecutionCommand`, (execution: BazelExecution) => {
+        vscode.env.clipboard.writeText(execution.command);
+        vscode.window.showInformationMessage('Copied to clipboard');
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.openExecutionLog`, (execution: BazelExecution) => {
+        if (execution.logPath) {
+            vscode.window.showTextDocument(vscode.Uri.file(execution.logPath));
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.clearExecutionHistory`, () => {
+        bazelExecutionHistoryManager.clear();
+    }));
+}
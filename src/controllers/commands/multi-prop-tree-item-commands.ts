@@ -22,7 +22,7 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 
-import { BazelTargetMultiProperty, BazelTargetMultiPropertyItem } from '../../models/bazel-target-multi-property';
+import { BazelTargetMultiProperty, BazelTargetMultiPropertyItem, BazelTargetMultiPropertyOption } from '../../models/bazel-target-multi-property';
 import { ExtensionUtils } from '../../services/extension-utils';
 import { BazelTargetTreeProvider } from '../../ui/bazel-target-tree-provider';
 import { showSimpleQuickPick } from '../../ui/quick-pick';
@@ -36,7 +36,7 @@ export function registerMultiPropTreeItemCommands(context: vscode.ExtensionConte
     context.subscriptions.push(
         vscode.commands.registerCommand(`${extensionName}.addToMultiPropTreeItem`, (property: BazelTargetMultiProperty) => {
 
-            const loadQuickPickData = async (cancellationToken: vscode.CancellationToken): Promise<string[]> => {
+            const loadQuickPickData = async (cancellationToken: vscode.CancellationToken): Promise<(string | BazelTargetMultiPropertyOption)[]> => {
                 try {
                     const values = await property.getAvailableValues(cancellationToken);
 
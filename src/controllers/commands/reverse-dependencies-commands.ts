@@ -0,0 +1,60 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BazelTarget } from '../../models/bazel-target';
+import { ExtensionUtils } from '../../services/extension-utils';
+import { WorkspaceFolderControllerManager } from '../workspace-folder-controller-manager';
+import * as vscode from 'vscode';
+
+export function registerReverseDependenciesCommands(context: vscode.ExtensionContext,
+    workspaceFolderControllerManager: WorkspaceFolderControllerManager) {
+
+    const extensionName = ExtensionUtils.getExtensionName(context);
+
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.showReverseDependencies`, async (target?: BazelTarget) => {
+        if (target instanceof BazelTarget) {
+            workspaceFolderControllerManager.getControllersForTarget(target)?.reverseDependenciesController.showReverseDependenciesOfTarget(target);
+        } else {
+            (await workspaceFolderControllerManager.pickControllers())?.reverseDependenciesController.showReverseDependenciesOfActiveFile();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.clearReverseDependencies`, () => {
+        workspaceFolderControllerManager.getAllControllers().forEach(controllers => {
+            controllers.reverseDependenciesController.clear();
+        });
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.addReverseDependencyAsBuildTarget`, (target: BazelTarget) => {
+        if (target) {
+            workspaceFolderControllerManager.getControllersForTarget(target)?.bazelTargetOpsController.addTargetForAction(target, 'build');
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.addReverseDependencyAsTestTarget`, (target: BazelTarget) => {
+        if (target) {
+            workspaceFolderControllerManager.getControllersForTarget(target)?.bazelTargetOpsController.addTargetForAction(target, 'test');
+        }
+    }));
+}
@@ -26,6 +26,7 @@ import { ConfigurationManager, UserCustomButton } from '../../services/configura
 import { Console } from '../../services/console';
 import { ExtensionUtils } from '../../services/extension-utils';
 import { UserCommandsController } from '../user-commands-controller';
+import { WorkspaceFolderControllerManager } from '../workspace-folder-controller-manager';
 import * as vscode from 'vscode';
 
 export function registerCustomButtons(context: vscode.ExtensionContext,
@@ -55,15 +56,22 @@ export function registerCustomButtons(context: vscode.ExtensionContext,
 }
 
 export function registerUserCommands(context: vscode.ExtensionContext,
-    configurationManager: ConfigurationManager,
-    userCommandsController: UserCommandsController
+    workspaceFolderControllerManager: WorkspaceFolderControllerManager
 ): void {
-    registerCustomButtons(context, configurationManager, userCommandsController);
+    workspaceFolderControllerManager.getAllControllers().forEach(controllers => {
+        registerCustomButtons(context, controllers.configurationManager, controllers.userCommandsController);
+    });
 
     const extensionName = ExtensionUtils.getExtensionName(context);
     context.subscriptions.push(vscode.commands.registerCommand(`${extensionName}.customButton`, (button: UserCustomButton) => {
-        const registeredCommand = button.methodName;
-        vscode.commands.executeCommand(registeredCommand, button.command);
+        // Buttons in the tree run in their own workspace folder
+        const controllers = button.workspaceFolder ? workspaceFolderControllerManager.getControllers(button.workspaceFolder) : undefined;
+        if (controllers) {
+            controllers.userCommandsController.runCustomTask(button.command);
+        } else {
+            const registeredCommand = button.methodName;
+            vscode.commands.executeCommand(registeredCommand, button.command);
+        }
     }));
 
 }
\ No newline at end of file
@@ -0,0 +1,156 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BazelTarget } from '../models/bazel-target';
+import { BazelService } from '../services/bazel-service';
+import { Console } from '../services/console';
+import { ExtensionUtils } from '../services/extension-utils';
+import { DependencyGraphPanel, DependencyGraphPanelMessage } from '../ui/dependency-graph-panel';
+import * as vscode from 'vscode';
+
+interface DependencyGraphState {
+    panel: DependencyGraphPanel;
+    root: string;
+    workspaceRoot: string;
+    depth: number;
+    excludeExternal: boolean;
+    cancellationSource?: vscode.CancellationTokenSource;
+}
+
+export class DependencyGraphController {
+    private static readonly defaultDepth = 3;
+
+    // Open graphs by workspace root and target label, so showing the same target again reuses its panel
+    private readonly graphs = new Map<string, DependencyGraphState>();
+
+    constructor(private readonly context: vscode.ExtensionContext,
+        private readonly bazelService: BazelService
+    ) { }
+
+    /**
+     * Opens (or reveals) a webview with the dependency graph of the given target.
+     */
+    public showDependencyGraph(target: BazelTarget) {
+        const root = target.bazelPath;
+        if (!DependencyGraphController.isValidLabel(root)) {
+            vscode.window.showErrorMessage(`Cannot show the dependency graph of ${root}.`);
+            return;
+        }
+
+        const workspaceRoot = target.getWorkspaceRoot();
+        // The same label may exist in several workspace folders
+        const graphKey = `${workspaceRoot} ${root}`;
+        const existing = this.graphs.get(graphKey);
+        if (existing) {
+            existing.panel.reveal();
+            return;
+        }
+
+        const extensionName = ExtensionUtils.getExtensionName(this.context);
+        const state: DependencyGraphState = {
+            root: root,
+            workspaceRoot: workspaceRoot,
+            depth: DependencyGraphController.defaultDepth,
+            excludeExternal: true,
+            panel: new DependencyGraphPanel(`${extensionName}DependencyGraph`,
+                `Dependencies of ${target.label}`,
+                (message) => this.onMessage(state, message),
+                () => {
+                    state.cancellationSource?.cancel();
+                    this.graphs.delete(graphKey);
+                })
+        };
+        this.graphs.set(graphKey, state);
+        this.loadGraph(state);
+    }
+
+    private onMessage(state: DependencyGraphState, message: DependencyGraphPanelMessage) {
+        switch (message.type) {
+        case 'update':
+            state.depth = Math.max(0, Math.floor(message.depth));
+            state.excludeExternal = message.excludeExternal;
+            this.loadGraph(state);
+            break;
+        case 'somepath':
+            if (!DependencyGraphController.isValidLabel(message.to)) {
+                state.panel.showError(`${message.to} is not a valid target label.`);
+            } else {
+                this.loadGraph(state, message.to);
+            }
+            break;
+        case 'showAll':
+            this.loadGraph(state);
+            break;
+        case 'openBuildFile':
+            this.openLocation(message.location);
+            break;
+        }
+    }
+
+    private async loadGraph(state: DependencyGraphState, pathTo?: string) {
+        state.cancellationSource?.cancel();
+        const cancellationSource = new vscode.CancellationTokenSource();
+        state.cancellationSource = cancellationSource;
+
+        const depthArg = state.depth > 0 ? `, ${state.depth}` : '';
+        const queryExpression = pathTo ? `somepath(${state.root}, ${pathTo})` : `deps(${state.root}${depthArg})`;
+        state.panel.showLoading(queryExpression);
+        try {
+            const graph = await this.bazelService.fetchDependencyGraph(queryExpression, state.root, state.excludeExternal, cancellationSource.token, state.workspaceRoot);
+            if (!cancellationSource.token.isCancellationRequested) {
+                state.panel.showGraph(graph, state.root, state.depth, state.excludeExternal, pathTo);
+            }
+        } catch (error) {
+            if (!cancellationSource.token.isCancellationRequested) {
+                state.panel.showError(`Cannot query ${queryExpression}: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * Opens a query location of the form /path/to/BUILD:line:column.
+     */
+    private async openLocation(location: string) {
+        const match = location.match(/^(.*?)(?::(\d+))?(?::(\d+))?$/);
+        if (!match) {
+            return;
+        }
+        const [, filePath, line, column] = match;
+        try {
+            const position = new vscode.Position(Math.max(0, Number(line || 1) - 1), Math.max(0, Number(column || 1) - 1));
+            await vscode.window.showTextDocument(vscode.Uri.file(filePath), {
+                selection: new vscode.Range(position, position),
+                viewColumn: vscode.ViewColumn.Beside
+            });
+        } catch (error) {
+            Console.error(`Cannot open ${location}:`, error);
+            vscode.window.showErrorMessage(`Cannot open ${filePath}.`);
+        }
+    }
+
+    // Labels end up inside a single quoted shell argument, so only allow label characters
+    private static isValidLabel(label: string): boolean {
+        return /^[\w@.+=,~#/:-]+$/.test(label) && label.includes('//');
+    }
+}
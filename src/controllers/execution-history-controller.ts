@@ -0,0 +1,74 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelTargetControllerManager } from './target-controllers/bazel-target-controller-manager';
+import { BazelExecution } from '../models/bazel-execution';
+import { BazelTargetManager } from '../models/bazel-target-manager';
+import { ConfigurationManager } from '../services/configuration-manager';
+import { EnvVarsUtils } from '../services/env-vars-utils';
+import { ExecutionHistoryService } from '../services/execution-history-service';
+import { TaskService } from '../services/task-service';
+import { showProgress } from '../ui/progress';
+import * as vscode from 'vscode';
+
+export class ExecutionHistoryController {
+    constructor(private readonly configurationManager: ConfigurationManager,
+        private readonly taskService: TaskService,
+        private readonly bazelTargetManager: BazelTargetManager,
+        private readonly bazelTargetControllerManager: BazelTargetControllerManager,
+        private readonly executionHistoryService: ExecutionHistoryService
+    ) { }
+
+    /**
+     * Runs the command line of an execution again, exactly as it ran.
+     * A debug session cannot be restored from its command line, so its target is debugged again.
+     */
+    public async rerun(execution: BazelExecution) {
+        if (execution.action === 'debug') {
+            return this.debugAgain(execution);
+        }
+
+        return this.executionHistoryService.recordRerun(execution, () => {
+            return showProgress(`Re-running ${execution.action} ${execution.label}`, (cancellationToken) => {
+                return this.taskService.runTask(`${execution.action} ${execution.label}`,
+                    execution.command,
+                    this.configurationManager.isClearTerminalBeforeAction(),
+                    cancellationToken,
+                    execution.targetId,
+                    EnvVarsUtils.listToObject(execution.envVars),
+                    'shell', 'onDidEndTask', '$gcc',
+                    execution.workspaceRoot);
+            });
+        });
+    }
+
+    private async debugAgain(execution: BazelExecution) {
+        const target = [...this.bazelTargetManager.getTargets(), ...this.bazelTargetManager.getAvailableTargets()]
+            .find(target => target.id === execution.targetId);
+        if (!target) {
+            vscode.window.showErrorMessage(`Cannot debug ${execution.label} again. The target no longer exists.`);
+            return;
+        }
+        return this.bazelTargetControllerManager.getController('debug')?.execute(target);
+    }
+}
@@ -0,0 +1,120 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelProfile } from '../models/bazel-profile';
+import { BazelProfileManager } from '../models/bazel-profile-manager';
+import { ExtensionUtils } from '../services/extension-utils';
+import { ProfilePanel, ProfilePanelMessage } from '../ui/profile-panel';
+import * as vscode from 'vscode';
+
+interface ProfileViewerState {
+    panel: ProfilePanel;
+    profileId: string;
+    compareToId?: string;
+}
+
+/**
+ * Shows the profiles of the builds in a single webview, which follows the latest profiled build.
+ */
+export class ProfileViewerController implements vscode.Disposable {
+    private state?: ProfileViewerState;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly context: vscode.ExtensionContext,
+        private readonly bazelProfileManager: BazelProfileManager
+    ) {
+        this.disposables.push(
+            this.bazelProfileManager.onDidAddProfile(profile => this.showProfile(profile)),
+            this.bazelProfileManager.onDidChangeProfiles(() => this.update())
+        );
+    }
+
+    /**
+     * Opens (or reveals) the profile webview with the given profile, compared to the previous
+     * profile of the same target unless another profile to compare to is given.
+     * Without a profile, the latest one is shown.
+     */
+    public showProfile(profile?: BazelProfile, compareTo?: BazelProfile) {
+        const profiles = this.bazelProfileManager.getProfiles();
+        const shownProfile = profile ?? profiles[0];
+        if (!shownProfile) {
+            vscode.window.showInformationMessage('No build was profiled yet. Use "Profile Build" on a target first.');
+            return;
+        }
+        const shownCompareTo = compareTo ?? profiles.find(item => item.targetId === shownProfile.targetId && item.time < shownProfile.time);
+
+        if (!this.state) {
+            const extensionName = ExtensionUtils.getExtensionName(this.context);
+            const state: ProfileViewerState = {
+                profileId: shownProfile.id,
+                panel: new ProfilePanel(`${extensionName}BuildProfile`,
+                    `Build Profile of ${shownProfile.label}`,
+                    (message) => this.onMessage(message),
+                    () => {
+                        this.state = undefined;
+                    })
+            };
+            this.state = state;
+        }
+        this.state.profileId = shownProfile.id;
+        this.state.compareToId = shownCompareTo?.id;
+        this.state.panel.reveal();
+        this.state.panel.showProfile(profiles, shownProfile, shownCompareTo);
+    }
+
+    public dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private onMessage(message: ProfilePanelMessage) {
+        switch (message.type) {
+        case 'select': {
+            const profile = this.bazelProfileManager.getProfile(message.id);
+            if (profile && this.state) {
+                this.state.profileId = profile.id;
+                this.state.compareToId = message.compareTo;
+                this.update();
+            }
+            break;
+        }
+        }
+    }
+
+    // Shows the profiles again after they changed, e.g. when the shown profile was removed
+    private update() {
+        if (!this.state) {
+            return;
+        }
+        const profiles = this.bazelProfileManager.getProfiles();
+        const profile = this.bazelProfileManager.getProfile(this.state.profileId) ?? profiles[0];
+        if (!profile) {
+            this.state.panel.dispose();
+            return;
+        }
+        const compareTo = this.state.compareToId !== undefined && this.state.compareToId !== profile.id ?
+            this.bazelProfileManager.getProfile(this.state.compareToId) : undefined;
+        this.state.profileId = profile.id;
+        this.state.compareToId = compareTo?.id;
+        this.state.panel.showProfile(profiles, profile, compareTo);
+    }
+}
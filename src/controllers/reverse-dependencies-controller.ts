@@ -0,0 +1,92 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BazelTarget } from '../models/bazel-target';
+import { BazelService } from '../services/bazel-service';
+import { Console } from '../services/console';
+import { ExtensionUtils } from '../services/extension-utils';
+import { showProgress } from '../ui/progress';
+import { ReverseDependenciesTreeProvider } from '../ui/reverse-dependencies-tree-provider';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export class ReverseDependenciesController {
+    constructor(private readonly context: vscode.ExtensionContext,
+        private readonly bazelService: BazelService,
+        private readonly reverseDependenciesTreeProvider: ReverseDependenciesTreeProvider
+    ) { }
+
+    /**
+     * Shows the targets that depend on the targets owning the file in the active editor.
+     */
+    public async showReverseDependenciesOfActiveFile() {
+        const textEditor = vscode.window.activeTextEditor;
+        if (textEditor === undefined) {
+            vscode.window.showErrorMessage('Cannot find reverse dependencies. There is no active text editor.');
+            return;
+        }
+
+        const filePath = textEditor.document.uri.fsPath;
+        let owningTargets: BazelTarget[];
+        try {
+            owningTargets = await this.bazelService.fetchTargetsOwningSourceFile(filePath);
+        } catch (error) {
+            Console.error(`Cannot find targets owning ${filePath}:`, error);
+            owningTargets = [];
+        }
+
+        if (owningTargets.length === 0) {
+            vscode.window.showErrorMessage(`Cannot find reverse dependencies. No target owns ${path.basename(filePath)}.`);
+            return;
+        }
+
+        return this.showReverseDependencies(path.basename(filePath), owningTargets.map(target => target.bazelPath),
+            owningTargets[0].metadata?.workspaceRoot);
+    }
+
+    /**
+     * Shows the targets that depend on the given target.
+     */
+    public async showReverseDependenciesOfTarget(target: BazelTarget) {
+        return this.showReverseDependencies(target.bazelPath, [target.bazelPath], target.getWorkspaceRoot());
+    }
+
+    public clear() {
+        this.reverseDependenciesTreeProvider.clear();
+    }
+
+    private async showReverseDependencies(subject: string, labels: string[], workspaceRoot?: string) {
+        try {
+            const targets = await showProgress(`Finding reverse dependencies of ${subject}`, (cancellationToken) => {
+                return this.bazelService.fetchReverseDependencies(labels, undefined, cancellationToken, workspaceRoot);
+            });
+            this.reverseDependenciesTreeProvider.setResults(subject, targets,
+                target => this.bazelService.getActionsForTarget(target).includes('test'));
+            const extensionName = ExtensionUtils.getExtensionName(this.context);
+            vscode.commands.executeCommand(`${extensionName}ReverseDependenciesView.focus`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Cannot find reverse dependencies of ${subject}: ${error}`);
+        }
+    }
+}
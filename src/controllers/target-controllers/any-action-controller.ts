@@ -26,6 +26,7 @@ import { BazelTargetController } from './bazel-target-controller';
 import { BazelAction, BazelTarget } from '../../models/bazel-target';
 import { BazelTargetPropertyHistory } from '../../models/bazel-target-property-history';
 import { BazelTargetState, BazelTargetStateManager } from '../../models/bazel-target-state-manager';
+import { BuildEventService } from '../../services/build-event-service';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { capitalizeFirstLetter, cleanAndFormat } from '../../services/string-utils';
 import { TaskService } from '../../services/task-service';
@@ -38,24 +39,31 @@ export class AnyActionController implements BazelTargetController {
     constructor(private readonly context: vscode.ExtensionContext,
         private readonly configurationManager: ConfigurationManager,
         private readonly taskService: TaskService,
-        private readonly bazelTargetStateManager: BazelTargetStateManager
+        private readonly bazelTargetStateManager: BazelTargetStateManager,
+        private readonly buildEventService: BuildEventService
     ) {
         this.quickPickHistory = new Map<BazelAction, BazelTargetPropertyHistory>();
     }
 
-    public async execute(target: BazelTarget): Promise<void> {
+    public async execute(target: BazelTarget, onCommand?: (command: string) => void): Promise<void> {
         try {
             this.bazelTargetStateManager.setTargetState(target, BazelTargetState.Executing);
             const executable = this.configurationManager.getExecutableCommand();
+            const actionCommand = `${executable} ${target.action} ${target.bazelPath}`;
+            onCommand?.(actionCommand);
 
             await showProgress(`${capitalizeFirstLetter(target.action)}ing ${target.bazelPath}`, (cancellationToken) => {
-                return this.taskService.runTask(
-                    `${target.action} ${target.bazelPath}`, // task name
-                    `${executable} ${target.action} ${target.bazelPath}`,
-                    this.configurationManager.isClearTerminalBeforeAction(),
-                    cancellationToken,
-                    target.id
-                );
+                return this.buildEventService.runWithBuildEvents(target, actionCommand, (command, problemMatchers) => {
+                    return this.taskService.runTask(
+                        `${target.action} ${target.bazelPath}`, // task name
+                        command,
+                        this.configurationManager.isClearTerminalBeforeAction(),
+                        cancellationToken,
+                        target.id,
+                        {}, 'shell', 'onDidEndTask', problemMatchers,
+                        target.getWorkspaceRoot()
+                    );
+                });
             });
         } catch (error) {
             return Promise.reject(error);
@@ -25,16 +25,24 @@
 import { AnyActionController } from './any-action-controller';
 import { BazelTargetController } from './bazel-target-controller';
 import { BuildController } from './build-controller';
+import { CoverageController } from './coverage-controller';
 import { DebugController } from './debug-controller';
+import { ProfileController } from './profile-controller';
+import { RecordedTargetController } from './recorded-target-controller';
 import { RunController } from './run-controller';
 import { TestController } from './test-controller';
 import { BazelEnvironment } from '../../models/bazel-environment';
 import { BazelTargetManager } from '../../models/bazel-target-manager';
 import { BazelTargetStateManager } from '../../models/bazel-target-state-manager';
 import { BazelService } from '../../services/bazel-service';
+import { BuildEventService } from '../../services/build-event-service';
 import { ConfigurationManager } from '../../services/configuration-manager';
+import { CoverageService } from '../../services/coverage-service';
+import { ExecutionHistoryService } from '../../services/execution-history-service';
+import { ProfileService } from '../../services/profile-service';
 import { ShellService } from '../../services/shell-service';
 import { TaskService } from '../../services/task-service';
+import { TestResultsService } from '../../services/test-results-service';
 import { BazelController } from '../bazel-controller';
 import * as vscode from 'vscode';
 
@@ -50,25 +58,34 @@ export class BazelTargetControllerManager {
         bazelController: BazelController,
         bazelEnvironment: BazelEnvironment,
         bazelTargetManager: BazelTargetManager,
-        bazelTargetStateManager: BazelTargetStateManager
+        bazelTargetStateManager: BazelTargetStateManager,
+        buildEventService: BuildEventService,
+        testResultsService: TestResultsService,
+        coverageService: CoverageService,
+        profileService: ProfileService,
+        executionHistoryService: ExecutionHistoryService
     ) {
         const buildController = new BuildController(context,
             configurationManager,
             taskService,
             bazelTargetManager,
-            bazelTargetStateManager);
+            bazelTargetStateManager,
+            buildEventService);
 
         const runController = new RunController(context,
             configurationManager,
             taskService,
             bazelService,
             buildController,
-            bazelTargetStateManager);
+            bazelTargetStateManager,
+            buildEventService);
 
         const testController = new TestController(context,
             configurationManager,
             taskService,
-            bazelTargetStateManager);
+            bazelTargetStateManager,
+            buildEventService,
+            testResultsService);
 
         this.controllers.set('build', buildController);
         this.controllers.set('run', runController);
@@ -82,13 +99,31 @@ export class BazelTargetControllerManager {
             buildController,
             bazelTargetStateManager));
 
-        // Coverage operates very similar to test, so use test controller
-        this.controllers.set('coverage', testController);
+        this.controllers.set('coverage', new CoverageController(context,
+            configurationManager,
+            taskService,
+            bazelTargetStateManager,
+            buildEventService,
+            testResultsService,
+            coverageService));
+
+        this.controllers.set('profile', new ProfileController(context,
+            configurationManager,
+            taskService,
+            bazelTargetStateManager,
+            buildEventService,
+            profileService));
 
         this.controllers.set('*', new AnyActionController(context,
             configurationManager,
             taskService,
-            bazelTargetStateManager));
+            bazelTargetStateManager,
+            buildEventService));
+
+        // Every execution of a target is recorded in the execution history
+        this.controllers.forEach((controller, action) => {
+            this.controllers.set(action, new RecordedTargetController(action, controller, executionHistoryService));
+        });
     }
 
     public getController(action: string): BazelTargetController | undefined {
@@ -25,6 +25,9 @@
 import { BazelTarget } from '../../models/bazel-target';
 
 export interface BazelTargetController {
-    execute(target: BazelTarget): Promise<void>;
+    /**
+     * @param onCommand Is given the command line the target is executed with, once it is known.
+     */
+    execute(target: BazelTarget, onCommand?: (command: string) => void): Promise<void>;
     getExecuteCommand(target: BazelTarget): Promise<string | undefined>;
 }
\ No newline at end of file
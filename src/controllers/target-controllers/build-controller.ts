@@ -27,6 +27,7 @@ import { BazelTarget } from '../../models/bazel-target';
 import { BazelTargetManager } from '../../models/bazel-target-manager';
 import { BazelTargetState, BazelTargetStateManager } from '../../models/bazel-target-state-manager';
 import { BAZEL_BIN } from '../../services/bazel-service';
+import { BuildEventService } from '../../services/build-event-service';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { EnvVarsUtils } from '../../services/env-vars-utils';
 import { cleanAndFormat } from '../../services/string-utils';
@@ -44,10 +45,11 @@ export class BuildController implements BazelTargetController {
         private readonly configurationManager: ConfigurationManager,
         private readonly taskService: TaskService,
         private readonly bazelTargetManager: BazelTargetManager,
-        private readonly bazelTargetStateManager: BazelTargetStateManager
+        private readonly bazelTargetStateManager: BazelTargetStateManager,
+        private readonly buildEventService: BuildEventService
     ) { }
 
-    public async execute(target: BazelTarget): Promise<void> {
+    public async execute(target: BazelTarget, onCommand?: (command: string) => void): Promise<void> {
         const actualTarget = this.getActualBuildTargetPath(target);
         if (!actualTarget) {
             vscode.window.showErrorMessage('Build failed. Could not find run target.');
@@ -59,6 +61,7 @@ export class BuildController implements BazelTargetController {
             vscode.window.showErrorMessage('Build failed. Could not find run target.');
             return;
         }
+        onCommand?.(buildCommand);
 
         // Both the run and debug controllers can call build,
         // we don't want to change the state if it isn't idle.
@@ -68,8 +71,11 @@ export class BuildController implements BazelTargetController {
                 this.bazelTargetStateManager.setTargetState(target, BazelTargetState.Executing);
             }
             await showProgress(`Building ${actualTarget}`, (cancellationToken) => {
-                return this.taskService.runTask(`${target.action} ${actualTarget}`,
-                    buildCommand, this.configurationManager.isClearTerminalBeforeAction(), cancellationToken, target.id);
+                return this.buildEventService.runWithBuildEvents(target, buildCommand, (command, problemMatchers) => {
+                    return this.taskService.runTask(`${target.action} ${actualTarget}`,
+                        command, this.configurationManager.isClearTerminalBeforeAction(), cancellationToken, target.id,
+                        {}, 'shell', 'onDidEndTask', problemMatchers, target.getWorkspaceRoot());
+                });
             });
         } catch (error) {
             return Promise.reject(error);
@@ -0,0 +1,106 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelTargetController } from './bazel-target-controller';
+import { BazelTarget } from '../../models/bazel-target';
+import { BazelTargetState, BazelTargetStateManager } from '../../models/bazel-target-state-manager';
+import { BuildEventService } from '../../services/build-event-service';
+import { ConfigurationManager } from '../../services/configuration-manager';
+import { CoverageService } from '../../services/coverage-service';
+import { EnvVarsUtils } from '../../services/env-vars-utils';
+import { cleanAndFormat } from '../../services/string-utils';
+import { TaskService } from '../../services/task-service';
+import { TestResultsService } from '../../services/test-results-service';
+import { showProgress } from '../../ui/progress';
+import * as vscode from 'vscode';
+
+
+export class CoverageController implements BazelTargetController {
+    constructor(private readonly context: vscode.ExtensionContext,
+        private readonly configurationManager: ConfigurationManager,
+        private readonly taskService: TaskService,
+        private readonly bazelTargetStateManager: BazelTargetStateManager,
+        private readonly buildEventService: BuildEventService,
+        private readonly testResultsService: TestResultsService,
+        private readonly coverageService: CoverageService
+    ) { }
+
+    public async execute(target: BazelTarget, onCommand?: (command: string) => void) {
+        const coverageCommand = await this.getExecuteCommand(target);
+        if (!coverageCommand) {
+            vscode.window.showErrorMessage('Coverage failed. Could not get coverage target.');
+            return;
+        }
+        onCommand?.(coverageCommand);
+
+        const taskLabel = `${target.action} ${target.bazelPath}`;
+
+        return showProgress(`Running coverage of ${target.bazelPath}`, async (cancellationToken) => {
+            try {
+                this.bazelTargetStateManager.setTargetState(target, BazelTargetState.Executing);
+                await this.buildEventService.runWithBuildEvents(target, coverageCommand, (command, problemMatchers) => {
+                    return this.taskService.runTask(taskLabel, command,
+                        this.configurationManager.isClearTerminalBeforeAction(),
+                        cancellationToken, target.id, {}, 'shell', 'onDidEndTask', problemMatchers,
+                        target.getWorkspaceRoot());
+                });
+                await this.testResultsService.updateTestResults(target);
+                const report = await this.coverageService.updateCoverageReport(target);
+                if (!report) {
+                    vscode.window.showWarningMessage(`No coverage report was written for ${target.bazelPath}.`);
+                }
+            } catch (error) {
+                return Promise.reject(error);
+            } finally {
+                this.bazelTargetStateManager.setTargetState(target, BazelTargetState.Idle);
+            }
+        });
+    }
+
+    public async getExecuteCommand(target: BazelTarget): Promise<string | undefined> {
+
+        if (!target) {
+            return undefined;
+        }
+        const executable = this.configurationManager.getExecutableCommand();
+        const bazelArgs = target.getBazelArgs();
+        const configArgs = target.getConfigArgs();
+        const envVars = EnvVarsUtils.toTestEnvVars(target.getEnvVars().toStringArray());
+        const testArgs = target.getRunArgs();
+
+        // The combined report merges the coverage of all tests into bazel-out/_coverage/_coverage_report.dat
+        const bazelTarget = target.bazelPath;
+        const command = cleanAndFormat(
+            executable,
+            'coverage',
+            '--combined_report=lcov',
+            bazelArgs.toString(),
+            configArgs.toString(),
+            envVars,
+            bazelTarget,
+            testArgs.toString()
+        );
+
+        return `${command}\n`;
+    }
+}
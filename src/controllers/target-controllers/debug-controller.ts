@@ -34,7 +34,6 @@ import { EnvVarsUtils } from '../../services/env-vars-utils';
 import { getAvailablePort, waitForPort } from '../../services/network-utils';
 import { cleanAndFormat } from '../../services/string-utils';
 import { TaskService } from '../../services/task-service';
-import { WorkspaceService } from '../../services/workspace-service';
 import { showProgress } from '../../ui/progress';
 import * as path from 'path';
 import * as vscode from 'vscode';
@@ -51,19 +50,19 @@ export class DebugController implements BazelTargetController {
     ) {}
 
     private async createAttachConfig(target: BazelTarget, port: number): Promise<vscode.DebugConfiguration> {
-        const plugin = LanguageRegistry.getPlugin(target.language);
+        const plugin = LanguageRegistry.getPlugin(target.language, target.getWorkspaceFolder());
         return plugin.createDebugAttachConfig(target, port);
     }
 
-    public async execute(target: BazelTarget): Promise<void> {
+    public async execute(target: BazelTarget, onCommand?: (command: string) => void): Promise<void> {
         try {
             this.bazelTargetStateManager.setTargetState(target, BazelTargetState.Debugging);
 
             const shouldRunDirect = this.configurationManager.shouldRunBinariesDirect() && target.action === 'run';
             if (!shouldRunDirect) {
-                await this.debugInBazel(target);
+                await this.debugInBazel(target, onCommand);
             } else {
-                await this.debugDirect(target);
+                await this.debugDirect(target, onCommand);
             }
         } catch (error) {
             return Promise.reject(error);
@@ -122,7 +121,7 @@ export class DebugController implements BazelTargetController {
 
         const targetPath = target.buildPath;//await this.bazelService.getBazelTargetBuildPath(target);
         // Program (executable) path with respect to workspace.
-        const programPath = path.join(WorkspaceService.getInstance().getWorkspaceFolder().uri.path, targetPath);
+        const programPath = path.join(target.getWorkspaceRoot(), targetPath);
         const runArgs = target.getRunArgs().toString();
         return `${DebugController.getDebugServerCommand(target, port)} ${programPath} ${runArgs}`;
     }
@@ -145,11 +144,12 @@ export class DebugController implements BazelTargetController {
             this.configurationManager.isClearTerminalBeforeAction(),
             cancellationToken,
             target.id,
-            envVars, 'shell', 'onDidStartTask');
+            envVars, 'shell', 'onDidStartTask', '$gcc',
+            target.getWorkspaceRoot());
 
     }
 
-    private async debugInBazel(target: BazelTarget) {
+    private async debugInBazel(target: BazelTarget, onCommand?: (command: string) => void) {
         // Start a debug server
         return showProgress(`Debugging ${target.action} ${target.bazelPath}`, async (cancellationToken) => {
             Console.info('Start debugging...');
@@ -164,6 +164,7 @@ export class DebugController implements BazelTargetController {
 
             // Get the command to launch the debug server (including the target)
             const runCommand = this.getDebugInBazelCommand(target, port);
+            onCommand?.(runCommand);
 
             // Launch a debug server and await until the task execution starts
             const serverExec = await this.startDebugServer(target, port, runCommand, cancellationToken);
@@ -185,7 +186,7 @@ export class DebugController implements BazelTargetController {
             Console.info('Start debugging...');
             // Start debugging
             const started = await vscode.debug.startDebugging(
-                WorkspaceService.getInstance().getWorkspaceFolder(),
+                this.bazelService.getWorkspaceFolder(),
                 config
             );
 
@@ -198,24 +199,28 @@ export class DebugController implements BazelTargetController {
                 }
             }
 
-            // Kill the server when the debugging is disconnected
+            // Stop the server, and the binary it debugs, when the debugging is disconnected
             const disp = vscode.debug.onDidTerminateDebugSession((session) => {
                 if (session.id === debugSessionId) {
                     disp.dispose(); // Clean up the event listener
-                    serverExec?.terminate();
+                    if (serverExec) {
+                        this.taskService.terminateTask(serverExec);
+                    }
                 }
             });
         });
     }
 
-    private async debugDirect(target: BazelTarget) {
+    private async debugDirect(target: BazelTarget, onCommand?: (command: string) => void) {
         // Debug direct uses a launch config rather than attach config
         if (this.configurationManager.shouldBuildBeforeLaunch()) {
             await this.buildController.execute(target);
         }
         return showProgress(`Debugging ${target.action} ${target.buildPath}`, async (cancellationToken) => {
-            const config = await LanguageRegistry.getPlugin(target.language).createDebugDirectLaunchConfig(target, cancellationToken);
-            await vscode.debug.startDebugging(WorkspaceService.getInstance().getWorkspaceFolder(), config);
+            // The launch config starts the program itself
+            onCommand?.(`${path.join(target.getWorkspaceRoot(), target.buildPath)} ${target.getRunArgs().toString()}`);
+            const config = await LanguageRegistry.getPlugin(target.language, target.getWorkspaceFolder()).createDebugDirectLaunchConfig(target, cancellationToken);
+            await vscode.debug.startDebugging(this.bazelService.getWorkspaceFolder(), config);
         });
     }
 
@@ -224,11 +229,11 @@ export class DebugController implements BazelTargetController {
     }
 
     private static getDebugEnvVars(target: BazelTarget): string[] {
-        return LanguageRegistry.getPlugin(target.language).getDebugEnvVars(target);
+        return LanguageRegistry.getPlugin(target.language, target.getWorkspaceFolder()).getDebugEnvVars(target);
     }
 
     private static getDebugServerCommand(target: BazelTarget, port: number): string {
-        return LanguageRegistry.getPlugin(target.language).getDebugRunUnderCommand(port);
+        return LanguageRegistry.getPlugin(target.language, target.getWorkspaceFolder()).getDebugRunUnderCommand(port);
     }
 
 }
\ No newline at end of file
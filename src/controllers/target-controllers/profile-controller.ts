@@ -0,0 +1,103 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelTargetController } from './bazel-target-controller';
+import { BazelTarget } from '../../models/bazel-target';
+import { BazelTargetState, BazelTargetStateManager } from '../../models/bazel-target-state-manager';
+import { BuildEventService } from '../../services/build-event-service';
+import { ConfigurationManager } from '../../services/configuration-manager';
+import { EnvVarsUtils } from '../../services/env-vars-utils';
+import { ProfileService } from '../../services/profile-service';
+import { cleanAndFormat } from '../../services/string-utils';
+import { TaskService } from '../../services/task-service';
+import { showProgress } from '../../ui/progress';
+import * as vscode from 'vscode';
+
+
+export class ProfileController implements BazelTargetController {
+    constructor(private readonly context: vscode.ExtensionContext,
+        private readonly configurationManager: ConfigurationManager,
+        private readonly taskService: TaskService,
+        private readonly bazelTargetStateManager: BazelTargetStateManager,
+        private readonly buildEventService: BuildEventService,
+        private readonly profileService: ProfileService
+    ) { }
+
+    public async execute(target: BazelTarget, onCommand?: (command: string) => void) {
+        const profileCommand = await this.getExecuteCommand(target);
+        if (!profileCommand) {
+            vscode.window.showErrorMessage('Profile failed. Could not get build target.');
+            return;
+        }
+        onCommand?.(profileCommand);
+
+        const taskLabel = `profile ${target.bazelPath}`;
+
+        return showProgress(`Profiling the build of ${target.bazelPath}`, async (cancellationToken) => {
+            try {
+                this.bazelTargetStateManager.setTargetState(target, BazelTargetState.Executing);
+                await this.profileService.createProfileDirectory();
+                const startTime = Date.now();
+                await this.buildEventService.runWithBuildEvents(target, profileCommand, (command, problemMatchers) => {
+                    return this.taskService.runTask(taskLabel, command,
+                        this.configurationManager.isClearTerminalBeforeAction(),
+                        cancellationToken, target.id, {}, 'shell', 'onDidEndTask', problemMatchers,
+                        target.getWorkspaceRoot());
+                });
+                const profile = await this.profileService.updateProfile(target, profileCommand, startTime);
+                if (!profile) {
+                    vscode.window.showWarningMessage(`No profile was written for ${target.bazelPath}.`);
+                }
+            } catch (error) {
+                return Promise.reject(error);
+            } finally {
+                this.bazelTargetStateManager.setTargetState(target, BazelTargetState.Idle);
+            }
+        });
+    }
+
+    public async getExecuteCommand(target: BazelTarget): Promise<string | undefined> {
+
+        if (!target) {
+            return undefined;
+        }
+        const executable = this.configurationManager.getExecutableCommand();
+        // Whatever the action of the target, its build is profiled. The args of other actions,
+        // e.g. --test_output, are not accepted by bazel build.
+        const bazelArgs = target.action === 'build' ? target.getBazelArgs().toString() : '';
+        const configArgs = target.getConfigArgs();
+        const buildEnvVars = EnvVarsUtils.toBuildEnvVars(target.getEnvVars().toStringArray());
+
+        const command = cleanAndFormat(
+            executable,
+            'build',
+            `--profile='${this.profileService.getProfilePath(target)}'`,
+            bazelArgs,
+            configArgs.toString(),
+            target.bazelPath,
+            buildEnvVars
+        );
+
+        return `${command}\n`;
+    }
+}
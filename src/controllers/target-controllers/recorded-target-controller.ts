@@ -0,0 +1,51 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelTargetController } from './bazel-target-controller';
+import { BazelTarget } from '../../models/bazel-target';
+import { ExecutionHistoryService } from '../../services/execution-history-service';
+
+/**
+ * Records the executions of the controller of an action in the execution history.
+ */
+export class RecordedTargetController implements BazelTargetController {
+    /**
+     * @param action The action the controller runs, or '*' for the action of each target.
+     */
+    constructor(private readonly action: string,
+        private readonly controller: BazelTargetController,
+        private readonly executionHistoryService: ExecutionHistoryService
+    ) { }
+
+    public async execute(target: BazelTarget, onCommand?: (command: string) => void): Promise<void> {
+        const action = this.action === '*' ? target.action : this.action;
+        return this.executionHistoryService.record(target, action, (recordCommand) => this.controller.execute(target, (command) => {
+            recordCommand(command);
+            onCommand?.(command);
+        }));
+    }
+
+    public async getExecuteCommand(target: BazelTarget): Promise<string | undefined> {
+        return this.controller.getExecuteCommand(target);
+    }
+}
@@ -27,11 +27,11 @@ import { BuildController } from './build-controller';
 import { BazelTarget } from '../../models/bazel-target';
 import { BazelTargetState, BazelTargetStateManager } from '../../models/bazel-target-state-manager';
 import { BazelService } from '../../services/bazel-service';
+import { BuildEventService } from '../../services/build-event-service';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { EnvVarsUtils } from '../../services/env-vars-utils';
 import { capitalizeFirstLetter, cleanAndFormat } from '../../services/string-utils';
 import { TaskService } from '../../services/task-service';
-import { WorkspaceService } from '../../services/workspace-service';
 import { showProgress } from '../../ui/progress';
 import * as path from 'path';
 import * as vscode from 'vscode';
@@ -43,16 +43,17 @@ export class RunController implements BazelTargetController {
         private readonly taskService: TaskService,
         private readonly bazelService: BazelService,
         private readonly buildController: BuildController,
-        private readonly bazelTargetStateManager: BazelTargetStateManager
+        private readonly bazelTargetStateManager: BazelTargetStateManager,
+        private readonly buildEventService: BuildEventService
     ) { }
 
-    public async execute(target: BazelTarget): Promise<void> {
+    public async execute(target: BazelTarget, onCommand?: (command: string) => void): Promise<void> {
         try {
             this.bazelTargetStateManager.setTargetState(target, BazelTargetState.Executing);
             if (!this.configurationManager.shouldRunBinariesDirect()) {
-                await this.runInBazel(target);
+                await this.runInBazel(target, onCommand);
             } else {
-                await this.runDirect(target);
+                await this.runDirect(target, onCommand);
             }
         } catch (error) {
             return Promise.reject(error);
@@ -61,7 +62,7 @@ export class RunController implements BazelTargetController {
         }
     }
 
-    private async runInBazel(target: BazelTarget) {
+    private async runInBazel(target: BazelTarget, onCommand?: (command: string) => void) {
 
         // target is in the form of a relative path: bazel-bin/path/executable
         // bazelTarget is in the form of //path:executable
@@ -75,18 +76,22 @@ export class RunController implements BazelTargetController {
                 vscode.window.showErrorMessage('Run failed. Could not get run target.');
                 return;
             }
-
-            return this.taskService.runTask(
-                `${target.action} ${bazelTarget}`,
-                runCommand,
-                this.configurationManager.isClearTerminalBeforeAction(),
-                cancellationToken,
-                target.id,
-                envVars);
+            onCommand?.(runCommand);
+
+            return this.buildEventService.runWithBuildEvents(target, runCommand, (command, problemMatchers) => {
+                return this.taskService.runTask(
+                    `${target.action} ${bazelTarget}`,
+                    command,
+                    this.configurationManager.isClearTerminalBeforeAction(),
+                    cancellationToken,
+                    target.id,
+                    envVars, 'shell', 'onDidEndTask', problemMatchers,
+                    target.getWorkspaceRoot());
+            });
         });
     }
 
-    private async runDirect(target: BazelTarget) {
+    private async runDirect(target: BazelTarget, onCommand?: (command: string) => void) {
         if (this.configurationManager.shouldBuildBeforeLaunch()) {
             await this.buildController.execute(target);
         }
@@ -94,14 +99,15 @@ export class RunController implements BazelTargetController {
         return showProgress(`${capitalizeFirstLetter(target.action)}ing ${target.buildPath}`, async (cancellationToken) => {
             const targetPath = target.buildPath;//await this.bazelService.getBazelTargetBuildPath(target);
             // Program (executable) path with respect to workspace.
-            const programPath = path.join(WorkspaceService.getInstance().getWorkspaceFolder().uri.path, targetPath);
+            const programPath = path.join(target.getWorkspaceRoot(), targetPath);
 
             const args = target.getRunArgs().toString();
             const envVars = EnvVarsUtils.listToObject(target.getEnvVars().toStringArray());
+            onCommand?.(`${programPath} ${args}`);
 
             return this.taskService.runTask(`${target.action} ${programPath}`, `${programPath} ${args}`,
                 this.configurationManager.isClearTerminalBeforeAction(), cancellationToken,
-                target.id, envVars, 'process');
+                target.id, envVars, 'process', 'onDidEndTask', '$gcc', target.getWorkspaceRoot());
         });
     }
 
@@ -149,7 +155,7 @@ export class RunController implements BazelTargetController {
 
         const targetPath = target.buildPath;//await this.bazelService.getBazelTargetBuildPath(target);
         // Program (executable) path with respect to workspace.
-        const programPath = path.join(WorkspaceService.getInstance().getWorkspaceFolder().uri.path, targetPath);
+        const programPath = path.join(target.getWorkspaceRoot(), targetPath);
         const runArgs = target.getRunArgs().toString();
         return `${programPath} ${runArgs}`;
     }
@@ -25,10 +25,12 @@
 import { BazelTargetController } from './bazel-target-controller';
 import { BazelTarget } from '../../models/bazel-target';
 import { BazelTargetState, BazelTargetStateManager } from '../../models/bazel-target-state-manager';
+import { BuildEventService } from '../../services/build-event-service';
 import { ConfigurationManager } from '../../services/configuration-manager';
 import { EnvVarsUtils } from '../../services/env-vars-utils';
 import { capitalizeFirstLetter, cleanAndFormat } from '../../services/string-utils';
 import { TaskService } from '../../services/task-service';
+import { TestResultsService } from '../../services/test-results-service';
 import { showProgress } from '../../ui/progress';
 import * as vscode from 'vscode';
 
@@ -37,24 +39,31 @@ export class TestController implements BazelTargetController {
     constructor(private readonly context: vscode.ExtensionContext,
         private readonly configurationManager: ConfigurationManager,
         private readonly taskService: TaskService,
-        private readonly bazelTargetStateManager: BazelTargetStateManager
+        private readonly bazelTargetStateManager: BazelTargetStateManager,
+        private readonly buildEventService: BuildEventService,
+        private readonly testResultsService: TestResultsService
     ) { }
 
-    public async execute(target: BazelTarget) {
+    public async execute(target: BazelTarget, onCommand?: (command: string) => void) {
         const testCommand = await this.getExecuteCommand(target);
         if (!testCommand) {
             vscode.window.showErrorMessage('Test failed. Could not get test target.');
             return;
         }
+        onCommand?.(testCommand);
 
         const taskLabel = `${target.action} ${target.bazelPath}`;
 
         return showProgress(`${capitalizeFirstLetter(target.action)}ing ${target.bazelPath}`, async (cancellationToken) => {
             try {
                 this.bazelTargetStateManager.setTargetState(target, BazelTargetState.Executing);
-                await this.taskService.runTask(taskLabel, testCommand,
-                    this.configurationManager.isClearTerminalBeforeAction(),
-                    cancellationToken, target.id);
+                await this.buildEventService.runWithBuildEvents(target, testCommand, (command, problemMatchers) => {
+                    return this.taskService.runTask(taskLabel, command,
+                        this.configurationManager.isClearTerminalBeforeAction(),
+                        cancellationToken, target.id, {}, 'shell', 'onDidEndTask', problemMatchers,
+                        target.getWorkspaceRoot());
+                });
+                await this.testResultsService.updateTestResults(target);
             } catch (error) {
                 return Promise.reject(error);
             } finally {
@@ -0,0 +1,412 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { WorkspaceFolderControllerManager, WorkspaceFolderControllers } from './workspace-folder-controller-manager';
+import { LanguageRegistry } from '../languages/language-registry';
+import { BazelFileCoverage } from '../models/bazel-coverage';
+import { BazelCoverageManager } from '../models/bazel-coverage-manager';
+import { BazelInvocationManager } from '../models/bazel-invocation-manager';
+import { BazelTarget } from '../models/bazel-target';
+import { BazelTestCaseResult } from '../models/bazel-test-results';
+import { BazelParser } from '../services/bazel-parser';
+import { Console } from '../services/console';
+import { ExtensionUtils } from '../services/extension-utils';
+import { TestResultsService } from '../services/test-results-service';
+import { WorkspaceService } from '../services/workspace-service';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * What a test item stands for: a test target, or one test case of it if testName is set.
+ */
+interface TestItemData {
+    target: BazelTarget;
+    controllers: WorkspaceFolderControllers;
+    testName?: string;
+}
+
+/**
+ * Shows the test targets of every workspace folder in the Testing view, with the test cases
+ * found in their sources by the code lens regexes of the language plugins. Tests are run and
+ * debugged by the test and debug controllers of their workspace folder, and the results of each
+ * test case are read from the test outputs of the run. Where VS Code supports test coverage,
+ * coverage runs report the coverage of their files as well.
+ */
+export class TestExplorerController {
+    private readonly testController: vscode.TestController;
+    private readonly itemData: WeakMap<vscode.TestItem, TestItemData> = new WeakMap();
+    // The resolved target items by the source files their test cases were found in
+    private readonly itemsBySourceFile: Map<string, Set<vscode.TestItem>> = new Map();
+    private readonly fileCoverageData: WeakMap<vscode.FileCoverage, BazelFileCoverage> = new WeakMap();
+
+    constructor(context: vscode.ExtensionContext,
+        private readonly workspaceFolderControllerManager: WorkspaceFolderControllerManager,
+        private readonly bazelInvocationManager: BazelInvocationManager,
+        private readonly testResultsService: TestResultsService,
+        private readonly bazelCoverageManager: BazelCoverageManager
+    ) {
+        const extensionName = ExtensionUtils.getExtensionName(context);
+        this.testController = vscode.tests.createTestController(extensionName, ExtensionUtils.getExtensionDisplayName(context));
+        this.testController.resolveHandler = (item) => this.resolve(item);
+        this.testController.refreshHandler = () => this.discoverAll();
+
+        this.testController.createRunProfile('Run', vscode.TestRunProfileKind.Run,
+            (request, token) => this.runTests(request, vscode.TestRunProfileKind.Run, token), true);
+        this.testController.createRunProfile('Debug', vscode.TestRunProfileKind.Debug,
+            (request, token) => this.runTests(request, vscode.TestRunProfileKind.Debug, token), true);
+        // The test coverage API is not available before VS Code 1.88
+        if (typeof vscode.FileCoverage === 'function') {
+            const coverageProfile = this.testController.createRunProfile('Coverage', vscode.TestRunProfileKind.Coverage,
+                (request, token) => this.runTests(request, vscode.TestRunProfileKind.Coverage, token), true);
+            coverageProfile.loadDetailedCoverage = async (_run, fileCoverage) => this.loadDetailedCoverage(fileCoverage);
+        }
+
+        this.workspaceFolderControllerManager.getAllControllers().forEach(controllers => {
+            context.subscriptions.push(controllers.bazelTargetManager.onDidChangeAvailableTargets(() => this.discover(controllers)));
+            // The available targets may have been loaded already
+            this.discover(controllers);
+        });
+
+        context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
+            const items = this.itemsBySourceFile.get(document.uri.fsPath);
+            if (items) {
+                items.forEach(item => this.resolve(item));
+            }
+        }));
+        context.subscriptions.push(this.testController);
+    }
+
+    private async discoverAll() {
+        this.workspaceFolderControllerManager.getAllControllers().forEach(controllers => this.discover(controllers));
+    }
+
+    /**
+     * Replaces the test targets of a workspace folder with its available test targets.
+     * Workspace folders have their own parent item in multi-root workspaces.
+     */
+    private discover(controllers: WorkspaceFolderControllers) {
+        let parentItems = this.testController.items;
+        if (WorkspaceService.getInstance().isMultiRoot()) {
+            const workspaceFolder = controllers.workspaceFolder;
+            let folderItem = this.testController.items.get(workspaceFolder.uri.toString());
+            if (!folderItem) {
+                folderItem = this.testController.createTestItem(workspaceFolder.uri.toString(), workspaceFolder.name, workspaceFolder.uri);
+                this.testController.items.add(folderItem);
+            }
+            parentItems = folderItem.children;
+        }
+
+        const targets = controllers.bazelTargetManager.getAvailableTargets('test');
+        parentItems.replace(targets.map(target => {
+            const id = `${target.getWorkspaceRoot()}${target.bazelPath}`;
+            const existingItem = parentItems.get(id);
+            const location = TestExplorerController.getBuildFileLocation(target);
+            const item = existingItem || this.testController.createTestItem(id, target.bazelPath, location?.uri);
+            item.range = location?.range;
+            item.canResolveChildren = true;
+            this.itemData.set(item, { target: target, controllers: controllers });
+            if (existingItem && existingItem.children.size > 0) {
+                // Keep the test cases up to date if they were shown before
+                this.resolve(item);
+            }
+            return item;
+        }));
+        Console.info(`Discovered ${targets.length} test targets in ${controllers.workspaceFolder.name}`);
+    }
+
+    private async resolve(item: vscode.TestItem | undefined) {
+        if (!item) {
+            return this.discoverAll();
+        }
+
+        const data = this.itemData.get(item);
+        if (!data || data.testName !== undefined) {
+            return;
+        }
+
+        let regex: RegExp;
+        try {
+            regex = LanguageRegistry.getPlugin(data.target.language, data.target.getWorkspaceFolder()).getCodeLensTestRegex();
+        } catch (error) {
+            // Without language support the target can only be run as a whole
+            item.canResolveChildren = false;
+            return;
+        }
+
+        item.busy = true;
+        const testItems: vscode.TestItem[] = [];
+        for (const sourceFile of TestExplorerController.getSourceFiles(data.target)) {
+            let text: string;
+            try {
+                text = await fs.promises.readFile(sourceFile, 'utf8');
+            } catch (error) {
+                // Generated sources and labels of other targets are not files in the workspace
+                continue;
+            }
+
+            const items = this.itemsBySourceFile.get(sourceFile) || new Set();
+            items.add(item);
+            this.itemsBySourceFile.set(sourceFile, items);
+
+            const uri = vscode.Uri.file(sourceFile);
+            const fileRegex = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`);
+            let match;
+            while ((match = fileRegex.exec(text)) !== null) {
+                const testName = TestExplorerController.getTestName(match, data.target.language);
+                const testItem = this.testController.createTestItem(`${item.id}/${testName}`, testName, uri);
+                const line = text.substring(0, match.index + match[0].search(/\S/)).split('\n').length - 1;
+                testItem.range = new vscode.Range(line, 0, line, 0);
+                this.itemData.set(testItem, { ...data, testName: testName });
+                testItems.push(testItem);
+            }
+        }
+        item.children.replace(testItems);
+        item.busy = false;
+    }
+
+    private async runTests(request: vscode.TestRunRequest, kind: vscode.TestRunProfileKind, token: vscode.CancellationToken) {
+        const run = this.testController.createTestRun(request);
+        const queue = this.getTestsToRun(request);
+        queue.forEach((testItems, targetItem) => {
+            run.enqueued(targetItem);
+            testItems.forEach(testItem => run.enqueued(testItem));
+        });
+
+        for (const [targetItem, testItems] of queue) {
+            const items = [targetItem, ...testItems];
+            if (token.isCancellationRequested) {
+                items.forEach(item => run.skipped(item));
+                continue;
+            }
+
+            const data = this.itemData.get(targetItem) as TestItemData;
+            items.forEach(item => run.started(item));
+            try {
+                const target = this.createTarget(data.target, testItems, kind);
+                const action = kind === vscode.TestRunProfileKind.Debug ? 'debug' : target.action;
+                await data.controllers.bazelTargetControllerManager.getController(action)?.execute(target);
+                await this.reportResults(run, target, targetItem, testItems);
+                if (kind === vscode.TestRunProfileKind.Coverage) {
+                    this.reportCoverage(run, target);
+                }
+            } catch (error) {
+                Console.error(`Error running tests of ${data.target.bazelPath}:`, error);
+                items.forEach(item => run.errored(item, new vscode.TestMessage(`${error}`)));
+            }
+        }
+        run.end();
+    }
+
+    /**
+     * Groups the test cases to run by their target item. The test cases are empty if the
+     * whole target runs.
+     */
+    private getTestsToRun(request: vscode.TestRunRequest): Map<vscode.TestItem, vscode.TestItem[]> {
+        const queue: Map<vscode.TestItem, vscode.TestItem[]> = new Map();
+        const excluded = new Set(request.exclude || []);
+        const addItem = (item: vscode.TestItem) => {
+            if (excluded.has(item)) {
+                return;
+            }
+            const data = this.itemData.get(item);
+            if (!data) {
+                // A workspace folder item
+                item.children.forEach(addItem);
+            } else if (data.testName === undefined) {
+                const testItems: vscode.TestItem[] = [];
+                item.children.forEach(testItem => testItems.push(testItem));
+                const includedItems = testItems.filter(testItem => !excluded.has(testItem));
+                queue.set(item, includedItems.length < testItems.length ? includedItems : []);
+            } else if (item.parent && !excluded.has(item.parent)) {
+                const testItems = queue.get(item.parent);
+                if (testItems === undefined) {
+                    queue.set(item.parent, [item]);
+                } else if (testItems.length > 0 && !testItems.includes(item)) {
+                    testItems.push(item);
+                }
+            }
+        };
+
+        if (request.include) {
+            request.include.forEach(addItem);
+        } else {
+            this.testController.items.forEach(addItem);
+        }
+        return queue;
+    }
+
+    private createTarget(availableTarget: BazelTarget, testItems: vscode.TestItem[], kind: vscode.TestRunProfileKind): BazelTarget {
+        const target = availableTarget.clone();
+        if (kind === vscode.TestRunProfileKind.Coverage) {
+            target.action = 'coverage';
+        }
+        if (testItems.length > 0) {
+            const testNames = testItems.map(item => (this.itemData.get(item) as TestItemData).testName);
+            // gtest separates filters with colons, the other runners take a regex
+            const separator = target.language === 'cpp' || target.language === 'c' ? ':' : '|';
+            target.getBazelArgs().add(`--test_filter=${testNames.join(separator)}`);
+        }
+        if (kind === vscode.TestRunProfileKind.Debug) {
+            target.getBazelArgs().add('--compilation_mode=dbg');
+        }
+        return target;
+    }
+
+    private reportCoverage(run: vscode.TestRun, target: BazelTarget) {
+        const report = this.bazelCoverageManager.getCoverageReport(target);
+        if (!report) {
+            return;
+        }
+        report.files.forEach(file => {
+            const lines = file.getLineCount();
+            const branches = file.getBranchCount();
+            const functions = file.getFunctionCount();
+            const fileCoverage = new vscode.FileCoverage(vscode.Uri.file(file.filePath),
+                new vscode.TestCoverageCount(lines.covered, lines.total),
+                branches.total > 0 ? new vscode.TestCoverageCount(branches.covered, branches.total) : undefined,
+                functions.total > 0 ? new vscode.TestCoverageCount(functions.covered, functions.total) : undefined);
+            this.fileCoverageData.set(fileCoverage, file);
+            run.addCoverage(fileCoverage);
+        });
+    }
+
+    private loadDetailedCoverage(fileCoverage: vscode.FileCoverage): vscode.FileCoverageDetail[] {
+        const file = this.fileCoverageData.get(fileCoverage);
+        if (!file) {
+            return [];
+        }
+
+        const branchesByLine = file.getBranchesByLine();
+        const details: vscode.FileCoverageDetail[] = [];
+        file.coverage.lines.forEach((count, line) => {
+            const position = new vscode.Position(line - 1, 0);
+            const branches = (branchesByLine.get(line) || []).map(branch =>
+                new vscode.BranchCoverage(branch.taken || 0, position, `block ${branch.block}, branch ${branch.branch}`));
+            details.push(new vscode.StatementCoverage(count, position, branches));
+        });
+        file.coverage.functions.filter(func => func.line > 0).forEach(func => {
+            details.push(new vscode.DeclarationCoverage(func.name, func.count, new vscode.Position(func.line - 1, 0)));
+        });
+        return details;
+    }
+
+    private async reportResults(run: vscode.TestRun, target: BazelTarget, targetItem: vscode.TestItem,
+        testItems: vscode.TestItem[]) {
+        const testResults = await this.testResultsService.readTestResults(target);
+        const testCases = testResults ? testResults.getTestCases() : [];
+
+        if (testCases.length === 0) {
+            const invocation = this.bazelInvocationManager.getLastInvocation(target);
+            const message = new vscode.TestMessage(`No test results were written by ${target.bazelPath}.`);
+            if (invocation && invocation.isFinished() && invocation.isSuccess()) {
+                run.passed(targetItem);
+                testItems.forEach(item => run.skipped(item));
+            } else {
+                [targetItem, ...testItems].forEach(item => run.errored(item, message));
+            }
+            return;
+        }
+
+        // All test cases of the target get results if it ran as a whole
+        const caseItems = [...testItems];
+        if (caseItems.length === 0) {
+            targetItem.children.forEach(item => caseItems.push(item));
+        }
+
+        caseItems.forEach(item => {
+            const testName = (this.itemData.get(item) as TestItemData).testName as string;
+            // Typed and parameterized tests have a test case per instantiation
+            const matchingTestCases = testCases.filter(testCase => TestExplorerController.matchesTestName(testCase, testName));
+            this.reportTestCases(run, item, matchingTestCases);
+        });
+        this.reportTestCases(run, targetItem, testCases);
+    }
+
+    private reportTestCases(run: vscode.TestRun, item: vscode.TestItem, testCases: BazelTestCaseResult[]) {
+        const durationMillis = testCases.reduce((total, testCase) => total + (testCase.getDurationMillis() || 0), 0);
+        const failedTestCases = testCases.filter(testCase => testCase.getStatus() === 'failed');
+        if (failedTestCases.length > 0) {
+            run.failed(item, failedTestCases.map(testCase => this.createTestMessage(item, testCase)), durationMillis);
+        } else if (testCases.every(testCase => testCase.getStatus() === 'skipped')) {
+            // Test cases that did not run at all count as skipped as well
+            run.skipped(item);
+        } else {
+            run.passed(item, durationMillis);
+        }
+    }
+
+    private createTestMessage(item: vscode.TestItem, testCase: BazelTestCaseResult): vscode.TestMessage {
+        const failure = testCase.getFailure();
+        const details = [failure?.message, failure?.stackTrace].filter(part => part).join('\n') || failure?.output || 'Test failed';
+        const message = new vscode.TestMessage(item.children.size > 0 ? `${testCase.getFullName()}: ${details}` : details);
+
+        // Point at the line of the test that failed, or else at the test itself
+        const location = testCase.locations.find(location => item.uri && location.filePath === item.uri.fsPath) || testCase.locations[0];
+        if (location) {
+            const position = new vscode.Position(location.line - 1, Math.max(0, (location.column || 1) - 1));
+            message.location = new vscode.Location(vscode.Uri.file(location.filePath), position);
+        } else if (item.uri && item.range) {
+            message.location = new vscode.Location(item.uri, item.range);
+        }
+        return message;
+    }
+
+    private static getSourceFiles(target: BazelTarget): string[] {
+        const packagePath = BazelParser.getPackageFromBazelPath(target.bazelPath).replace(/^\/\//, '');
+        const srcs = target.metadata.srcs || [];
+        return srcs.filter(src => !src.startsWith('@')).map(src => {
+            // Sources are labels, e.g. //foo:bar_test.cc or :bar_test.cc, or paths relative to the package
+            const [srcPackage, srcName] = src.startsWith('//') ? src.substring(2).split(':') : [packagePath, src.replace(/^:/, '')];
+            return path.join(target.getWorkspaceRoot(), ...srcPackage.split('/'), ...(srcName || '').split('/'));
+        });
+    }
+
+    private static getTestName(match: RegExpExecArray, language?: string): string {
+        if (language === 'cpp' || language === 'c') {
+            // Combine FixtureName and TestName for C++/C tests
+            return `${match[1]}.${match[2]}`;
+        }
+        return match[1] || match[2];
+    }
+
+    /**
+     * Matches a test case of a test.xml with the name of a test found in the sources, ignoring
+     * the instantiation of typed and value-parameterized gtests (e.g. Prefix/Fixture/0.Test/1).
+     */
+    private static matchesTestName(testCase: BazelTestCaseResult, testName: string): boolean {
+        const name = testCase.name.replace(/\/\d+$/, '');
+        const classname = testCase.classname.replace(/\/\d+$/, '').replace(/^\w+\//, '');
+        return name === testName || `${classname}.${name}` === testName;
+    }
+
+    private static getBuildFileLocation(target: BazelTarget): vscode.Location | undefined {
+        // The location is the BUILD file and line of the rule, e.g. /ws/foo/BUILD:12:5
+        const match = (target.metadata.location || '').match(/^(.*?):(\d+)(?::\d+)?$/);
+        if (!match) {
+            return undefined;
+        }
+        const line = Math.max(0, Number(match[2]) - 1);
+        return new vscode.Location(vscode.Uri.file(match[1]), new vscode.Position(line, 0));
+    }
+}
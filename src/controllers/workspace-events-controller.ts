@@ -22,26 +22,47 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 import { registerCustomButtons } from './commands/user-commands';
-import { UserCommandsController } from './user-commands-controller';
-import { ConfigurationManager } from '../services/configuration-manager';
+import { WorkspaceFolderControllerManager } from './workspace-folder-controller-manager';
 import { ExtensionUtils } from '../services/extension-utils';
 import { BazelTargetTreeProvider } from '../ui/bazel-target-tree-provider';
 import * as vscode from 'vscode';
 
 export class WorkspaceEventsController {
     constructor(private context: vscode.ExtensionContext,
-        private readonly configurationManager: ConfigurationManager,
-        private readonly userCommandsController: UserCommandsController,
+        private readonly workspaceFolderControllerManager: WorkspaceFolderControllerManager,
         private readonly bazelTree: BazelTargetTreeProvider) {
         this.registerConfigurationChangeHandler();
+        this.registerWorkspaceFoldersChangeHandler();
     }
 
     private registerConfigurationChangeHandler() {
         vscode.workspace.onDidChangeConfiguration((e) => {
-            if (e.affectsConfiguration(ExtensionUtils.getExtensionName(this.context))) {
-                registerCustomButtons(this.context, this.configurationManager, this.userCommandsController);
+            const extensionName = ExtensionUtils.getExtensionName(this.context);
+            if (e.affectsConfiguration(extensionName)) {
+                this.workspaceFolderControllerManager.getAllControllers()
+                    .filter(controllers => e.affectsConfiguration(extensionName, controllers.workspaceFolder))
+                    .forEach(controllers => {
+                        registerCustomButtons(this.context, controllers.configurationManager, controllers.userCommandsController);
+                    });
                 this.bazelTree.refresh();
             }
         });
     }
+
+    private registerWorkspaceFoldersChangeHandler() {
+        // The controllers of each workspace folder are created at activation,
+        // so added folders only get them after a reload.
+        vscode.workspace.onDidChangeWorkspaceFolders((e) => {
+            if (e.added.length === 0) {
+                return;
+            }
+            const displayName = ExtensionUtils.getExtensionDisplayName(this.context);
+            vscode.window.showInformationMessage(`Reload the window to use ${displayName} in the added workspace folders.`, 'Reload')
+                .then((selection) => {
+                    if (selection === 'Reload') {
+                        vscode.commands.executeCommand('workbench.action.reloadWindow');
+                    }
+                });
+        });
+    }
 }
\ No newline at end of file
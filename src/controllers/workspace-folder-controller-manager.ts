@@ -0,0 +1,103 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelController } from './bazel-controller';
+import { BazelTargetOperationsController } from './bazel-target-operations-controller';
+import { DependencyGraphController } from './dependency-graph-controller';
+import { ExecutionHistoryController } from './execution-history-controller';
+import { ReverseDependenciesController } from './reverse-dependencies-controller';
+import { BazelTargetControllerManager } from './target-controllers/bazel-target-controller-manager';
+import { UserCommandsController } from './user-commands-controller';
+import { BazelTarget } from '../models/bazel-target';
+import { BazelTargetManager } from '../models/bazel-target-manager';
+import { ConfigurationManager } from '../services/configuration-manager';
+import { WorkspaceService } from '../services/workspace-service';
+import * as vscode from 'vscode';
+
+/**
+ * The controllers and models of a single workspace folder.
+ */
+export interface WorkspaceFolderControllers {
+    workspaceFolder: vscode.WorkspaceFolder;
+    configurationManager: ConfigurationManager;
+    bazelTargetManager: BazelTargetManager;
+    bazelController: BazelController;
+    userCommandsController: UserCommandsController;
+    bazelTargetControllerManager: BazelTargetControllerManager;
+    bazelTargetOpsController: BazelTargetOperationsController;
+    reverseDependenciesController: ReverseDependenciesController;
+    dependencyGraphController: DependencyGraphController;
+    executionHistoryController: ExecutionHistoryController;
+}
+
+/**
+ * Keeps the controllers of every workspace folder and finds the ones a command applies to.
+ */
+export class WorkspaceFolderControllerManager {
+    private controllers: Map<string, WorkspaceFolderControllers> = new Map();
+
+    public addControllers(controllers: WorkspaceFolderControllers) {
+        this.controllers.set(controllers.workspaceFolder.uri.toString(), controllers);
+    }
+
+    public getAllControllers(): WorkspaceFolderControllers[] {
+        return Array.from(this.controllers.values());
+    }
+
+    public getControllers(workspaceFolder: vscode.WorkspaceFolder): WorkspaceFolderControllers | undefined {
+        return this.controllers.get(workspaceFolder.uri.toString());
+    }
+
+    public getControllersForTarget(target: BazelTarget): WorkspaceFolderControllers | undefined {
+        return this.getControllers(target.getWorkspaceFolder());
+    }
+
+    public getControllersForUri(uri: vscode.Uri): WorkspaceFolderControllers | undefined {
+        const workspaceFolder = WorkspaceService.getInstance().getWorkspaceFolderForUri(uri);
+        return workspaceFolder ? this.getControllers(workspaceFolder) : undefined;
+    }
+
+    /**
+     * Gets the controllers of the workspace folder the user is working in. If that
+     * cannot be decided, the user picks a workspace folder.
+     * @returns The controllers or undefined if the user cancelled the pick.
+     */
+    public async pickControllers(): Promise<WorkspaceFolderControllers | undefined> {
+        const all = this.getAllControllers();
+        if (all.length <= 1) {
+            return all[0];
+        }
+
+        const activeWorkspaceFolder = WorkspaceService.getInstance().getActiveWorkspaceFolder();
+        const activeControllers = activeWorkspaceFolder ? this.getControllers(activeWorkspaceFolder) : undefined;
+        if (activeControllers) {
+            return activeControllers;
+        }
+
+        const workspaceFolder = await vscode.window.showWorkspaceFolderPick({
+            placeHolder: 'Select the workspace folder to run in',
+            ignoreFocusOut: true
+        });
+        return workspaceFolder ? this.getControllers(workspaceFolder) : undefined;
+    }
+}
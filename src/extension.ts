@@ -24,56 +24,92 @@
 import { BazelController } from './controllers/bazel-controller';
 import { BazelTargetOperationsController } from './controllers/bazel-target-operations-controller';
 import { registerCommands } from './controllers/command-controller';
+import { DependencyGraphController } from './controllers/dependency-graph-controller';
+import { ExecutionHistoryController } from './controllers/execution-history-controller';
+import { ProfileViewerController } from './controllers/profile-viewer-controller';
+import { ReverseDependenciesController } from './controllers/reverse-dependencies-controller';
 import { BazelTargetControllerManager } from './controllers/target-controllers/bazel-target-controller-manager';
+import { TestExplorerController } from './controllers/test-explorer-controller';
 import { UserCommandsController } from './controllers/user-commands-controller';
 import { WorkspaceEventsController } from './controllers/workspace-events-controller';
+import { WorkspaceFolderControllerManager, WorkspaceFolderControllers } from './controllers/workspace-folder-controller-manager';
 import { registerLanguages } from './languages/language-registry';
 import { BazelActionManager } from './models/bazel-action-manager';
+import { BazelCoverageManager } from './models/bazel-coverage-manager';
 import { BazelEnvironment } from './models/bazel-environment';
+import { BazelExecutionHistoryManager } from './models/bazel-execution-history-manager';
+import { BazelInvocationManager } from './models/bazel-invocation-manager';
+import { BazelProfileManager } from './models/bazel-profile-manager';
 import { BazelTargetManager } from './models/bazel-target-manager';
 import { BazelTargetStateManager } from './models/bazel-target-state-manager';
+import { BazelTestResultsManager } from './models/bazel-test-results-manager';
 import { WorkspaceStateManager } from './models/workspace-state-manager';
 import { BazelService } from './services/bazel-service';
+import { BuildEventService } from './services/build-event-service';
 import { ConfigurationManager } from './services/configuration-manager';
 import { Console } from './services/console';
+import { CoverageService } from './services/coverage-service';
+import { DiagnosticsService } from './services/diagnostics-service';
 import { EnvVarsUtils } from './services/env-vars-utils';
+import { ExecutionHistoryService } from './services/execution-history-service';
 import { ExtensionUtils } from './services/extension-utils';
 import { FileStorageService } from './services/file-storage-service';
 import { FileWatcherService } from './services/file-watcher-service';
 import { IconService } from './services/icon-service';
+import { BazelInvocationScheduler } from './services/invocation-scheduler';
+import { ProfileService } from './services/profile-service';
 import { ShellService } from './services/shell-service';
 import { TaskService } from './services/task-service';
+import { TestResultsService } from './services/test-results-service';
 import { WorkspaceService } from './services/workspace-service';
 import { BazelTargetTreeProvider } from './ui/bazel-target-tree-provider';
+import { registerBuildEventNotifications } from './ui/build-event-notifications';
 import { registerCodeLensProviders } from './ui/code-lens-provider-utils';
+import { CoverageDecorationProvider } from './ui/coverage-decorations';
+import { CoverageTreeProvider } from './ui/coverage-tree-provider';
+import { ExecutionHistoryTreeProvider } from './ui/execution-history-tree-provider';
+import { InvocationQueueStatusBar } from './ui/invocation-queue-status-bar';
+import { ReverseDependenciesTreeProvider } from './ui/reverse-dependencies-tree-provider';
 import * as vscode from 'vscode';
 
 
 // Services
-let configurationManager: ConfigurationManager;
-let bazelService: BazelService;
-let shellService: ShellService;
-let taskService: TaskService;
 let iconService: IconService;
-let fileStorageService: FileStorageService;
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+let diagnosticsService: DiagnosticsService;
+let testResultsService: TestResultsService;
+let coverageService: CoverageService;
+let invocationScheduler: BazelInvocationScheduler;
+let executionHistoryService: ExecutionHistoryService;
+let profileService: ProfileService;
 
 // Models
-let bazelEnvironment: BazelEnvironment;
-let bazelActionManager: BazelActionManager;
-let bazelTargetManager: BazelTargetManager;
 let bazelTargetStateManager: BazelTargetStateManager;
+let bazelInvocationManager: BazelInvocationManager;
+let bazelTestResultsManager: BazelTestResultsManager;
+let bazelCoverageManager: BazelCoverageManager;
+let bazelExecutionHistoryManager: BazelExecutionHistoryManager;
+let bazelProfileManager: BazelProfileManager;
 let workspaceStateManager: WorkspaceStateManager;
 
 // UI
 let bazelTargetTreeProvider: BazelTargetTreeProvider;
+let reverseDependenciesTreeProvider: ReverseDependenciesTreeProvider;
+let coverageTreeProvider: CoverageTreeProvider;
+let executionHistoryTreeProvider: ExecutionHistoryTreeProvider;
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+let coverageDecorationProvider: CoverageDecorationProvider;
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+let invocationQueueStatusBar: InvocationQueueStatusBar;
 let outputChannel: vscode.OutputChannel;
 
 // Controllers
-let bazelController: BazelController;
-let userCommandsController: UserCommandsController;
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 let workspaceEventsController: WorkspaceEventsController;
-let bazelTargetControllerManager: BazelTargetControllerManager;
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+let testExplorerController: TestExplorerController;
+let profileViewerController: ProfileViewerController;
+let workspaceFolderControllerManager: WorkspaceFolderControllerManager;
 
 function getActivateWhenClause(context: vscode.ExtensionContext): string {
     const extensionName = ExtensionUtils.getExtensionName(context);
@@ -88,7 +124,7 @@ function makeExtensionVisible(context: vscode.ExtensionContext) {
 }
 
 function attachTreeDataProviderToView(context: vscode.ExtensionContext,
-    bazelController: BazelController,
+    workspaceFolderControllerManager: WorkspaceFolderControllerManager,
     treeDataProvider: BazelTargetTreeProvider) {
 
     const extensionName = ExtensionUtils.getExtensionName(context);
@@ -99,7 +135,9 @@ function attachTreeDataProviderToView(context: vscode.ExtensionContext,
     });
 
     treeView.onDidChangeSelection((event) => {
-        bazelController.onTreeSelectionChanged(event);
+        workspaceFolderControllerManager.getAllControllers().forEach(controllers => {
+            controllers.bazelController.onTreeSelectionChanged(event);
+        });
     });
 
     // Attach listeners for expand/collapse events
@@ -109,53 +147,96 @@ function attachTreeDataProviderToView(context: vscode.ExtensionContext,
     context.subscriptions.push(treeView);
 }
 
-async function initExtension(context: vscode.ExtensionContext) {
-    // Initialize custom console for prefixing logging.
-    Console.initialize(context);
+function attachReverseDependenciesTreeProviderToView(context: vscode.ExtensionContext,
+    treeDataProvider: ReverseDependenciesTreeProvider) {
 
-    Console.info('Initializing extension...');
+    const extensionName = ExtensionUtils.getExtensionName(context);
 
-    // Clean the workspace state if necessary
-    workspaceStateManager = new WorkspaceStateManager(context);
-    workspaceStateManager.refreshWorkspaceState();
+    const treeView = vscode.window.createTreeView(`${extensionName}ReverseDependenciesView`, {
+        treeDataProvider: treeDataProvider
+    });
+
+    treeDataProvider.registerTreeView(treeView);
+
+    context.subscriptions.push(treeView);
+}
+
+function attachCoverageTreeProviderToView(context: vscode.ExtensionContext,
+    treeDataProvider: CoverageTreeProvider) {
+
+    const extensionName = ExtensionUtils.getExtensionName(context);
+
+    const treeView = vscode.window.createTreeView(`${extensionName}CoverageView`, {
+        treeDataProvider: treeDataProvider
+    });
+
+    treeDataProvider.registerTreeView(treeView);
+
+    context.subscriptions.push(treeView);
+}
+
+function attachExecutionHistoryTreeProviderToView(context: vscode.ExtensionContext,
+    treeDataProvider: ExecutionHistoryTreeProvider) {
+
+    const extensionName = ExtensionUtils.getExtensionName(context);
+
+    const treeView = vscode.window.createTreeView(`${extensionName}ExecutionHistoryView`, {
+        treeDataProvider: treeDataProvider
+    });
+
+    treeDataProvider.registerTreeView(treeView);
+
+    context.subscriptions.push(treeView);
+}
+
+/**
+ * Creates the services, models and controllers of a single workspace folder.
+ * Each workspace folder has its own configuration, environment, targets and cwd.
+ */
+async function initWorkspaceFolder(extensionContext: vscode.ExtensionContext,
+    workspaceFolder: vscode.WorkspaceFolder): Promise<WorkspaceFolderControllers> {
+    Console.info(`Initializing workspace folder ${workspaceFolder.name}...`);
+
+    // The context whose workspace state and storage belong to this workspace folder only.
+    const context = WorkspaceService.getInstance().createWorkspaceFolderContext(extensionContext, workspaceFolder);
 
     // The configuration manager holds the settings for the extension.
-    configurationManager = new ConfigurationManager(context);
+    const configurationManager = new ConfigurationManager(context, workspaceFolder);
 
     // The bazel environment is the model for environment variables as well as
     // other extension specific model information (run targets, setup environment variables, etc.).
-    bazelEnvironment = await BazelEnvironment.create(context, configurationManager);
-
-    // Create an output channel specific to the extension.
-    outputChannel = vscode.window.createOutputChannel(ExtensionUtils.getExtensionDisplayName(context));
+    const bazelEnvironment = await BazelEnvironment.create(context, configurationManager, workspaceFolder);
 
     /******
      * SERVICES
      ******/
-    Console.info('Initializing services...');
     // The shell service runs any shell commands that are needed by the extension and
     // can run said commands with the appropriate environment variables.
-    shellService = new ShellService(WorkspaceService.getInstance().getWorkspaceFolder(),
+    const shellService = new ShellService(workspaceFolder,
         outputChannel,
-        EnvVarsUtils.listToObject(bazelEnvironment.getEnvVars()));
+        EnvVarsUtils.listToObject(bazelEnvironment.getEnvVars()),
+        configurationManager,
+        invocationScheduler);
 
     // The task service runs any tasks that are needed by the extension and
     // can run said tasks with the appropriate environment vairables.
-    taskService = new TaskService(context,
-        WorkspaceService.getInstance().getWorkspaceFolder(),
-        bazelEnvironment.getEnvVars()
+    const taskService = new TaskService(context,
+        workspaceFolder,
+        bazelEnvironment.getEnvVars(),
+        configurationManager,
+        invocationScheduler
     );
 
     // The bazel service interacts with the bazel command line tool to retrieve
     // information from the cli about bazel. This information includes things like
     // the fetching run targets or configs.
-    bazelService = new BazelService(context, configurationManager, shellService);
-
-    // The icon service that looks up the current theme icons
-    iconService = new IconService();
+    const bazelService = new BazelService(context, configurationManager, shellService);
 
     // The file storage service to handle storing bazel targets
-    fileStorageService = new FileStorageService(context);
+    const fileStorageService = new FileStorageService(context);
+
+    // The build event service collects the build events of the bazel commands run for targets.
+    const buildEventService = new BuildEventService(configurationManager, bazelInvocationManager);
 
     // The file watcher service is to make sure bazel files
     // are watched to update targets automatically.
@@ -169,28 +250,22 @@ async function initExtension(context: vscode.ExtensionContext) {
     /******
      * MODELS
      ******/
-    Console.info('Initializing models...');
     // The bazel action manager stores all the possible bazel actions
-    // (which are retrieved by the bazel service at load time). These
-    // include but are not limited to 'build', 'run', 'clean', 'test', etc.
-    bazelActionManager = new BazelActionManager(context, bazelService);
+    // (which are discovered from the installed bazel at load time, plus
+    // the user's additional actions). These include but are not limited
+    // to 'build', 'run', 'test', 'fetch', etc.
+    const bazelActionManager = new BazelActionManager(context, bazelService, configurationManager);
 
     // This manager holds all the bazel targets for the project.
     // These items will appear in the tree view and each target
     // has associated details about it including its action and label.
-    bazelTargetManager = new BazelTargetManager(context, bazelService, fileStorageService, workspaceStateManager);
-
-    // This manager holds runtime only information about a target's
-    // state and is used to control the UI elements when a target's
-    // state changes.
-    bazelTargetStateManager = new BazelTargetStateManager();
+    const bazelTargetManager = new BazelTargetManager(context, bazelService, fileStorageService, workspaceStateManager);
 
     /******
      * UI
      ******/
-    // This is the main tree view provider
-    bazelTargetTreeProvider = new BazelTargetTreeProvider(context, configurationManager,
-        iconService, bazelTargetManager, bazelTargetStateManager);
+    // Show the targets of this workspace folder in the main tree view
+    bazelTargetTreeProvider.addWorkspaceFolder(workspaceFolder, configurationManager, bazelTargetManager);
     bazelTargetManager.awaitLoading().then(() => bazelTargetTreeProvider.refresh());
 
     // This registers all the code lens that provide actions
@@ -200,25 +275,16 @@ async function initExtension(context: vscode.ExtensionContext) {
     /******
      * CONTROLLERS
      ******/
-    Console.info('Initializing controllers...');
     // The bazel controller runs general extension tasks, such as formatting, cleaning, refreshing run targets, etc.
-    bazelController = new BazelController(context, configurationManager,
+    const bazelController = new BazelController(context, configurationManager,
         fileWatcherService, taskService, bazelService,
         bazelTargetManager, bazelTargetTreeProvider);
 
-    // Attach the tree data provider to the view and capture events
-    // on the tree view.
-    attachTreeDataProviderToView(context, bazelController, bazelTargetTreeProvider);
-
     // The user commands controller runs user dynamic tasks added through configuration settings.
-    userCommandsController = new UserCommandsController(configurationManager, shellService, taskService, bazelTargetManager);
-
-    // The workspace events controller monitors for workspace events and triggers appropriate logic
-    // when those events fire.
-    workspaceEventsController = new WorkspaceEventsController(context, configurationManager, userCommandsController, bazelTargetTreeProvider);
+    const userCommandsController = new UserCommandsController(configurationManager, shellService, taskService, bazelTargetManager);
 
     // The bazel target controller manager manages all of the bazel target controllers (all the bazel action controllers).
-    bazelTargetControllerManager = new BazelTargetControllerManager(context,
+    const bazelTargetControllerManager = new BazelTargetControllerManager(context,
         configurationManager,
         taskService,
         shellService,
@@ -226,7 +292,12 @@ async function initExtension(context: vscode.ExtensionContext) {
         bazelController,
         bazelEnvironment,
         bazelTargetManager,
-        bazelTargetStateManager);
+        bazelTargetStateManager,
+        buildEventService,
+        testResultsService,
+        coverageService,
+        profileService,
+        executionHistoryService);
 
     // The operations controller that picks, adds, and removes targets
     const bazelTargetOpsController = new BazelTargetOperationsController(
@@ -239,18 +310,143 @@ async function initExtension(context: vscode.ExtensionContext) {
         bazelTargetTreeProvider
     );
 
+    // The reverse dependencies controller finds what depends on a file or target.
+    const reverseDependenciesController = new ReverseDependenciesController(context, bazelService, reverseDependenciesTreeProvider);
+
+    // The dependency graph controller shows the dependencies of a target in a webview.
+    const dependencyGraphController = new DependencyGraphController(context, bazelService);
+
+    // The execution history controller runs the actions of the execution history again.
+    const executionHistoryController = new ExecutionHistoryController(configurationManager, taskService,
+        bazelTargetManager, bazelTargetControllerManager, executionHistoryService);
+
+    return {
+        workspaceFolder,
+        configurationManager,
+        bazelTargetManager,
+        bazelController,
+        userCommandsController,
+        bazelTargetControllerManager,
+        bazelTargetOpsController,
+        reverseDependenciesController,
+        dependencyGraphController,
+        executionHistoryController
+    };
+}
+
+async function initExtension(context: vscode.ExtensionContext) {
+    // Initialize custom console for prefixing logging.
+    Console.initialize(context);
+
+    Console.info('Initializing extension...');
+
+    // Clean the workspace state if necessary
+    workspaceStateManager = new WorkspaceStateManager(context);
+    workspaceStateManager.refreshWorkspaceState();
+
+    // Create an output channel specific to the extension.
+    outputChannel = vscode.window.createOutputChannel(ExtensionUtils.getExtensionDisplayName(context));
+
+    // The icon service that looks up the current theme icons
+    iconService = new IconService();
+
+    // The invocation scheduler runs the bazel commands of all workspace folders
+    // one at a time per output base, and the status bar shows its queue.
+    invocationScheduler = new BazelInvocationScheduler();
+    context.subscriptions.push(invocationScheduler);
+    invocationQueueStatusBar = new InvocationQueueStatusBar(context, invocationScheduler);
+
+    // This manager holds runtime only information about a target's
+    // state and is used to control the UI elements when a target's
+    // state changes.
+    bazelTargetStateManager = new BazelTargetStateManager();
+
+    // This manager holds the results of the latest bazel invocation of each
+    // target, as read from its build events.
+    bazelInvocationManager = new BazelInvocationManager();
+
+    // This manager holds the test results of the latest test of each target,
+    // as read from bazel-testlogs.
+    bazelTestResultsManager = new BazelTestResultsManager();
+
+    // The test results service reads the test.xml and test.log files of test targets.
+    testResultsService = new TestResultsService(bazelInvocationManager, bazelTestResultsManager);
+
+    // This manager holds the coverage report of the latest coverage run of each target.
+    bazelCoverageManager = new BazelCoverageManager();
+
+    // The coverage service reads the LCOV reports of coverage runs.
+    coverageService = new CoverageService(bazelInvocationManager, bazelCoverageManager);
+
+    // This manager holds the actions that ran on targets, across sessions.
+    bazelExecutionHistoryManager = new BazelExecutionHistoryManager(context);
+
+    // The execution history service records the actions run on targets with their status and logs.
+    executionHistoryService = new ExecutionHistoryService(context, bazelInvocationManager, bazelExecutionHistoryManager);
+
+    // This manager holds the summaries of the profiled builds, across sessions.
+    bazelProfileManager = new BazelProfileManager(context);
+
+    // The profile service reads the JSON trace profiles written by profiled builds.
+    profileService = new ProfileService(context, bazelProfileManager);
+
+    // This is the main tree view provider, with a section for each workspace folder
+    bazelTargetTreeProvider = new BazelTargetTreeProvider(context, iconService, bazelTargetStateManager,
+        bazelInvocationManager, bazelTestResultsManager);
+
+    // Report failed invocations with their failed targets and actions
+    registerBuildEventNotifications(context, bazelInvocationManager);
+
+    // Publish the errors printed by the invocations of targets to the Problems panel
+    diagnosticsService = new DiagnosticsService(context, bazelInvocationManager);
+
+    // This tree view shows the targets that depend on a file or target.
+    reverseDependenciesTreeProvider = new ReverseDependenciesTreeProvider(iconService);
+
+    // This tree view shows the line and branch coverage of the files of coverage reports,
+    // which are also shown in the editors.
+    coverageTreeProvider = new CoverageTreeProvider(bazelCoverageManager);
+    coverageDecorationProvider = new CoverageDecorationProvider(context, bazelCoverageManager);
+
+    // This tree view shows the actions that ran on targets, to run them again.
+    executionHistoryTreeProvider = new ExecutionHistoryTreeProvider(bazelExecutionHistoryManager);
+
+    // Every workspace folder gets its own services, models and controllers.
+    workspaceFolderControllerManager = new WorkspaceFolderControllerManager();
+    for (const workspaceFolder of WorkspaceService.getInstance().getWorkspaceFolders()) {
+        workspaceFolderControllerManager.addControllers(await initWorkspaceFolder(context, workspaceFolder));
+    }
+
+    // Attach the tree data providers to the views and capture events
+    // on the tree views.
+    attachTreeDataProviderToView(context, workspaceFolderControllerManager, bazelTargetTreeProvider);
+    attachReverseDependenciesTreeProviderToView(context, reverseDependenciesTreeProvider);
+    attachCoverageTreeProviderToView(context, coverageTreeProvider);
+    attachExecutionHistoryTreeProviderToView(context, executionHistoryTreeProvider);
+
+    // The workspace events controller monitors for workspace events and triggers appropriate logic
+    // when those events fire.
+    workspaceEventsController = new WorkspaceEventsController(context, workspaceFolderControllerManager, bazelTargetTreeProvider);
+
+    // The test explorer controller shows the test targets and their test cases in the Testing view.
+    testExplorerController = new TestExplorerController(context, workspaceFolderControllerManager, bazelInvocationManager,
+        testResultsService, bazelCoverageManager);
+
+    // The profile viewer controller shows the critical path and slowest actions of profiled builds.
+    profileViewerController = new ProfileViewerController(context, bazelProfileManager);
+    context.subscriptions.push(profileViewerController);
+
     /******
      * COMMANDS
      ******/
     Console.info('Registering commands...');
     registerCommands(context,
-        configurationManager,
-        userCommandsController,
-        bazelController,
-        bazelTargetControllerManager,
-        bazelTargetOpsController,
-        bazelTargetManager,
-        bazelTargetTreeProvider);
+        workspaceFolderControllerManager,
+        bazelTargetTreeProvider,
+        bazelCoverageManager,
+        invocationScheduler,
+        bazelExecutionHistoryManager,
+        profileViewerController);
 
 }
 
@@ -31,26 +31,42 @@ import * as vscode from 'vscode';
 
 
 export class LanguageRegistry {
-    private static plugins: { [language: string]: LanguagePlugin } = {};
+    // Plugins are registered per workspace folder, as they depend on its environment.
+    private static plugins: Map<string, { [language: string]: LanguagePlugin }> = new Map();
 
-    static registerPlugin(plugin: LanguagePlugin) {
+    static registerPlugin(plugin: LanguagePlugin, workspaceFolder: vscode.WorkspaceFolder) {
+        const key = workspaceFolder.uri.toString();
+        const plugins = this.plugins.get(key) || {};
         for (const language of plugin.supportedLanguages) {
-            if (this.plugins[language]) {
+            if (plugins[language]) {
                 throw new Error(`Language plugin for '${language}' is already registered.`);
             }
-            this.plugins[language] = plugin;
+            plugins[language] = plugin;
         }
+        this.plugins.set(key, plugins);
     }
 
-    static getPlugin(language: string | undefined): LanguagePlugin {
-        if (!language || !this.plugins[language]) {
+    /**
+     * Gets the plugin for a language.
+     * @param language The language of the plugin.
+     * @param workspaceFolder The workspace folder the plugin is used in. If undefined,
+     * the plugin of the first registered workspace folder is returned.
+     */
+    static getPlugin(language: string | undefined, workspaceFolder?: vscode.WorkspaceFolder): LanguagePlugin {
+        const plugins = this.getPluginsForWorkspaceFolder(workspaceFolder);
+        if (!language || !plugins[language]) {
             throw new Error(`No language support for ${language}`);
         }
-        return this.plugins[language];
+        return plugins[language];
     }
 
     static getLanguages(): string[] {
-        return Object.keys(this.plugins);
+        return Object.keys(this.getPluginsForWorkspaceFolder());
+    }
+
+    private static getPluginsForWorkspaceFolder(workspaceFolder?: vscode.WorkspaceFolder): { [language: string]: LanguagePlugin } {
+        const plugins = workspaceFolder ? this.plugins.get(workspaceFolder.uri.toString()) : undefined;
+        return plugins || this.plugins.values().next().value || {};
     }
 }
 
@@ -58,7 +74,8 @@ export function registerLanguages(context: vscode.ExtensionContext,
     bazelService: BazelService,
     bazelEnvironment: BazelEnvironment) {
 
-    LanguageRegistry.registerPlugin(new CppLanguagePlugin(context, bazelService, bazelEnvironment.getEnvVars()));
-    LanguageRegistry.registerPlugin(new GoLanguagePlugin(context, bazelService, bazelEnvironment.getEnvVars()));
-    LanguageRegistry.registerPlugin(new PythonLanguagePlugin(context, bazelService, bazelEnvironment.getEnvVars()));
+    const workspaceFolder = bazelService.getWorkspaceFolder();
+    LanguageRegistry.registerPlugin(new CppLanguagePlugin(context, bazelService, bazelEnvironment.getEnvVars()), workspaceFolder);
+    LanguageRegistry.registerPlugin(new GoLanguagePlugin(context, bazelService, bazelEnvironment.getEnvVars()), workspaceFolder);
+    LanguageRegistry.registerPlugin(new PythonLanguagePlugin(context, bazelService, bazelEnvironment.getEnvVars()), workspaceFolder);
 }
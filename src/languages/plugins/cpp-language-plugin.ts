@@ -52,7 +52,7 @@ export class CppLanguagePlugin implements LanguagePlugin {
         const bazelTarget = BazelService.formatBazelTargetFromPath(target.buildPath);
         const bazelArgs = target.getBazelArgs().toString();
         const configArgs = target.getConfigArgs().toString();
-        const workingDirectory = '${workspaceFolder}';
+        const workingDirectory = target.getWorkspaceRoot();
         const targetPath = target.buildPath;//await this.bazelService.getBazelTargetBuildPath(target, cancellationToken);
         const programPath = path.join(workingDirectory, targetPath);
 
@@ -78,7 +78,7 @@ export class CppLanguagePlugin implements LanguagePlugin {
             type: 'cppdbg',
             request: 'launch',
             program: '/bin/bash',
-            args: ['-c', `./.vscode/bazel_debug.sh ${target.action} --run_under=gdb ${bazelArgs} ${configArgs} ${bazelTarget} ${runArgs}`],
+            args: ['-c', `\${workspaceFolder}/.vscode/bazel_debug.sh ${target.action} --run_under=gdb ${bazelArgs} ${configArgs} ${bazelTarget} ${runArgs}`],
             stopAtEntry: false,
             cwd: workingDirectory,
             sourceFileMap: { '/proc/self/cwd': workingDirectory },
@@ -96,7 +96,7 @@ export class CppLanguagePlugin implements LanguagePlugin {
     }
 
     public async createDebugDirectLaunchConfig(target: BazelTarget, _cancellationToken?: vscode.CancellationToken): Promise<vscode.DebugConfiguration> {
-        const workingDirectory = '${workspaceFolder}';
+        const workingDirectory = target.getWorkspaceRoot();
         const targetPath = target.buildPath;//await this.bazelService.getBazelTargetBuildPath(target, cancellationToken);
         const programPath = path.join(workingDirectory, targetPath);
 
@@ -136,7 +136,7 @@ export class CppLanguagePlugin implements LanguagePlugin {
         port: number,
         _cancellationToken?: vscode.CancellationToken): Promise<vscode.DebugConfiguration> {
         const bazelTarget = BazelService.formatBazelTargetFromPath(target.buildPath);
-        const workingDirectory = '${workspaceFolder}';
+        const workingDirectory = target.getWorkspaceRoot();
         const targetPath = target.buildPath;//await this.bazelService.getBazelTargetBuildPath(target);
         const programPath = path.join(workingDirectory, targetPath);
 
@@ -51,7 +51,7 @@ export class GoLanguagePlugin implements LanguagePlugin {
     }
 
     public async createDebugDirectLaunchConfig(target: BazelTarget, _cancellationToken?: vscode.CancellationToken): Promise<vscode.DebugConfiguration> {
-        const workingDirectory = '${workspaceFolder}';
+        const workingDirectory = target.getWorkspaceRoot();
         const targetPath = target.buildPath;//await this.bazelService.getBazelTargetBuildPath(target, cancellationToken);
         const programPath = path.join(workingDirectory, targetPath);
         const envVars = EnvVarsUtils.listToObject(target.getEnvVars().toStringArray());
@@ -70,7 +70,7 @@ export class GoLanguagePlugin implements LanguagePlugin {
             console: 'integratedTerminal',
             substitutePath: [
                 {
-                    from: '${workspaceFolder}',
+                    from: target.getWorkspaceRoot(),
                     to: ''
                 }
             ]
@@ -87,7 +87,7 @@ export class GoLanguagePlugin implements LanguagePlugin {
             mode: 'remote',
             host: '127.0.0.1',
             port: port, // Port where dlv is listening
-            cwd: '${workspaceFolder}',
+            cwd: target.getWorkspaceRoot(),
             trace: 'verbose', // Enable verbose logging for debugging
             showLog: true,
         } as vscode.DebugConfiguration;
@@ -96,7 +96,7 @@ export class GoLanguagePlugin implements LanguagePlugin {
             // Paths don't match up for vscode over ssh
             debugConfig.substitutePath = [ // This is necessary for test breakpoints to work
                 {
-                    from: '${workspaceFolder}',
+                    from: target.getWorkspaceRoot(),
                     to: ''
                 }
             ];
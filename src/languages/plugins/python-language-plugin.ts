@@ -73,12 +73,12 @@ export class PythonLanguagePlugin implements LanguagePlugin {
             args: args.length > 0 ? args.split(' ') : [],
             pathMappings: [
                 {
-                    localRoot: '${workspaceFolder}', // Directory containing the local source
+                    localRoot: target.getWorkspaceRoot(), // Directory containing the local source
                     remoteRoot: '.' // Remote Bazel runfiles directory
                 }
             ],
             stopOnEntry: false,
-            cwd: '${workspaceFolder}',
+            cwd: target.getWorkspaceRoot(),
             env: { ...EnvVarsUtils.listToObject(this.setupEnvVars), ...envVars },
             console: 'integratedTerminal',
             justMyCode: true
@@ -98,7 +98,7 @@ export class PythonLanguagePlugin implements LanguagePlugin {
             },
             pathMappings: [
                 {
-                    localRoot: '${workspaceFolder}',
+                    localRoot: target.getWorkspaceRoot(),
                     remoteRoot: '.'
                 }
             ],
@@ -22,6 +22,7 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 import { BazelService } from '../services/bazel-service';
+import { ConfigurationManager } from '../services/configuration-manager';
 import * as vscode from 'vscode';
 
 /**
@@ -30,10 +31,14 @@ import * as vscode from 'vscode';
 export class BazelActionManager {
     private actions: string[] = [];
     private actionsPromise: Promise<string[]>;
+    // The executable the actions were discovered with, a different one may support other commands
+    private actionsExecutable: string;
 
     constructor(private context: vscode.ExtensionContext,
         private readonly bazelService: BazelService,
+        private readonly configurationManager: ConfigurationManager
     ) {
+        this.actionsExecutable = this.configurationManager.getExecutableCommand();
         this.actionsPromise = this.loadActions();
     }
 
@@ -42,8 +47,19 @@ export class BazelActionManager {
         return this.actions;
     }
 
+    /**
+     * Returns the discovered bazel commands that take targets together with the user's additional actions.
+     */
     public async getActions(): Promise<string[]> {
-        return this.actionsPromise;
+        const executable = this.configurationManager.getExecutableCommand();
+        if (executable !== this.actionsExecutable) {
+            this.actionsExecutable = executable;
+            this.actionsPromise = this.loadActions();
+        }
+
+        const actions = await this.actionsPromise;
+        const additionalActions = this.configurationManager.getAdditionalActions();
+        return Array.from(new Set([...actions, ...additionalActions])).sort();
     }
 
     public async refreshActions() {
@@ -0,0 +1,73 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelCoverageReport, BazelFileCoverage } from './bazel-coverage';
+import { BazelTarget } from './bazel-target';
+import { EventEmitter } from 'vscode';
+
+export class BazelCoverageManager {
+    // The latest coverage report of each target, in the order they were read
+    private reportMap: Map<string, BazelCoverageReport> = new Map();
+
+    // Event emitter to notify when coverage reports were added or removed
+    private _onDidChangeCoverage: EventEmitter<void> = new EventEmitter<void>();
+
+    // Event that consumers can subscribe to
+    public readonly onDidChangeCoverage = this._onDidChangeCoverage.event;
+
+    public setCoverageReport(target: BazelTarget, report: BazelCoverageReport | undefined): void {
+        this.reportMap.delete(target.id);
+        if (report) {
+            this.reportMap.set(target.id, report);
+        }
+        this._onDidChangeCoverage.fire();
+    }
+
+    public getCoverageReport(target: BazelTarget): BazelCoverageReport | undefined {
+        return this.reportMap.get(target.id);
+    }
+
+    public getCoverageReports(): BazelCoverageReport[] {
+        return Array.from(this.reportMap.values());
+    }
+
+    /**
+     * Returns the coverage of a file from the latest report covering it.
+     * @param filePath The absolute path of the file.
+     */
+    public getFileCoverage(filePath: string): BazelFileCoverage | undefined {
+        const reports = this.getCoverageReports().reverse();
+        for (const report of reports) {
+            const fileCoverage = report.getFileCoverage(filePath);
+            if (fileCoverage) {
+                return fileCoverage;
+            }
+        }
+        return undefined;
+    }
+
+    public clear(): void {
+        this.reportMap.clear();
+        this._onDidChangeCoverage.fire();
+    }
+}
@@ -0,0 +1,125 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { LcovBranchCoverage, LcovFileCoverage } from '../services/lcov-parser';
+
+export interface BazelCoverageCount {
+    covered: number;
+    total: number;
+}
+
+/**
+ * The coverage of a workspace file.
+ */
+export class BazelFileCoverage {
+    public readonly id: string;
+
+    /**
+     * @param parentId The id of the report the file is covered by.
+     * @param filePath The absolute path of the file.
+     * @param coverage The coverage as read from the report.
+     */
+    constructor(parentId: string,
+        public readonly filePath: string,
+        public readonly coverage: LcovFileCoverage
+    ) {
+        this.id = `${parentId}/${filePath}`;
+    }
+
+    public getLineCount(): BazelCoverageCount {
+        const counts = Array.from(this.coverage.lines.values());
+        return { covered: counts.filter(count => count > 0).length, total: counts.length };
+    }
+
+    public getBranchCount(): BazelCoverageCount {
+        const branches = this.coverage.branches;
+        return { covered: branches.filter(branch => (branch.taken || 0) > 0).length, total: branches.length };
+    }
+
+    public getFunctionCount(): BazelCoverageCount {
+        const functions = this.coverage.functions;
+        return { covered: functions.filter(func => func.count > 0).length, total: functions.length };
+    }
+
+    public getBranchesByLine(): Map<number, LcovBranchCoverage[]> {
+        const branchesByLine: Map<number, LcovBranchCoverage[]> = new Map();
+        this.coverage.branches.forEach(branch => {
+            const branches = branchesByLine.get(branch.line) || [];
+            branches.push(branch);
+            branchesByLine.set(branch.line, branches);
+        });
+        return branchesByLine;
+    }
+}
+
+/**
+ * The coverage report of a coverage run of a target.
+ */
+export class BazelCoverageReport {
+    public readonly id: string;
+    public readonly readTime = Date.now();
+    public readonly files: BazelFileCoverage[];
+
+    /**
+     * @param targetId The id of the target that ran.
+     * @param label The label of the target.
+     * @param reportPaths The LCOV files the report was read from.
+     * @param files The coverage of each file, keyed by its absolute path.
+     */
+    constructor(public readonly targetId: string,
+        public readonly label: string,
+        public readonly reportPaths: string[],
+        files: Map<string, LcovFileCoverage>
+    ) {
+        this.id = `${targetId}/coverage`;
+        this.files = Array.from(files.entries())
+            .sort(([a], [b]) => (a < b ? -1 : 1))
+            .map(([filePath, coverage]) => new BazelFileCoverage(this.id, filePath, coverage));
+    }
+
+    public getFileCoverage(filePath: string): BazelFileCoverage | undefined {
+        return this.files.find(file => file.filePath === filePath);
+    }
+
+    public getLineCount(): BazelCoverageCount {
+        return BazelCoverageReport.sum(this.files.map(file => file.getLineCount()));
+    }
+
+    public getBranchCount(): BazelCoverageCount {
+        return BazelCoverageReport.sum(this.files.map(file => file.getBranchCount()));
+    }
+
+    /**
+     * Formats a coverage count as a percentage, e.g. `85.0%`, or undefined if there is nothing to cover.
+     */
+    public static formatPercentage(count: BazelCoverageCount): string | undefined {
+        return count.total > 0 ? `${(100 * count.covered / count.total).toFixed(1)}%` : undefined;
+    }
+
+    private static sum(counts: BazelCoverageCount[]): BazelCoverageCount {
+        return counts.reduce((total, count) => ({
+            covered: total.covered + count.covered,
+            total: total.total + count.total
+        }), { covered: 0, total: 0 });
+    }
+}
@@ -30,11 +30,12 @@ export class BazelEnvironment {
 
     public static async create(context: vscode.ExtensionContext,
         configurationManager: ConfigurationManager,
+        workspaceFolder: vscode.WorkspaceFolder,
         cancellationToken?: vscode.CancellationToken
     ): Promise<BazelEnvironment> {
         const instance = new BazelEnvironment();
         try {
-            instance.envVars = await this.loadEnvVars(context, configurationManager, cancellationToken);
+            instance.envVars = await this.loadEnvVars(context, configurationManager, workspaceFolder, cancellationToken);
             return instance;
         } catch (error) {
             return Promise.reject(error);
@@ -43,9 +44,10 @@ export class BazelEnvironment {
 
     private static async loadEnvVars(context: vscode.ExtensionContext,
         configurationManager: ConfigurationManager,
+        workspaceFolder: vscode.WorkspaceFolder,
         cancellationToken?: vscode.CancellationToken
     ): Promise<string[]> {
-        const result = EnvironmentService.fetchSetupEnvironment(context, configurationManager.getSetupEnvironmentCommand(), cancellationToken);
+        const result = EnvironmentService.fetchSetupEnvironment(context, configurationManager.getSetupEnvironmentCommand(), workspaceFolder, cancellationToken);
         context.workspaceState.update('setupEnvVars', result);
         return result;
     }
@@ -0,0 +1,82 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelExecution } from './bazel-execution';
+import * as vscode from 'vscode';
+
+export class BazelExecutionHistoryManager {
+    private static readonly key = 'executionHistory';
+
+    // The executions, the latest first
+    private executions: BazelExecution[];
+
+    // Event emitter to notify when executions were added, updated or removed
+    private _onDidChangeHistory: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+
+    // Event that consumers can subscribe to
+    public readonly onDidChangeHistory = this._onDidChangeHistory.event;
+
+    constructor(private readonly context: vscode.ExtensionContext,
+        private readonly size = 100) {
+        // Executions that were running when the window closed never finished
+        this.executions = this.context.workspaceState.get<BazelExecution[]>(BazelExecutionHistoryManager.key, [])
+            .map(execution => execution.status === 'running' ? { ...execution, status: 'cancelled' } : execution);
+    }
+
+    public addExecution(execution: BazelExecution): void {
+        this.executions.unshift(execution);
+        this.executions.splice(this.size);
+        this.save();
+    }
+
+    public updateExecution(execution: BazelExecution): void {
+        const index = this.executions.findIndex(existing => existing.id === execution.id);
+        if (index >= 0) {
+            this.executions[index] = execution;
+            this.save();
+        }
+    }
+
+    public removeExecution(execution: BazelExecution): void {
+        this.executions = this.executions.filter(existing => existing.id !== execution.id);
+        this.save();
+    }
+
+    public getExecutions(): BazelExecution[] {
+        return [...this.executions];
+    }
+
+    public getLastExecution(): BazelExecution | undefined {
+        return this.executions[0];
+    }
+
+    public clear(): void {
+        this.executions = [];
+        this.save();
+    }
+
+    private save() {
+        this.context.workspaceState.update(BazelExecutionHistoryManager.key, this.executions);
+        this._onDidChangeHistory.fire();
+    }
+}
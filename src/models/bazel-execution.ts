@@ -0,0 +1,61 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+export type BazelExecutionStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * A run of an action on a target, as kept in the execution history across sessions.
+ */
+export interface BazelExecution {
+    id: string;
+    // The uri of the workspace folder of the target
+    workspaceFolder: string;
+    // The directory the command ran in, i.e. the root of the target's bazel workspace
+    workspaceRoot: string;
+    targetId: string;
+    label: string;
+    // The action the target ran with, e.g. build or debug
+    action: string;
+    // The command line the action resolved to when it ran
+    command: string;
+    envVars: string[];
+    startTime: number;
+    durationMillis?: number;
+    status: BazelExecutionStatus;
+    exitCode?: number;
+    // The output of the command, or the log of the test it ran
+    logPath?: string;
+}
+
+/**
+ * Formats a duration as e.g. `850ms`, `12.3s` or `2m 5s`.
+ */
+export function formatDuration(durationMillis: number): string {
+    if (durationMillis < 1000) {
+        return `${durationMillis}ms`;
+    } else if (durationMillis < 60000) {
+        return `${(durationMillis / 1000).toFixed(1)}s`;
+    }
+    const seconds = Math.round(durationMillis / 1000);
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
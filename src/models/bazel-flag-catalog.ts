@@ -0,0 +1,126 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BazelFlagInfo, BazelFlagsParser } from '../services/bazel-flags-parser';
+import { BazelService } from '../services/bazel-service';
+import { Console } from '../services/console';
+import { FileStorageService } from '../services/file-storage-service';
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+
+interface StoredFlagCatalog {
+    // The output of `bazel --version`, the flags change with it
+    bazelVersion: string;
+    flags: BazelFlagInfo[];
+    // The commands whose long help has been merged into the flags
+    describedCommands: string[];
+}
+
+/**
+ * Model for the flags of the installed Bazel. The catalog is read once per Bazel
+ * version from `bazel help flags-as-proto` and stored in the global storage, the
+ * defaults and allowed values of a command's flags are added the first time they
+ * are asked for.
+ */
+export class BazelFlagCatalog {
+    private catalog: StoredFlagCatalog | undefined;
+
+    constructor(private readonly bazelService: BazelService,
+        private readonly fileStorageService: FileStorageService
+    ) { }
+
+    /**
+     * Returns the flags accepted by a bazel command, e.g. build.
+     */
+    public async getFlagsForCommand(command: string, cancellationToken?: vscode.CancellationToken): Promise<BazelFlagInfo[]> {
+        try {
+            const catalog = await this.load(cancellationToken);
+            if (!catalog.describedCommands.includes(command)) {
+                await this.describeCommand(catalog, command, cancellationToken);
+            }
+            return catalog.flags.filter(flag => flag.commands.includes(command));
+        } catch (error) {
+            Console.error(`Error loading the flags of ${command}:`, error);
+            return Promise.reject(error);
+        }
+    }
+
+    private async load(cancellationToken?: vscode.CancellationToken): Promise<StoredFlagCatalog> {
+        const bazelVersion = await this.bazelService.fetchVersion(cancellationToken);
+        if (this.catalog && this.catalog.bazelVersion === bazelVersion) {
+            return this.catalog;
+        }
+
+        const fileName = BazelFlagCatalog.getFileName(bazelVersion);
+        const storedCatalog = await this.fileStorageService.readJsonFromFile<StoredFlagCatalog>(fileName);
+        if (storedCatalog && storedCatalog.bazelVersion === bazelVersion) {
+            this.catalog = storedCatalog;
+            return storedCatalog;
+        }
+
+        const output = await this.bazelService.fetchFlagsAsProto(cancellationToken);
+        this.catalog = {
+            bazelVersion: bazelVersion,
+            flags: BazelFlagsParser.parseFlagsAsProto(output),
+            describedCommands: []
+        };
+        await this.save(this.catalog);
+        return this.catalog;
+    }
+
+    private async describeCommand(catalog: StoredFlagCatalog, command: string, cancellationToken?: vscode.CancellationToken) {
+        try {
+            const help = await this.bazelService.fetchCommandHelp(command, cancellationToken);
+            const valueInfos = BazelFlagsParser.parseCommandHelp(help);
+            catalog.flags
+                .filter(flag => flag.commands.includes(command))
+                .forEach(flag => {
+                    const valueInfo = valueInfos.get(flag.name);
+                    if (valueInfo) {
+                        flag.valueDescription = valueInfo.valueDescription;
+                        flag.defaultValue = valueInfo.defaultValue;
+                        flag.allowedValues = valueInfo.allowedValues;
+                    }
+                });
+            catalog.describedCommands.push(command);
+            await this.save(catalog);
+        } catch (error) {
+            // The documentation of the flags is still worth showing
+            Console.warn(`Cannot read the defaults and values of the flags of ${command}:`, error);
+        }
+    }
+
+    private async save(catalog: StoredFlagCatalog) {
+        try {
+            await this.fileStorageService.writeJsonToFile(BazelFlagCatalog.getFileName(catalog.bazelVersion), catalog);
+        } catch (error) {
+            Console.error('Error saving the flag catalog:', error);
+        }
+    }
+
+    private static getFileName(bazelVersion: string): string {
+        const hash = crypto.createHash('sha1').update(bazelVersion).digest('hex').substring(0, 12);
+        return `flagCatalogs/${hash}.json`;
+    }
+}
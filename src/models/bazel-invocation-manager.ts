@@ -0,0 +1,62 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BazelInvocation } from './bazel-invocation';
+import { BazelTarget } from './bazel-target';
+import { EventEmitter } from 'vscode';
+
+export class BazelInvocationManager {
+    // The latest invocation of each target, running or finished
+    private invocationMap: Map<string, BazelInvocation> = new Map();
+
+    // Event emitters to notify when an invocation started, read new build events or finished
+    private _onDidStartInvocation: EventEmitter<BazelInvocation> = new EventEmitter<BazelInvocation>();
+    private _onDidChangeInvocation: EventEmitter<BazelInvocation> = new EventEmitter<BazelInvocation>();
+    private _onDidFinishInvocation: EventEmitter<BazelInvocation> = new EventEmitter<BazelInvocation>();
+
+    // Events that consumers can subscribe to
+    public readonly onDidStartInvocation = this._onDidStartInvocation.event;
+    public readonly onDidChangeInvocation = this._onDidChangeInvocation.event;
+    public readonly onDidFinishInvocation = this._onDidFinishInvocation.event;
+
+    public startInvocation(invocation: BazelInvocation): void {
+        this.invocationMap.set(invocation.targetId, invocation);
+        this._onDidStartInvocation.fire(invocation);
+        this._onDidChangeInvocation.fire(invocation);
+    }
+
+    public updateInvocation(invocation: BazelInvocation): void {
+        this._onDidChangeInvocation.fire(invocation);
+    }
+
+    public finishInvocation(invocation: BazelInvocation): void {
+        this._onDidChangeInvocation.fire(invocation);
+        this._onDidFinishInvocation.fire(invocation);
+    }
+
+    // Returns the latest invocation of a target
+    public getLastInvocation(target: BazelTarget): BazelInvocation | undefined {
+        return this.invocationMap.get(target.id);
+    }
+}
@@ -0,0 +1,381 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BuildEvent, BuildEventFile, BuildEventParser } from '../services/build-event-parser';
+
+export interface BazelTargetResult {
+    label: string;
+    kind?: string;
+    // Undefined until the target completed
+    success?: boolean;
+    // Why the target was not built, e.g. a dependency failed or the build was interrupted
+    abortReason?: string;
+    failureMessage?: string;
+}
+
+export interface BazelFailedAction {
+    label?: string;
+    mnemonic?: string;
+    exitCode?: number;
+    primaryOutputPath?: string;
+    stdoutPath?: string;
+    stderrPath?: string;
+    message?: string;
+}
+
+export interface BazelTestAttempt {
+    label: string;
+    run: number;
+    shard: number;
+    attempt: number;
+    // E.g. PASSED, FAILED, FLAKY or TIMEOUT
+    status: string;
+    statusDetails?: string;
+    cached: boolean;
+    durationMillis?: number;
+    // The local paths of the outputs of the attempt by name, e.g. test.log and test.xml
+    outputs: { [name: string]: string };
+}
+
+export interface BazelTestSummary {
+    label: string;
+    status: string;
+    totalRunCount: number;
+    shardCount: number;
+    attemptCount: number;
+    cachedCount: number;
+    durationMillis?: number;
+    passedLogPaths: string[];
+    failedLogPaths: string[];
+}
+
+export interface BazelCacheStatistics {
+    actionsCreated?: number;
+    actionsExecuted?: number;
+    actionCacheHits?: number;
+    actionCacheMisses?: number;
+    // Actions whose outputs were downloaded from a remote cache
+    remoteCacheHits?: number;
+}
+
+/**
+ * The results of a bazel invocation, built from its build event protocol stream
+ * while it runs.
+ */
+export class BazelInvocation {
+    public readonly startTime = Date.now();
+    public invocationId: string | undefined;
+    public bazelCommand: string | undefined;
+    public exitCode: { name?: string, code?: number } | undefined;
+    public finishTime: number | undefined;
+
+    private readonly targetResults: Map<string, BazelTargetResult> = new Map();
+    private readonly targetFileSets: Map<string, string[]> = new Map();
+    private readonly namedSets: Map<string, { files: string[], fileSets: string[] }> = new Map();
+    private readonly failedActions: BazelFailedAction[] = [];
+    private readonly testAttempts: BazelTestAttempt[] = [];
+    private readonly testSummaries: Map<string, BazelTestSummary> = new Map();
+    private readonly output: string[] = [];
+    private cacheStatistics: BazelCacheStatistics = {};
+    private finished = false;
+
+    /**
+     * @param targetId The id of the tree target the invocation runs.
+     * @param action The action of the target, e.g. build.
+     * @param command The command line that was run.
+     * @param workspaceRoot The directory bazel ran in.
+     * @param language The inferred language of the target.
+     */
+    constructor(public readonly targetId: string,
+        public readonly action: string,
+        public readonly command: string,
+        public readonly workspaceRoot: string,
+        public readonly language?: string
+    ) { }
+
+    public apply(event: BuildEvent) {
+        const id = event.id;
+        if (event.progress) {
+            this.output.push(event.progress.stderr || '', event.progress.stdout || '');
+        }
+
+        if (event.started) {
+            this.invocationId = event.started.uuid;
+            this.bazelCommand = event.started.command;
+        } else if (id.targetConfigured && event.configured) {
+            this.getOrCreateTargetResult(id.targetConfigured.label).kind = event.configured.targetKind;
+        } else if (id.targetCompleted && !id.targetCompleted.aspect) {
+            this.applyTargetCompleted(id.targetCompleted.label, event);
+        } else if (id.actionCompleted && event.action) {
+            this.applyAction(event);
+        } else if (id.namedSet && event.namedSetOfFiles) {
+            this.namedSets.set(id.namedSet.id, {
+                files: BazelInvocation.toFilePaths(event.namedSetOfFiles.files),
+                fileSets: (event.namedSetOfFiles.fileSets || []).map(fileSet => fileSet.id)
+            });
+        } else if (id.testResult && event.testResult) {
+            this.applyTestResult(event);
+        } else if (id.testSummary && event.testSummary) {
+            this.applyTestSummary(event);
+        } else if (id.buildMetrics && event.buildMetrics) {
+            this.applyBuildMetrics(event);
+        } else if (id.buildFinished && event.finished) {
+            this.exitCode = event.finished.exitCode;
+            this.finishTime = BuildEventParser.toNumber(event.finished.finishTimeMillis);
+        } else if (id.targetConfigured && event.aborted) {
+            this.applyTargetCompleted(id.targetConfigured.label, event);
+        }
+
+        if (event.lastMessage) {
+            this.finished = true;
+        }
+    }
+
+    private applyTargetCompleted(label: string, event: BuildEvent) {
+        const result = this.getOrCreateTargetResult(label);
+        if (event.completed) {
+            result.success = event.completed.success === true;
+            result.failureMessage = event.completed.failureDetail?.message;
+            const fileSets = (event.completed.outputGroup || [])
+                .filter(group => group.name === 'default')
+                .flatMap(group => (group.fileSets || []).map(fileSet => fileSet.id));
+            this.targetFileSets.set(label, fileSets);
+            // Older versions of bazel list the outputs in the event itself
+            const importantOutput = BazelInvocation.toFilePaths(event.completed.importantOutput);
+            if (importantOutput.length > 0) {
+                const setId = `importantOutput:${label}`;
+                this.namedSets.set(setId, { files: importantOutput, fileSets: [] });
+                this.targetFileSets.set(label, [...fileSets, setId]);
+            }
+        } else if (event.aborted) {
+            result.success = false;
+            result.abortReason = event.aborted.reason;
+            result.failureMessage = event.aborted.description;
+        }
+    }
+
+    private applyAction(event: BuildEvent) {
+        const action = event.action;
+        if (!action || action.success) {
+            return;
+        }
+        this.failedActions.push({
+            label: action.label || event.id.actionCompleted?.label,
+            mnemonic: action.type,
+            exitCode: action.exitCode,
+            primaryOutputPath: BuildEventParser.toFilePath(action.primaryOutput),
+            stdoutPath: BuildEventParser.toFilePath(action.stdout),
+            stderrPath: BuildEventParser.toFilePath(action.stderr),
+            message: action.failureDetail?.message
+        });
+    }
+
+    private applyTestResult(event: BuildEvent) {
+        const id = event.id.testResult;
+        const testResult = event.testResult;
+        if (!id || !testResult) {
+            return;
+        }
+
+        const outputs: { [name: string]: string } = {};
+        (testResult.testActionOutput || []).forEach(file => {
+            const filePath = BuildEventParser.toFilePath(file);
+            if (file.name && filePath) {
+                outputs[file.name] = filePath;
+            }
+        });
+
+        this.testAttempts.push({
+            label: id.label,
+            run: id.run || 1,
+            shard: id.shard || 1,
+            attempt: id.attempt || 1,
+            status: testResult.status || 'NO_STATUS',
+            statusDetails: testResult.statusDetails,
+            cached: testResult.cachedLocally === true || testResult.executionInfo?.cachedRemotely === true,
+            durationMillis: BuildEventParser.toNumber(testResult.testAttemptDurationMillis),
+            outputs: outputs
+        });
+    }
+
+    private applyTestSummary(event: BuildEvent) {
+        const id = event.id.testSummary;
+        const summary = event.testSummary;
+        if (!id || !summary) {
+            return;
+        }
+
+        this.testSummaries.set(id.label, {
+            label: id.label,
+            status: summary.overallStatus || 'NO_STATUS',
+            totalRunCount: summary.totalRunCount || 0,
+            shardCount: summary.shardCount || 1,
+            attemptCount: summary.attemptCount || 1,
+            cachedCount: summary.totalNumCached || 0,
+            durationMillis: BuildEventParser.toNumber(summary.totalRunDurationMillis),
+            passedLogPaths: BazelInvocation.toFilePaths(summary.passed),
+            failedLogPaths: BazelInvocation.toFilePaths(summary.failed)
+        });
+    }
+
+    private applyBuildMetrics(event: BuildEvent) {
+        const actionSummary = event.buildMetrics?.actionSummary;
+        if (!actionSummary) {
+            return;
+        }
+
+        const remoteCacheHits = (actionSummary.runnerCount || []).find(runner => runner.name === 'remote cache hit');
+        this.cacheStatistics = {
+            actionsCreated: BuildEventParser.toNumber(actionSummary.actionsCreated),
+            actionsExecuted: BuildEventParser.toNumber(actionSummary.actionsExecuted),
+            actionCacheHits: actionSummary.actionCacheStatistics?.hits,
+            actionCacheMisses: actionSummary.actionCacheStatistics?.misses,
+            remoteCacheHits: remoteCacheHits?.count
+        };
+    }
+
+    private getOrCreateTargetResult(label: string): BazelTargetResult {
+        let result = this.targetResults.get(label);
+        if (!result) {
+            result = { label: label };
+            this.targetResults.set(label, result);
+        }
+        return result;
+    }
+
+    private static toFilePaths(files: BuildEventFile[] | undefined): string[] {
+        return (files || [])
+            .map(file => BuildEventParser.toFilePath(file))
+            .filter((filePath): filePath is string => filePath !== undefined);
+    }
+
+    /**
+     * Marks the invocation as ended, even if bazel stopped before writing its last event.
+     */
+    public finish() {
+        this.finished = true;
+    }
+
+    /**
+     * True once the last build event was read or the invocation ended.
+     */
+    public isFinished(): boolean {
+        return this.finished;
+    }
+
+    /**
+     * Whether the invocation succeeded, or undefined while it runs.
+     */
+    public isSuccess(): boolean | undefined {
+        if (this.exitCode === undefined) {
+            return undefined;
+        }
+        return (this.exitCode.code || 0) === 0;
+    }
+
+    public getTargetResults(): BazelTargetResult[] {
+        return Array.from(this.targetResults.values());
+    }
+
+    public getTargetResult(label: string): BazelTargetResult | undefined {
+        return this.targetResults.get(label);
+    }
+
+    /**
+     * Returns the local paths of the default outputs of a completed target.
+     */
+    public getOutputFiles(label: string): string[] {
+        const files = new Set<string>();
+        const visited = new Set<string>();
+        const pending = [...(this.targetFileSets.get(label) || [])];
+        while (pending.length > 0) {
+            const setId = pending.pop() as string;
+            const namedSet = this.namedSets.get(setId);
+            if (visited.has(setId) || !namedSet) {
+                continue;
+            }
+            visited.add(setId);
+            namedSet.files.forEach(file => files.add(file));
+            pending.push(...namedSet.fileSets);
+        }
+        return Array.from(files);
+    }
+
+    /**
+     * Returns the console output bazel wrote so far, with the output of failed actions.
+     */
+    public getOutput(): string {
+        return this.output.join('');
+    }
+
+    public getFailedActions(): BazelFailedAction[] {
+        return [...this.failedActions];
+    }
+
+    /**
+     * Returns the attempts of every test run, or of one test.
+     */
+    public getTestAttempts(label?: string): BazelTestAttempt[] {
+        return this.testAttempts.filter(attempt => label === undefined || attempt.label === label);
+    }
+
+    public getTestSummaries(): BazelTestSummary[] {
+        return Array.from(this.testSummaries.values());
+    }
+
+    public getCacheStatistics(): BazelCacheStatistics {
+        return { ...this.cacheStatistics };
+    }
+
+    /**
+     * Summarizes the invocation in one line, e.g. `2 targets failed, 1 action failed, 40 of 52 actions cached`.
+     */
+    public summarize(): string {
+        const parts: string[] = [];
+        const targetResults = this.getTargetResults().filter(result => result.success !== undefined);
+        const failedTargets = targetResults.filter(result => !result.success).length;
+        if (failedTargets > 0) {
+            parts.push(`${failedTargets} of ${targetResults.length} target${targetResults.length === 1 ? '' : 's'} failed`);
+        } else if (targetResults.length > 0) {
+            parts.push(`${targetResults.length} target${targetResults.length === 1 ? '' : 's'} built`);
+        }
+
+        if (this.failedActions.length > 0) {
+            parts.push(`${this.failedActions.length} action${this.failedActions.length === 1 ? '' : 's'} failed`);
+        }
+
+        const testSummaries = this.getTestSummaries();
+        if (testSummaries.length > 0) {
+            const passed = testSummaries.filter(summary => summary.status === 'PASSED' || summary.status === 'FLAKY').length;
+            parts.push(`${passed} of ${testSummaries.length} test${testSummaries.length === 1 ? '' : 's'} passed`);
+        }
+
+        const { actionsCreated, actionsExecuted } = this.cacheStatistics;
+        if (actionsCreated !== undefined && actionsExecuted !== undefined && actionsCreated > 0) {
+            parts.push(`${actionsExecuted} of ${actionsCreated} actions executed`);
+        }
+
+        return parts.join(', ');
+    }
+}
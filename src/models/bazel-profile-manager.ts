@@ -0,0 +1,77 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelProfile } from './bazel-profile';
+import * as vscode from 'vscode';
+
+export class BazelProfileManager {
+    private static readonly key = 'buildProfiles';
+
+    // The profiles, the latest first
+    private profiles: BazelProfile[];
+
+    // Event emitter to notify when a profile was added
+    private _onDidAddProfile: vscode.EventEmitter<BazelProfile> = new vscode.EventEmitter<BazelProfile>();
+
+    // Event emitter to notify when profiles were added or removed
+    private _onDidChangeProfiles: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+
+    // Events that consumers can subscribe to
+    public readonly onDidAddProfile = this._onDidAddProfile.event;
+    public readonly onDidChangeProfiles = this._onDidChangeProfiles.event;
+
+    constructor(private readonly context: vscode.ExtensionContext,
+        private readonly size = 20) {
+        this.profiles = this.context.workspaceState.get<BazelProfile[]>(BazelProfileManager.key, []);
+    }
+
+    public addProfile(profile: BazelProfile): void {
+        this.profiles.unshift(profile);
+        this.profiles.splice(this.size);
+        this.save();
+        this._onDidAddProfile.fire(profile);
+    }
+
+    public getProfiles(): BazelProfile[] {
+        return [...this.profiles];
+    }
+
+    public getProfile(id: string): BazelProfile | undefined {
+        return this.profiles.find(profile => profile.id === id);
+    }
+
+    public removeProfile(profile: BazelProfile): void {
+        this.profiles = this.profiles.filter(existing => existing.id !== profile.id);
+        this.save();
+    }
+
+    public clear(): void {
+        this.profiles = [];
+        this.save();
+    }
+
+    private save() {
+        this.context.workspaceState.update(BazelProfileManager.key, this.profiles);
+        this._onDidChangeProfiles.fire();
+    }
+}
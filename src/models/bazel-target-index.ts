@@ -0,0 +1,360 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BazelAction, BazelTarget, SerializedBazelTarget } from './bazel-target';
+import { BazelParser } from '../services/bazel-parser';
+import { Console } from '../services/console';
+import { FileStorageService } from '../services/file-storage-service';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+// The available targets of one package and the fingerprint of the BUILD file they were read from.
+interface IndexedPackage {
+    buildFile?: string;
+    mtimeMs?: number;
+    hash?: string;
+    targets: { [action: string]: SerializedBazelTarget[] };
+}
+
+interface TargetIndexManifest {
+    version: number;
+    shardCount: number;
+}
+
+/**
+ * Persists the available targets per package, spread over a fixed number of shard
+ * files so that a change to one package only rewrites its shard. Every package
+ * records the modification time and content hash of its BUILD file, which lets
+ * stale packages be found without parsing the whole workspace again.
+ */
+export class BazelTargetIndex {
+    private static readonly version = 1;
+    private static readonly shardCount = 32;
+    private static readonly directoryName = 'targetIndex';
+    private static readonly manifestFileName = path.join(BazelTargetIndex.directoryName, 'manifest.json');
+
+    // Indexed packages by absolute package directory
+    private packages: Map<string, IndexedPackage> = new Map();
+    // Packages whose BUILD file changed since they were indexed
+    private stalePackages: Set<string> = new Set();
+    private dirtyShards: Set<number> = new Set();
+    // Loads, updates and saves run one after the other, so that saves of a shard never overlap
+    private pendingOperation: Promise<void> = Promise.resolve();
+
+    constructor(private readonly fileStorageService: FileStorageService) { }
+
+    public exists(): boolean {
+        return this.fileStorageService.fileExists(BazelTargetIndex.manifestFileName);
+    }
+
+    /**
+     * Loads the index and checks every package against its BUILD file.
+     * Packages whose BUILD file was deleted are dropped, changed ones are marked stale.
+     */
+    public async load(cancellationToken?: vscode.CancellationToken): Promise<void> {
+        return this.enqueue(() => this.loadShards(cancellationToken));
+    }
+
+    private async loadShards(cancellationToken?: vscode.CancellationToken): Promise<void> {
+        this.packages.clear();
+        this.stalePackages.clear();
+
+        const manifest = await this.fileStorageService.readJsonFromFile<TargetIndexManifest>(BazelTargetIndex.manifestFileName);
+        if (!manifest || manifest.version !== BazelTargetIndex.version || manifest.shardCount !== BazelTargetIndex.shardCount) {
+            // An index of another layout is not read, its packages are indexed again as new ones.
+            Console.info('Target index is missing or outdated');
+            return;
+        }
+
+        for (let shard = 0; shard < BazelTargetIndex.shardCount; shard++) {
+            if (cancellationToken?.isCancellationRequested) {
+                return Promise.reject(new Error('Loading target index cancelled'));
+            }
+            try {
+                const shardPackages = await this.fileStorageService.readJsonFromFile<{ [packageDir: string]: IndexedPackage }>(
+                    BazelTargetIndex.getShardFileName(shard));
+                Object.entries(shardPackages || {}).forEach(([packageDir, indexedPackage]) => {
+                    this.packages.set(packageDir, indexedPackage);
+                });
+            } catch (error) {
+                // Only the packages of an unreadable shard need to be indexed again
+                Console.warn(`Skipping unreadable target index shard ${shard}:`, error);
+                this.dirtyShards.add(shard);
+            }
+        }
+
+        await Promise.all(Array.from(this.packages.entries()).map(async ([packageDir, indexedPackage]) => {
+            const state = await BazelTargetIndex.checkBuildFile(packageDir, indexedPackage);
+            if (state === 'deleted') {
+                this.packages.delete(packageDir);
+                this.dirtyShards.add(BazelTargetIndex.getShard(packageDir));
+            } else if (state === 'changed') {
+                this.stalePackages.add(packageDir);
+            } else if (state === 'touched') {
+                this.dirtyShards.add(BazelTargetIndex.getShard(packageDir));
+            }
+        }));
+
+        if (this.dirtyShards.size > 0) {
+            this.enqueue(() => this.save()); // Fire-and-forget, don't await
+        }
+    }
+
+    /**
+     * Calls the callback for every indexed target of every action.
+     */
+    public forEachTarget(callback: (action: BazelAction, target: SerializedBazelTarget) => void) {
+        this.packages.forEach(indexedPackage => {
+            Object.entries(indexedPackage.targets).forEach(([action, targets]) => {
+                targets.forEach(target => callback(action, target));
+            });
+        });
+    }
+
+    /**
+     * Returns the BUILD files that have to be parsed again to bring the index up to date.
+     * @param buildFiles All BUILD files currently in the workspace.
+     * @returns The BUILD files of changed and new packages, and those of indexed packages
+     * that are no longer part of the workspace (e.g. because they are now ignored).
+     */
+    public async getStaleBuildFiles(buildFiles: string[]): Promise<string[]> {
+        // Updates that are still being applied would otherwise be reported as stale
+        await this.pendingOperation;
+        const staleBuildFiles = new Set<string>();
+        const currentPackageDirs = new Set(buildFiles.map(buildFile => path.dirname(buildFile)));
+
+        buildFiles.forEach(buildFile => {
+            const packageDir = path.dirname(buildFile);
+            if (!this.packages.has(packageDir) || this.stalePackages.has(packageDir)) {
+                staleBuildFiles.add(buildFile);
+            }
+        });
+        this.packages.forEach((indexedPackage, packageDir) => {
+            if (indexedPackage.buildFile && !currentPackageDirs.has(packageDir)) {
+                staleBuildFiles.add(indexedPackage.buildFile);
+            }
+        });
+
+        return Array.from(staleBuildFiles);
+    }
+
+    /**
+     * Replaces the whole index.
+     * @param targets All available targets, categorized by action.
+     * @param buildFiles All BUILD files in the workspace, so that packages without
+     * targets are recorded as up to date too.
+     */
+    public async replaceAll(targets: Map<BazelAction, BazelTarget[]>, buildFiles: string[] = []): Promise<void> {
+        return this.enqueue(async () => {
+            const packageDirs = new Set([...buildFiles.map(buildFile => path.dirname(buildFile)),
+                ...BazelTargetIndex.groupByPackage(targets).keys()]);
+            // The old packages are served until the new ones are complete
+            this.packages = await BazelTargetIndex.indexPackages(Array.from(packageDirs), targets);
+            this.stalePackages.clear();
+            for (let shard = 0; shard < BazelTargetIndex.shardCount; shard++) {
+                this.dirtyShards.add(shard);
+            }
+            return this.save();
+        });
+    }
+
+    /**
+     * Replaces the given packages, leaving all other packages untouched.
+     * @param packageDirs The absolute directories of the packages to replace.
+     * @param targets The new targets of those packages, categorized by action.
+     */
+    public async updatePackages(packageDirs: string[], targets: Map<BazelAction, BazelTarget[]>): Promise<void> {
+        return this.enqueue(async () => {
+            const indexedPackages = await BazelTargetIndex.indexPackages(packageDirs, targets);
+            packageDirs.forEach(packageDir => {
+                const indexedPackage = indexedPackages.get(packageDir);
+                if (indexedPackage) {
+                    this.packages.set(packageDir, indexedPackage);
+                } else {
+                    this.packages.delete(packageDir);
+                }
+                this.stalePackages.delete(packageDir);
+                this.dirtyShards.add(BazelTargetIndex.getShard(packageDir));
+            });
+            return this.save();
+        });
+    }
+
+    public async clear(): Promise<void> {
+        return this.enqueue(() => {
+            this.packages.clear();
+            this.stalePackages.clear();
+            this.dirtyShards.clear();
+            return this.fileStorageService.deleteDirectory(BazelTargetIndex.directoryName);
+        });
+    }
+
+    /**
+     * Returns the absolute directory of the package a target belongs to.
+     */
+    public static getPackageDirectory(target: BazelTarget): string {
+        const packagePath = BazelParser.getPackageFromBazelPath(target.bazelPath).replace(/^\/\//, '');
+        return path.join(target.getWorkspaceRoot(), ...packagePath.split('/'));
+    }
+
+    /**
+     * Runs an operation once all earlier ones have finished, whether they succeeded or not.
+     */
+    private enqueue(operation: () => Promise<void>): Promise<void> {
+        const result = this.pendingOperation.then(operation);
+        this.pendingOperation = result.catch(() => undefined);
+        return result;
+    }
+
+    // Reads the fingerprints of the given packages' BUILD files, without touching the index
+    private static async indexPackages(packageDirs: string[], targets: Map<BazelAction, BazelTarget[]>): Promise<Map<string, IndexedPackage>> {
+        const targetsByPackage = BazelTargetIndex.groupByPackage(targets);
+        const indexedPackages = new Map<string, IndexedPackage>();
+
+        await Promise.all(packageDirs.map(async (packageDir) => {
+            const buildFile = await BazelTargetIndex.findBuildFile(packageDir);
+            const packageTargets = targetsByPackage.get(packageDir);
+            // A package is only recorded if it has a BUILD file or targets
+            if (!buildFile && !packageTargets) {
+                return;
+            }
+
+            const indexedPackage: IndexedPackage = { targets: packageTargets || {} };
+            if (buildFile) {
+                try {
+                    const stats = await fs.promises.stat(buildFile);
+                    indexedPackage.buildFile = buildFile;
+                    indexedPackage.mtimeMs = stats.mtimeMs;
+                    indexedPackage.hash = await BazelTargetIndex.hashFile(buildFile);
+                } catch (error) {
+                    // Deleted in the meantime, so its targets must not be served
+                    return;
+                }
+            }
+            indexedPackages.set(packageDir, indexedPackage);
+        }));
+        return indexedPackages;
+    }
+
+    private async save(): Promise<void> {
+        const shards = Array.from(this.dirtyShards);
+        this.dirtyShards.clear();
+
+        const shardPackages = new Map<number, { [packageDir: string]: IndexedPackage }>(shards.map(shard => [shard, {}]));
+        this.packages.forEach((indexedPackage, packageDir) => {
+            const packages = shardPackages.get(BazelTargetIndex.getShard(packageDir));
+            if (packages) {
+                packages[packageDir] = indexedPackage;
+            }
+        });
+
+        try {
+            await Promise.all(shards.map(shard =>
+                this.fileStorageService.writeJsonToFile(BazelTargetIndex.getShardFileName(shard), shardPackages.get(shard))));
+            const manifest: TargetIndexManifest = { version: BazelTargetIndex.version, shardCount: BazelTargetIndex.shardCount };
+            await this.fileStorageService.writeJsonToFile(BazelTargetIndex.manifestFileName, manifest);
+        } catch (error) {
+            // Retried with the next save
+            shards.forEach(shard => this.dirtyShards.add(shard));
+            Console.error('Error saving target index:', error);
+        }
+    }
+
+    private static groupByPackage(targets: Map<BazelAction, BazelTarget[]>): Map<string, { [action: string]: SerializedBazelTarget[] }> {
+        const targetsByPackage = new Map<string, { [action: string]: SerializedBazelTarget[] }>();
+        targets.forEach((actionTargets, action) => {
+            actionTargets.forEach(target => {
+                const packageDir = BazelTargetIndex.getPackageDirectory(target);
+                const packageTargets = targetsByPackage.get(packageDir) || {};
+                packageTargets[action] = packageTargets[action] || [];
+                packageTargets[action].push(target.toJSON());
+                targetsByPackage.set(packageDir, packageTargets);
+            });
+        });
+        return targetsByPackage;
+    }
+
+    /**
+     * Compares an indexed package with its BUILD file on disk. The content is only
+     * hashed if the modification time differs, so unchanged packages cost a stat.
+     */
+    private static async checkBuildFile(packageDir: string, indexedPackage: IndexedPackage): Promise<'unchanged' | 'touched' | 'changed' | 'deleted'> {
+        const buildFile = await BazelTargetIndex.findBuildFile(packageDir);
+        if (!indexedPackage.buildFile) {
+            return buildFile ? 'changed' : 'unchanged';
+        }
+        if (!buildFile) {
+            return 'deleted';
+        }
+        if (buildFile !== indexedPackage.buildFile) {
+            return 'changed';
+        }
+
+        try {
+            const stats = await fs.promises.stat(buildFile);
+            if (stats.mtimeMs === indexedPackage.mtimeMs) {
+                return 'unchanged';
+            }
+            if (await BazelTargetIndex.hashFile(buildFile) !== indexedPackage.hash) {
+                return 'changed';
+            }
+            indexedPackage.mtimeMs = stats.mtimeMs;
+            return 'touched';
+        } catch (error) {
+            return 'deleted';
+        }
+    }
+
+    // Bazel prefers BUILD.bazel over BUILD if a package has both
+    private static async findBuildFile(packageDir: string): Promise<string | undefined> {
+        for (const fileName of ['BUILD.bazel', 'BUILD']) {
+            const buildFile = path.join(packageDir, fileName);
+            try {
+                const stats = await fs.promises.stat(buildFile);
+                if (stats.isFile()) {
+                    return buildFile;
+                }
+            } catch (error) {
+                // No such file
+            }
+        }
+        return undefined;
+    }
+
+    private static async hashFile(filePath: string): Promise<string> {
+        const content = await fs.promises.readFile(filePath);
+        return crypto.createHash('sha1').update(content).digest('hex');
+    }
+
+    private static getShard(packageDir: string): number {
+        const digest = crypto.createHash('sha1').update(packageDir).digest();
+        return digest.readUInt32BE(0) % BazelTargetIndex.shardCount;
+    }
+
+    private static getShardFileName(shard: number): string {
+        return path.join(BazelTargetIndex.directoryName, `shard-${shard}.json`);
+    }
+}
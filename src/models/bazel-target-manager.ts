@@ -23,10 +23,12 @@
 ////////////////////////////////////////////////////////////////////////////////////
 
 import { BazelAction, BazelTarget, SerializedBazelTarget } from './bazel-target';
+import { BazelTargetIndex } from './bazel-target-index';
 import { WorkspaceStateManager } from './workspace-state-manager';
 import { BazelService } from '../services/bazel-service';
 import { Console } from '../services/console';
 import { FileStorageService } from '../services/file-storage-service';
+import * as path from 'path';
 import * as vscode from 'vscode';
 
 export class BazelTargetManager {
@@ -38,15 +40,22 @@ export class BazelTargetManager {
     private selectedTargetsLoaded: Promise<void>;
 
     private readonly targetsFileName = 'targets.json';
-    private readonly availableTargetsFileName = 'availableTargets.json';
+    // Superseded by the target index, only deleted if still around
+    private readonly legacyAvailableTargetsFileName = 'availableTargets.json';
+    private readonly availableTargetsIndex: BazelTargetIndex;
     private readonly availableTargetsLoadCancellationSource: vscode.CancellationTokenSource;
 
+    // Event emitter to notify when the available targets were loaded or replaced
+    private _onDidChangeAvailableTargets: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    public readonly onDidChangeAvailableTargets = this._onDidChangeAvailableTargets.event;
+
     constructor(
         private readonly context: vscode.ExtensionContext,
         private readonly bazelService: BazelService,
         private readonly fileStorageService: FileStorageService,
         workspaceStateManager: WorkspaceStateManager
     ) {
+        this.availableTargetsIndex = new BazelTargetIndex(fileStorageService);
         if (workspaceStateManager.majorVersionChanged()) {
             this.clear();
             this.targetsLoaded = Promise.resolve();
@@ -69,13 +78,12 @@ export class BazelTargetManager {
         this.availableTargetsLoaded = this.loadAvailableTargets(this.availableTargetsLoadCancellationSource.token).then(() => {
             Console.log('Available targets loaded successfully');
         }).catch(error => {
-            this.fileStorageService.deleteFile(this.availableTargetsFileName);
             Console.error('Error loading available targets:', error);
         });
     }
 
     public hasCache(): boolean {
-        return this.fileStorageService.fileExists(this.availableTargetsFileName);
+        return this.availableTargetsIndex.exists();
     }
 
     public async areAvailableTargetsLoaded(): Promise<boolean> {
@@ -92,12 +100,18 @@ export class BazelTargetManager {
 
     // Make loadAvailableTargets async
     private async loadAvailableTargets(cancellationToken?: vscode.CancellationToken): Promise<void> {
-        return this.fileStorageService.readJsonArrayElementsFromFileAsStream<SerializedBazelTarget>(this.availableTargetsFileName, (path, value) => {
-            const action = path[0] as string;
-            const targets = this.availableTargets.get(action) || [];
+        this.fileStorageService.deleteFile(this.legacyAvailableTargetsFileName); // Fire-and-forget, don't await
+
+        await this.availableTargetsIndex.load(cancellationToken);
+        const availableTargets: Map<BazelAction, BazelTarget[]> = new Map();
+        this.availableTargetsIndex.forEachTarget((action, value) => {
+            const targets = availableTargets.get(action) || [];
             targets.push(BazelTarget.fromJSON(this.context, this.bazelService, value));
-            this.availableTargets.set(action, targets);
-        }, cancellationToken);
+            availableTargets.set(action, targets);
+        });
+        availableTargets.forEach(targets => targets.sort((a, b) => (a.bazelPath < b.bazelPath ? -1 : 1)));
+        this.availableTargets = availableTargets;
+        this._onDidChangeAvailableTargets.fire();
     }
 
     // Make loadTargets async
@@ -141,11 +155,53 @@ export class BazelTargetManager {
         return this.getMapTargets(this.availableTargets, action);
     }
 
-    public async updateAvailableTargets(targets: Map<BazelAction, BazelTarget[]>) {
+    /**
+     * Replaces all available targets.
+     * @param targets The available targets, categorized by action.
+     * @param buildFiles All BUILD files the targets were fetched from, so that
+     * packages without targets are not considered stale later on.
+     */
+    public async updateAvailableTargets(targets: Map<BazelAction, BazelTarget[]>, buildFiles: string[] = []) {
         this.availableTargetsLoadCancellationSource.cancel();
         await this.availableTargetsLoaded;
         this.availableTargets = targets;
-        this.saveAvailableTargets(); // Fire-and-forget, don't await
+        this._onDidChangeAvailableTargets.fire();
+        this.availableTargetsIndex.replaceAll(targets, buildFiles); // Fire-and-forget, the index applies its updates in order
+    }
+
+    /**
+     * Replaces the available targets of the packages owning the given BUILD files, leaving all other packages untouched.
+     * @param buildFiles The BUILD files whose package targets should be replaced.
+     * Packages without any entries in targets are removed.
+     * @param targets The new targets of those packages, categorized by action.
+     */
+    public async updateAvailableTargetsForBuildFiles(buildFiles: string[], targets: Map<BazelAction, BazelTarget[]>) {
+        // Do not cancel loading here, a partially loaded cache cannot be merged into.
+        await this.availableTargetsLoaded;
+        const affectedPackageDirs = buildFiles.map(buildFile => path.dirname(buildFile));
+        const affectedPackages = new Set(affectedPackageDirs);
+        const actions = new Set([...this.availableTargets.keys(), ...targets.keys()]);
+        const mergedTargets: Map<BazelAction, BazelTarget[]> = new Map();
+
+        actions.forEach(action => {
+            const unaffectedTargets = (this.availableTargets.get(action) || [])
+                .filter(target => !affectedPackages.has(BazelTargetIndex.getPackageDirectory(target)));
+            const merged = unaffectedTargets.concat(targets.get(action) || []);
+            mergedTargets.set(action, merged.sort((a, b) => (a.bazelPath < b.bazelPath ? -1 : 1)));
+        });
+
+        this.availableTargets = mergedTargets;
+        this._onDidChangeAvailableTargets.fire();
+        this.availableTargetsIndex.updatePackages(affectedPackageDirs, targets); // Fire-and-forget, the index applies its updates in order
+    }
+
+    /**
+     * Returns the BUILD files that were added, changed or deleted since the available targets were indexed.
+     * @param buildFiles All BUILD files currently in the workspace.
+     */
+    public async getStaleBuildFiles(buildFiles: string[]): Promise<string[]> {
+        await this.availableTargetsLoaded;
+        return this.availableTargetsIndex.getStaleBuildFiles(buildFiles);
     }
 
     public addTarget(target: BazelTarget) {
@@ -228,7 +284,8 @@ export class BazelTargetManager {
     public async clear(): Promise<void> {
         try {
             await Promise.all([
-                this.fileStorageService.deleteFile(this.availableTargetsFileName),
+                this.availableTargetsIndex.clear(),
+                this.fileStorageService.deleteFile(this.legacyAvailableTargetsFileName),
                 this.fileStorageService.deleteFile(this.targetsFileName),
                 this.context.workspaceState.update('selectedTargets', undefined)]);
         } catch (error) {
@@ -236,16 +293,6 @@ export class BazelTargetManager {
         }
     }
 
-    // Make saveAvailableTargets async
-    private async saveAvailableTargets(): Promise<void> {
-        // Serialize the map to an object before saving
-        const serializedTargets: { [key: string]: SerializedBazelTarget[] } = {};
-        this.availableTargets.forEach((targets, action) => {
-            serializedTargets[action] = targets.map(target => target.toJSON());
-        });
-        this.fileStorageService.writeJsonToFile(this.availableTargetsFileName, serializedTargets); // Fire-and-forgets
-    }
-
     // Make saveTargets async
     private async saveTargets(): Promise<void> {
         // Serialize the map to an object before saving
@@ -27,6 +27,27 @@ import { BazelTargetPropertyHistory } from './bazel-target-property-history';
 import { v4 as uuidv4 } from 'uuid';
 import * as vscode from 'vscode';
 
+/**
+ * A value offered when adding to a property, with an optional description and
+ * the choices for its argument, e.g. a flag and the values of its enum.
+ */
+export interface BazelTargetMultiPropertyOption {
+    label: string;
+    description?: string;
+    detail?: string;
+    choices?: string[];
+}
+
+/**
+ * What a value of a property stands for, e.g. the flags a config expands to,
+ * with a warning if the value does not apply to the target.
+ */
+export interface BazelTargetMultiPropertyValueDescription {
+    description: string;
+    tooltip?: string;
+    warning?: string;
+}
+
 export class BazelTargetMultiPropertyItem {
     public readonly id: string;
     constructor(private readonly target: BazelTargetMultiProperty,
@@ -52,6 +73,10 @@ export class BazelTargetMultiPropertyItem {
         return this.label;
     }
 
+    public describe(): Promise<BazelTargetMultiPropertyValueDescription | undefined> {
+        return this.target.describeValue(this.label);
+    }
+
     public toJSON() {
         return {
             label: this.label,
@@ -69,8 +94,9 @@ export class BazelTargetMultiProperty {
         public readonly name: string,
         target: BazelTarget,
         private readonly toStringFn: (bazelTargetProperty: BazelTargetMultiProperty) => string,
-        private readonly availableValuesFn: (cancellationToken: vscode.CancellationToken) => Promise<string[]> = (): Promise<string[]> => { return Promise.resolve([]); },
+        private readonly availableValuesFn: (cancellationToken: vscode.CancellationToken) => Promise<(string | BazelTargetMultiPropertyOption)[]> = (): Promise<string[]> => { return Promise.resolve([]); },
         private readonly showHistory = true,
+        private readonly describeValueFn: (value: string) => Promise<BazelTargetMultiPropertyValueDescription | undefined> = (): Promise<undefined> => { return Promise.resolve(undefined); }
     ) {
         this.id = `${target.action}${name}For${target.id}`;
         this.history = new BazelTargetPropertyHistory(context, name, 10);
@@ -84,7 +110,8 @@ export class BazelTargetMultiProperty {
             newTarget,  // Pass the new BazelTarget instance
             this.toStringFn,
             this.availableValuesFn,
-            this.showHistory
+            this.showHistory,
+            this.describeValueFn
         );
 
         // Copy all items
@@ -135,10 +162,14 @@ export class BazelTargetMultiProperty {
         return this.showHistory;
     }
 
-    public getAvailableValues(cancellationToken: vscode.CancellationToken): Promise<string[]> {
+    public getAvailableValues(cancellationToken: vscode.CancellationToken): Promise<(string | BazelTargetMultiPropertyOption)[]> {
         return this.availableValuesFn(cancellationToken);
     }
 
+    public describeValue(value: string): Promise<BazelTargetMultiPropertyValueDescription | undefined> {
+        return this.describeValueFn(value);
+    }
+
     public getHistory(): string[] {
         return this.history.getHistory();
     }
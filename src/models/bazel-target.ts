@@ -22,7 +22,7 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 
-import { BazelTargetMultiProperty } from './bazel-target-multi-property';
+import { BazelTargetMultiProperty, BazelTargetMultiPropertyOption, BazelTargetMultiPropertyValueDescription } from './bazel-target-multi-property';
 import { BazelTargetProperty } from './bazel-target-property';
 import { BazelService } from '../services/bazel-service';
 import { v4 as uuidv4 } from 'uuid';
@@ -34,7 +34,24 @@ export interface SerializedBazelTarget {
     buildPath: string,
     action: BazelAction,
     ruleType: string,
-    id: string
+    id: string,
+    metadata?: BazelTargetMetadata
+}
+
+/**
+ * Details about the rule behind a target, as reported by bazel query or read from its BUILD file.
+ */
+export interface BazelTargetMetadata {
+    tags?: string[],
+    srcs?: string[],
+    deps?: string[],
+    location?: string,
+    size?: string,
+    flaky?: boolean,
+    testonly?: boolean,
+    executable?: boolean,
+    language?: string,
+    workspaceRoot?: string
 }
 
 export type BazelAction = string;
@@ -60,14 +77,15 @@ export class BazelTarget {
         public buildPath: string,
         public action: BazelAction,
         public ruleType: string,
-        id?: string
+        id?: string,
+        public metadata: BazelTargetMetadata = {}
     ) {
         if (id === undefined) {
             this.id = `${action}For${bazelPath}-${uuidv4()}`;
         } else {
             this.id = id;
         }
-        this.language = BazelService.inferLanguageFromRuleType(this.ruleType);
+        this.language = metadata.language || BazelService.inferLanguageFromRuleType(this.ruleType);
 
         this.envVars = new BazelTargetMultiProperty(context, 'Environment', 'EnvVars',
             this,
@@ -86,7 +104,7 @@ export class BazelTarget {
                 });
                 return bazelArgs;
             },
-            (cancellationToken): Promise<string[]> => {
+            (cancellationToken): Promise<BazelTargetMultiPropertyOption[]> => {
                 return this.bazelService.fetchArgsForAction(this.action, cancellationToken);
             },
             false);
@@ -101,10 +119,13 @@ export class BazelTarget {
                 });
                 return configArgs;
             },
-            (cancellationToken): Promise<string[]> => {
-                return this.bazelService.fetchConfigsForAction(this.action, cancellationToken);
+            (cancellationToken): Promise<BazelTargetMultiPropertyOption[]> => {
+                return this.bazelService.fetchConfigsForAction(this.action, cancellationToken, this.getWorkspaceRoot());
             },
-            false);
+            false,
+            (config): Promise<BazelTargetMultiPropertyValueDescription> => {
+                return this.bazelService.describeConfig(config, this.action, this.getWorkspaceRoot());
+            });
 
         this.runArgs = new BazelTargetProperty(context, 'Run args', 'RunArgs',
             this,
@@ -122,7 +143,7 @@ export class BazelTarget {
 
     // Method to clone the target with a new ID
     public clone(cloneProperties = false): BazelTarget {
-        const newTarget = new BazelTarget(this.context, this.bazelService, this.label, this.bazelPath, this.buildPath, this.action, this.ruleType);
+        const newTarget = new BazelTarget(this.context, this.bazelService, this.label, this.bazelPath, this.buildPath, this.action, this.ruleType, undefined, this.metadata);
 
         if (cloneProperties) {
             // Clone the properties
@@ -151,6 +172,17 @@ export class BazelTarget {
         return this.runArgs;
     }
 
+    // The workspace folder whose bazel workspace the target belongs to
+    public getWorkspaceFolder(): vscode.WorkspaceFolder {
+        return this.bazelService.getWorkspaceFolder();
+    }
+
+    // The root of the (possibly nested) bazel workspace that owns the target,
+    // which is where bazel must be invoked from and bazel-bin resolved against
+    public getWorkspaceRoot(): string {
+        return this.metadata.workspaceRoot || this.getWorkspaceFolder().uri.path;
+    }
+
     // Method to get a serializable version of the BazelTarget object
     public toJSON(): SerializedBazelTarget {
         return {
@@ -159,13 +191,47 @@ export class BazelTarget {
             buildPath: this.buildPath,
             action: this.action,
             ruleType: this.ruleType,
-            id: this.id
+            id: this.id,
+            metadata: this.metadata
         };
     }
 
     // Static method to create a BazelTarget object from serialized data
     public static fromJSON(context: vscode.ExtensionContext, bazelService: BazelService, data: SerializedBazelTarget): BazelTarget {
-        return new BazelTarget(context, bazelService, data.label, data.bazelPath, data.buildPath, data.action, data.ruleType, data.id);
+        return new BazelTarget(context, bazelService, data.label, data.bazelPath, data.buildPath, data.action, data.ruleType, data.id, data.metadata);
+    }
+
+    public isManual(): boolean {
+        return this.metadata.tags?.includes('manual') || false;
+    }
+
+    public isExclusive(): boolean {
+        return this.metadata.tags?.some(tag => tag === 'exclusive' || tag === 'exclusive-if-local') || false;
+    }
+
+    public isFlaky(): boolean {
+        return this.metadata.flaky || false;
+    }
+
+    /**
+     * Returns short labels for the traits that change how a target runs,
+     * e.g. ['manual', 'flaky', 'size: large'].
+     */
+    public getTraits(): string[] {
+        const traits: string[] = [];
+        if (this.isManual()) {
+            traits.push('manual');
+        }
+        if (this.isFlaky()) {
+            traits.push('flaky');
+        }
+        if (this.isExclusive()) {
+            traits.push('exclusive');
+        }
+        if (this.metadata.size) {
+            traits.push(`size: ${this.metadata.size}`);
+        }
+        return traits;
     }
 
     public isEqualTo(otherTarget: BazelTarget): boolean {
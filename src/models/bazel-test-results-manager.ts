@@ -0,0 +1,50 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelTarget } from './bazel-target';
+import { BazelTestResults } from './bazel-test-results';
+import { EventEmitter } from 'vscode';
+
+export class BazelTestResultsManager {
+    // The latest test results of each target
+    private testResultsMap: Map<string, BazelTestResults> = new Map();
+
+    // Event emitter to notify when the test results of a target changed
+    private _onDidChangeTestResults: EventEmitter<BazelTarget> = new EventEmitter<BazelTarget>();
+
+    // Event that consumers can subscribe to
+    public readonly onDidChangeTestResults = this._onDidChangeTestResults.event;
+
+    public setTestResults(target: BazelTarget, testResults: BazelTestResults | undefined): void {
+        if (testResults) {
+            this.testResultsMap.set(target.id, testResults);
+        } else {
+            this.testResultsMap.delete(target.id);
+        }
+        this._onDidChangeTestResults.fire(target);
+    }
+
+    public getTestResults(target: BazelTarget): BazelTestResults | undefined {
+        return this.testResultsMap.get(target.id);
+    }
+}
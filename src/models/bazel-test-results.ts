@@ -0,0 +1,201 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { JUnitTestCaseStatus } from '../services/junit-xml-parser';
+
+/**
+ * Where a test output was written: test.xml and test.log of a shard, run and attempt,
+ * e.g. bazel-testlogs/foo/bar_test/shard_1_of_2/test_attempts/attempt_1.xml.
+ * Shards, runs and attempts count from 1 and are undefined if not used.
+ */
+export interface BazelTestOutputInfo {
+    shard?: number;
+    run?: number;
+    attempt?: number;
+    testXmlPath?: string;
+    testLogPath?: string;
+}
+
+/**
+ * A test log of a target, shown in the test results.
+ */
+export class BazelTestLog {
+    public readonly id: string;
+    constructor(parentId: string,
+        public readonly info: BazelTestOutputInfo
+    ) {
+        this.id = `${parentId}/${info.testLogPath || info.testXmlPath}`;
+    }
+
+    public getLabel(): string {
+        const parts = [
+            this.info.run !== undefined ? `run ${this.info.run}` : undefined,
+            this.info.shard !== undefined ? `shard ${this.info.shard}` : undefined,
+            this.info.attempt !== undefined ? `attempt ${this.info.attempt}` : undefined
+        ].filter(part => part);
+        return parts.length > 0 ? `test.log (${parts.join(', ')})` : 'test.log';
+    }
+}
+
+/**
+ * A file and line a test output refers to, e.g. the assertion of a failed test.
+ */
+export class BazelTestSourceLocation {
+    public readonly id: string;
+    /**
+     * @param filePath The absolute path of the file.
+     * @param line The 1-based line.
+     * @param text The output line the location was found in.
+     */
+    constructor(parentId: string,
+        public readonly filePath: string,
+        public readonly line: number,
+        public readonly column: number | undefined,
+        public readonly text: string
+    ) {
+        this.id = `${parentId}/${filePath}:${line}`;
+    }
+}
+
+/**
+ * One execution of a test case, in a shard, run and attempt of the target.
+ */
+export interface BazelTestCaseAttempt {
+    status: JUnitTestCaseStatus;
+    durationMillis?: number;
+    message?: string;
+    stackTrace?: string;
+    // The output the test case printed, from test.xml or test.log
+    output?: string;
+    info: BazelTestOutputInfo;
+}
+
+/**
+ * The result of a test case, from its latest attempt in every run.
+ */
+export class BazelTestCaseResult {
+    public readonly id: string;
+    public locations: BazelTestSourceLocation[] = [];
+
+    constructor(parentId: string,
+        public readonly name: string,
+        public readonly classname: string,
+        public readonly attempts: BazelTestCaseAttempt[]
+    ) {
+        this.id = `${parentId}/${this.getFullName()}`;
+    }
+
+    public getFullName(): string {
+        return this.classname ? `${this.classname}.${this.name}` : this.name;
+    }
+
+    /**
+     * The test case failed if its last attempt of any run failed.
+     */
+    public getStatus(): JUnitTestCaseStatus {
+        const lastAttempts = this.getLastAttempts();
+        if (lastAttempts.some(attempt => attempt.status === 'failed')) {
+            return 'failed';
+        } else if (lastAttempts.every(attempt => attempt.status === 'skipped')) {
+            return 'skipped';
+        }
+        return 'passed';
+    }
+
+    /**
+     * Whether the test case passed after failed attempts.
+     */
+    public isFlaky(): boolean {
+        return this.getStatus() === 'passed' && this.attempts.some(attempt => attempt.status === 'failed');
+    }
+
+    public getDurationMillis(): number | undefined {
+        const durations = this.getLastAttempts()
+            .map(attempt => attempt.durationMillis)
+            .filter((duration): duration is number => duration !== undefined);
+        return durations.length > 0 ? durations.reduce((total, duration) => total + duration, 0) : undefined;
+    }
+
+    /**
+     * The first failed attempt, whose message and stack trace explain the failure.
+     */
+    public getFailure(): BazelTestCaseAttempt | undefined {
+        const lastAttempts = this.getLastAttempts();
+        return lastAttempts.find(attempt => attempt.status === 'failed') || this.attempts.find(attempt => attempt.status === 'failed');
+    }
+
+    private getLastAttempts(): BazelTestCaseAttempt[] {
+        const lastAttempts: Map<number, BazelTestCaseAttempt> = new Map();
+        this.attempts.forEach(attempt => {
+            const run = attempt.info.run || 1;
+            const lastAttempt = lastAttempts.get(run);
+            if (!lastAttempt || (attempt.info.attempt || 0) >= (lastAttempt.info.attempt || 0)) {
+                lastAttempts.set(run, attempt);
+            }
+        });
+        return Array.from(lastAttempts.values());
+    }
+}
+
+/**
+ * The test results of a target, read from its outputs in bazel-testlogs.
+ */
+export class BazelTestResults {
+    public readonly id: string;
+    public readonly readTime = Date.now();
+
+    constructor(public readonly targetId: string,
+        public readonly label: string,
+        public readonly testCases: BazelTestCaseResult[],
+        public readonly testLogs: BazelTestLog[]
+    ) {
+        this.id = BazelTestResults.getId(targetId);
+    }
+
+    public static getId(targetId: string): string {
+        return `${targetId}/testResults`;
+    }
+
+    public getTestCases(status?: JUnitTestCaseStatus): BazelTestCaseResult[] {
+        return this.testCases.filter(testCase => status === undefined || testCase.getStatus() === status);
+    }
+
+    public isSuccess(): boolean {
+        return this.getTestCases('failed').length === 0;
+    }
+
+    /**
+     * Summarizes the results, e.g. `3 passed, 1 failed`.
+     */
+    public summarize(): string {
+        const counts = (['passed', 'failed', 'skipped'] as JUnitTestCaseStatus[])
+            .map(status => ({ status, count: this.getTestCases(status).length }))
+            .filter(({ count }) => count > 0)
+            .map(({ status, count }) => `${count} ${status}`);
+        const flakyCount = this.testCases.filter(testCase => testCase.isFlaky()).length;
+        if (flakyCount > 0) {
+            counts.push(`${flakyCount} flaky`);
+        }
+        return counts.length > 0 ? counts.join(', ') : 'no test cases';
+    }
+}
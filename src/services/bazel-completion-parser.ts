@@ -0,0 +1,103 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import * as fsPromises from 'fs/promises';
+
+/**
+ * A command of the installed Bazel, as described by its bash completion script.
+ */
+export interface BazelCommandInfo {
+    name: string;
+    // The kind of argument the command completes, e.g. label, label-test, label-bin, path or info-key
+    argument?: string;
+}
+
+export class BazelCompletionParser {
+    /**
+     * Places where Bazel installers put the bash completion script, used if
+     * `bazel help completion` is not supported by the installed version.
+     */
+    public static readonly completionScriptPaths = [
+        '/etc/bash_completion.d/bazel',
+        '/usr/share/bash-completion/completions/bazel',
+        '/usr/local/etc/bash_completion.d/bazel',
+        '/opt/homebrew/etc/bash_completion.d/bazel'
+    ];
+
+    // Commands that take a query expression rather than target patterns
+    private static readonly queryCommands = ['query', 'cquery', 'aquery'];
+
+    /**
+     * Parses the output of `bazel help completion`, which defines the commands in
+     * BAZEL_COMMAND_LIST and the argument of each command in BAZEL_COMMAND_<NAME>_ARGUMENT.
+     * @param script The bash completion script.
+     * @returns The commands in the order Bazel lists them, or none if the script has no command list.
+     */
+    public static parse(script: string): BazelCommandInfo[] {
+        const commandList = script.match(/^BAZEL_COMMAND_LIST="([^"]*)"/m);
+        if (!commandList) {
+            return [];
+        }
+
+        const argumentsByVariable = new Map<string, string>();
+        const argumentRegex = /^BAZEL_COMMAND_([A-Z0-9_]+)_ARGUMENT="([^"]*)"/gm;
+        let match;
+        while ((match = argumentRegex.exec(script)) !== null) {
+            argumentsByVariable.set(match[1], match[2]);
+        }
+
+        return commandList[1].split(/\s+/)
+            .filter(name => name.length > 0)
+            .map(name => ({
+                name: name,
+                argument: argumentsByVariable.get(name.toUpperCase().replace(/-/g, '_'))
+            }));
+    }
+
+    /**
+     * Reads the first bash completion script found at the usual install locations.
+     */
+    public static async parseInstalledScript(): Promise<BazelCommandInfo[]> {
+        for (const scriptPath of this.completionScriptPaths) {
+            try {
+                const commands = this.parse(await fsPromises.readFile(scriptPath, 'utf8'));
+                if (commands.length > 0) {
+                    return commands;
+                }
+            } catch (error) {
+                // Not installed here
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Whether a command takes targets, e.g. build //foo:bar, as opposed to
+     * commands like clean or info. Query commands take expressions made of targets.
+     */
+    public static acceptsTargets(command: BazelCommandInfo): boolean {
+        return (command.argument !== undefined && command.argument.startsWith('label')) ||
+            this.queryCommands.includes(command.name);
+    }
+}
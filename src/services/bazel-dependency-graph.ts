@@ -0,0 +1,179 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BazelQueryParser, QueriedBazelRule } from './bazel-query-parser';
+
+export interface DependencyGraphNode {
+    label: string;
+    ruleClass: string;
+    location: string;
+    isExternal: boolean;
+}
+
+export interface DependencyGraphEdge {
+    from: string;
+    to: string;
+}
+
+export interface DependencyGraph {
+    nodes: DependencyGraphNode[];
+    edges: DependencyGraphEdge[];
+    truncated: boolean;
+}
+
+/**
+ * Builds a graph of rules from streamed jsonproto query output, or from graph output
+ * for Bazel versions without streamed jsonproto. Source files are left out and
+ * generated files are replaced by the rules that generate them, so the edges connect
+ * rules only.
+ */
+export class DependencyGraphBuilder {
+    private readonly rules = new Map<string, QueriedBazelRule>();
+    private readonly generatingRules = new Map<string, string>();
+
+    /**
+     * @param excludeExternal If true, rules in external repositories (@repo//...) are left out.
+     * @param maxNodes The largest number of rules kept; those farthest from the root are dropped.
+     */
+    constructor(private readonly excludeExternal = false,
+        private readonly maxNodes = 500) { }
+
+    public static isExternalLabel(label: string): boolean {
+        return label.startsWith('@') && !label.startsWith('@//') && !label.startsWith('@@//');
+    }
+
+    /**
+     * Adds one line of `--output=streamed_jsonproto` to the graph.
+     */
+    public addLine(line: string) {
+        const target = BazelQueryParser.parseStreamedJsonProtoTarget(line);
+        if (target?.generatedFile) {
+            this.generatingRules.set(target.generatedFile.label, target.generatedFile.generatingRule);
+        } else if (target?.rule) {
+            if (this.excludeExternal && DependencyGraphBuilder.isExternalLabel(target.rule.label)) {
+                return;
+            }
+            this.rules.set(target.rule.label, target.rule);
+        }
+    }
+
+    /**
+     * Adds one line of `--output=graph --nograph:factored` of a query for rules only.
+     * That output holds no rule kinds or locations.
+     */
+    public addGraphLine(line: string) {
+        const graphLine = BazelQueryParser.parseGraphLine(line);
+        if (!graphLine) {
+            return;
+        }
+        const rule = this.addGraphRule(graphLine.from);
+        if (rule && graphLine.to !== undefined && this.addGraphRule(graphLine.to)) {
+            rule.inputs.push(graphLine.to);
+        }
+    }
+
+    /**
+     * @param root The label the graph is about. If there are more than maxNodes rules,
+     * those closest to it are kept.
+     */
+    public build(root?: string): DependencyGraph {
+        const dependencies = new Map<string, string[]>();
+        this.rules.forEach(rule => {
+            const ruleDependencies = new Set<string>();
+            rule.inputs.forEach(input => {
+                const dependency = this.generatingRules.get(input) || input;
+                if (dependency !== rule.label && this.rules.has(dependency)) {
+                    ruleDependencies.add(dependency);
+                }
+            });
+            dependencies.set(rule.label, Array.from(ruleDependencies));
+        });
+
+        // Breadth first from the root, then from any rules it does not reach (e.g. through left out external rules)
+        const kept = new Set<string>();
+        const startLabels = root !== undefined && this.rules.has(root) ? [root, ...this.rules.keys()] : Array.from(this.rules.keys());
+        for (const startLabel of startLabels) {
+            if (kept.size >= this.maxNodes) {
+                break;
+            }
+            if (kept.has(startLabel)) {
+                continue;
+            }
+            kept.add(startLabel);
+            const queue = [startLabel];
+            for (let index = 0; index < queue.length && kept.size < this.maxNodes; index++) {
+                for (const dependency of dependencies.get(queue[index]) || []) {
+                    if (kept.size >= this.maxNodes) {
+                        break;
+                    }
+                    if (!kept.has(dependency)) {
+                        kept.add(dependency);
+                        queue.push(dependency);
+                    }
+                }
+            }
+        }
+
+        const nodes: DependencyGraphNode[] = [];
+        const edges: DependencyGraphEdge[] = [];
+        kept.forEach(label => {
+            const rule = this.rules.get(label) as QueriedBazelRule;
+            nodes.push({
+                label: rule.label,
+                ruleClass: rule.ruleClass,
+                location: rule.location,
+                isExternal: DependencyGraphBuilder.isExternalLabel(rule.label)
+            });
+            (dependencies.get(label) || [])
+                .filter(dependency => kept.has(dependency))
+                .forEach(dependency => edges.push({ from: label, to: dependency }));
+        });
+
+        return { nodes, edges, truncated: kept.size < this.rules.size };
+    }
+
+    private addGraphRule(label: string): QueriedBazelRule | undefined {
+        if (this.excludeExternal && DependencyGraphBuilder.isExternalLabel(label)) {
+            return undefined;
+        }
+        let rule = this.rules.get(label);
+        if (!rule) {
+            rule = {
+                label: label,
+                ruleClass: 'rule',
+                location: '',
+                tags: [],
+                srcs: [],
+                deps: [],
+                flaky: false,
+                testonly: false,
+                executable: false,
+                inputs: [],
+                attributes: new Map()
+            };
+            this.rules.set(label, rule);
+        }
+        return rule;
+    }
+}
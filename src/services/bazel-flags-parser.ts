@@ -0,0 +1,235 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * A flag of the installed Bazel, as described by `bazel help flags-as-proto`
+ * (see bazel_flags.proto). The value fields come from the long help of a command.
+ */
+export interface BazelFlagInfo {
+    name: string;
+    hasNegativeFlag: boolean;
+    documentation: string;
+    // The commands accepting the flag, e.g. build, test and run
+    commands: string[];
+    abbreviation?: string;
+    allowsMultiple: boolean;
+    requiresValue: boolean;
+    documentationCategory?: string;
+    // The converter of the flag's value, e.g. com.google.devtools.build.lib.analysis.config.CompilationMode$Converter
+    typeConverter?: string;
+    // E.g. "a boolean" or "fastbuild, dbg or opt"
+    valueDescription?: string;
+    defaultValue?: string;
+    // The values of enum and tri-state flags
+    allowedValues?: string[];
+}
+
+/**
+ * The value related fields of a flag, as printed by `bazel help <command> --help_verbosity=long`.
+ */
+export interface BazelFlagValueInfo {
+    valueDescription: string;
+    defaultValue?: string;
+    allowedValues?: string[];
+}
+
+/**
+ * Reads fields of a protobuf message in the wire format.
+ */
+class ProtoReader {
+    private pos = 0;
+
+    constructor(private readonly buffer: Buffer) { }
+
+    public atEnd(): boolean {
+        return this.pos >= this.buffer.length;
+    }
+
+    public readTag(): { fieldNumber: number, wireType: number } {
+        const tag = this.readVarint();
+        return { fieldNumber: Math.floor(tag / 8), wireType: tag % 8 };
+    }
+
+    public readVarint(): number {
+        let result = 0;
+        let multiplier = 1;
+        for (;;) {
+            if (this.atEnd()) {
+                throw new Error('Truncated varint');
+            }
+            const byte = this.buffer[this.pos++];
+            result += (byte & 0x7f) * multiplier;
+            if ((byte & 0x80) === 0) {
+                return result;
+            }
+            multiplier *= 128;
+        }
+    }
+
+    public readBytes(): Buffer {
+        const length = this.readVarint();
+        if (this.pos + length > this.buffer.length) {
+            throw new Error('Truncated length delimited field');
+        }
+        const bytes = this.buffer.subarray(this.pos, this.pos + length);
+        this.pos += length;
+        return bytes;
+    }
+
+    public readString(): string {
+        return this.readBytes().toString('utf8');
+    }
+
+    public skip(wireType: number) {
+        switch (wireType) {
+        case 0:
+            this.readVarint();
+            break;
+        case 1:
+            this.pos += 8;
+            break;
+        case 2:
+            this.readBytes();
+            break;
+        case 5:
+            this.pos += 4;
+            break;
+        default:
+            throw new Error(`Unsupported wire type ${wireType}`);
+        }
+    }
+}
+
+export class BazelFlagsParser {
+    /**
+     * Parses the output of `bazel help flags-as-proto`, a base64 encoded FlagCollection.
+     * @param output The base64 text printed by bazel.
+     * @returns The flags sorted by name.
+     */
+    public static parseFlagsAsProto(output: string): BazelFlagInfo[] {
+        const reader = new ProtoReader(Buffer.from(output.trim(), 'base64'));
+        const flags: BazelFlagInfo[] = [];
+        while (!reader.atEnd()) {
+            const { fieldNumber, wireType } = reader.readTag();
+            if (fieldNumber === 1 && wireType === 2) {
+                flags.push(this.parseFlagInfo(reader.readBytes()));
+            } else {
+                reader.skip(wireType);
+            }
+        }
+        return flags.sort((a, b) => (a.name < b.name ? -1 : 1));
+    }
+
+    private static parseFlagInfo(bytes: Buffer): BazelFlagInfo {
+        const reader = new ProtoReader(bytes);
+        const flag: BazelFlagInfo = {
+            name: '',
+            hasNegativeFlag: false,
+            documentation: '',
+            commands: [],
+            allowsMultiple: false,
+            requiresValue: false
+        };
+
+        while (!reader.atEnd()) {
+            const { fieldNumber, wireType } = reader.readTag();
+            switch (wireType === 2 ? fieldNumber : -fieldNumber) {
+            case 1:
+                flag.name = reader.readString();
+                break;
+            case -2:
+                flag.hasNegativeFlag = reader.readVarint() !== 0;
+                break;
+            case 3:
+                flag.documentation = reader.readString();
+                break;
+            case 4:
+                flag.commands.push(reader.readString());
+                break;
+            case 5:
+                flag.abbreviation = reader.readString();
+                break;
+            case -6:
+                flag.allowsMultiple = reader.readVarint() !== 0;
+                break;
+            case 9:
+                flag.documentationCategory = reader.readString();
+                break;
+            case -10:
+                flag.requiresValue = reader.readVarint() !== 0;
+                break;
+            case 11:
+                flag.typeConverter = reader.readString();
+                break;
+            default:
+                reader.skip(wireType);
+            }
+        }
+        return flag;
+    }
+
+    /**
+     * Parses the long help of a command, in which every flag is introduced by a line like
+     * `--compilation_mode [-c] (fastbuild, dbg or opt; default: "fastbuild")`.
+     * @param output The output of `bazel help <command> --help_verbosity=long`.
+     * @returns The value information by flag name.
+     */
+    public static parseCommandHelp(output: string): Map<string, BazelFlagValueInfo> {
+        const flags = new Map<string, BazelFlagValueInfo>();
+        const flagLineRegex = /^\s*--(?:\[no\])?([\w.-]+)(?: \[-\w\])? \((.*)\)\s*$/;
+
+        output.split(/\r?\n/).forEach(line => {
+            const match = line.match(flagLineRegex);
+            if (!match) {
+                return;
+            }
+
+            const parts = match[2].split('; ');
+            const valueDescription = parts[0];
+            const defaultPart = parts.slice(1).find(part => part.startsWith('default: '));
+            const defaultValue = defaultPart?.replace(/^default: "?(.*?)"?$/, '$1');
+            flags.set(match[1], {
+                valueDescription,
+                defaultValue,
+                allowedValues: this.parseAllowedValues(valueDescription)
+            });
+        });
+
+        return flags;
+    }
+
+    /**
+     * Extracts the values of enum like flags from their description, e.g. `fastbuild, dbg or opt`.
+     */
+    public static parseAllowedValues(valueDescription: string): string[] | undefined {
+        const triState = valueDescription.match(/^a tri-state \((.*)\)$/);
+        if (triState) {
+            return triState[1].split(/,\s*/);
+        }
+        if (/^[\w.-]+(, [\w.-]+)* or [\w.-]+$/.test(valueDescription)) {
+            return valueDescription.split(/, | or /);
+        }
+        return undefined;
+    }
+}
@@ -22,20 +22,39 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 
-import { BAZEL_BIN } from './bazel-service';
+import { BAZEL_BIN, REPO_BOUNDARY_FILES } from './bazel-service';
+import { BazelrcParser } from './bazelrc-parser';
+import { StarlarkAttributes, StarlarkEvaluator, StarlarkParser } from './starlark-parser';
 import * as fsPromises from 'fs/promises';
 import * as path from 'path';
 import * as vscode from 'vscode';
 
+export interface ParsedBazelTarget {
+    name: string;
+    ruleType: string;
+    srcExtensions: string[];
+    bazelPath: string;
+    buildPath: string;
+    attributes: StarlarkAttributes;
+    location?: string;
+    // Absolute path of the Bazel workspace that owns the target, which may be nested.
+    workspaceRoot?: string;
+}
+
 export class BazelParser {
     /**
-     * Finds all Bazel workspace and build files under the given root directory.
+     * Finds all Bazel repository boundary files (MODULE.bazel, REPO.bazel, WORKSPACE)
+     * and build files under the given root directory.
+     * Directories listed in a repository's .bazelignore are pruned, packages listed in
+     * --deleted_packages are skipped and Bazel's convenience symlinks are not followed.
      * @param rootDir The root directory to search from.
-     * @returns An array of file paths to Bazel build files.
+     * @returns The file paths to the repository boundary files and the Bazel build files.
      */
     public static async findBazelBuildFiles(rootDir: string): Promise<{workspace: string[], build: string[]}> {
         const bazelFiles: string[] = [];
         const workspaceFiles: string[] = [];
+        const ignoredDirectories = new Set<string>();
+        const deletedPackages = new Set<string>();
         const stack: string[] = [rootDir];
 
         while (stack.length) {
@@ -43,14 +62,28 @@ export class BazelParser {
             const promises = currentBatch.map(async (dir) => {
                 try {
                     const entries = await fsPromises.readdir(dir, { withFileTypes: true });
+                    const isRepositoryRoot = entries.some(entry => REPO_BOUNDARY_FILES.includes(entry.name));
+                    if (isRepositoryRoot || dir === rootDir) {
+                        // Exclusions must be known before any subdirectory is queued
+                        const exclusions = await this.getRepositoryExclusions(dir);
+                        exclusions.ignoredDirectories.forEach(ignored => ignoredDirectories.add(ignored));
+                        exclusions.deletedPackages.forEach(deleted => deletedPackages.add(deleted));
+                    }
+
                     for (const entry of entries) {
                         const fullPath = path.join(dir, entry.name);
 
+                        // isDirectory() is false for symlinks, so symlinked directories such as the
+                        // bazel-out and bazel-bin convenience symlinks are never followed
                         if (entry.isDirectory() && !entry.name.startsWith('.')) {
-                            stack.push(fullPath); // Skip hidden directories
+                            if (!ignoredDirectories.has(fullPath)) {
+                                stack.push(fullPath); // Skip hidden and ignored directories
+                            }
                         } else if (/^BUILD(\.bazel)?$/.test(entry.name)) {
-                            bazelFiles.push(fullPath);
-                        } else if (/^WORKSPACE(\.bazel)?$/.test(entry.name)) {
+                            if (!deletedPackages.has(dir)) {
+                                bazelFiles.push(fullPath);
+                            }
+                        } else if (REPO_BOUNDARY_FILES.includes(entry.name)) {
                             workspaceFiles.push(fullPath);
                         }
                     }
@@ -64,87 +97,95 @@ export class BazelParser {
         return {workspace: workspaceFiles, build: bazelFiles};
     }
 
+    /**
+     * Reads the directories Bazel will not load for the repository at the given root.
+     * @param repositoryRoot The repository root containing .bazelignore and .bazelrc.
+     * @returns Absolute paths of directory trees listed in .bazelignore and of packages
+     * listed in --deleted_packages. Deleted packages do not hide their subpackages.
+     */
+    public static async getRepositoryExclusions(repositoryRoot: string): Promise<{ ignoredDirectories: string[], deletedPackages: string[] }> {
+        const ignoredDirectories: string[] = [];
+        try {
+            const content = await fsPromises.readFile(path.join(repositoryRoot, '.bazelignore'), 'utf8');
+            content.split(/\r?\n/)
+                .map(line => line.trim())
+                .filter(line => line && !line.startsWith('#'))
+                .forEach(line => ignoredDirectories.push(path.join(repositoryRoot, line.replace(/\/+$/, ''))));
+        } catch (error) {
+            // No .bazelignore in this repository
+        }
+
+        const entries = await BazelrcParser.parse(repositoryRoot);
+        const deletedPackages = BazelrcParser.getOptionValues(entries, 'deleted_packages', ['build', 'query'])
+            .flatMap(value => value.split(','))
+            .map(packagePath => packagePath.trim().replace(/^\/\//, ''))
+            .filter(packagePath => packagePath.length > 0)
+            .map(packagePath => path.join(repositoryRoot, packagePath));
+
+        return { ignoredDirectories, deletedPackages };
+    }
+
+    /**
+     * Checks whether a BUILD file would be skipped by Bazel because of the given exclusions.
+     */
+    private static isExcludedBuildFile(filePath: string, exclusions: { ignoredDirectories: string[], deletedPackages: string[] }): boolean {
+        const packageDir = path.dirname(filePath);
+        return exclusions.deletedPackages.includes(packageDir) ||
+            exclusions.ignoredDirectories.some(ignored => !path.relative(ignored, packageDir).startsWith('..'));
+    }
+
+    /**
+     * Parses the targets declared in the given BUILD file.
+     * @param filePath The path to the BUILD file.
+     * @param workspaceRoot The root of the workspace that owns the BUILD file.
+     * @param ruleTypeRegex Only rules whose type matches this regex are returned.
+     */
     public static async parseBazelBuildFileTargets(
         filePath: string,
         workspaceRoot: string,
         ruleTypeRegex = '.*',
-    ): Promise<
-        {
-            hasTest: boolean;
-            targets: {
-                name: string;
-                ruleType: string;
-                srcExtensions: string[];
-                bazelPath: string;
-                buildPath: string;
-            }[];
-        }
-    > {
+    ): Promise<{ hasTest: boolean; targets: ParsedBazelTarget[] }> {
         const content = await fsPromises.readFile(filePath, 'utf8');
-
-        const lines = content.split('\n'); // Process line by line to reduce memory overhead
-        const parsedTargets: {
-            name: string;
-            ruleType: string;
-            srcExtensions: string[];
-            bazelPath: string;
-            buildPath: string;
-        }[] = [];
-
         const correctedPath = path.dirname(filePath).replace(/\\/g, '/');
         const relativePath = path.relative(workspaceRoot, correctedPath);
+        const result = this.parseBazelBuildFileContent(content, relativePath, ruleTypeRegex, filePath);
+        result.targets.forEach(target => target.workspaceRoot = workspaceRoot);
+        return result;
+    }
+
+    /**
+     * Parses the targets declared in the contents of a BUILD file.
+     * @param content The contents of the BUILD file.
+     * @param relativePath The package path relative to the workspace root.
+     * @param ruleTypeRegex Only rules whose type matches this regex are returned.
+     * @param filePath The path of the BUILD file, used to record each target's location.
+     */
+    public static parseBazelBuildFileContent(
+        content: string,
+        relativePath: string,
+        ruleTypeRegex = '.*',
+        filePath?: string,
+    ): { hasTest: boolean; targets: ParsedBazelTarget[] } {
         const bazelPath = `//${relativePath}`;
         const buildPath = path.join(BAZEL_BIN, ...relativePath.split('/'));
+        const ruleTypeMatcher = new RegExp(`^(${ruleTypeRegex})$`);
 
         let hasTest = false;
-        let currentRule: string | null = null;
-        let currentName: string | null = null;
-        let currentSrcs: string[] = [];
-
-        for (const line of lines) {
-            const ruleMatch = new RegExp(`^(${ruleTypeRegex})\\(`).exec(line.trim());
-            const nameMatch = /name\s*=\s*"([^"]+)"/.exec(line.trim());
-            const srcsMatch = /srcs\s*=\s*\[([^\]]+)\]/.exec(line.trim());
-
-            if (ruleMatch) {
-                if (currentRule && currentName) {
-                    // Push the last parsed target
-                    parsedTargets.push({
-                        name: currentName,
-                        ruleType: currentRule,
-                        srcExtensions: currentSrcs.map((src) => path.extname(src)),
-                        bazelPath: `${bazelPath}:${currentName}`,
-                        buildPath: path.join(buildPath, currentName),
-                    });
-                }
-
-                // Start a new rule
-                currentRule = ruleMatch[1];
-                currentName = null;
-                currentSrcs = [];
-                hasTest = hasTest || currentRule.includes('test');
-            }
+        const parsedTargets: ParsedBazelTarget[] = [];
 
-            if (nameMatch) {
-                currentName = nameMatch[1];
+        for (const ruleCall of StarlarkParser.parseRuleCalls(content)) {
+            if (!ruleTypeMatcher.test(ruleCall.ruleType)) {
+                continue;
             }
-
-            if (srcsMatch) {
-                currentSrcs = srcsMatch[1]
-                    .split(',')
-                    .map((src) => src.trim().replace(/"/g, ''))
-                    .filter((src) => src);
-            }
-        }
-
-        // Add the last target if applicable
-        if (currentRule && currentName) {
+            hasTest = hasTest || ruleCall.ruleType.includes('test');
             parsedTargets.push({
-                name: currentName,
-                ruleType: currentRule,
-                srcExtensions: currentSrcs.map((src) => path.extname(src)),
-                bazelPath: `${bazelPath}:${currentName}`,
-                buildPath: path.join(buildPath, currentName),
+                name: ruleCall.name,
+                ruleType: ruleCall.ruleType,
+                srcExtensions: StarlarkEvaluator.toStringList(ruleCall.attributes.srcs).map((src) => path.extname(src)),
+                bazelPath: `${bazelPath}:${ruleCall.name}`,
+                buildPath: path.join(buildPath, ruleCall.name),
+                attributes: ruleCall.attributes,
+                location: filePath ? `${filePath}:${ruleCall.line}` : undefined
             });
         }
 
@@ -157,35 +198,127 @@ export class BazelParser {
         while (currentDir !== path.parse(currentDir).root) {
             const workspacePath = currentDir;
             if (workspaceSet.has(workspacePath)) {
-                // Found the closest WORKSPACE
+                // Found the closest repository boundary
                 return workspacePath;
             }
             // Move up one directory level
             currentDir = path.dirname(currentDir);
         }
 
-        return null; // No WORKSPACE found
+        return null; // No repository boundary found
+    }
+
+    /**
+     * Finds the closest workspace root above the given file by checking the file system.
+     * @param filePath The file (which may no longer exist) to start from.
+     * @param workspaceFolder The top level folder, which is used if no workspace file is found.
+     */
+    public static async findWorkspaceRootForFile(filePath: string, workspaceFolder: string): Promise<string> {
+        let currentDir = path.dirname(filePath);
+        const isInWorkspaceFolder = (dir: string) => !path.relative(workspaceFolder, dir).startsWith('..');
+
+        while (isInWorkspaceFolder(currentDir)) {
+            for (const workspaceFileName of REPO_BOUNDARY_FILES) {
+                try {
+                    await fsPromises.access(path.join(currentDir, workspaceFileName));
+                    return currentDir;
+                } catch (error) {
+                    // Not in this directory
+                }
+            }
+            const parentDir = path.dirname(currentDir);
+            if (parentDir === currentDir) {
+                break;
+            }
+            currentDir = parentDir;
+        }
+        return workspaceFolder;
+    }
+
+    /**
+     * Returns the package (e.g. //foo/bar) that a target label or synthetic //foo/bar/... entry belongs to.
+     */
+    public static getPackageFromBazelPath(bazelPath: string): string {
+        if (bazelPath.endsWith('...')) {
+            const packagePath = bazelPath.slice(0, -'...'.length).replace(/\/$/, '');
+            return packagePath === '/' ? '//' : packagePath;
+        }
+        return bazelPath.split(':')[0];
     }
 
     /**
      * Recursively finds and parses all Bazel build files under the given root directory.
      * @param rootDir The root directory to search from.
-     * @returns An array of parsed Bazel targets across all files.
+     * @returns The BUILD files found and the parsed Bazel targets across all of them.
      */
-    public static async parseAllBazelBuildFilesTargets(rootDir: string, workspaceFolder: string, ruleTypeRegex = '.*', includeOutputPackages = true, cancellationToken?: vscode.CancellationToken): Promise<
-        { name: string; ruleType: string; srcExtensions: string[]; bazelPath: string, buildPath: string }[]
-    > {
+    public static async parseAllBazelBuildFilesTargets(rootDir: string, workspaceFolder: string, ruleTypeRegex = '.*', includeOutputPackages = true, cancellationToken?: vscode.CancellationToken): Promise<{ buildFiles: string[], targets: ParsedBazelTarget[] }> {
         const bazelFiles = await this.findBazelBuildFiles(rootDir);
 
         const workspaceFiles = new Set(bazelFiles.workspace.map(workspaceFile => path.dirname(workspaceFile)));
+        const targets = await this.parseBuildFiles(bazelFiles.build,
+            async (filePath) => this.findClosestWorkspace(filePath, workspaceFiles) || workspaceFolder,
+            ruleTypeRegex, includeOutputPackages, cancellationToken);
+        return { buildFiles: bazelFiles.build, targets };
+    }
+
+    /**
+     * Parses only the given BUILD files, which may have been created, changed or deleted.
+     * @param buildFiles The absolute paths of the affected BUILD files.
+     * @param workspaceFolder The top level workspace folder.
+     * @returns The packages affected by the files and the targets they now contain.
+     * Deleted or excluded BUILD files contribute a package but no targets.
+     */
+    public static async parseChangedBazelBuildFilesTargets(buildFiles: string[], workspaceFolder: string, ruleTypeRegex = '.*', includeOutputPackages = true, cancellationToken?: vscode.CancellationToken): Promise<{ packages: string[], targets: ParsedBazelTarget[] }> {
+        const workspaceRoots = new Map<string, string>();
+        await Promise.all(buildFiles.map(async (filePath) => {
+            workspaceRoots.set(filePath, await this.findWorkspaceRootForFile(filePath, workspaceFolder));
+        }));
+
+        const packages = buildFiles.map(filePath => {
+            const workspaceRoot = workspaceRoots.get(filePath) || workspaceFolder;
+            const relativePath = path.relative(workspaceRoot, path.dirname(filePath)).replace(/\\/g, '/');
+            return `//${relativePath}`;
+        });
+
+        const exclusionsByRoot = new Map<string, Promise<{ ignoredDirectories: string[], deletedPackages: string[] }>>();
+        const existingBuildFiles = (await Promise.all(buildFiles.map(async (filePath) => {
+            const workspaceRoot = workspaceRoots.get(filePath) || workspaceFolder;
+            if (!exclusionsByRoot.has(workspaceRoot)) {
+                exclusionsByRoot.set(workspaceRoot, this.getRepositoryExclusions(workspaceRoot));
+            }
+            const exclusions = await exclusionsByRoot.get(workspaceRoot);
+            if (exclusions && this.isExcludedBuildFile(filePath, exclusions)) {
+                // Bazel does not load this package, so it only contributes a removal
+                return null;
+            }
+            try {
+                await fsPromises.access(filePath);
+                return filePath;
+            } catch (error) {
+                return null;
+            }
+        }))).filter((filePath): filePath is string => filePath !== null);
+
+        const targets = await this.parseBuildFiles(existingBuildFiles,
+            async (filePath) => workspaceRoots.get(filePath) || workspaceFolder,
+            ruleTypeRegex, includeOutputPackages, cancellationToken);
+
+        return { packages: Array.from(new Set(packages)), targets };
+    }
+
+    private static async parseBuildFiles(buildFiles: string[],
+        resolveWorkspaceRoot: (filePath: string) => Promise<string>,
+        ruleTypeRegex: string,
+        includeOutputPackages: boolean,
+        cancellationToken?: vscode.CancellationToken): Promise<ParsedBazelTarget[]> {
         const results = await Promise.all(
-            bazelFiles.build.map(async (filePath) => {
+            buildFiles.map(async (filePath) => {
                 try {
                     if (cancellationToken && cancellationToken?.isCancellationRequested) {
                         throw new Error('Parse all bazel build files cancelled');
                     }
 
-                    const workspaceRoot = this.findClosestWorkspace(filePath, workspaceFiles) || workspaceFolder;
+                    const workspaceRoot = await resolveWorkspaceRoot(filePath);
 
                     const buildFileResult = await this.parseBazelBuildFileTargets(filePath, workspaceRoot, ruleTypeRegex);
                     return { filePath, targets: buildFileResult.targets, hasTest: buildFileResult.hasTest };
@@ -201,10 +334,10 @@ export class BazelParser {
         }
 
         // Filter out null values
-        const buildFileTargets = results.filter((result): result is { filePath: string; targets: { name: string; ruleType: string; srcExtensions: string[]; bazelPath: string, buildPath: string }[]; hasTest: boolean } => result !== null);
+        const buildFileTargets = results.filter((result): result is { filePath: string; targets: ParsedBazelTarget[]; hasTest: boolean } => result !== null);
 
 
-        const targets: { name: string; ruleType: string; srcExtensions: string[]; bazelPath: string, buildPath: string }[] =  [];
+        const targets: ParsedBazelTarget[] = [];
 
         buildFileTargets.forEach(buildFileSet => {
             if (cancellationToken && cancellationToken?.isCancellationRequested) {
@@ -222,7 +355,9 @@ export class BazelParser {
                     ruleType: buildFileSet.hasTest ? 'package_test' : 'package_build',
                     srcExtensions: [],
                     bazelPath: bazelPath,
-                    buildPath: buildPath
+                    buildPath: buildPath,
+                    attributes: {},
+                    workspaceRoot: buildFileSet.targets[0].workspaceRoot
                 });
             }
             targets.push(...buildFileSet.targets);
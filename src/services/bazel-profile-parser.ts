@@ -0,0 +1,168 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+/**
+ * An event of a JSON trace profile, as written by `bazel build --profile=<file>.json`.
+ * Times are in milliseconds, relative to the start of the profile.
+ */
+export interface ProfileEvent {
+    name: string;
+    category: string;
+    startMillis: number;
+    durationMillis: number;
+    mnemonic?: string;
+    // The label of the target the event belongs to, if bazel recorded it
+    targetLabel?: string;
+}
+
+/**
+ * The time spent in a build phase or in the events of a category.
+ */
+export interface ProfileTime {
+    name: string;
+    durationMillis: number;
+    count: number;
+}
+
+export interface ProfileSummary {
+    bazelVersion?: string;
+    totalMillis: number;
+    // The build phases, e.g. analysis and execution, in the order they ran
+    phases: ProfileTime[];
+    // The time summed over the events of each category on all threads, the longest first
+    categories: ProfileTime[];
+    // The components of the critical path, in the order they ran
+    criticalPath: ProfileEvent[];
+    // The longest actions, the longest first
+    slowestActions: ProfileEvent[];
+    actionCount: number;
+}
+
+interface TraceEvent {
+    name?: string;
+    cat?: string;
+    ph?: string;
+    ts?: number;
+    dur?: number;
+    tid?: number;
+    args?: { [key: string]: unknown };
+}
+
+export class BazelProfileParser {
+    private static readonly criticalPathCategory = 'critical path component';
+    private static readonly phaseMarkerCategory = 'build phase marker';
+    private static readonly actionCategory = 'action processing';
+
+    /**
+     * Summarizes a JSON trace profile.
+     * @param content The profile, either an object with traceEvents or an array of events.
+     * @param maxActions The number of slowest actions to keep.
+     */
+    public static parse(content: string, maxActions = 20): ProfileSummary {
+        const json = JSON.parse(content);
+        const traceEvents: TraceEvent[] = Array.isArray(json) ? json : (json.traceEvents || []);
+        const otherData = Array.isArray(json) ? {} : (json.otherData || {});
+
+        // The thread bazel writes the critical path to
+        const criticalPathThreads = new Set<number>();
+        traceEvents.forEach(event => {
+            if (event.ph === 'M' && event.name === 'thread_name' && event.args?.name === 'Critical Path' && event.tid !== undefined) {
+                criticalPathThreads.add(event.tid);
+            }
+        });
+
+        // Profiles have too many events to spread them into Math.min
+        const timedEvents = traceEvents.filter(event => typeof event.ts === 'number');
+        let startMicros = Infinity;
+        let endMicros = -Infinity;
+        timedEvents.forEach(event => {
+            startMicros = Math.min(startMicros, event.ts as number);
+            endMicros = Math.max(endMicros, (event.ts as number) + (event.dur || 0));
+        });
+        const toMillis = (micros: number) => Math.round(micros / 1000);
+
+        const criticalPath: ProfileEvent[] = [];
+        const actions: ProfileEvent[] = [];
+        const phaseMarkers: { name: string, micros: number }[] = [];
+        const categories: Map<string, ProfileTime> = new Map();
+        timedEvents.forEach(event => {
+            const category = event.cat || '';
+            if (event.ph === 'i' || event.ph === 'I') {
+                if (category === BazelProfileParser.phaseMarkerCategory) {
+                    phaseMarkers.push({ name: event.name || '', micros: event.ts as number });
+                }
+                return;
+            }
+            if (event.ph !== 'X') {
+                return;
+            }
+
+            const profileEvent: ProfileEvent = {
+                name: event.name || '',
+                category: category,
+                startMillis: toMillis((event.ts as number) - startMicros),
+                durationMillis: toMillis(event.dur || 0),
+                mnemonic: BazelProfileParser.getStringArg(event, 'mnemonic'),
+                targetLabel: BazelProfileParser.getStringArg(event, 'target')
+            };
+            if (category === BazelProfileParser.criticalPathCategory ||
+                (event.tid !== undefined && criticalPathThreads.has(event.tid))) {
+                // The critical path repeats events of other threads, so it is not counted in the categories
+                criticalPath.push(profileEvent);
+                return;
+            }
+            if (category === BazelProfileParser.actionCategory) {
+                actions.push(profileEvent);
+            }
+
+            const time = categories.get(category) || { name: category, durationMillis: 0, count: 0 };
+            time.durationMillis += event.dur || 0;
+            time.count++;
+            categories.set(category, time);
+        });
+
+        // Each phase lasts until the next one starts, the last one until the end of the profile
+        phaseMarkers.sort((a, b) => a.micros - b.micros);
+        const phases = phaseMarkers.map((marker, index) => {
+            const nextMicros = index + 1 < phaseMarkers.length ? phaseMarkers[index + 1].micros : endMicros;
+            return { name: marker.name, durationMillis: toMillis(nextMicros - marker.micros), count: 1 };
+        });
+
+        return {
+            bazelVersion: typeof otherData.bazel_version === 'string' ? otherData.bazel_version : undefined,
+            totalMillis: timedEvents.length > 0 ? toMillis(endMicros - startMicros) : 0,
+            phases: phases,
+            categories: Array.from(categories.values())
+                .map(time => ({ ...time, durationMillis: toMillis(time.durationMillis) }))
+                .sort((a, b) => b.durationMillis - a.durationMillis),
+            criticalPath: criticalPath.sort((a, b) => a.startMillis - b.startMillis),
+            slowestActions: actions.sort((a, b) => b.durationMillis - a.durationMillis).slice(0, maxActions),
+            actionCount: actions.length
+        };
+    }
+
+    private static getStringArg(event: TraceEvent, name: string): string | undefined {
+        const value = event.args ? event.args[name] : undefined;
+        return typeof value === 'string' ? value : undefined;
+    }
+}
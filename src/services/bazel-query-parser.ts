@@ -0,0 +1,167 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * A rule reported by `bazel query --output=streamed_jsonproto`.
+ */
+export interface QueriedBazelRule {
+    label: string;
+    ruleClass: string;
+    location: string;
+    tags: string[];
+    srcs: string[];
+    deps: string[];
+    size?: string;
+    flaky: boolean;
+    testonly: boolean;
+    executable: boolean;
+    inputs: string[];
+    attributes: Map<string, QueriedBazelAttribute>;
+}
+
+/**
+ * A single attribute of a queried rule. Only the value fields used by
+ * the extension are decoded; see build.proto for the full message.
+ */
+export interface QueriedBazelAttribute {
+    name: string;
+    type: string;
+    explicitlySpecified?: boolean;
+    stringValue?: string;
+    stringListValue?: string[];
+    intValue?: number;
+    booleanValue?: boolean;
+}
+
+/**
+ * A file produced by a rule, as reported by `bazel query --output=streamed_jsonproto`.
+ */
+export interface QueriedBazelGeneratedFile {
+    label: string;
+    generatingRule: string;
+}
+
+export class BazelQueryParser {
+    /**
+     * Decodes one line of `--output=streamed_jsonproto`, which holds a single
+     * build.proto Target message.
+     * @param line A line of query output.
+     * @returns The rule, or undefined for blank lines and non-rule targets
+     * (source files, generated files, package groups).
+     */
+    public static parseStreamedJsonProtoLine(line: string): QueriedBazelRule | undefined {
+        return this.parseStreamedJsonProtoTarget(line)?.rule;
+    }
+
+    /**
+     * Decodes one line of `--output=label_kind`, such as `cc_library rule //foo:bar`.
+     * The output only holds the kind and label, so the other fields are left empty.
+     * @param line A line of query output.
+     * @returns The rule, or undefined for blank lines and non-rule targets.
+     */
+    public static parseLabelKindLine(line: string): QueriedBazelRule | undefined {
+        const match = line.trim().match(/^(\S+) rule (\S+)$/);
+        if (!match) {
+            return undefined;
+        }
+        return {
+            label: match[2],
+            ruleClass: match[1],
+            location: '',
+            tags: [],
+            srcs: [],
+            deps: [],
+            flaky: false,
+            testonly: false,
+            executable: false,
+            inputs: [],
+            attributes: new Map()
+        };
+    }
+
+    /**
+     * Decodes one line of `--output=graph --nograph:factored`, which is either
+     * a node like `"//foo:bar"` or an edge like `"//foo:bar" -> "//foo:baz"`.
+     * @param line A line of query output.
+     * @returns The node, with the label it depends on for edges, or undefined for other lines.
+     */
+    public static parseGraphLine(line: string): { from: string, to?: string } | undefined {
+        const match = line.trim().match(/^"([^"]+)"(?:\s*->\s*"([^"]+)")?$/);
+        if (!match) {
+            return undefined;
+        }
+        return match[2] !== undefined ? { from: match[1], to: match[2] } : { from: match[1] };
+    }
+
+    /**
+     * Decodes one line of `--output=streamed_jsonproto` into either a rule or a generated file.
+     * @param line A line of query output.
+     * @returns The decoded target, or undefined for blank lines, source files and package groups.
+     */
+    public static parseStreamedJsonProtoTarget(line: string): { rule?: QueriedBazelRule, generatedFile?: QueriedBazelGeneratedFile } | undefined {
+        const trimmed = line.trim();
+        if (trimmed === '') {
+            return undefined;
+        }
+
+        const target = JSON.parse(trimmed);
+        if (target.type === 'GENERATED_FILE' && target.generatedFile) {
+            return {
+                generatedFile: {
+                    label: target.generatedFile.name,
+                    generatingRule: target.generatedFile.generatingRule
+                }
+            };
+        }
+        if (target.type !== 'RULE' || !target.rule) {
+            return undefined;
+        }
+
+        const rule = target.rule;
+        const attributes = new Map<string, QueriedBazelAttribute>();
+        for (const attribute of (rule.attribute || []) as QueriedBazelAttribute[]) {
+            attributes.set(attribute.name, attribute);
+        }
+
+        const getStringList = (name: string) => attributes.get(name)?.stringListValue || [];
+        const getBoolean = (name: string) => attributes.get(name)?.booleanValue || attributes.get(name)?.intValue === 1;
+
+        return {
+            rule: {
+                label: rule.name,
+                ruleClass: rule.ruleClass,
+                location: rule.location || '',
+                tags: getStringList('tags'),
+                srcs: getStringList('srcs'),
+                deps: getStringList('deps'),
+                size: attributes.get('size')?.stringValue,
+                flaky: getBoolean('flaky'),
+                testonly: getBoolean('testonly'),
+                executable: getBoolean('$is_executable') || getBoolean('executable'),
+                inputs: rule.ruleInput || [],
+                attributes: attributes
+            }
+        };
+    }
+}
@@ -64,6 +64,7 @@ export const languageMapping: Map<string, string> = new Map([
 
     // Rust
     ['rs_', 'rust'],
+    ['rust_', 'rust'],
 
     // Swift
     ['swift_', 'swift'],
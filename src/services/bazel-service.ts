@@ -21,46 +21,144 @@
 // OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
-import { BazelParser } from './bazel-parser';
+import { BazelCommandInfo, BazelCompletionParser } from './bazel-completion-parser';
+import { DependencyGraph, DependencyGraphBuilder } from './bazel-dependency-graph';
+import { BazelFlagInfo } from './bazel-flags-parser';
+import { BazelParser, ParsedBazelTarget } from './bazel-parser';
+import { BazelQueryParser, QueriedBazelRule } from './bazel-query-parser';
+import { BazelrcParser } from './bazelrc-parser';
 import { languageMapping as bazelRuleTypeLanguageMapping, sortedBazelRuleTypePrefixes } from './bazel-rule-language-mapping';
+import { BazelTargetClassifier } from './bazel-target-classifier';
 import { ConfigurationManager } from './configuration-manager';
 import { Console } from './console';
-import { ShellService } from './shell-service';
+import { FileStorageService } from './file-storage-service';
+import { ShellCommandError, ShellService } from './shell-service';
+import { SourceFileOwner, SourceOwnershipResolver } from './source-ownership-resolver';
+import { StarlarkEvaluator } from './starlark-parser';
 import { cleanAndFormat } from './string-utils';
-import { WorkspaceService } from './workspace-service';
+import { BazelFlagCatalog } from '../models/bazel-flag-catalog';
 import { BazelAction, BazelTarget } from '../models/bazel-target';
-import * as fs from 'fs';
+import { BazelTargetMultiPropertyOption, BazelTargetMultiPropertyValueDescription } from '../models/bazel-target-multi-property';
 import * as path from 'path';
 import * as tmp from 'tmp';
 import * as vscode from 'vscode';
 
 export const BAZEL_BIN = 'bazel-bin';
 
+// The exit code of a --keep_going command which succeeded only partially
+const BAZEL_PARTIAL_RESULTS_EXIT_CODE = 3;
+
+/**
+ * Files whose presence marks the root of a Bazel repository. A directory
+ * containing any of them is a repository boundary, whether it uses Bzlmod
+ * (MODULE.bazel, REPO.bazel) or the legacy WORKSPACE.
+ */
+export const REPO_BOUNDARY_FILES = ['MODULE.bazel', 'REPO.bazel', 'WORKSPACE.bazel', 'WORKSPACE'];
+
 export class BazelService {
+    // Used if the installed Bazel cannot describe its commands
+    private static readonly defaultTargetActions = [
+        'aquery',
+        'build',
+        'coverage',
+        'cquery',
+        'mobile-install',
+        'print_action',
+        'query',
+        'run',
+        'test'
+    ];
+
+    // The flags only depend on the bazel version, so they are shared by all workspaces
+    private readonly flagCatalog: BazelFlagCatalog;
+    // Set once bazel rejects --output=streamed_jsonproto, which older versions lack
+    private isStreamedJsonProtoUnsupported = false;
 
-    private readonly isBuildTargetRegex = /_library|_proto|_archive|_module|_object|_bundle|_package|_test|_build/;
     constructor(
         private readonly context: vscode.ExtensionContext,
         private readonly configurationManager: ConfigurationManager,
         private readonly shellService: ShellService
-    ) { }
+    ) {
+        this.flagCatalog = new BazelFlagCatalog(this, new FileStorageService(context, context.globalStorageUri));
+    }
+
+    /**
+     * Gets the workspace folder whose bazel workspace this service runs in.
+     */
+    public getWorkspaceFolder(): vscode.WorkspaceFolder {
+        return this.shellService.getWorkspaceFolder();
+    }
+
+    /**
+     * Fetches the list of Bazel actions that require a target. The commands are described by
+     * the installed Bazel (or the wrapper set as executable) through `help completion`, or
+     * by its installed bash completion script.
+     */
+    public async fetchTargetActions(cancellationToken?: vscode.CancellationToken): Promise<string[]> {
+        let commands: BazelCommandInfo[] = [];
+        try {
+            const executable = this.configurationManager.getExecutableCommand();
+            const result = await this.shellService.runShellCommandQuietly(`${executable} help completion`, cancellationToken);
+            commands = BazelCompletionParser.parse(result.stdout);
+        } catch (error) {
+            Console.warn('Cannot get the bazel commands from help completion:', error);
+        }
+
+        if (commands.length === 0) {
+            commands = await BazelCompletionParser.parseInstalledScript();
+        }
+
+        if (commands.length === 0) {
+            Console.warn('Cannot find the bazel commands, using the default ones.');
+            return [...BazelService.defaultTargetActions];
+        }
+
+        return commands
+            .filter(command => BazelCompletionParser.acceptsTargets(command))
+            .map(command => command.name)
+            .sort();
+    }
+
+    /**
+     * Fetches the version of the installed Bazel (or the wrapper set as executable), e.g. `bazel 7.1.0`.
+     */
+    public async fetchVersion(cancellationToken?: vscode.CancellationToken): Promise<string> {
+        try {
+            const executable = this.configurationManager.getExecutableCommand();
+            const result = await this.shellService.runShellCommandQuietly(`${executable} --version`, cancellationToken);
+            return result.stdout.trim();
+        } catch (error) {
+            Console.error('Error fetching the bazel version:', error);
+            return Promise.reject(error);
+        }
+    }
+
+    /**
+     * Fetches the base64 encoded description of all flags from `help flags-as-proto`.
+     */
+    public async fetchFlagsAsProto(cancellationToken?: vscode.CancellationToken): Promise<string> {
+        try {
+            const executable = this.configurationManager.getExecutableCommand();
+            const result = await this.shellService.runShellCommandQuietly(`${executable} help flags-as-proto`, cancellationToken);
+            return result.stdout;
+        } catch (error) {
+            Console.error('Error fetching the bazel flags:', error);
+            return Promise.reject(error);
+        }
+    }
 
     /**
-     * Fetches the list of Bazel actions that require a target.
+     * Fetches the long help of a command, which lists the type and default of each of its flags.
      */
-    public async fetchTargetActions(): Promise<string[]> {
-        const actionsRequiringTarget: string[] = [
-            'aquery',
-            'build',
-            'coverage',
-            'cquery',
-            'mobile-install',
-            'print_action',
-            'query',
-            'run',
-            'test'
-        ];
-        return actionsRequiringTarget;
+    public async fetchCommandHelp(command: string, cancellationToken?: vscode.CancellationToken): Promise<string> {
+        try {
+            const executable = this.configurationManager.getExecutableCommand();
+            const result = await this.shellService.runShellCommandQuietly(`${executable} help ${command} --help_verbosity=long`, cancellationToken);
+            return result.stdout;
+        } catch (error) {
+            Console.error(`Error fetching the help of ${command}:`, error);
+            return Promise.reject(error);
+        }
     }
 
     /**
@@ -79,7 +177,7 @@ export class BazelService {
                 '--output=starlark --starlark:expr=target.files_to_run.executable.path'
             );
 
-            const result = await this.shellService.runShellCommand(`${executable} ${cmd} ${bazelTarget}`, cancellationToken);
+            const result = await this.shellService.runShellCommand(`${executable} ${cmd} ${bazelTarget}`, cancellationToken, target.getWorkspaceRoot());
             return result.stdout;
         } catch (error) {
             Console.error('Error fetching Bazel target build path:', error);
@@ -97,54 +195,139 @@ export class BazelService {
         return '//' + resultSplitted.slice(0, resultSplitted.length - 1).join('/') + ':' + targetName;
     }
 
-    public async fetchAllTargetsByAction(cancellationToken?: vscode.CancellationToken, timeoutMs?: number, rootDir?: string): Promise<Map<BazelAction, BazelTarget[]>> {
-        // Initialize map entries for each action
-        const testTargets: BazelTarget[] = [];
-        const map: Map<BazelAction, BazelTarget[]> = new Map([
-            ['run', []],
-            ['build', []],
-            ['test', testTargets],
-            ['coverage', testTargets]
-        ]);
+    /**
+     * Fetches all targets, categorized by action.
+     * @returns The targets and the BUILD files they were fetched from.
+     */
+    public async fetchAllTargetsByAction(cancellationToken?: vscode.CancellationToken, timeoutMs?: number, rootDir?: string): Promise<{ buildFiles: string[], targets: Map<BazelAction, BazelTarget[]> }> {
+        const map = BazelService.createTargetsByActionMap();
 
         try {
             // Fetch all targets
             // Race between the fetch operation and the timeout
             const fetchPromise = this.fetchAllTargets(rootDir, cancellationToken);
-            const targets = timeoutMs && timeoutMs !== 0 ? await Promise.race([
+            const result = timeoutMs && timeoutMs !== 0 ? await Promise.race([
                 fetchPromise,
                 new Promise<never>((_, reject) =>
                     setTimeout(() => reject(new Error('Update targets timed out')), timeoutMs)
                 )
             ]) : await fetchPromise;
 
-            // Iterate through fetched targets and categorize them by action
-            targets.forEach(item => {
-                const target = new BazelTarget(this.context, this, item.label, item.bazelPath, item.buildPath, '', item.ruleType);
+            this.categorizeTargetsByAction(result.targets, map);
+            return { buildFiles: result.buildFiles, targets: map };
+        } catch (error) {
+            Console.error(`Failed to fetch and categorize targets: ${error}`);
+            return Promise.reject(error);
+        }
+    }
 
-                // Determine which categories this target belongs to
-                if (target.ruleType.includes('_test')) {
-                    map.get('test')?.push(target);
-                    if (target.ruleType !== 'package_test') {
-                        map.get('run')?.push(target); // Tests can also be run
-                    }
-                    map.get('build')?.push(target); // Tests are built before running
-                } else if (target.ruleType.includes('_binary')) {
-                    map.get('run')?.push(target);
-                    map.get('build')?.push(target); // Binaries need to be built
-                } else if (this.isBuildTargetRegex.test(target.ruleType)) {
-                    map.get('build')?.push(target);
-                }
-            });
+    /**
+     * Fetches the targets of only the packages owning the given BUILD files.
+     * @param buildFiles BUILD files that were created, changed or deleted.
+     * @returns The affected packages and their current targets, categorized by action.
+     */
+    public async fetchTargetsByActionForBuildFiles(buildFiles: string[], cancellationToken?: vscode.CancellationToken): Promise<{ packages: string[], targets: Map<BazelAction, BazelTarget[]> }> {
+        const map = BazelService.createTargetsByActionMap();
 
+        const workspaceRoot = this.getWorkspaceFolder().uri.path;
+        try {
+            const result = await BazelParser.parseChangedBazelBuildFilesTargets(buildFiles, workspaceRoot, '.*', true, cancellationToken);
+            const targets = result.targets.map(parsedTarget => BazelService.fromParsedTarget(parsedTarget));
+            this.categorizeTargetsByAction(targets, map);
+            return { packages: result.packages, targets: map };
         } catch (error) {
-            Console.error(`Failed to fetch and categorize targets: ${error}`);
+            Console.error(`Failed to fetch targets for BUILD files: ${error}`);
             return Promise.reject(error);
         }
+    }
+
+    private static decodeQueryLine(line: string): QueriedBazelRule | undefined {
+        try {
+            return BazelQueryParser.parseStreamedJsonProtoLine(line);
+        } catch (error) {
+            Console.warn('Skipping unreadable query output line:', error);
+            return undefined;
+        }
+    }
+
+    private static fromQueriedRule(rule: QueriedBazelRule, workspaceRoot?: string): BazelTarget {
+        const [targetPath, targetName] = rule.label.split(':');
+        return {
+            label: targetName,
+            ruleType: rule.ruleClass,
+            bazelPath: rule.label,
+            buildPath: path.join(BAZEL_BIN, ...targetPath.split('/'), targetName),
+            metadata: {
+                tags: rule.tags,
+                srcs: rule.srcs,
+                deps: rule.deps,
+                location: rule.location,
+                size: rule.size,
+                flaky: rule.flaky,
+                testonly: rule.testonly,
+                executable: rule.executable,
+                workspaceRoot: workspaceRoot
+            }
+        } as BazelTarget;
+    }
+
+    private static fromParsedTarget(parsedTarget: ParsedBazelTarget): BazelTarget {
+        return {
+            label: parsedTarget.name,
+            ruleType: parsedTarget.ruleType,
+            bazelPath: parsedTarget.bazelPath,
+            buildPath: parsedTarget.buildPath,
+            metadata: {
+                tags: StarlarkEvaluator.toStringList(parsedTarget.attributes.tags),
+                srcs: StarlarkEvaluator.toStringList(parsedTarget.attributes.srcs),
+                deps: StarlarkEvaluator.toStringList(parsedTarget.attributes.deps),
+                location: parsedTarget.location,
+                size: typeof parsedTarget.attributes.size === 'string' ? parsedTarget.attributes.size : undefined,
+                flaky: StarlarkEvaluator.toBoolean(parsedTarget.attributes.flaky),
+                testonly: StarlarkEvaluator.toBoolean(parsedTarget.attributes.testonly),
+                executable: StarlarkEvaluator.toBoolean(parsedTarget.attributes.executable),
+                workspaceRoot: parsedTarget.workspaceRoot
+            }
+        } as BazelTarget;
+    }
 
-        return map;
+    private static createTargetsByActionMap(): Map<BazelAction, BazelTarget[]> {
+        // Initialize map entries for each action
+        const testTargets: BazelTarget[] = [];
+        return new Map([
+            ['run', []],
+            ['build', []],
+            ['test', testTargets],
+            ['coverage', testTargets]
+        ]);
     }
 
+    private categorizeTargetsByAction(targets: BazelTarget[], map: Map<BazelAction, BazelTarget[]>) {
+        const classifier = new BazelTargetClassifier(this.configurationManager.getTargetClassificationRules());
+
+        // Iterate through fetched targets and categorize them by action
+        targets.forEach(item => {
+            const classification = classifier.classify(item.ruleType, item.metadata);
+            if (classification.actions.length === 0) {
+                return;
+            }
+
+            const metadata = classification.language ? { ...item.metadata, language: classification.language } : item.metadata;
+            const target = new BazelTarget(this.context, this, item.label, item.bazelPath, item.buildPath, '', item.ruleType, undefined, metadata);
+
+            // Determine which categories this target belongs to
+            classification.actions.forEach(action => {
+                if (!map.has(action)) {
+                    map.set(action, []);
+                }
+                const actionTargets = map.get(action);
+                // Test and coverage share a list, so avoid adding a target twice
+                if (actionTargets && !actionTargets.includes(target)) {
+                    actionTargets.push(target);
+                }
+            });
+        });
+    }
 
     private async runQuery(query: string, cancellationToken?: vscode.CancellationToken): Promise<{ stdout: string, stderr: string}> {
         try {
@@ -158,14 +341,79 @@ export class BazelService {
         }
     }
 
+    private async runStreamingQuery(query: string, onLine: (line: string) => void, cancellationToken?: vscode.CancellationToken, workspaceRoot?: string): Promise<void> {
+        try {
+            const executable = this.configurationManager.getExecutableCommand();
+            Console.info('running query', `${executable} ${query}`);
+            await this.shellService.runShellCommandStreaming(`${executable} ${query}`, onLine, cancellationToken, workspaceRoot);
+        } catch (error) {
+            // With --keep_going, bazel exits with 3 when some packages could not be loaded
+            if (error instanceof ShellCommandError && error.exitCode === BAZEL_PARTIAL_RESULTS_EXIT_CODE) {
+                Console.warn('Query', query, 'returned partial results:', error.stderr);
+                return;
+            }
+            Console.error('Error running query', query, error);
+            return Promise.reject(error);
+        }
+    }
+
+    private static isStreamedJsonProtoRejected(error: unknown): boolean {
+        return error instanceof ShellCommandError && error.stderr.includes('streamed_jsonproto');
+    }
+
+    /**
+     * Streams the rules matched by a query expression. Bazel versions without
+     * --output=streamed_jsonproto are queried with --output=label_kind instead,
+     * which only reports the kind and label of each rule.
+     * @param flags Additional query flags, e.g. --keep_going.
+     */
+    private async runRuleQuery(expression: string, flags: string, onRule: (rule: QueriedBazelRule) => void, cancellationToken?: vscode.CancellationToken, workspaceRoot?: string): Promise<void> {
+        if (!this.isStreamedJsonProtoUnsupported) {
+            try {
+                await this.runStreamingQuery(`query '${expression}' --output=streamed_jsonproto ${flags}`,
+                    (line) => {
+                        const rule = BazelService.decodeQueryLine(line);
+                        if (rule) {
+                            onRule(rule);
+                        }
+                    },
+                    cancellationToken,
+                    workspaceRoot);
+                return;
+            } catch (error) {
+                if (!BazelService.isStreamedJsonProtoRejected(error)) {
+                    return Promise.reject(error);
+                }
+                Console.warn('Bazel does not support --output=streamed_jsonproto, falling back to --output=label_kind');
+                this.isStreamedJsonProtoUnsupported = true;
+            }
+        }
+
+        await this.runStreamingQuery(`query '${expression}' --output=label_kind ${flags}`,
+            (line) => {
+                const rule = BazelQueryParser.parseLabelKindLine(line);
+                if (rule) {
+                    onRule(rule);
+                }
+            },
+            cancellationToken,
+            workspaceRoot);
+    }
+
     /**
      * Fetches available targets for Bazel.
+     * @returns The targets and the BUILD files under the root directory.
      */
-    public async fetchAllTargets(rootDir?: string, cancellationToken?: vscode.CancellationToken): Promise<BazelTarget[]> {
+    public async fetchAllTargets(rootDir?: string, cancellationToken?: vscode.CancellationToken): Promise<{ buildFiles: string[], targets: BazelTarget[] }> {
         if (!this.configurationManager.shouldFetchTargetsUsingQuery()) {
             return this.fetchAllTargetsFromBuildFiles('.*', rootDir, true, cancellationToken);
         } else {
-            return this.fetchAllTargetsFromQuery(cancellationToken);
+            // The query does not report the BUILD files, so those are looked up while it runs
+            const [targets, bazelFiles] = await Promise.all([
+                this.fetchAllTargetsFromQuery(cancellationToken),
+                BazelParser.findBazelBuildFiles(rootDir || this.getWorkspaceFolder().uri.path)
+            ]);
+            return { buildFiles: bazelFiles.build, targets };
         }
     }
 
@@ -173,49 +421,49 @@ export class BazelService {
         Console.info('Fetching all targets from bazel...');
         try {
             const filter = '"^(?!.*\\.aspect_rules_js|.*node_modules|.*bazel-|.*/\\.).*$"';
-            // Run label_kind and package queries in parallel to save time
             /**
              * This is how to find all executable targets but we won't use that
              * because we need all buildable targets:
-             * 'query \'attr("$is_executable", 1,  //...)\'  --output=label_kind --keep_going 2>/dev/null || true',
+             * 'query \'attr("$is_executable", 1,  //...)\'  --output=label_kind --keep_going',
              */
-            const [targetsQuery, buildPackagesQuery, testPackagesQuery] = await Promise.
-                all([
-                    this.runQuery(
-                        `query 'filter(${filter}, kind(".*(${this.isBuildTargetRegex.source}|_binary|_test)", //...)
-                    )' --output=label_kind --keep_going 2>/dev/null || true`,
-                        cancellationToken),
-                    this.runQuery(`query 'filter(${filter}, //...)' --output=package --keep_going 2>/dev/null || true`, cancellationToken),
-                    this.runQuery(`query 'filter(${filter}, tests(//...))' --output=package --keep_going 2>/dev/null || true`, cancellationToken)
-                ]);
-
-            const targetOutputs = targetsQuery.stdout.split('\n');
-            const buildPackagesOutputs = buildPackagesQuery.stdout.split('\n');
-            const testPackagesOutputs = new Set(testPackagesQuery.stdout.split('\n'));
-
-            // Combine build and test package information
-            const unifiedPackages = buildPackagesOutputs.map(pkg =>
-                testPackagesOutputs.has(pkg) ? `package_test package //${pkg}/...` : `package_build package //${pkg}/...`
-            );
-            unifiedPackages.push('package_test package //...');
-
-            targetOutputs.push(...unifiedPackages);
-
-            // Process target outputs to extract necessary fields and filter out empty labels in one pass
-            const targets = targetOutputs
-                .filter(line => line.trim() !== '')
-                .map(line => {
-                    const [ruleType, , target] = line.split(' ');
-                    const [targetPath, targetName] = target.split(':');
-                    const buildPath = path.join(BAZEL_BIN, ...targetPath.split('/'), targetName || '');
-
-                    return {
-                        label: targetName || targetPath,
-                        ruleType: ruleType,
-                        bazelPath: target,
-                        buildPath: buildPath
-                    } as BazelTarget;
-                });
+            // Only rules which may get an action are listed, never files
+            const classifier = new BazelTargetClassifier(this.configurationManager.getTargetClassificationRules());
+            const kindPattern = classifier.getQueryKindPattern();
+            const kind = kindPattern !== undefined ? `"${kindPattern}"` : 'rule';
+            // A single streamed query yields every rule, from which the packages are derived as well.
+            const targets: BazelTarget[] = [];
+            const packagesHaveTests = new Map<string, boolean>();
+            await this.runRuleQuery(
+                `kind(${kind}, filter(${filter}, //...))`,
+                '--keep_going',
+                (rule) => {
+                    const packagePath = BazelParser.getPackageFromBazelPath(rule.label);
+                    const isTest = rule.ruleClass.includes('_test') || rule.ruleClass === 'test_suite';
+                    packagesHaveTests.set(packagePath, packagesHaveTests.get(packagePath) || isTest);
+
+                    targets.push(BazelService.fromQueriedRule(rule));
+                },
+                cancellationToken);
+
+            // Add an entry for building or testing each package recursively
+            packagesHaveTests.forEach((hasTest, packagePath) => {
+                if (packagePath === '//') {
+                    return; // Covered by //... below
+                }
+                const bazelPath = `${packagePath}/...`;
+                targets.push({
+                    label: bazelPath,
+                    ruleType: hasTest ? 'package_test' : 'package_build',
+                    bazelPath: bazelPath,
+                    buildPath: path.join(BAZEL_BIN, ...bazelPath.split('/'))
+                } as BazelTarget);
+            });
+            targets.push({
+                label: '//...',
+                ruleType: 'package_test',
+                bazelPath: '//...',
+                buildPath: path.join(BAZEL_BIN, '...')
+            } as BazelTarget);
 
             // Sort the targets alphabetically
             return targets.sort((a, b) => (a.bazelPath < b.bazelPath ? -1 : 1));
@@ -225,14 +473,104 @@ export class BazelService {
         }
     }
 
+    /**
+     * Finds the targets in the workspace that depend, directly or transitively, on any of the given labels.
+     * @param labels The targets or source files whose consumers are wanted.
+     * @param depth If given, only consumers up to this many edges away are returned.
+     * @param workspaceRoot The root of the nested bazel workspace the labels belong to, if any.
+     * @returns The dependent rule targets, excluding the given labels themselves.
+     */
+    public async fetchReverseDependencies(labels: string[], depth?: number, cancellationToken?: vscode.CancellationToken, workspaceRoot?: string): Promise<BazelTarget[]> {
+        Console.info(`Fetching reverse dependencies of ${labels.join(', ')}...`);
+        try {
+            const depthArg = depth !== undefined ? `, ${depth}` : '';
+            const targets: BazelTarget[] = [];
+            await this.runRuleQuery(
+                `rdeps(//..., ${labels.join(' + ')}${depthArg})`,
+                '--keep_going',
+                (rule) => {
+                    if (!labels.includes(rule.label)) {
+                        const item = BazelService.fromQueriedRule(rule, workspaceRoot);
+                        targets.push(new BazelTarget(this.context, this, item.label, item.bazelPath, item.buildPath, '', item.ruleType, undefined, item.metadata));
+                    }
+                },
+                cancellationToken,
+                workspaceRoot);
+
+            return targets.sort((a, b) => (a.bazelPath < b.bazelPath ? -1 : 1));
+        } catch (error) {
+            Console.error('Error fetching reverse dependencies:', error);
+            return Promise.reject(error);
+        }
+    }
+
+    /**
+     * Fetches the graph of rules matched by a query expression, such as the
+     * dependencies of a target or the path between two targets.
+     * Bazel versions without --output=streamed_jsonproto are queried with --output=graph,
+     * which lacks the kinds and locations of the rules.
+     * @param queryExpression The query, e.g. deps(//foo:bar, 2) or somepath(//foo:bar, //baz:qux).
+     * @param root The target the graph is about, which is kept if the graph has to be truncated.
+     * @param excludeExternal If true, rules in external repositories are left out.
+     * @param workspaceRoot The root of the nested bazel workspace to query from, if any.
+     */
+    public async fetchDependencyGraph(queryExpression: string, root: string, excludeExternal: boolean, cancellationToken?: vscode.CancellationToken, workspaceRoot?: string): Promise<DependencyGraph> {
+        Console.info(`Fetching dependency graph of ${queryExpression}...`);
+        try {
+            if (!this.isStreamedJsonProtoUnsupported) {
+                const builder = new DependencyGraphBuilder(excludeExternal);
+                try {
+                    await this.runStreamingQuery(
+                        `query '${queryExpression}' --output=streamed_jsonproto --noimplicit_deps --keep_going`,
+                        (line) => {
+                            try {
+                                builder.addLine(line);
+                            } catch (error) {
+                                Console.warn('Skipping unreadable query output line:', error);
+                            }
+                        },
+                        cancellationToken,
+                        workspaceRoot);
+                    return builder.build(root);
+                } catch (error) {
+                    if (!BazelService.isStreamedJsonProtoRejected(error)) {
+                        return Promise.reject(error);
+                    }
+                    Console.warn('Bazel does not support --output=streamed_jsonproto, falling back to --output=graph');
+                    this.isStreamedJsonProtoUnsupported = true;
+                }
+            }
+
+            // Only rules are queried, as the graph output does not tell them from files
+            const builder = new DependencyGraphBuilder(excludeExternal);
+            await this.runStreamingQuery(
+                `query 'kind(rule, ${queryExpression})' --output=graph --nograph:factored --noimplicit_deps --keep_going`,
+                (line) => builder.addGraphLine(line),
+                cancellationToken,
+                workspaceRoot);
+            return builder.build(root);
+        } catch (error) {
+            Console.error('Error fetching dependency graph:', error);
+            return Promise.reject(error);
+        }
+    }
+
+    /**
+     * Returns the actions the given target is available for according to the classification rules.
+     */
+    public getActionsForTarget(target: BazelTarget): BazelAction[] {
+        const classifier = new BazelTargetClassifier(this.configurationManager.getTargetClassificationRules());
+        return classifier.classify(target.ruleType, target.metadata).actions;
+    }
+
     public async fetchAllTargetsFromBuildFiles(ruleTypeRegex = '.*',
         rootDir?: string,
         includeOutputPackages = false,
-        cancellationToken?: vscode.CancellationToken): Promise<BazelTarget[]> {
+        cancellationToken?: vscode.CancellationToken): Promise<{ buildFiles: string[], targets: BazelTarget[] }> {
         Console.info(`Fetching targets with rule type ${ruleTypeRegex} from Bazel BUILD files...`);
 
         // Determine the root directory
-        const workspaceRoot = WorkspaceService.getInstance().getWorkspaceFolder()?.uri.path;
+        const workspaceRoot = this.getWorkspaceFolder().uri.path;
         rootDir = rootDir || workspaceRoot;
 
         if (!rootDir) {
@@ -241,19 +579,12 @@ export class BazelService {
         }
 
         try {
-            const parsedTargets = await BazelParser.parseAllBazelBuildFilesTargets(rootDir, workspaceRoot, ruleTypeRegex, includeOutputPackages, cancellationToken);
+            const result = await BazelParser.parseAllBazelBuildFilesTargets(rootDir, workspaceRoot, ruleTypeRegex, includeOutputPackages, cancellationToken);
 
-            const targets: BazelTarget[] = parsedTargets.map((parsedTarget) => {
-                return {
-                    label: parsedTarget.name,
-                    ruleType: parsedTarget.ruleType,
-                    bazelPath: parsedTarget.bazelPath,
-                    buildPath: parsedTarget.buildPath
-                } as BazelTarget;
-            });
+            const targets: BazelTarget[] = result.targets.map((parsedTarget) => BazelService.fromParsedTarget(parsedTarget));
 
             // Sort the targets alphabetically
-            return targets.sort((a, b) => (a.bazelPath < b.bazelPath ? -1 : 1));
+            return { buildFiles: result.buildFiles, targets: targets.sort((a, b) => (a.bazelPath < b.bazelPath ? -1 : 1)) };
         } catch (error) {
             Console.error('Error fetching run targets:', error);
             return Promise.reject(error);
@@ -286,28 +617,23 @@ export class BazelService {
     }
 
     /**
-     * Fetches available arguments or configs for a given Bazel action by sourcing bash-completion scripts.
+     * Fetches available arguments for a given Bazel action by sourcing bash-completion scripts.
      */
-    private async fetchAutocompleteForAction(
+    private async fetchArgsFromBashCompletion(
         action: BazelAction,
-        expandType: 'args' | 'configs',
         cancellationToken?: vscode.CancellationToken
     ): Promise<string[]> {
         try {
-            const workspacePath = WorkspaceService.getInstance().getWorkspaceFolder().uri.path;
+            const workspacePath = this.getWorkspaceFolder().uri.path;
             const bashCompleteScript = await this.findBashCompleteScript(workspacePath, cancellationToken);
 
             if (!bashCompleteScript) {
-                Console.warn(`Cannot find bash-complete.bash or bazel-complete.bash to receive available ${expandType}.`);
+                Console.warn('Cannot find bash-complete.bash or bazel-complete.bash to receive available args.');
                 return [];
             }
 
-            const expandCommand = expandType === 'args'
-                ? `_bazel__options_for ${action}`
-                : `_bazel__expand_config . ${action}`;
-
             const data = await this.shellService.runShellCommand(
-                `bash -c 'source ${bashCompleteScript} && echo $(${expandCommand})'`,
+                `bash -c 'source ${bashCompleteScript} && echo $(_bazel__options_for ${action})'`,
                 cancellationToken
             );
             const result = data.stdout.split(' ');
@@ -315,23 +641,97 @@ export class BazelService {
             // Remove duplicates by converting the result to a set
             return Array.from(new Set(result));
         } catch (error) {
-            Console.error(`Error fetching autocomplete for ${action} (${expandType}):`, error);
+            Console.error(`Error fetching autocomplete for ${action} (args):`, error);
             return Promise.reject(error);  // Rejecting instead of throwing
         }
     }
 
     /**
-     * Fetches available arguments for a given Bazel action.
+     * Fetches available arguments for a given Bazel action, documented from the flag catalog.
+     * Enum flags offer their values. If the catalog cannot be read, the bash completion script is used.
+     */
+    public async fetchArgsForAction(action: BazelAction, cancellationToken: vscode.CancellationToken): Promise<BazelTargetMultiPropertyOption[]> {
+        try {
+            const flags = await this.flagCatalog.getFlagsForCommand(action, cancellationToken);
+            return flags.map(flag => BazelService.toFlagOption(flag));
+        } catch (error) {
+            Console.warn(`Cannot use the flag catalog for ${action}, falling back to bash completion:`, error);
+        }
+
+        const args = await this.fetchArgsFromBashCompletion(action, cancellationToken);
+        return args.map(arg => ({ label: arg }));
+    }
+
+    private static toFlagOption(flag: BazelFlagInfo): BazelTargetMultiPropertyOption {
+        const description: string[] = [];
+        if (flag.abbreviation) {
+            description.push(`[-${flag.abbreviation}]`);
+        }
+        if (flag.valueDescription) {
+            description.push(flag.valueDescription);
+        }
+        if (flag.defaultValue !== undefined) {
+            description.push(`(default: ${flag.defaultValue})`);
+        } else if (flag.allowsMultiple) {
+            description.push('(may be used multiple times)');
+        }
+
+        const documentation = flag.documentation.replace(/\s+/g, ' ').trim();
+        return {
+            label: `--${flag.name}`,
+            description: description.join(' '),
+            detail: documentation || undefined,
+            choices: flag.allowedValues
+        };
+    }
+
+    /**
+     * Fetches the configs defined for a given Bazel action in the .bazelrc files and those they import,
+     * described by the flags they expand to.
+     * @param workspaceRoot The root of the workspace whose .bazelrc is read.
      */
-    public async fetchArgsForAction(action: BazelAction, cancellationToken: vscode.CancellationToken): Promise<string[]> {
-        return this.fetchAutocompleteForAction(action, 'args', cancellationToken);
+    public async fetchConfigsForAction(action: BazelAction,
+        cancellationToken: vscode.CancellationToken,
+        workspaceRoot: string = this.getWorkspaceFolder().uri.path): Promise<BazelTargetMultiPropertyOption[]> {
+        try {
+            const entries = await BazelrcParser.parse(workspaceRoot);
+            return BazelrcParser.getConfigNames(entries, action).map(config => ({
+                label: config,
+                description: BazelrcParser.expandConfig(entries, config, action).join(' ')
+            }));
+        } catch (error) {
+            Console.error(`Error fetching configs for ${action}:`, error);
+            return Promise.reject(error);
+        }
     }
 
     /**
-     * Fetches available configs for a given Bazel action.
+     * Describes what `--config=<config>` expands to for an action and where it is defined,
+     * with a warning if the config has no lines applying to the action.
+     * @param workspaceRoot The root of the workspace whose .bazelrc is read.
      */
-    public async fetchConfigsForAction(action: BazelAction, cancellationToken: vscode.CancellationToken): Promise<string[]> {
-        return this.fetchAutocompleteForAction(action, 'configs', cancellationToken);
+    public async describeConfig(config: string,
+        action: BazelAction,
+        workspaceRoot: string = this.getWorkspaceFolder().uri.path): Promise<BazelTargetMultiPropertyValueDescription> {
+        const entries = await BazelrcParser.parse(workspaceRoot);
+        const configEntries = BazelrcParser.getConfigEntries(entries, config, action);
+        const tooltip = configEntries
+            .map(entry => `${path.basename(entry.file)}:${entry.line}  ${entry.command}:${config} ${entry.args.join(' ')}`)
+            .join('\n');
+
+        let warning: string | undefined;
+        if (configEntries.length === 0) {
+            const commands = BazelrcParser.getConfigCommands(entries, config);
+            warning = commands.length > 0
+                ? `Config ${config} does not apply to ${action}, it is only defined for ${commands.join(', ')}.`
+                : `Config ${config} is not defined in any .bazelrc file.`;
+        }
+
+        return {
+            description: BazelrcParser.expandConfig(entries, config, action).join(' '),
+            tooltip: tooltip || undefined,
+            warning: warning
+        };
     }
 
     public static inferLanguageFromRuleType(ruleType: string): string | undefined {
@@ -362,119 +762,49 @@ export class BazelService {
     }
 
     /**
-     * Extracts the Bazel target from a source file path.
-     * Dynamically determines the target name by inspecting the BUILD file.
-     * @param sourceFilePath - The full path to the test file.
-     * @returns The Bazel target as a string, or throws an error if extraction fails.
-     */
-    public static extractBazelTargetsAssociatedWithSourceFile(sourceFilePath: string): BazelTarget[] {
-        // Get the directory of the current file
-        const dir = path.dirname(sourceFilePath);
-
-        // Find the Bazel workspace root
-        const workspacePath = this.findWorkspaceRoot(dir);
-        if (!workspacePath) {
-            throw new Error('Could not find Bazel workspace');
-        }
-
-        // Compute the relative path to the package within the workspace
-        const relativePath = path.relative(workspacePath, dir);
-        if (!relativePath) {
-            throw new Error('Could not compute relative path');
-        }
-
-        // Find the target in the BUILD file
-        const targetNames = this.getTargetsFromBuildFileWithSource(dir, sourceFilePath);
-        if (!targetNames) {
-            throw new Error('Could not find any targets in the BUILD file');
-        }
-
-        // Build the full Bazel target
-        return targetNames.map((target) => {
-            return {
-                label: target.targetName,
-                ruleType: target.ruleType,
-                bazelPath: `//${relativePath}:${target.targetName}`,
-                buildPath: path.join(BAZEL_BIN, ...relativePath.split('/'), target.targetName || '')
-            } as BazelTarget;
-        });
-    }
-
-    /**
-     * Finds the Bazel workspace root by searching for the `WORKSPACE` file.
-     * @param currentDir - The directory to start searching from.
-     * @returns The Bazel workspace root path as a string, or null if not found.
+     * Finds the targets owning a source file, i.e. those listing it directly, through a glob or through
+     * a filegroup in one of their file attributes. Direct owners come first and filegroups last.
+     * If the owning BUILD file cannot be fully evaluated, bazel is queried instead when enabled.
+     * @param sourceFilePath - The full path to the source file.
      */
-    private static findWorkspaceRoot(currentDir: string): string | null {
-        let dir = currentDir;
-
-        const forever = true;
-        while (forever) {
-            if (fs.existsSync(path.join(dir, 'WORKSPACE'))) {
-                return dir;
-            }
-
-            const parentDir = path.dirname(dir);
-            if (parentDir === dir) {
-                // Reached the root directory
-                return null;
+    public async fetchTargetsOwningSourceFile(sourceFilePath: string, cancellationToken?: vscode.CancellationToken): Promise<BazelTarget[]> {
+        const ownership = await SourceOwnershipResolver.resolve(sourceFilePath);
+        if (ownership.ambiguous && ownership.label && this.configurationManager.shouldQuerySourceFileOwners()) {
+            try {
+                return await this.fetchTargetsOwningLabel(ownership.label, ownership.workspaceRoot, cancellationToken);
+            } catch (error) {
+                Console.warn(`Cannot query the owners of ${ownership.label}:`, error);
             }
-
-            dir = parentDir;
         }
-        return null;
+
+        const rank = (owner: SourceFileOwner) => (owner.ruleType === 'filegroup' ? 2 : (owner.viaFilegroup ? 1 : 0));
+        return ownership.owners
+            .map((owner, index) => ({ owner, index }))
+            .sort((a, b) => rank(a.owner) - rank(b.owner) || a.index - b.index)
+            .map(({ owner }) => {
+                return {
+                    label: owner.targetName,
+                    ruleType: owner.ruleType,
+                    bazelPath: `//${owner.packagePath}:${owner.targetName}`,
+                    buildPath: path.join(BAZEL_BIN, ...owner.packagePath.split('/'), owner.targetName),
+                    metadata: { workspaceRoot: owner.workspaceRoot }
+                } as BazelTarget;
+            });
     }
 
     /**
-     * Parses the BUILD file in the given directory to find all targets that include the specified file in their sources.
-     * Extracts both the Bazel rule type and the target name.
-     * @param dir - The directory containing the BUILD file.
-     * @param filePath - The full path to the file whose targets we want to find.
-     * @returns An array of objects with `ruleType` and `targetName`, or an empty array if no matching targets are found.
+     * Asks bazel which rules of a source file's package list it in one of their file attributes.
+     * @param label The label of the source file, e.g. //foo:bar.cc.
      */
-    private static getTargetsFromBuildFileWithSource(dir: string, filePath: string): { ruleType: string; targetName: string }[] {
-        const buildFileNames = ['BUILD', 'BUILD.bazel'];
-        let buildFilePath: string | null = null;
-
-        // Find the BUILD file in the directory
-        for (const buildFileName of buildFileNames) {
-            const candidatePath = path.join(dir, buildFileName);
-            if (fs.existsSync(candidatePath)) {
-                buildFilePath = candidatePath;
-                break;
-            }
-        }
-
-        if (!buildFilePath) {
-            return []; // No BUILD file found
-        }
-
-        // Read the BUILD file content
-        const buildFileContent = fs.readFileSync(buildFilePath, 'utf8');
-        const fileName = path.basename(filePath);
-
-        // Updated regex to capture rule type, target name, and `srcs` attribute content
-        const regex = new RegExp(
-            '(\\w+)\\s*\\(\\s*name\\s*=\\s*"(.*?)".*?srcs\\s*=\\s*\\[([^\\]]*?)\\]',
-            'gs'
-        );
-
-        const matches: { ruleType: string; targetName: string }[] = [];
-        let match;
-
-        while ((match = regex.exec(buildFileContent)) !== null) {
-            const ruleType = match[1]; // The type of the Bazel rule (e.g., go_test)
-            const targetName = match[2]; // The name of the target
-            const srcsContent = match[3]; // The content of the `srcs` attribute
-
-            // Check if the file name is in the `srcs` list
-            const srcRegex = new RegExp(`["']${fileName}["']`);
-            if (srcRegex.test(srcsContent)) {
-                matches.push({ ruleType, targetName });
-            }
-        }
-
-        return matches; // Return all matching rule types and target names
+    private async fetchTargetsOwningLabel(label: string, workspaceRoot?: string, cancellationToken?: vscode.CancellationToken): Promise<BazelTarget[]> {
+        const targets: BazelTarget[] = [];
+        await this.runRuleQuery(
+            SourceOwnershipResolver.getOwnersQuery(label),
+            '--keep_going',
+            (rule) => targets.push(BazelService.fromQueriedRule(rule, workspaceRoot)),
+            cancellationToken,
+            workspaceRoot);
+        return targets;
     }
 
     public async getRunfilesLocation(target: BazelTarget, cancellationToken?: vscode.CancellationToken): Promise<string> {
@@ -487,7 +817,7 @@ export class BazelService {
 
             // Run the Bazel command and extract the runfiles location
             const command = `${executable} run ${target.bazelPath} --script_path=${tmpFilePath} && grep -oP "(?<=cd ).*\\.runfiles" ${tmpFilePath}`;
-            const data = await this.shellService.runShellCommand(command, cancellationToken);
+            const data = await this.shellService.runShellCommand(command, cancellationToken, target.getWorkspaceRoot());
 
             // Clean up the temporary file
             tmpFile.removeCallback();
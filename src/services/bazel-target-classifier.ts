@@ -0,0 +1,136 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { TargetClassificationRule } from './configuration-manager';
+import { Console } from './console';
+import { BazelAction, BazelTargetMetadata } from '../models/bazel-target';
+
+/**
+ * The built-in rules, checked after any user configured rules. They file tests
+ * under test, run and build, binaries under run and build, and libraries and
+ * other buildable rules under build only.
+ */
+export const defaultTargetClassificationRules: TargetClassificationRule[] = [
+    { kind: 'package_test', actions: ['test', 'build'] },
+    { kind: 'package_build', actions: ['build'] },
+    { kind: 'test_suite', actions: ['test', 'build'] },
+    { kind: '.*_test.*', actions: ['test', 'run', 'build'] },
+    { kind: '.*_binary.*', actions: ['run', 'build'] },
+    { executable: true, actions: ['run', 'build'] },
+    { kind: '.*(_library|_proto|_archive|_module|_object|_bundle|_package|_build).*', actions: ['build'] }
+];
+
+export interface TargetClassification {
+    actions: BazelAction[];
+    language?: string;
+}
+
+interface CompiledClassificationRule {
+    rule: TargetClassificationRule;
+    kindRegex?: RegExp;
+}
+
+/**
+ * Decides which actions a target is available for, and optionally its language,
+ * from its rule kind, tags, testonly and executable attributes.
+ */
+export class BazelTargetClassifier {
+    private readonly rules: CompiledClassificationRule[];
+
+    /**
+     * @param userRules Rules from the configuration, which take precedence over the built-in ones.
+     */
+    constructor(userRules: TargetClassificationRule[] = []) {
+        this.rules = [...userRules, ...defaultTargetClassificationRules]
+            .map(rule => BazelTargetClassifier.compile(rule))
+            .filter((rule): rule is CompiledClassificationRule => rule !== undefined);
+    }
+
+    /**
+     * Classifies a target using the first rule whose conditions all hold.
+     * @returns The actions and language, or no actions if no rule matches.
+     */
+    public classify(ruleType: string, metadata: BazelTargetMetadata = {}): TargetClassification {
+        const match = this.rules.find(compiledRule => BazelTargetClassifier.matches(compiledRule, ruleType, metadata));
+        if (!match) {
+            return { actions: [] };
+        }
+        return { actions: match.rule.actions, language: match.rule.language };
+    }
+
+    /**
+     * Builds a pattern for the kind() query function that matches every rule
+     * kind which may get an action, so that queries can skip the others.
+     * @returns The pattern, or undefined if some rule applies regardless of the
+     * kind, in which case any rule may get an action.
+     */
+    public getQueryKindPattern(): string | undefined {
+        const kinds: string[] = [];
+        for (const { rule } of this.rules) {
+            if (rule.actions.length === 0) {
+                continue;
+            }
+            // Quotes could not be passed on to bazel inside the quoted query
+            if (rule.kind === undefined || /['"]/.test(rule.kind)) {
+                return undefined;
+            }
+            kinds.push(rule.kind);
+        }
+        // kind() matches against descriptions like "cc_library rule"
+        return `^(?:${kinds.join('|')}) rule$`;
+    }
+
+    private static compile(rule: TargetClassificationRule): CompiledClassificationRule | undefined {
+        if (!Array.isArray(rule.actions)) {
+            Console.warn('Ignoring target classification rule without actions:', rule);
+            return undefined;
+        }
+        try {
+            return {
+                rule: rule,
+                kindRegex: rule.kind !== undefined ? new RegExp(`^(?:${rule.kind})$`) : undefined
+            };
+        } catch (error) {
+            Console.warn(`Ignoring target classification rule with invalid kind ${rule.kind}:`, error);
+            return undefined;
+        }
+    }
+
+    private static matches(compiledRule: CompiledClassificationRule, ruleType: string, metadata: BazelTargetMetadata): boolean {
+        const { rule, kindRegex } = compiledRule;
+        if (kindRegex && !kindRegex.test(ruleType)) {
+            return false;
+        }
+        if (rule.tags && !rule.tags.every(tag => metadata.tags?.includes(tag))) {
+            return false;
+        }
+        if (rule.testonly !== undefined && rule.testonly !== (metadata.testonly || false)) {
+            return false;
+        }
+        if (rule.executable !== undefined && rule.executable !== (metadata.executable || false)) {
+            return false;
+        }
+        return true;
+    }
+}
@@ -0,0 +1,311 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { Console } from './console';
+import * as fsPromises from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * A single line of a .bazelrc file, e.g. `build:debug --compilation_mode=dbg`.
+ */
+export interface BazelrcEntry {
+    command: string;
+    config?: string;
+    args: string[];
+    file: string;
+    line: number;
+}
+
+export class BazelrcParser {
+    // The command whose options each command inherits, as declared by Bazel's commands
+    private static readonly parentCommands: { [command: string]: string } = {
+        'aquery': 'build',
+        'clean': 'build',
+        'coverage': 'test',
+        'cquery': 'test',
+        'info': 'build',
+        'mobile-install': 'build',
+        'print_action': 'build',
+        'run': 'build',
+        'test': 'build'
+    };
+
+    /**
+     * Returns the rc commands whose lines apply to a command, in the order Bazel applies them,
+     * e.g. `common`, `build`, `test` for test.
+     * @param command The bazel command, e.g. test.
+     */
+    public static getApplicableCommands(command: string): string[] {
+        const commands: string[] = [];
+        for (let current: string | undefined = command; current && !commands.includes(current); current = this.parentCommands[current]) {
+            commands.unshift(current);
+        }
+        return ['always', 'common', ...commands];
+    }
+
+    /**
+     * Lists the names of the configs defined in the entries.
+     * @param entries Parsed rc entries.
+     * @param command If set, only the configs with lines applying to this command.
+     * @returns The sorted config names.
+     */
+    public static getConfigNames(entries: BazelrcEntry[], command?: string): string[] {
+        const applicableCommands = command ? this.getApplicableCommands(command) : undefined;
+        const names = new Set<string>();
+        entries.forEach(entry => {
+            if (entry.config && (!applicableCommands || applicableCommands.includes(entry.command))) {
+                names.add(entry.config);
+            }
+        });
+        return Array.from(names).sort();
+    }
+
+    /**
+     * Returns the commands a config has lines for, e.g. `build` and `test` for `build:debug` and `test:debug`.
+     */
+    public static getConfigCommands(entries: BazelrcEntry[], config: string): string[] {
+        return Array.from(new Set(entries.filter(entry => entry.config === config).map(entry => entry.command)));
+    }
+
+    /**
+     * Returns the lines of a config that apply to a command, in the order Bazel applies them.
+     */
+    public static getConfigEntries(entries: BazelrcEntry[], config: string, command: string): BazelrcEntry[] {
+        const applicableCommands = this.getApplicableCommands(command);
+        return entries
+            .filter(entry => entry.config === config && applicableCommands.includes(entry.command))
+            .map((entry, index) => ({ entry, index }))
+            .sort((a, b) => applicableCommands.indexOf(a.entry.command) - applicableCommands.indexOf(b.entry.command) || a.index - b.index)
+            .map(({ entry }) => entry);
+    }
+
+    /**
+     * Expands `--config=<config>` for a command into the flags it stands for, including
+     * those of the configs it refers to.
+     * @param entries Parsed rc entries.
+     * @param config The config name, e.g. debug.
+     * @param command The bazel command, e.g. build.
+     * @param visited Configs being expanded, to avoid cycles.
+     */
+    public static expandConfig(entries: BazelrcEntry[], config: string, command: string, visited: Set<string> = new Set()): string[] {
+        if (visited.has(config)) {
+            return [];
+        }
+        visited.add(config);
+
+        const flags: string[] = [];
+        for (const entry of this.getConfigEntries(entries, config, command)) {
+            for (let i = 0; i < entry.args.length; i++) {
+                const arg = entry.args[i];
+                if (arg.startsWith('--config=')) {
+                    flags.push(...this.expandConfig(entries, arg.slice('--config='.length), command, visited));
+                } else if (arg === '--config' && i + 1 < entry.args.length) {
+                    flags.push(...this.expandConfig(entries, entry.args[++i], command, visited));
+                } else {
+                    flags.push(arg);
+                }
+            }
+        }
+
+        visited.delete(config);
+        return flags;
+    }
+
+    /**
+     * Returns the rc files Bazel reads by default, in the order it reads them.
+     * @param workspaceRoot The root of the workspace.
+     */
+    public static getDefaultRcFiles(workspaceRoot: string): string[] {
+        return [
+            '/etc/bazel.bazelrc',
+            path.join(workspaceRoot, '.bazelrc'),
+            path.join(os.homedir(), '.bazelrc')
+        ];
+    }
+
+    /**
+     * Parses the default rc files of a workspace, following import and try-import lines.
+     * @param workspaceRoot The root of the workspace, used to resolve %workspace%.
+     * @returns Every entry in the order Bazel would apply it.
+     */
+    public static async parse(workspaceRoot: string): Promise<BazelrcEntry[]> {
+        const visited = new Set<string>();
+        const entries: BazelrcEntry[] = [];
+        for (const rcFile of this.getDefaultRcFiles(workspaceRoot)) {
+            entries.push(...await this.parseFile(rcFile, workspaceRoot, visited, true));
+        }
+        return entries;
+    }
+
+    /**
+     * Parses a single rc file and the files it imports.
+     * @param filePath The rc file to parse.
+     * @param workspaceRoot The root of the workspace, used to resolve %workspace%.
+     * @param visited Files already parsed, to avoid import cycles.
+     * @param optional If true a missing file is silently skipped.
+     */
+    public static async parseFile(filePath: string,
+        workspaceRoot: string,
+        visited: Set<string> = new Set(),
+        optional = false): Promise<BazelrcEntry[]> {
+        const resolvedPath = path.resolve(filePath);
+        if (visited.has(resolvedPath)) {
+            return [];
+        }
+        visited.add(resolvedPath);
+
+        let content: string;
+        try {
+            content = await fsPromises.readFile(resolvedPath, 'utf8');
+        } catch (error) {
+            if (!optional) {
+                Console.warn(`Cannot read bazelrc file ${resolvedPath}:`, error);
+            }
+            return [];
+        }
+
+        const entries: BazelrcEntry[] = [];
+        for (const { text, line } of this.joinContinuedLines(content)) {
+            const words = this.splitWords(text);
+            if (words.length === 0) {
+                continue;
+            }
+
+            const [commandAndConfig, ...args] = words;
+            if (commandAndConfig === 'import' || commandAndConfig === 'try-import') {
+                if (args.length > 0) {
+                    // Relative imports are resolved against the directory bazel runs in
+                    const importPath = path.resolve(workspaceRoot, args[0].replace(/%workspace%/g, workspaceRoot));
+                    entries.push(...await this.parseFile(importPath, workspaceRoot, visited, commandAndConfig === 'try-import'));
+                }
+                continue;
+            }
+
+            const separator = commandAndConfig.indexOf(':');
+            entries.push({
+                command: separator === -1 ? commandAndConfig : commandAndConfig.slice(0, separator),
+                config: separator === -1 ? undefined : commandAndConfig.slice(separator + 1),
+                args: args,
+                file: resolvedPath,
+                line: line
+            });
+        }
+        return entries;
+    }
+
+    /**
+     * Collects the values given to an option in entries that apply without a --config.
+     * Both `--option=value` and `--option value` forms are recognized.
+     * @param entries Parsed rc entries.
+     * @param optionName The option name, e.g. `deleted_packages`.
+     * @param commands The commands to consider; common and always apply to every command.
+     */
+    public static getOptionValues(entries: BazelrcEntry[], optionName: string, commands?: string[]): string[] {
+        const values: string[] = [];
+        const flag = `--${optionName}`;
+        for (const entry of entries) {
+            if (entry.config !== undefined || entry.command === 'startup') {
+                continue;
+            }
+            if (commands && !commands.includes(entry.command) && entry.command !== 'common' && entry.command !== 'always') {
+                continue;
+            }
+            for (let i = 0; i < entry.args.length; i++) {
+                const arg = entry.args[i];
+                if (arg.startsWith(`${flag}=`)) {
+                    values.push(arg.slice(flag.length + 1));
+                } else if (arg === flag && i + 1 < entry.args.length) {
+                    values.push(entry.args[++i]);
+                }
+            }
+        }
+        return values;
+    }
+
+    private static joinContinuedLines(content: string): { text: string, line: number }[] {
+        const result: { text: string, line: number }[] = [];
+        const lines = content.split(/\r?\n/);
+        let current = '';
+        let startLine = 0;
+        lines.forEach((rawLine, index) => {
+            if (current === '') {
+                startLine = index + 1;
+            }
+            if (rawLine.endsWith('\\')) {
+                current += rawLine.slice(0, -1) + ' ';
+                return;
+            }
+            current += rawLine;
+            result.push({ text: current, line: startLine });
+            current = '';
+        });
+        if (current !== '') {
+            result.push({ text: current, line: startLine });
+        }
+        return result;
+    }
+
+    // Splits a line into words the way Bazel does: whitespace separated, with quotes and comments.
+    private static splitWords(text: string): string[] {
+        const words: string[] = [];
+        let word = '';
+        let inWord = false;
+        let quote: string | undefined;
+
+        for (let i = 0; i < text.length; i++) {
+            const ch = text[i];
+            if (quote) {
+                if (ch === quote) {
+                    quote = undefined;
+                } else if (ch === '\\' && quote === '"' && i + 1 < text.length) {
+                    word += text[++i];
+                } else {
+                    word += ch;
+                }
+            } else if (ch === '"' || ch === '\'') {
+                quote = ch;
+                inWord = true;
+            } else if (ch === '#') {
+                break;
+            } else if (/\s/.test(ch)) {
+                if (inWord) {
+                    words.push(word);
+                    word = '';
+                    inWord = false;
+                }
+            } else if (ch === '\\' && i + 1 < text.length) {
+                word += text[++i];
+                inWord = true;
+            } else {
+                word += ch;
+                inWord = true;
+            }
+        }
+        if (inWord) {
+            words.push(word);
+        }
+        return words;
+    }
+}
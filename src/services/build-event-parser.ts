@@ -0,0 +1,156 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { Console } from './console';
+import * as url from 'url';
+
+/*
+ * The parts of build_event_stream.proto read by the extension, as written by
+ * --build_event_json_file. The JSON encoding of proto3 writes int64 values as strings.
+ */
+
+export interface BuildEventFile {
+    name?: string;
+    uri?: string;
+    pathPrefix?: string[];
+}
+
+export interface BuildEventFileSetId {
+    id: string;
+}
+
+export interface BuildEventId {
+    started?: object;
+    progress?: { opaqueCount?: number };
+    buildFinished?: object;
+    buildMetrics?: object;
+    targetConfigured?: { label: string, aspect?: string };
+    targetCompleted?: { label: string, aspect?: string };
+    actionCompleted?: { label?: string, primaryOutput?: string };
+    namedSet?: BuildEventFileSetId;
+    testResult?: { label: string, run?: number, shard?: number, attempt?: number };
+    testSummary?: { label: string };
+}
+
+export interface BuildEvent {
+    id: BuildEventId;
+    children?: BuildEventId[];
+    lastMessage?: boolean;
+    started?: { uuid?: string, command?: string, startTimeMillis?: string };
+    // The console output of bazel, including the output of failed actions
+    progress?: { stdout?: string, stderr?: string };
+    configured?: { targetKind?: string, testSize?: string, tag?: string[] };
+    completed?: {
+        success?: boolean;
+        outputGroup?: { name: string, fileSets?: BuildEventFileSetId[] }[];
+        importantOutput?: BuildEventFile[];
+        failureDetail?: { message?: string };
+    };
+    aborted?: { reason?: string, description?: string };
+    action?: {
+        success?: boolean;
+        label?: string;
+        type?: string;
+        exitCode?: number;
+        stdout?: BuildEventFile;
+        stderr?: BuildEventFile;
+        primaryOutput?: BuildEventFile;
+        failureDetail?: { message?: string };
+    };
+    namedSetOfFiles?: { files?: BuildEventFile[], fileSets?: BuildEventFileSetId[] };
+    testResult?: {
+        status?: string;
+        statusDetails?: string;
+        cachedLocally?: boolean;
+        testAttemptDurationMillis?: string;
+        testActionOutput?: BuildEventFile[];
+        executionInfo?: { cachedRemotely?: boolean, strategy?: string };
+    };
+    testSummary?: {
+        overallStatus?: string;
+        totalRunCount?: number;
+        shardCount?: number;
+        attemptCount?: number;
+        totalNumCached?: number;
+        totalRunDurationMillis?: string;
+        passed?: BuildEventFile[];
+        failed?: BuildEventFile[];
+    };
+    finished?: { overallSuccess?: boolean, exitCode?: { name?: string, code?: number }, finishTimeMillis?: string };
+    buildMetrics?: {
+        actionSummary?: {
+            actionsCreated?: string;
+            actionsExecuted?: string;
+            actionCacheStatistics?: { hits?: number, misses?: number };
+            runnerCount?: { name: string, count: number }[];
+        };
+    };
+}
+
+export class BuildEventParser {
+    /**
+     * Parses one line of a build event JSON file.
+     * @returns The event, or undefined if the line is not a build event.
+     */
+    public static parseLine(line: string): BuildEvent | undefined {
+        const trimmed = line.trim();
+        if (trimmed.length === 0) {
+            return undefined;
+        }
+
+        try {
+            const event = JSON.parse(trimmed) as BuildEvent;
+            return event && typeof event.id === 'object' ? event : undefined;
+        } catch (error) {
+            Console.warn(`Cannot parse build event: ${trimmed.substring(0, 100)}`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Returns the local path of a file referenced by an event, or undefined if it is
+     * only available remotely (e.g. a bytestream:// uri of a remote cache).
+     */
+    public static toFilePath(file: BuildEventFile | undefined): string | undefined {
+        if (!file || !file.uri || !file.uri.startsWith('file://')) {
+            return undefined;
+        }
+        try {
+            return url.fileURLToPath(file.uri);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Converts an int64 field, which is written as a string, to a number.
+     */
+    public static toNumber(value: string | number | undefined): number | undefined {
+        if (value === undefined) {
+            return undefined;
+        }
+        const result = Number(value);
+        return isNaN(result) ? undefined : result;
+    }
+}
@@ -0,0 +1,181 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BazelrcParser } from './bazelrc-parser';
+import { BuildEvent, BuildEventParser } from './build-event-parser';
+import { ConfigurationManager } from './configuration-manager';
+import { Console } from './console';
+import { DiagnosticParser } from './diagnostic-parser';
+import { BazelInvocation } from '../models/bazel-invocation';
+import { BazelInvocationManager } from '../models/bazel-invocation-manager';
+import { BazelTarget } from '../models/bazel-target';
+import * as fs from 'fs';
+import { StringDecoder } from 'string_decoder';
+import * as tmp from 'tmp';
+
+/**
+ * Reads the events bazel appends to a build event JSON file while it runs.
+ */
+class BuildEventFileReader {
+    private static readonly pollIntervalMs = 500;
+    private readonly decoder = new StringDecoder('utf8');
+    private offset = 0;
+    private partialLine = '';
+    private timer: NodeJS.Timeout | undefined;
+    private reading: Promise<void> | undefined;
+
+    constructor(private readonly filePath: string,
+        private readonly onEvents: (events: BuildEvent[]) => void
+    ) { }
+
+    public start() {
+        this.timer = setInterval(() => this.poll(), BuildEventFileReader.pollIntervalMs);
+    }
+
+    /**
+     * Stops polling and reads the events written since the last poll.
+     */
+    public async stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        await this.reading;
+        await this.read();
+        this.emit([this.partialLine + this.decoder.end()]);
+        this.partialLine = '';
+    }
+
+    private poll() {
+        if (!this.reading) {
+            this.reading = this.read().finally(() => {
+                this.reading = undefined;
+            });
+        }
+    }
+
+    private async read() {
+        let handle: fs.promises.FileHandle | undefined;
+        try {
+            handle = await fs.promises.open(this.filePath, 'r');
+            const { size } = await handle.stat();
+            if (size <= this.offset) {
+                return;
+            }
+
+            const buffer = Buffer.alloc(size - this.offset);
+            const { bytesRead } = await handle.read(buffer, 0, buffer.length, this.offset);
+            this.offset += bytesRead;
+
+            const lines = (this.partialLine + this.decoder.write(buffer.subarray(0, bytesRead))).split('\n');
+            // The last line is still being written
+            this.partialLine = lines.pop() || '';
+            this.emit(lines);
+        } catch (error) {
+            Console.warn(`Cannot read build events from ${this.filePath}:`, error);
+        } finally {
+            await handle?.close();
+        }
+    }
+
+    private emit(lines: string[]) {
+        const events = lines
+            .map(line => BuildEventParser.parseLine(line))
+            .filter((event): event is BuildEvent => event !== undefined);
+        if (events.length > 0) {
+            this.onEvents(events);
+        }
+    }
+}
+
+/**
+ * Collects the build event protocol stream of bazel invocations. The stream is
+ * written to a temporary file with --build_event_json_file and parsed while bazel
+ * runs, the results are published through the invocation manager.
+ */
+export class BuildEventService {
+    constructor(private readonly configurationManager: ConfigurationManager,
+        private readonly bazelInvocationManager: BazelInvocationManager
+    ) { }
+
+    /**
+     * Runs a bazel command of a target while collecting its build events.
+     * @param target The target the command is run for.
+     * @param command The bazel command line, starting with the executable.
+     * @param run Runs the command line it is given, e.g. as a task with the given problem matchers.
+     * The matchers are empty when the diagnostics are parsed from the build events.
+     */
+    public async runWithBuildEvents<T>(target: BazelTarget,
+        command: string,
+        run: (command: string, problemMatchers: string[]) => Promise<T>): Promise<T> {
+        const problemMatchers = DiagnosticParser.getProblemMatchers(target.language);
+        if (!this.configurationManager.shouldCollectBuildEvents()) {
+            return run(command, problemMatchers);
+        }
+
+        const eventFile = tmp.fileSync({ prefix: 'bluebazel-bep-', postfix: '.json' });
+        const executable = this.configurationManager.getExecutableCommand();
+        const commandWithEvents = BuildEventService.addBuildEventFile(command, executable, eventFile.name);
+        if (!commandWithEvents) {
+            eventFile.removeCallback();
+            return run(command, problemMatchers);
+        }
+
+        const invocation = new BazelInvocation(target.id, target.action, command.trim(), target.getWorkspaceRoot(), target.language);
+        this.bazelInvocationManager.startInvocation(invocation);
+        const reader = new BuildEventFileReader(eventFile.name, events => {
+            events.forEach(event => invocation.apply(event));
+            this.bazelInvocationManager.updateInvocation(invocation);
+        });
+
+        reader.start();
+        try {
+            return await run(commandWithEvents, []);
+        } finally {
+            await reader.stop();
+            invocation.finish();
+            this.bazelInvocationManager.finishInvocation(invocation);
+            eventFile.removeCallback();
+        }
+    }
+
+    /**
+     * Adds --build_event_json_file to a bazel command line if its command supports build events.
+     * @returns The new command line, or undefined if it is not a bazel command that builds.
+     */
+    public static addBuildEventFile(command: string, executable: string, filePath: string): string | undefined {
+        const prefix = `${executable} `;
+        if (!command.startsWith(prefix)) {
+            return undefined;
+        }
+
+        const match = command.slice(prefix.length).match(/^(\S+)/);
+        if (!match || !BazelrcParser.getApplicableCommands(match[1]).includes('build')) {
+            return undefined;
+        }
+
+        const insertAt = prefix.length + match[1].length;
+        return `${command.slice(0, insertAt)} --build_event_json_file=${filePath}${command.slice(insertAt)}`;
+    }
+}
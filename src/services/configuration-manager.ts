@@ -23,7 +23,9 @@
 ////////////////////////////////////////////////////////////////////////////////////
 import { getExtensionDefaultSettings as getDefaultConfiguration, MergedConfiguration } from './configuration-utils';
 import { ExtensionUtils } from './extension-utils';
+import { DEFAULT_CANCELLATION_TIMEOUT_MILLIS } from './process-utils';
 import { createHashFromIds } from './string-utils';
+import { WorkspaceService } from './workspace-service';
 import { WorkspaceConfiguration } from 'vscode';
 import * as vscode from 'vscode';
 
@@ -37,14 +39,15 @@ export class UserCustomButton {
     public readonly id: string;
 
     // Constructor for inflating from configuration (deserialization)
-    constructor(data: { title: string, command: string, icon: string, description: string, tooltip: string, methodName: string }) {
+    constructor(data: { title: string, command: string, icon: string, description: string, tooltip: string, methodName: string },
+        public readonly workspaceFolder?: vscode.WorkspaceFolder, idPrefix = '') {
         this.title = data.title;
         this.command = data.command;
         this.icon = data.icon;
         this.description = data.description;
         this.tooltip = data.tooltip;
         this.methodName = data.methodName;
-        this.id = this.methodName;
+        this.id = `${idPrefix}${this.methodName}`;
     }
 
     // Method for deflating the object to configuration (serialization)
@@ -67,12 +70,13 @@ export class UserCustomCategory {
     public readonly id: string;
 
     // Constructor for inflating the object from configuration (deserialization)
-    constructor(data: { title: string, icon: string, buttons: Array<UserCustomButton> }) {
+    constructor(data: { title: string, icon: string, buttons: Array<UserCustomButton> },
+        public readonly workspaceFolder?: vscode.WorkspaceFolder, idPrefix = '') {
         this.title = data.title;
-        this.buttons = data.buttons.map(buttonData => new UserCustomButton(buttonData));
+        this.buttons = data.buttons.map(buttonData => new UserCustomButton(buttonData, workspaceFolder, idPrefix));
         this.icon = data.icon;
         const buttonHash = createHashFromIds(this.buttons);
-        this.id = `${this.title}-${buttonHash}`;
+        this.id = `${idPrefix}${this.title}-${buttonHash}`;
     }
 
     // Method for deflating the object to configuration (serialization)
@@ -90,12 +94,31 @@ export interface ShellCommand {
     'command': string
 }
 
+/**
+ * Maps targets to actions (and optionally a language). Every condition that is
+ * set must hold for the rule to match; kind is a regular expression matched
+ * against the whole rule type.
+ */
+export interface TargetClassificationRule {
+    'kind'?: string,
+    'tags'?: string[],
+    'testonly'?: boolean,
+    'executable'?: boolean,
+    'actions': string[],
+    'language'?: string
+}
+
 export class ConfigurationManager {
 
     private config: WorkspaceConfiguration;
-    constructor(private context: vscode.ExtensionContext) {
-        const defaultConfig = getDefaultConfiguration(ExtensionUtils.getExtensionName(context));
-        this.config = new MergedConfiguration(context, defaultConfig);
+    constructor(private context: vscode.ExtensionContext,
+        private readonly workspaceFolder?: vscode.WorkspaceFolder) {
+        const defaultConfig = getDefaultConfiguration(ExtensionUtils.getExtensionName(context), workspaceFolder);
+        this.config = new MergedConfiguration(context, defaultConfig, workspaceFolder);
+    }
+
+    public getWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+        return this.workspaceFolder;
     }
 
     public getExtensionDisplayName(): string {
@@ -117,7 +140,9 @@ export class ConfigurationManager {
         if (customButtons === undefined) {
             return [];
         }
-        return customButtons.map(buttonData => new UserCustomCategory(buttonData));
+        const folderKey = this.workspaceFolder ? WorkspaceService.getInstance().getWorkspaceFolderKey(this.workspaceFolder) : '';
+        const idPrefix = folderKey ? `${folderKey}/` : '';
+        return customButtons.map(buttonData => new UserCustomCategory(buttonData, this.workspaceFolder, idPrefix));
     }
 
     public getShellCommands(): Array<ShellCommand> {
@@ -246,4 +271,52 @@ export class ConfigurationManager {
             return res;
     }
 
+    public getAdditionalActions(): string[] {
+        const result = this.getConfig().get<string[]>('additionalActions');
+        if (result !== undefined) {
+            return result;
+        }
+        return [];
+    }
+
+    public shouldQuerySourceFileOwners(): boolean {
+        const result = this.getConfig().get<boolean>('querySourceFileOwners');
+        if (result !== undefined) {
+            return result;
+        }
+        return false;
+    }
+
+    public shouldCollectBuildEvents(): boolean {
+        const result = this.getConfig().get<boolean>('collectBuildEvents');
+        if (result !== undefined) {
+            return result;
+        }
+        return true;
+    }
+
+    public shouldQueueInvocations(): boolean {
+        const result = this.getConfig().get<boolean>('queueInvocations');
+        if (result !== undefined) {
+            return result;
+        }
+        return true;
+    }
+
+    public getCancellationTimeoutMs(): number {
+        const result = this.getConfig().get<number>('cancellationTimeoutMs');
+        if (result !== undefined) {
+            return result;
+        }
+        return DEFAULT_CANCELLATION_TIMEOUT_MILLIS;
+    }
+
+    public getTargetClassificationRules(): Array<TargetClassificationRule> {
+        const result = this.getConfig().get<Array<TargetClassificationRule>>('targetClassificationRules');
+        if (result !== undefined) {
+            return result;
+        }
+        return [];
+    }
+
 }
\ No newline at end of file
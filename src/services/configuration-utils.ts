@@ -28,8 +28,14 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { workspace, WorkspaceConfiguration } from 'vscode';
 
-export function getExtensionDefaultSettings(extensionName: string): JSON {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
+/**
+ * Reads the default settings from .vscode/<extension name>.json.
+ * @param extensionName The name of the extension.
+ * @param workspaceFolder The workspace folder to read the settings of. If undefined,
+ * the settings of all workspace folders are merged.
+ */
+export function getExtensionDefaultSettings(extensionName: string, workspaceFolder?: vscode.WorkspaceFolder): JSON {
+    const workspaceFolders = workspaceFolder ? [workspaceFolder] : vscode.workspace.workspaceFolders;
     if (!workspaceFolders) {
         Console.error('No workspace folder found.');
         return JSON.parse('{}');
@@ -78,7 +84,8 @@ export class MergedConfiguration implements WorkspaceConfiguration {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private defaultConfig: any;
     constructor(private readonly context: vscode.ExtensionContext,
-        defaultConfig: JSON) {
+        defaultConfig: JSON,
+        private readonly workspaceFolder?: vscode.WorkspaceFolder) {
         // Additional initialization if needed
         this.defaultConfig = defaultConfig;
     }
@@ -119,6 +126,6 @@ export class MergedConfiguration implements WorkspaceConfiguration {
 
     getUserSettings(): WorkspaceConfiguration {
         const extensionName = ExtensionUtils.getExtensionName(this.context);
-        return workspace.getConfiguration(extensionName);
+        return workspace.getConfiguration(extensionName, this.workspaceFolder?.uri);
     }
 }
\ No newline at end of file
@@ -0,0 +1,128 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { Console } from './console';
+import { ExecrootPathMapper } from './execroot-path-mapper';
+import { LcovFileCoverage, LcovParser } from './lcov-parser';
+import { TestResultsService } from './test-results-service';
+import { BazelCoverageReport } from '../models/bazel-coverage';
+import { BazelCoverageManager } from '../models/bazel-coverage-manager';
+import { BazelInvocationManager } from '../models/bazel-invocation-manager';
+import { BazelTarget } from '../models/bazel-target';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Reads the LCOV reports of coverage runs.
+ */
+export class CoverageService {
+    // Where --combined_report=lcov writes the report of all tests of the invocation
+    public static readonly combinedReportPath = path.join('bazel-out', '_coverage', '_coverage_report.dat');
+
+    constructor(private readonly bazelInvocationManager: BazelInvocationManager,
+        private readonly bazelCoverageManager: BazelCoverageManager
+    ) { }
+
+    /**
+     * Reads the coverage report of a target and keeps it as its latest report.
+     */
+    public async updateCoverageReport(target: BazelTarget): Promise<BazelCoverageReport | undefined> {
+        const report = await this.readCoverageReport(target);
+        this.bazelCoverageManager.setCoverageReport(target, report);
+        return report;
+    }
+
+    /**
+     * Reads the combined coverage report of a target's run, or else the coverage.dat
+     * files of its shards in bazel-testlogs.
+     */
+    public async readCoverageReport(target: BazelTarget): Promise<BazelCoverageReport | undefined> {
+        const invocation = this.bazelInvocationManager.getLastInvocation(target);
+        if (invocation && invocation.isFinished() && invocation.getTestAttempts().length === 0) {
+            // No test ran, e.g. the build failed, so the reports are left from an earlier run
+            return undefined;
+        }
+
+        const workspaceRoot = target.getWorkspaceRoot();
+        let reportPaths = await CoverageService.filterNonEmptyFiles([path.join(workspaceRoot, CoverageService.combinedReportPath)]);
+        if (reportPaths.length === 0) {
+            const testLogsDirectory = TestResultsService.getTestLogsDirectory(target);
+            reportPaths = await CoverageService.filterNonEmptyFiles(await CoverageService.findFiles(testLogsDirectory, 'coverage.dat'));
+        }
+        if (reportPaths.length === 0) {
+            Console.warn(`No coverage report found for ${target.bazelPath}`);
+            return undefined;
+        }
+
+        const lcovFiles: LcovFileCoverage[] = [];
+        for (const reportPath of reportPaths) {
+            try {
+                lcovFiles.push(...LcovParser.parse(await fs.promises.readFile(reportPath, 'utf8')));
+            } catch (error) {
+                Console.error(`Error reading coverage report ${reportPath}:`, error);
+            }
+        }
+
+        // Map the paths in the report, usually relative to the execroot, back to workspace files
+        const files: Map<string, LcovFileCoverage> = new Map();
+        LcovParser.merge(lcovFiles).forEach(file => {
+            files.set(ExecrootPathMapper.toWorkspacePath(file.sourceFile, workspaceRoot), file);
+        });
+        return new BazelCoverageReport(target.id, target.bazelPath, reportPaths, files);
+    }
+
+    private static async findFiles(directory: string, fileName: string): Promise<string[]> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        } catch (error) {
+            return [];
+        }
+
+        const files: string[] = [];
+        for (const entry of entries) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                files.push(...await this.findFiles(entryPath, fileName));
+            } else if (entry.name === fileName) {
+                files.push(entryPath);
+            }
+        }
+        return files;
+    }
+
+    private static async filterNonEmptyFiles(filePaths: string[]): Promise<string[]> {
+        const nonEmptyFiles: string[] = [];
+        for (const filePath of filePaths) {
+            try {
+                const stats = await fs.promises.stat(filePath);
+                if (stats.isFile() && stats.size > 0) {
+                    nonEmptyFiles.push(filePath);
+                }
+            } catch (error) {
+                // The file does not exist
+            }
+        }
+        return nonEmptyFiles;
+    }
+}
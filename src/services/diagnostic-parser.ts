@@ -0,0 +1,262 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+export type ParsedDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A problem reported by a compiler or interpreter, with the path as printed.
+ */
+export interface ParsedDiagnostic {
+    file: string;
+    // 1-based, as printed
+    line: number;
+    column?: number;
+    severity: ParsedDiagnosticSeverity;
+    message: string;
+    code?: string;
+}
+
+/**
+ * Finds the diagnostics in the lines of a tool's output. Matchers that span lines
+ * keep their state between calls.
+ */
+interface DiagnosticMatcher {
+    match(line: string): ParsedDiagnostic | undefined;
+}
+
+function toSeverity(text: string): ParsedDiagnosticSeverity {
+    if (/warn/i.test(text)) {
+        return 'warning';
+    } else if (/note|info/i.test(text)) {
+        return 'info';
+    }
+    return 'error';
+}
+
+/**
+ * Matches the errors of bazel itself, e.g. `ERROR: /ws/foo/BUILD:3:10: no such target '//foo:bar'`.
+ */
+class BazelMatcher implements DiagnosticMatcher {
+    private static readonly regex = /^(ERROR|WARNING|INFO): (.+?):(\d+):(\d+): (.*)$/;
+
+    public match(line: string): ParsedDiagnostic | undefined {
+        const match = line.match(BazelMatcher.regex);
+        if (!match) {
+            return undefined;
+        }
+        return {
+            file: match[2],
+            line: Number(match[3]),
+            column: Number(match[4]),
+            severity: toSeverity(match[1]),
+            message: match[5]
+        };
+    }
+}
+
+/**
+ * Matches gcc and clang, and any tool printing `file:line[:column]: error|warning: message` (e.g. javac and mypy).
+ */
+class GccMatcher implements DiagnosticMatcher {
+    private static readonly regex = /^(.+?):(\d+):(?:(\d+):)?\s+(fatal error|error|warning|note):\s+(.*)$/;
+
+    public match(line: string): ParsedDiagnostic | undefined {
+        const match = line.match(GccMatcher.regex);
+        if (!match) {
+            return undefined;
+        }
+        return {
+            file: match[1],
+            line: Number(match[2]),
+            column: match[3] ? Number(match[3]) : undefined,
+            severity: toSeverity(match[4]),
+            message: match[5]
+        };
+    }
+}
+
+/**
+ * Matches the go compiler and nogo, e.g. `foo/bar.go:12:5: undefined: x`.
+ */
+class GoMatcher implements DiagnosticMatcher {
+    private static readonly regex = /^(.+?\.go):(\d+)(?::(\d+))?:\s+(.*)$/;
+
+    public match(line: string): ParsedDiagnostic | undefined {
+        const match = line.match(GoMatcher.regex);
+        if (!match) {
+            return undefined;
+        }
+        return {
+            file: match[1],
+            line: Number(match[2]),
+            column: match[3] ? Number(match[3]) : undefined,
+            severity: 'error',
+            message: match[4]
+        };
+    }
+}
+
+/**
+ * Matches python tracebacks, reporting the exception at the innermost frame.
+ */
+class PythonTracebackMatcher implements DiagnosticMatcher {
+    private static readonly frameRegex = /^\s*File "(.+?)", line (\d+)/;
+    private static readonly exceptionRegex = /^([A-Za-z_][\w.]*(?:Error|Exception|Exit|Interrupt|Warning))(?::\s*(.*))?$/;
+    private frame: { file: string, line: number } | undefined;
+
+    public match(line: string): ParsedDiagnostic | undefined {
+        const frameMatch = line.match(PythonTracebackMatcher.frameRegex);
+        if (frameMatch) {
+            this.frame = { file: frameMatch[1], line: Number(frameMatch[2]) };
+            return undefined;
+        }
+
+        const exceptionMatch = line.match(PythonTracebackMatcher.exceptionRegex);
+        if (exceptionMatch && this.frame) {
+            const frame = this.frame;
+            this.frame = undefined;
+            return {
+                file: frame.file,
+                line: frame.line,
+                severity: toSeverity(exceptionMatch[1].endsWith('Warning') ? 'warning' : 'error'),
+                message: exceptionMatch[2] ? `${exceptionMatch[1]}: ${exceptionMatch[2]}` : exceptionMatch[1],
+                code: exceptionMatch[1]
+            };
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Matches rustc, whose location follows the message: `error[E0308]: mismatched types` then ` --> src/main.rs:2:5`.
+ */
+class RustMatcher implements DiagnosticMatcher {
+    private static readonly messageRegex = /^(error|warning)(?:\[(\w+)\])?:\s+(.*)$/;
+    private static readonly locationRegex = /^\s*--> (.+?):(\d+):(\d+)$/;
+    private pending: { severity: ParsedDiagnosticSeverity, message: string, code?: string } | undefined;
+
+    public match(line: string): ParsedDiagnostic | undefined {
+        const messageMatch = line.match(RustMatcher.messageRegex);
+        if (messageMatch) {
+            this.pending = { severity: toSeverity(messageMatch[1]), message: messageMatch[3], code: messageMatch[2] };
+            return undefined;
+        }
+
+        const locationMatch = line.match(RustMatcher.locationRegex);
+        if (locationMatch && this.pending) {
+            const pending = this.pending;
+            this.pending = undefined;
+            return {
+                file: locationMatch[1],
+                line: Number(locationMatch[2]),
+                column: Number(locationMatch[3]),
+                ...pending
+            };
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Matches tsc in both of its formats, `a.ts(12,5): error TS2322: ...` and `a.ts:12:5 - error TS2322: ...`.
+ */
+class TypeScriptMatcher implements DiagnosticMatcher {
+    private static readonly regex = /^(.+?\.[cm]?[jt]sx?)(?:\((\d+),(\d+)\):|:(\d+):(\d+) -)\s+(error|warning)\s+(TS\d+):\s+(.*)$/;
+
+    public match(line: string): ParsedDiagnostic | undefined {
+        const match = line.match(TypeScriptMatcher.regex);
+        if (!match) {
+            return undefined;
+        }
+        return {
+            file: match[1],
+            line: Number(match[2] || match[4]),
+            column: Number(match[3] || match[5]),
+            severity: toSeverity(match[6]),
+            message: match[8],
+            code: match[7]
+        };
+    }
+}
+
+export class DiagnosticParser {
+    // The matchers tried for the output of a language's targets, between the bazel and the gcc like matchers
+    private static readonly languageMatchers: { [language: string]: (() => DiagnosticMatcher)[] } = {
+        'go': [() => new GoMatcher()],
+        'python': [() => new PythonTracebackMatcher()],
+        'rust': [() => new RustMatcher()],
+        'typescript': [() => new TypeScriptMatcher()],
+        'javascript': [() => new TypeScriptMatcher()]
+    };
+
+    /**
+     * Returns the problem matchers of VS Code for the tasks of a language's targets,
+     * for when the diagnostics are not parsed by the extension.
+     */
+    public static getProblemMatchers(language: string | undefined): string[] {
+        switch (language) {
+        case 'c':
+        case 'cpp':
+            return ['$gcc'];
+        case 'typescript':
+        case 'javascript':
+            return ['$tsc'];
+        default:
+            return [];
+        }
+    }
+
+    /**
+     * Parses the diagnostics printed while building or running a target.
+     * @param output The output, which may contain ANSI escape codes.
+     * @param language The inferred language of the target, used to pick the matchers.
+     */
+    public static parse(output: string, language?: string): ParsedDiagnostic[] {
+        const matchers = [
+            new BazelMatcher(),
+            ...(this.languageMatchers[language || ''] || []).map(create => create()),
+            new GccMatcher()
+        ];
+        const diagnostics: ParsedDiagnostic[] = [];
+        const seen = new Set<string>();
+
+        // eslint-disable-next-line no-control-regex
+        output.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '').split(/\r?\n|\r/).forEach(line => {
+            for (const matcher of matchers) {
+                const diagnostic = matcher.match(line);
+                if (diagnostic) {
+                    // Bazel repeats the output of failed actions
+                    const key = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`;
+                    if (!seen.has(key)) {
+                        seen.add(key);
+                        diagnostics.push(diagnostic);
+                    }
+                    break;
+                }
+            }
+        });
+
+        return diagnostics;
+    }
+}
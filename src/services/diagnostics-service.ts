@@ -0,0 +1,145 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { Console } from './console';
+import { DiagnosticParser, ParsedDiagnostic } from './diagnostic-parser';
+import { ExecrootPathMapper } from './execroot-path-mapper';
+import { ExtensionUtils } from './extension-utils';
+import { BazelInvocation } from '../models/bazel-invocation';
+import { BazelInvocationManager } from '../models/bazel-invocation-manager';
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+
+/**
+ * Publishes the errors and warnings printed by bazel invocations to the Problems panel.
+ * The diagnostics of a target are replaced when the target runs again.
+ */
+export class DiagnosticsService {
+    private readonly diagnosticCollection: vscode.DiagnosticCollection;
+    // The diagnostics of each target by file uri
+    private readonly targetDiagnostics: Map<string, Map<string, vscode.Diagnostic[]>> = new Map();
+    // The most recently started invocation of each target, the only one whose diagnostics are shown
+    private readonly latestInvocations: Map<string, BazelInvocation> = new Map();
+
+    constructor(context: vscode.ExtensionContext,
+        bazelInvocationManager: BazelInvocationManager
+    ) {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection(ExtensionUtils.getExtensionName(context));
+        context.subscriptions.push(
+            this.diagnosticCollection,
+            bazelInvocationManager.onDidStartInvocation(invocation => {
+                this.latestInvocations.set(invocation.targetId, invocation);
+                this.clearTarget(invocation.targetId);
+            }),
+            bazelInvocationManager.onDidFinishInvocation(invocation => {
+                this.publishInvocation(invocation).catch(error => {
+                    Console.error('Error publishing the diagnostics of an invocation:', error);
+                });
+            })
+        );
+    }
+
+    /**
+     * Removes the diagnostics of a target from the Problems panel.
+     */
+    public clearTarget(targetId: string) {
+        const diagnostics = this.targetDiagnostics.get(targetId);
+        if (!diagnostics) {
+            return;
+        }
+        this.targetDiagnostics.delete(targetId);
+        this.refreshFiles(Array.from(diagnostics.keys()));
+    }
+
+    private isLatestInvocation(invocation: BazelInvocation): boolean {
+        const latestInvocation = this.latestInvocations.get(invocation.targetId);
+        return latestInvocation === undefined || latestInvocation === invocation;
+    }
+
+    private async publishInvocation(invocation: BazelInvocation) {
+        // An older invocation that finishes late must not replace the diagnostics of a newer one
+        if (!this.isLatestInvocation(invocation)) {
+            return;
+        }
+
+        const outputs = [invocation.getOutput()];
+        for (const action of invocation.getFailedActions()) {
+            if (action.stderrPath && fs.existsSync(action.stderrPath)) {
+                outputs.push(await fs.promises.readFile(action.stderrPath, 'utf8'));
+            }
+        }
+
+        const diagnostics = new Map<string, vscode.Diagnostic[]>();
+        DiagnosticParser.parse(outputs.join('\n'), invocation.language).forEach(parsed => {
+            const filePath = ExecrootPathMapper.toWorkspacePath(parsed.file, invocation.workspaceRoot);
+            const uri = vscode.Uri.file(filePath).toString();
+            const fileDiagnostics = diagnostics.get(uri) || [];
+            fileDiagnostics.push(DiagnosticsService.toDiagnostic(parsed));
+            diagnostics.set(uri, fileDiagnostics);
+        });
+
+        // A newer invocation of the target may have started while the logs were read
+        if (!this.isLatestInvocation(invocation)) {
+            return;
+        }
+        this.clearTarget(invocation.targetId);
+        this.targetDiagnostics.set(invocation.targetId, diagnostics);
+        this.refreshFiles(Array.from(diagnostics.keys()));
+    }
+
+    // Shows the diagnostics of all targets for the given files
+    private refreshFiles(uris: string[]) {
+        uris.forEach(uri => {
+            const fileDiagnostics = Array.from(this.targetDiagnostics.values()).flatMap(diagnostics => diagnostics.get(uri) || []);
+            if (fileDiagnostics.length > 0) {
+                this.diagnosticCollection.set(vscode.Uri.parse(uri), fileDiagnostics);
+            } else {
+                this.diagnosticCollection.delete(vscode.Uri.parse(uri));
+            }
+        });
+    }
+
+    private static toDiagnostic(parsed: ParsedDiagnostic): vscode.Diagnostic {
+        const line = Math.max(parsed.line - 1, 0);
+        const column = Math.max((parsed.column || 1) - 1, 0);
+        // Without a column the whole line is marked
+        const range = parsed.column
+            ? new vscode.Range(line, column, line, column)
+            : new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+
+        let severity = vscode.DiagnosticSeverity.Error;
+        if (parsed.severity === 'warning') {
+            severity = vscode.DiagnosticSeverity.Warning;
+        } else if (parsed.severity === 'info') {
+            severity = vscode.DiagnosticSeverity.Information;
+        }
+
+        const diagnostic = new vscode.Diagnostic(range, parsed.message, severity);
+        diagnostic.source = 'bazel';
+        if (parsed.code) {
+            diagnostic.code = parsed.code;
+        }
+        return diagnostic;
+    }
+}
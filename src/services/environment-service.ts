@@ -25,7 +25,6 @@
 import { Console } from './console';
 import { ExtensionUtils } from './extension-utils';
 import { ShellService } from './shell-service';
-import { WorkspaceService } from './workspace-service';
 import * as vscode from 'vscode';
 
 
@@ -34,6 +33,7 @@ export class EnvironmentService {
     public static async fetchSetupEnvironment(
         context: vscode.ExtensionContext,
         envSetupCommand: string,
+        workspaceFolder: vscode.WorkspaceFolder,
         cancellationToken?: vscode.CancellationToken
     ): Promise<string[]> {
         const extName = ExtensionUtils.getExtensionName(context);
@@ -44,7 +44,7 @@ export class EnvironmentService {
                 // Run the setup command, ensuring it prints the environment variables
                 const result = await ShellService.run(
                     `${envSetupCommand} && echo ${envDelimiter} && env`,
-                    WorkspaceService.getInstance().getWorkspaceFolder().uri.path,
+                    workspaceFolder.uri.path,
                     {},
                     cancellationToken
                 );
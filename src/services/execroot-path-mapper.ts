@@ -0,0 +1,92 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Maps the paths bazel and the tools it runs print, which are relative to or inside
+ * the execroot, back to files of the workspace.
+ */
+export class ExecrootPathMapper {
+    /**
+     * Returns the path of the workspace file a printed path refers to, e.g.
+     * - `foo/bar.cc` and `/proc/self/cwd/foo/bar.cc` to `<workspace>/foo/bar.cc`
+     * - `<output base>/execroot/_main/foo/bar.cc` and sandboxed execroots likewise
+     * - `bazel-out/k8-fastbuild/bin/foo/bar.pb.h` to the file behind the bazel-out symlink
+     * - `external/repo/foo.h` to the file behind the bazel-<workspace> symlink
+     * - `<...>/foo_test.runfiles/_main/foo/foo_test.py`, as printed by tests, likewise
+     * @param filePath The path as printed.
+     * @param workspaceRoot The directory bazel ran in.
+     */
+    public static toWorkspacePath(filePath: string, workspaceRoot: string): string {
+        const relativePath = this.toExecrootRelativePath(filePath);
+        if (relativePath === undefined) {
+            return path.isAbsolute(filePath) ? filePath : path.join(workspaceRoot, filePath);
+        }
+
+        if (relativePath.startsWith('external/') || relativePath.startsWith('../')) {
+            // The execroot links the external repositories, but sandboxes are gone once the action ended
+            if (path.isAbsolute(filePath) && fs.existsSync(filePath)) {
+                return filePath;
+            }
+            const externalPath = relativePath.replace(/^\.\.\//, 'external/');
+            const candidates = [
+                path.join(workspaceRoot, `bazel-${path.basename(workspaceRoot)}`, externalPath),
+                path.join(workspaceRoot, externalPath)
+            ];
+            return candidates.find(candidate => fs.existsSync(candidate)) || candidates[0];
+        }
+
+        return path.join(workspaceRoot, relativePath);
+    }
+
+    /**
+     * Returns the path relative to the execroot, or undefined for an absolute path outside of it.
+     */
+    private static toExecrootRelativePath(filePath: string): string | undefined {
+        const normalizedPath = filePath.replace(/\\/g, '/');
+        if (normalizedPath.startsWith('/proc/self/cwd/')) {
+            return normalizedPath.slice('/proc/self/cwd/'.length);
+        }
+
+        // E.g. <...>/bin/foo/foo_test.runfiles/_main/foo/foo_test.py or <...>.runfiles/other_repo/bar.py
+        const runfilesMatch = normalizedPath.match(/\.runfiles\/([^/]+)\/(.+)$/);
+        if (runfilesMatch) {
+            const isMainRepository = runfilesMatch[1] === '_main' || runfilesMatch[1] === '__main__';
+            return isMainRepository ? runfilesMatch[2] : `external/${runfilesMatch[1]}/${runfilesMatch[2]}`;
+        }
+
+        // E.g. <output base>/execroot/_main/foo or <output base>/sandbox/linux-sandbox/1/execroot/_main/foo
+        const execrootMatch = normalizedPath.match(/\/execroot\/[^/]+\/(.+)$/);
+        if (execrootMatch) {
+            return execrootMatch[1];
+        }
+
+        if (path.isAbsolute(normalizedPath)) {
+            return undefined;
+        }
+        return path.normalize(normalizedPath).replace(/^\.\//, '');
+    }
+}
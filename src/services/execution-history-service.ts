@@ -0,0 +1,178 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { Console } from './console';
+import { ProcessCancelledError } from './process-utils';
+import { TestResultsService } from './test-results-service';
+import { BazelExecution, BazelExecutionStatus } from '../models/bazel-execution';
+import { BazelExecutionHistoryManager } from '../models/bazel-execution-history-manager';
+import { BazelInvocationManager } from '../models/bazel-invocation-manager';
+import { BazelTarget } from '../models/bazel-target';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Records the executions of target actions in the execution history, with their
+ * exit status and a log of their output.
+ */
+export class ExecutionHistoryService {
+    private static nextId = 0;
+    private readonly logDirectory: string;
+
+    constructor(context: vscode.ExtensionContext,
+        private readonly bazelInvocationManager: BazelInvocationManager,
+        private readonly bazelExecutionHistoryManager: BazelExecutionHistoryManager
+    ) {
+        this.logDirectory = path.join((context.storageUri || context.globalStorageUri).fsPath, 'history');
+        context.subscriptions.push(bazelExecutionHistoryManager.onDidChangeHistory(() => this.removeUnusedLogs()));
+    }
+
+    /**
+     * Runs an action of a target and records it in the execution history.
+     * @param action The action the target runs with, e.g. build or debug.
+     * @param run Runs the action. It is given a callback to report the command line the action runs.
+     */
+    public async record<T>(target: BazelTarget, action: string, run: (onCommand: (command: string) => void) => Promise<T>): Promise<T> {
+        const execution = ExecutionHistoryService.createExecution({
+            workspaceFolder: target.getWorkspaceFolder().uri.toString(),
+            workspaceRoot: target.getWorkspaceRoot(),
+            targetId: target.id,
+            label: target.bazelPath,
+            action: action,
+            command: '',
+            envVars: target.getEnvVars().toStringArray()
+        });
+        return this.track(execution, () => run((command) => {
+            execution.command = command.trim();
+            this.bazelExecutionHistoryManager.updateExecution(execution);
+        }), target);
+    }
+
+    /**
+     * Runs the command line of an earlier execution again and records it as a new execution.
+     */
+    public async recordRerun<T>(execution: BazelExecution, run: () => Promise<T>): Promise<T> {
+        return this.track(ExecutionHistoryService.createExecution(execution), run);
+    }
+
+    private static createExecution(data: Omit<BazelExecution, 'id' | 'startTime' | 'status'>): BazelExecution {
+        const startTime = Date.now();
+        return {
+            id: `${startTime}-${ExecutionHistoryService.nextId++}`,
+            workspaceFolder: data.workspaceFolder,
+            workspaceRoot: data.workspaceRoot,
+            targetId: data.targetId,
+            label: data.label,
+            action: data.action,
+            command: data.command,
+            envVars: data.envVars,
+            startTime: startTime,
+            status: 'running'
+        };
+    }
+
+    private async track<T>(execution: BazelExecution, run: () => Promise<T>, target?: BazelTarget): Promise<T> {
+        // The tasks of the execution are run with the id of its target
+        let exitCode: number | undefined;
+        const listener = vscode.tasks.onDidEndTaskProcess(event => {
+            if (event.execution.task.definition.id === execution.targetId && event.exitCode !== undefined) {
+                exitCode = event.exitCode;
+            }
+        });
+
+        this.bazelExecutionHistoryManager.addExecution(execution);
+        try {
+            const result = await run();
+            await this.finish(execution, exitCode === undefined || exitCode === 0 ? 'succeeded' : 'failed', exitCode, target);
+            return result;
+        } catch (error) {
+            const cancelled = error instanceof ProcessCancelledError;
+            await this.finish(execution, cancelled ? 'cancelled' : 'failed', exitCode, target);
+            return Promise.reject(error);
+        } finally {
+            listener.dispose();
+        }
+    }
+
+    private async finish(execution: BazelExecution, status: BazelExecutionStatus, exitCode?: number, target?: BazelTarget) {
+        execution.durationMillis = Date.now() - execution.startTime;
+        execution.status = status;
+        execution.exitCode = exitCode;
+
+        if (target) {
+            // The build events of the execution know its exit code even if it did not run as a task
+            const invocation = this.bazelInvocationManager.getLastInvocation(target);
+            if (invocation && invocation.startTime >= execution.startTime) {
+                if (execution.exitCode === undefined && invocation.exitCode !== undefined) {
+                    execution.exitCode = invocation.exitCode.code || 0;
+                    execution.status = execution.exitCode === 0 || status === 'cancelled' ? status : 'failed';
+                }
+                execution.logPath = await this.writeLog(execution, invocation.getOutput());
+            }
+            if (!execution.logPath) {
+                execution.logPath = await ExecutionHistoryService.findTestLog(target, execution.startTime);
+            }
+        }
+        this.bazelExecutionHistoryManager.updateExecution(execution);
+    }
+
+    private async writeLog(execution: BazelExecution, output: string): Promise<string | undefined> {
+        if (output.length === 0) {
+            return undefined;
+        }
+        const logPath = path.join(this.logDirectory, `${execution.id}.log`);
+        try {
+            await fs.promises.mkdir(this.logDirectory, { recursive: true });
+            await fs.promises.writeFile(logPath, `${execution.command}\n\n${output}`, 'utf8');
+            return logPath;
+        } catch (error) {
+            Console.error(`Error writing log ${logPath}:`, error);
+            return undefined;
+        }
+    }
+
+    // The log of a test target that was written by the execution
+    private static async findTestLog(target: BazelTarget, startTime: number): Promise<string | undefined> {
+        try {
+            const logPath = path.join(TestResultsService.getTestLogsDirectory(target), 'test.log');
+            const stat = await fs.promises.stat(logPath);
+            return stat.mtimeMs >= startTime ? logPath : undefined;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private async removeUnusedLogs() {
+        const usedLogs = new Set(this.bazelExecutionHistoryManager.getExecutions().map(execution => execution.logPath));
+        try {
+            const fileNames = await fs.promises.readdir(this.logDirectory);
+            await Promise.all(fileNames
+                .map(fileName => path.join(this.logDirectory, fileName))
+                .filter(logPath => !usedLogs.has(logPath))
+                .map(logPath => fs.promises.unlink(logPath)));
+        } catch (error) {
+            // No logs were written yet
+        }
+    }
+}
@@ -30,11 +30,18 @@ import * as vscode from 'vscode';
 import oboe = require('oboe');
 
 export class FileStorageService {
+    // Makes the names of temporary files unique within the process
+    private static tempFileCount = 0;
     private storagePath: string | undefined;
 
-    constructor(private readonly context: vscode.ExtensionContext) {
-        if (this.context.storageUri) {
-            this.storagePath = this.context.storageUri.fsPath;
+    /**
+     * @param storageUri The directory to store the files in, by default the workspace storage.
+     */
+    constructor(private readonly context: vscode.ExtensionContext,
+        storageUri: vscode.Uri | undefined = context.storageUri
+    ) {
+        if (storageUri) {
+            this.storagePath = storageUri.fsPath;
 
             // Ensure that the directory exists, if not, create it
             if (!fs.existsSync(this.storagePath)) {
@@ -57,7 +64,16 @@ export class FileStorageService {
         }
 
         const filePath = path.join(this.storagePath, fileName);
-        await fs.promises.writeFile(filePath, JSON.stringify(data, null, 2), 'utf8');
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        // Written next to the file and renamed, so that readers never see a partial file
+        const tempFilePath = `${filePath}.${process.pid}.${FileStorageService.tempFileCount++}.tmp`;
+        try {
+            await fs.promises.writeFile(tempFilePath, JSON.stringify(data, null, 2), 'utf8');
+            await fs.promises.rename(tempFilePath, filePath);
+        } catch (error) {
+            await fs.promises.rm(tempFilePath, { force: true });
+            return Promise.reject(error);
+        }
     }
 
     public async readJsonArrayElementsFromFileAsStream<T>(
@@ -162,6 +178,22 @@ export class FileStorageService {
         }
     }
 
+    /**
+     * Asynchronously deletes a directory and everything in it if it exists.
+     * @param directoryName The name of the directory to delete.
+     */
+    public async deleteDirectory(directoryName: string): Promise<void> {
+        if (!this.storagePath) {
+            vscode.window.showErrorMessage('Cannot delete directory: No workspace opened.');
+            return;
+        }
+
+        const directoryPath = path.join(this.storagePath, directoryName);
+        if (fs.existsSync(directoryPath)) {
+            await fs.promises.rm(directoryPath, { recursive: true, force: true });
+        }
+    }
+
     /**
      * Checks if a file exists.
      * @param fileName The name of the file to check for.
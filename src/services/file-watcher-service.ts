@@ -42,11 +42,11 @@ export class FileWatcherService {
 
     /**
      * Adds a watcher for a specific file pattern and fires a single event with affected file names when any matching files are created, updated, or deleted.
-     * @param pattern Glob pattern to match files
+     * @param pattern Glob pattern to match files, relative to a workspace folder if it is a relative pattern
      * @param onFilesChanged Callback triggered when any files matching the pattern are created, changed, or deleted.
      */
     public watch(
-        pattern: string,
+        pattern: vscode.GlobPattern,
         onFilesChanged: (affectedFiles: string[]) => void
     ): void {
         // Debounced callback to process the collected file paths
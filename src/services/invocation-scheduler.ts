@@ -0,0 +1,359 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { Console } from './console';
+import { isProcessRunning, ProcessCancelledError } from './process-utils';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Foreground invocations are run on behalf of the user (builds, runs, tests) and are
+ * started before the background ones (queries, help) that are queued at the same output base.
+ */
+export type BazelInvocationPriority = 'foreground' | 'background';
+
+export class BazelScheduledInvocation {
+    private static nextId = 0;
+    public readonly id: number;
+    public readonly queuedAt = Date.now();
+    public startedAt?: number;
+
+    constructor(public readonly outputBase: string,
+        public readonly description: string,
+        public readonly priority: BazelInvocationPriority,
+        public readonly cancellationSource: vscode.CancellationTokenSource,
+        public readonly start: () => void) {
+        this.id = BazelScheduledInvocation.nextId++;
+    }
+
+    public isRunning(): boolean {
+        return this.startedAt !== undefined;
+    }
+
+    /**
+     * Returns whether the invocation was cancelled while running and waits for its processes to stop.
+     */
+    public isStopping(): boolean {
+        return this.isRunning() && this.cancellationSource.token.isCancellationRequested;
+    }
+}
+
+/**
+ * A bazel server whose client had to be terminated or killed to cancel an invocation.
+ * The server may still be busy with the cancelled command, which delays the next invocations.
+ */
+export interface BazelInterruptedServer {
+    outputBase: string;
+    // The pid of the server, if it was found in the output base
+    pid?: number;
+    // The invocation that was cancelled
+    description: string;
+    interruptedAt: number;
+}
+
+/**
+ * Runs the bazel invocations of the extension one at a time per output base, so that they
+ * wait in a queue that can be shown, reordered and cancelled instead of waiting
+ * for the bazel server lock without any feedback.
+ */
+export class BazelInvocationScheduler implements vscode.Disposable {
+    private readonly running = new Map<string, BazelScheduledInvocation>();
+    private readonly queues = new Map<string, BazelScheduledInvocation[]>();
+    private readonly interruptedServers = new Map<string, BazelInterruptedServer>();
+    private _onDidChangeQueue: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    public readonly onDidChangeQueue: vscode.Event<void> = this._onDidChangeQueue.event;
+
+    /**
+     * Returns the output base a command line runs in, or undefined if it does not start
+     * the given bazel executable with a command, e.g. bazel --version.
+     * Without --output_base, bazel derives the output base from the workspace root (cwd).
+     */
+    public static getOutputBase(command: string, executable: string, cwd: string): string | undefined {
+        const commandLine = BazelInvocationScheduler.parseCommandLine(command, executable);
+        if (commandLine === undefined) {
+            return undefined;
+        }
+        return commandLine.outputBase !== undefined ? path.resolve(cwd, commandLine.outputBase) : cwd;
+    }
+
+    /**
+     * Returns the bazel command of a command line, e.g. build, or undefined if it does not
+     * start the given bazel executable with a command.
+     */
+    public static getCommandName(command: string, executable: string): string | undefined {
+        return BazelInvocationScheduler.parseCommandLine(command, executable)?.commandName;
+    }
+
+    /**
+     * Returns the pid of the bazel server of an output base, which is either given with
+     * --output_base or the workspace root (see getOutputBase). The output base of a workspace root
+     * is found through its bazel-out symlink, which points to <output base>/execroot/<name>/bazel-out.
+     */
+    private static async findServerPid(outputBase: string): Promise<number | undefined> {
+        const candidates = [outputBase];
+        try {
+            candidates.push(path.resolve(await fs.promises.realpath(path.join(outputBase, 'bazel-out')), '..', '..', '..'));
+        } catch (error) {
+            // Nothing was built in the workspace yet
+        }
+        for (const candidate of candidates) {
+            try {
+                const pid = Number((await fs.promises.readFile(path.join(candidate, 'server', 'server.pid.txt'), 'utf8')).trim());
+                if (pid > 0) {
+                    return pid;
+                }
+            } catch (error) {
+                // Not an output base
+            }
+        }
+        return undefined;
+    }
+
+    private static parseCommandLine(command: string, executable: string): { commandName: string, outputBase?: string } | undefined {
+        const trimmedCommand = command.trim();
+        if (!trimmedCommand.startsWith(`${executable} `)) {
+            return undefined;
+        }
+
+        let outputBase: string | undefined;
+        const args = trimmedCommand.split(/\s+/).slice(1);
+        for (let i = 0; i < args.length; i++) {
+            if (!args[i].startsWith('-')) {
+                return { commandName: args[i], outputBase: outputBase };
+            }
+            if (args[i].startsWith('--output_base=')) {
+                outputBase = args[i].slice('--output_base='.length);
+            } else if (args[i] === '--output_base' && i + 1 < args.length) {
+                outputBase = args[++i];
+            }
+        }
+        // Startup options only
+        return undefined;
+    }
+
+    /**
+     * Runs an invocation once the invocations queued before it at the same output base finished.
+     * @param invoke Starts the invocation. It is given a token that is cancelled when the invocation
+     * is cancelled from the queue or by the given cancellation token.
+     * @returns The result of invoke, or a rejection if the invocation was cancelled while queued.
+     */
+    public schedule<T>(outputBase: string,
+        description: string,
+        priority: BazelInvocationPriority,
+        invoke: (cancellationToken: vscode.CancellationToken) => Promise<T>,
+        cancellationToken?: vscode.CancellationToken): Promise<T> {
+        if (cancellationToken?.isCancellationRequested) {
+            return Promise.reject(new ProcessCancelledError(`${description} cancelled.`));
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const cancellationSource = new vscode.CancellationTokenSource();
+            const cancellationListener = cancellationToken?.onCancellationRequested(() => cancellationSource.cancel());
+
+            const invocation = new BazelScheduledInvocation(outputBase, description, priority, cancellationSource, () => {
+                Promise.resolve()
+                    .then(() => invoke(cancellationSource.token))
+                    .then(resolve, reject)
+                    .finally(() => {
+                        cancellationListener?.dispose();
+                        this.finish(invocation);
+                    });
+            });
+
+            cancellationSource.token.onCancellationRequested(() => {
+                if (!invocation.isRunning() && this.remove(invocation)) {
+                    cancellationListener?.dispose();
+                    cancellationSource.dispose();
+                    reject(new ProcessCancelledError(`${description} cancelled.`));
+                } else if (invocation.isRunning()) {
+                    // The invocation keeps its place until its processes stopped
+                    this._onDidChangeQueue.fire();
+                }
+            });
+
+            this.enqueue(invocation);
+        });
+    }
+
+    /**
+     * Returns the running invocations, one per output base.
+     */
+    public getRunningInvocations(): BazelScheduledInvocation[] {
+        return Array.from(this.running.values());
+    }
+
+    /**
+     * Returns the queued invocations of every output base in the order they will start.
+     */
+    public getQueuedInvocations(): BazelScheduledInvocation[] {
+        const queued: BazelScheduledInvocation[] = [];
+        this.queues.forEach(queue => queued.push(...queue));
+        return queued;
+    }
+
+    /**
+     * Records that the bazel client of an invocation had to be terminated or killed,
+     * so its server may still be busy with the cancelled command. The server is forgotten
+     * once an invocation started after it finishes at the same output base, or once it exits.
+     */
+    public async addInterruptedServer(outputBase: string, description: string) {
+        const pid = await BazelInvocationScheduler.findServerPid(outputBase);
+        Console.warn(`The bazel client did not stop when ${description} was interrupted. ` +
+            `Its server${pid !== undefined ? ` (pid ${pid})` : ''} at ${outputBase} may still be busy.`);
+        this.interruptedServers.set(outputBase, {
+            outputBase: outputBase,
+            pid: pid,
+            description: description,
+            interruptedAt: Date.now()
+        });
+        this._onDidChangeQueue.fire();
+    }
+
+    public getInterruptedServers(): BazelInterruptedServer[] {
+        this.interruptedServers.forEach((server, outputBase) => {
+            if (server.pid !== undefined && !isProcessRunning(server.pid)) {
+                this.interruptedServers.delete(outputBase);
+            }
+        });
+        return Array.from(this.interruptedServers.values());
+    }
+
+    public forgetInterruptedServer(server: BazelInterruptedServer) {
+        if (this.interruptedServers.get(server.outputBase) === server) {
+            this.interruptedServers.delete(server.outputBase);
+            this._onDidChangeQueue.fire();
+        }
+    }
+
+    /**
+     * Kills an interrupted bazel server. The next invocation at its output base starts a new one.
+     */
+    public killInterruptedServer(server: BazelInterruptedServer) {
+        if (server.pid !== undefined) {
+            try {
+                process.kill(server.pid, 'SIGKILL');
+            } catch (error) {
+                Console.error(`Error killing the bazel server ${server.pid}:`, error);
+            }
+        }
+        this.forgetInterruptedServer(server);
+    }
+
+    public cancel(invocation: BazelScheduledInvocation) {
+        invocation.cancellationSource.cancel();
+    }
+
+    public cancelQueued() {
+        this.getQueuedInvocations().forEach(invocation => this.cancel(invocation));
+    }
+
+    public moveUp(invocation: BazelScheduledInvocation) {
+        this.move(invocation, index => index - 1);
+    }
+
+    public moveDown(invocation: BazelScheduledInvocation) {
+        this.move(invocation, index => index + 1);
+    }
+
+    public moveToFront(invocation: BazelScheduledInvocation) {
+        this.move(invocation, () => 0);
+    }
+
+    public dispose() {
+        this.cancelQueued();
+        this._onDidChangeQueue.dispose();
+    }
+
+    private enqueue(invocation: BazelScheduledInvocation) {
+        const queue = this.queues.get(invocation.outputBase) || [];
+        // Foreground invocations go before the queued background ones
+        const backgroundIndex = queue.findIndex(queued => queued.priority === 'background');
+        if (invocation.priority === 'foreground' && backgroundIndex >= 0) {
+            queue.splice(backgroundIndex, 0, invocation);
+        } else {
+            queue.push(invocation);
+        }
+        this.queues.set(invocation.outputBase, queue);
+        this.startNext(invocation.outputBase);
+        this._onDidChangeQueue.fire();
+    }
+
+    private startNext(outputBase: string) {
+        if (this.running.has(outputBase)) {
+            return;
+        }
+
+        const queue = this.queues.get(outputBase) || [];
+        const invocation = queue.shift();
+        if (queue.length === 0) {
+            this.queues.delete(outputBase);
+        }
+        if (invocation) {
+            invocation.startedAt = Date.now();
+            this.running.set(outputBase, invocation);
+            invocation.start();
+        }
+    }
+
+    private finish(invocation: BazelScheduledInvocation) {
+        if (this.running.get(invocation.outputBase) === invocation) {
+            this.running.delete(invocation.outputBase);
+        }
+        // An invocation that started after the server was interrupted had to wait for it
+        const interruptedServer = this.interruptedServers.get(invocation.outputBase);
+        if (interruptedServer && (invocation.startedAt ?? 0) > interruptedServer.interruptedAt &&
+            !invocation.cancellationSource.token.isCancellationRequested) {
+            this.interruptedServers.delete(invocation.outputBase);
+        }
+        invocation.cancellationSource.dispose();
+        this.startNext(invocation.outputBase);
+        this._onDidChangeQueue.fire();
+    }
+
+    private remove(invocation: BazelScheduledInvocation): boolean {
+        const queue = this.queues.get(invocation.outputBase) || [];
+        const index = queue.indexOf(invocation);
+        if (index < 0) {
+            return false;
+        }
+        queue.splice(index, 1);
+        if (queue.length === 0) {
+            this.queues.delete(invocation.outputBase);
+        }
+        this._onDidChangeQueue.fire();
+        return true;
+    }
+
+    private move(invocation: BazelScheduledInvocation, getNewIndex: (index: number) => number) {
+        const queue = this.queues.get(invocation.outputBase) || [];
+        const index = queue.indexOf(invocation);
+        if (index < 0) {
+            return;
+        }
+        const newIndex = Math.max(0, Math.min(queue.length - 1, getNewIndex(index)));
+        queue.splice(index, 1);
+        queue.splice(newIndex, 0, invocation);
+        this._onDidChangeQueue.fire();
+    }
+}
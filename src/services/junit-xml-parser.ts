@@ -0,0 +1,155 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+export type JUnitTestCaseStatus = 'passed' | 'failed' | 'skipped';
+
+/**
+ * A test case of a JUnit XML report, such as the test.xml written by bazel test.
+ */
+export interface JUnitTestCase {
+    name: string;
+    classname: string;
+    // The name of the enclosing test suite
+    suite: string;
+    status: JUnitTestCaseStatus;
+    durationMillis?: number;
+    // The message and text of the first failure, error or skip
+    message?: string;
+    details?: string;
+    // What the test case printed, if the runner records it
+    output?: string;
+}
+
+/**
+ * Reads the test cases of JUnit XML reports. Test runners differ in the details: gtest
+ * writes `classname="Fixture" name="Test"`, rules_go `classname="pkg" name="TestFoo"` and
+ * pytest `classname="module.Class" name="test_foo"`.
+ */
+export class JUnitXmlParser {
+    private static readonly testCaseRegex = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+    private static readonly testSuiteRegex = /<testsuite\b([^>]*?)\/?>/g;
+    private static readonly attributeRegex = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    private static readonly resultRegex = /<(failure|error|skipped)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/;
+    private static readonly outputRegex = /<(system-out|system-err)\b[^>]*>([\s\S]*?)<\/\1>/g;
+
+    public static parse(xml: string): JUnitTestCase[] {
+        const content = xml.replace(/<!--[\s\S]*?-->/g, '');
+        const suites = this.parseSuites(content);
+        const testCases: JUnitTestCase[] = [];
+
+        let match;
+        const testCaseRegex = new RegExp(this.testCaseRegex);
+        while ((match = testCaseRegex.exec(content)) !== null) {
+            const attributes = this.parseAttributes(match[1]);
+            const index = match.index;
+            const suite = suites.filter(s => s.index < index).pop();
+            const testCase: JUnitTestCase = {
+                name: attributes.name || '',
+                classname: attributes.classname || '',
+                suite: suite ? suite.name : '',
+                status: 'passed',
+                durationMillis: this.toMillis(attributes.time)
+            };
+
+            const result = (match[2] || '').match(this.resultRegex);
+            if (result) {
+                const resultAttributes = this.parseAttributes(result[2]);
+                testCase.status = result[1] === 'skipped' ? 'skipped' : 'failed';
+                testCase.message = resultAttributes.message;
+                testCase.details = result[3] !== undefined ? this.decodeText(result[3]).trim() : undefined;
+            } else if (attributes.result === 'skipped' || attributes.result === 'suppressed' || attributes.status === 'notrun') {
+                // gtest marks disabled and skipped tests on the test case itself
+                testCase.status = 'skipped';
+            }
+
+            const output = this.parseOutput(match[2] || '');
+            if (output) {
+                testCase.output = output;
+            }
+            testCases.push(testCase);
+        }
+        return testCases;
+    }
+
+    private static parseOutput(content: string): string | undefined {
+        const outputs: string[] = [];
+        let match;
+        const outputRegex = new RegExp(this.outputRegex);
+        while ((match = outputRegex.exec(content)) !== null) {
+            const output = this.decodeText(match[2]).trim();
+            if (output) {
+                outputs.push(output);
+            }
+        }
+        return outputs.length > 0 ? outputs.join('\n') : undefined;
+    }
+
+    private static parseSuites(content: string): { index: number, name: string }[] {
+        const suites: { index: number, name: string }[] = [];
+        let match;
+        const testSuiteRegex = new RegExp(this.testSuiteRegex);
+        while ((match = testSuiteRegex.exec(content)) !== null) {
+            suites.push({ index: match.index, name: this.parseAttributes(match[1]).name || '' });
+        }
+        return suites;
+    }
+
+    private static parseAttributes(text: string): { [name: string]: string } {
+        const attributes: { [name: string]: string } = {};
+        let match;
+        const attributeRegex = new RegExp(this.attributeRegex);
+        while ((match = attributeRegex.exec(text)) !== null) {
+            attributes[match[1]] = this.decodeEntities(match[2] !== undefined ? match[2] : match[3]);
+        }
+        return attributes;
+    }
+
+    private static decodeText(text: string): string {
+        // CDATA sections are taken as is, everything else is decoded
+        return text.split(/(<!\[CDATA\[[\s\S]*?\]\]>)/).map(part => {
+            return part.startsWith('<![CDATA[') ? part.slice(9, -3) : this.decodeEntities(part);
+        }).join('');
+    }
+
+    private static decodeEntities(text: string): string {
+        return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (entity, name: string) => {
+            switch (name) {
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'amp': return '&';
+            case 'quot': return '"';
+            case 'apos': return '\'';
+            default:
+                return String.fromCodePoint(name.startsWith('#x') ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10));
+            }
+        });
+    }
+
+    private static toMillis(seconds: string | undefined): number | undefined {
+        if (seconds === undefined) {
+            return undefined;
+        }
+        const value = parseFloat(seconds);
+        return isNaN(value) ? undefined : Math.round(value * 1000);
+    }
+}
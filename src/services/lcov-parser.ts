@@ -0,0 +1,160 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+/**
+ * The coverage of a source file in an LCOV tracefile, such as the combined report
+ * written by `bazel coverage --combined_report=lcov`.
+ */
+export interface LcovFileCoverage {
+    // The path as written to the report, usually relative to the execroot
+    sourceFile: string;
+    // The execution count by 1-based line
+    lines: Map<number, number>;
+    branches: LcovBranchCoverage[];
+    functions: LcovFunctionCoverage[];
+}
+
+export interface LcovBranchCoverage {
+    line: number;
+    block: string;
+    branch: string;
+    // Undefined if the block containing the branch never ran
+    taken?: number;
+}
+
+export interface LcovFunctionCoverage {
+    name: string;
+    line: number;
+    count: number;
+}
+
+export class LcovParser {
+    public static parse(content: string): LcovFileCoverage[] {
+        const files: LcovFileCoverage[] = [];
+        let current: LcovFileCoverage | undefined;
+        const functionLines: Map<string, number> = new Map();
+
+        content.split(/\r?\n/).forEach(rawLine => {
+            const line = rawLine.trim();
+            const separatorIndex = line.indexOf(':');
+            const record = separatorIndex >= 0 ? line.substring(0, separatorIndex) : line;
+            const value = separatorIndex >= 0 ? line.substring(separatorIndex + 1) : '';
+
+            if (record === 'SF') {
+                current = { sourceFile: value, lines: new Map(), branches: [], functions: [] };
+                functionLines.clear();
+                return;
+            } else if (record === 'end_of_record') {
+                if (current) {
+                    files.push(current);
+                }
+                current = undefined;
+                return;
+            } else if (!current) {
+                return;
+            }
+
+            const fields = value.split(',');
+            switch (record) {
+            case 'DA': {
+                // DA:<line>,<count>[,<checksum>]
+                const lineNumber = Number(fields[0]);
+                const count = Number(fields[1]);
+                if (!isNaN(lineNumber) && !isNaN(count)) {
+                    current.lines.set(lineNumber, (current.lines.get(lineNumber) || 0) + count);
+                }
+                break;
+            }
+            case 'BRDA': {
+                // BRDA:<line>,<block>,<branch>,<taken or - if the block never ran>
+                const lineNumber = Number(fields[0]);
+                if (!isNaN(lineNumber) && fields.length >= 4) {
+                    current.branches.push({
+                        line: lineNumber,
+                        block: fields[1],
+                        branch: fields[2],
+                        taken: fields[3] === '-' ? undefined : Number(fields[3])
+                    });
+                }
+                break;
+            }
+            case 'FN': {
+                // FN:<line>,<name> or FN:<line>,<end line>,<name>, where demangled names may contain commas
+                const hasEndLine = fields.length >= 3 && /^\d+$/.test(fields[1]);
+                const name = fields.slice(hasEndLine ? 2 : 1).join(',');
+                functionLines.set(name, Number(fields[0]));
+                break;
+            }
+            case 'FNDA': {
+                // FNDA:<count>,<name>
+                const name = fields.slice(1).join(',');
+                current.functions.push({ name: name, line: functionLines.get(name) || 0, count: Number(fields[0]) || 0 });
+                break;
+            }
+            default:
+                // Totals (LF, LH, BRF, BRH, FNF, FNH) are computed from the records
+                break;
+            }
+        });
+        return files;
+    }
+
+    /**
+     * Merges the coverage of the same source files, e.g. of the shards of a test.
+     */
+    public static merge(files: LcovFileCoverage[]): LcovFileCoverage[] {
+        const merged: Map<string, LcovFileCoverage> = new Map();
+        files.forEach(file => {
+            const existing = merged.get(file.sourceFile);
+            if (!existing) {
+                merged.set(file.sourceFile, {
+                    sourceFile: file.sourceFile,
+                    lines: new Map(file.lines),
+                    branches: file.branches.map(branch => ({ ...branch })),
+                    functions: file.functions.map(func => ({ ...func }))
+                });
+                return;
+            }
+
+            file.lines.forEach((count, line) => existing.lines.set(line, (existing.lines.get(line) || 0) + count));
+            file.branches.forEach(branch => {
+                const existingBranch = existing.branches.find(other =>
+                    other.line === branch.line && other.block === branch.block && other.branch === branch.branch);
+                if (!existingBranch) {
+                    existing.branches.push({ ...branch });
+                } else if (branch.taken !== undefined) {
+                    existingBranch.taken = (existingBranch.taken || 0) + branch.taken;
+                }
+            });
+            file.functions.forEach(func => {
+                const existingFunction = existing.functions.find(other => other.name === func.name);
+                if (existingFunction) {
+                    existingFunction.count += func.count;
+                } else {
+                    existing.functions.push({ ...func });
+                }
+            });
+        });
+        return Array.from(merged.values());
+    }
+}
@@ -0,0 +1,169 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import * as child from 'child_process';
+
+/**
+ * How long a cancelled process is given to stop after each signal
+ * before the next, more forceful one is sent.
+ */
+export const DEFAULT_CANCELLATION_TIMEOUT_MILLIS = 5000;
+
+const POLLING_INTERVAL_MILLIS = 100;
+
+// The signals sent in turn to stop a process. The bazel client forwards SIGINT to its
+// server, which cancels the command. SIGINT is only sent once, as the client kills the
+// server when it is interrupted three times.
+const ESCALATION_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGKILL'];
+
+/**
+ * The error a cancelled process is rejected with once it and its child processes are gone.
+ */
+export class ProcessCancelledError extends Error {
+    constructor(message: string,
+        // The signal that stopped the process, undefined if it stopped by itself or never started
+        public readonly signal?: NodeJS.Signals) {
+        super(message);
+    }
+}
+
+interface ProcessInfo {
+    pid: number;
+    ppid: number;
+    pgid: number;
+}
+
+// Lists the running processes, or returns undefined if ps cannot be run.
+// Zombies are left out, as they are gone but for their exit status.
+function listProcesses(): Promise<ProcessInfo[] | undefined> {
+    return new Promise<ProcessInfo[] | undefined>((resolve) => {
+        child.execFile('ps', ['-A', '-o', 'pid=,ppid=,pgid=,stat='], (error, stdout) => {
+            if (error) {
+                resolve(undefined);
+                return;
+            }
+            const processes: ProcessInfo[] = [];
+            stdout.split('\n').forEach(line => {
+                const [pid, ppid, pgid, stat] = line.trim().split(/\s+/);
+                if (pid && stat && !stat.startsWith('Z')) {
+                    processes.push({ pid: Number(pid), ppid: Number(ppid), pgid: Number(pgid) });
+                }
+            });
+            resolve(processes);
+        });
+    });
+}
+
+/**
+ * Returns the processes of a tree that are still running: the known processes and
+ * their descendants, which are found again every time as processes keep spawning children.
+ */
+async function getRunningProcessTree(knownProcesses: ProcessInfo[]): Promise<ProcessInfo[]> {
+    const processes = await listProcesses();
+    if (processes === undefined) {
+        return knownProcesses.filter(proc => isProcessRunning(proc.pid));
+    }
+    const tree = new Map<number, ProcessInfo>();
+    processes.filter(proc => knownProcesses.some(known => known.pid === proc.pid))
+        .forEach(proc => tree.set(proc.pid, proc));
+
+    let parents = Array.from(tree.keys());
+    while (parents.length > 0) {
+        const children = processes.filter(proc => parents.includes(proc.ppid) && !tree.has(proc.pid));
+        children.forEach(proc => tree.set(proc.pid, proc));
+        parents = children.map(proc => proc.pid);
+    }
+    return Array.from(tree.values());
+}
+
+/**
+ * Sends a signal to the process groups of a tree, so the children that are not found
+ * in the tree, e.g. the binary of bazel run after the client exited, get it as well.
+ * The group of this process is never signaled, only its processes in the tree are.
+ */
+function signalProcessTree(tree: ProcessInfo[], ownProcessGroup: number | undefined, signal: NodeJS.Signals) {
+    const processGroups = new Set<number>();
+    tree.forEach(proc => {
+        if (proc.pgid > 1 && proc.pgid !== ownProcessGroup) {
+            processGroups.add(proc.pgid);
+        } else if (proc.pid !== process.pid) {
+            signalProcess(proc.pid, signal);
+        }
+    });
+    processGroups.forEach(processGroup => signalProcess(-processGroup, signal));
+}
+
+function signalProcess(pid: number, signal: NodeJS.Signals) {
+    try {
+        process.kill(pid, signal);
+    } catch (error) {
+        // The process is gone already
+    }
+}
+
+async function waitForProcessTreeExit(tree: ProcessInfo[], timeoutMillis: number): Promise<ProcessInfo[]> {
+    const deadline = Date.now() + timeoutMillis;
+    let running = await getRunningProcessTree(tree);
+    while (running.length > 0 && Date.now() < deadline) {
+        await new Promise<void>((resolve) => setTimeout(resolve, POLLING_INTERVAL_MILLIS));
+        running = await getRunningProcessTree(running);
+    }
+    return running;
+}
+
+/**
+ * Returns whether a process is running.
+ */
+export function isProcessRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM means the process runs as another user
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+/**
+ * Stops a process and all of its descendants, and waits until they are gone.
+ * They are interrupted first (SIGINT), then terminated (SIGTERM) and finally killed (SIGKILL)
+ * if they are still running after the given timeout.
+ * @returns The signal that stopped the processes, or undefined if they were gone already.
+ */
+export async function interruptProcessTree(pid: number, timeoutMillis = DEFAULT_CANCELLATION_TIMEOUT_MILLIS): Promise<NodeJS.Signals | undefined> {
+    const ownProcessGroup = (await listProcesses())?.find(proc => proc.pid === process.pid)?.pgid;
+    // Without ps, the process group is unknown and only the process itself is signaled
+    let tree = await getRunningProcessTree([{ pid: pid, ppid: 0, pgid: 0 }]);
+
+    for (const signal of ESCALATION_SIGNALS) {
+        if (tree.length === 0) {
+            return undefined;
+        }
+        signalProcessTree(tree, ownProcessGroup, signal);
+        tree = await waitForProcessTreeExit(tree, timeoutMillis);
+        if (tree.length === 0) {
+            return signal;
+        }
+    }
+    return 'SIGKILL';
+}
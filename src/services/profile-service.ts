@@ -0,0 +1,95 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelProfileParser } from './bazel-profile-parser';
+import { Console } from './console';
+import { createHashFromIds } from './string-utils';
+import { BazelProfile } from '../models/bazel-profile';
+import { BazelProfileManager } from '../models/bazel-profile-manager';
+import { BazelTarget } from '../models/bazel-target';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Reads the JSON trace profiles of profiled builds.
+ */
+export class ProfileService {
+    private static nextId = 0;
+    private readonly profileDirectory: string;
+
+    constructor(context: vscode.ExtensionContext,
+        private readonly bazelProfileManager: BazelProfileManager
+    ) {
+        this.profileDirectory = path.join((context.storageUri || context.globalStorageUri).fsPath, 'profiles');
+    }
+
+    /**
+     * Returns the file the profile of a target's build is written to. Only the summaries
+     * of earlier builds are kept, so the file is reused by every build of the target.
+     */
+    public getProfilePath(target: BazelTarget): string {
+        return path.join(this.profileDirectory, `${createHashFromIds([target])}.json`);
+    }
+
+    /**
+     * Reads the profile a build of a target wrote and keeps its summary.
+     * @param command The command line of the build.
+     * @param startTime When the build started, to ignore a profile left from an earlier build.
+     */
+    public async updateProfile(target: BazelTarget, command: string, startTime: number): Promise<BazelProfile | undefined> {
+        const profilePath = this.getProfilePath(target);
+        try {
+            const stat = await fs.promises.stat(profilePath);
+            if (stat.mtimeMs < startTime) {
+                return undefined;
+            }
+        } catch (error) {
+            // The build failed before writing the profile
+            return undefined;
+        }
+
+        try {
+            const summary = BazelProfileParser.parse(await fs.promises.readFile(profilePath, 'utf8'));
+            const time = Date.now();
+            const profile: BazelProfile = {
+                ...summary,
+                id: `${time}-${ProfileService.nextId++}`,
+                targetId: target.id,
+                label: target.bazelPath,
+                command: command.trim(),
+                workspaceRoot: target.getWorkspaceRoot(),
+                time: time
+            };
+            this.bazelProfileManager.addProfile(profile);
+            return profile;
+        } catch (error) {
+            Console.error(`Error reading profile ${profilePath}:`, error);
+            return undefined;
+        }
+    }
+
+    public async createProfileDirectory() {
+        await fs.promises.mkdir(this.profileDirectory, { recursive: true });
+    }
+}
@@ -23,7 +23,11 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 
+import { ConfigurationManager } from './configuration-manager';
+import { BazelInvocationScheduler } from './invocation-scheduler';
+import { DEFAULT_CANCELLATION_TIMEOUT_MILLIS, interruptProcessTree, ProcessCancelledError } from './process-utils';
 import * as child from 'child_process';
+import * as readline from 'readline';
 import * as vscode from 'vscode';
 
 export interface ProcessOutput {
@@ -32,30 +36,57 @@ export interface ProcessOutput {
     exitCode: number
 }
 
+/**
+ * Rejects a command that exits with a non-zero code, so that callers can tell
+ * failures apart (e.g. bazel's exit code 3 for partial --keep_going results).
+ */
+export class ShellCommandError extends Error {
+    constructor(message: string,
+        public readonly exitCode: number | null,
+        public readonly stderr: string) {
+        super(message);
+    }
+}
+
 export class ShellService {
 
     constructor(private readonly workspaceFolder: vscode.WorkspaceFolder,
         private readonly outputChannel: vscode.OutputChannel,
-        private readonly setupEnvVars: {[key: string]: string}
+        private readonly setupEnvVars: {[key: string]: string},
+        private readonly configurationManager: ConfigurationManager,
+        private readonly invocationScheduler: BazelInvocationScheduler
     ) { }
 
+    public getWorkspaceFolder(): vscode.WorkspaceFolder {
+        return this.workspaceFolder;
+    }
+
+    /**
+     * Runs a command in its own process group, so that a cancelled command is stopped
+     * with all the processes it started. A cancelled command is only rejected once they are gone.
+     * @param echoStdout If false, only stderr is written to the output channel.
+     */
     public static async run(
         cmd: string,
         cwd: string,
         setupEnvVars: { [key: string]: string },
         cancellationToken?: vscode.CancellationToken,
-        outputChannel?: vscode.OutputChannel
+        outputChannel?: vscode.OutputChannel,
+        cancellationTimeoutMs = DEFAULT_CANCELLATION_TIMEOUT_MILLIS,
+        echoStdout = true
     ): Promise<ProcessOutput> {
         return new Promise<ProcessOutput>((resolve, reject) => {
-            const execOptions: child.ExecOptions = {
+            const spawnOptions: child.SpawnOptions = {
                 cwd: cwd,
                 shell: 'bash',
-                maxBuffer: Number.MAX_SAFE_INTEGER,
                 windowsHide: false,
+                detached: true,
                 env: { ...process.env, ...setupEnvVars }
             };
 
-            const proc = child.exec(cmd, execOptions);
+            const proc = child.spawn(cmd, spawnOptions);
+            proc.stdout?.setEncoding('utf8');
+            proc.stderr?.setEncoding('utf8');
 
             let stdout = '';
             let stderr = '';
@@ -65,7 +96,7 @@ export class ShellService {
                 stdout += data;
                 const lines = data.split('\n'); // Split the incoming data into lines
                 lines.forEach(line => {
-                    if (outputChannel) {
+                    if (outputChannel && echoStdout) {
                         outputChannel.appendLine(line); // Append each line to the output channel
                     }
                 });
@@ -82,29 +113,172 @@ export class ShellService {
                 });
             });
 
+            // Handle cancellation, the listener is disposed once the process is gone
+            const cancellationListener = cancellationToken?.onCancellationRequested(() => {
+                ShellService.stop(proc, cancellationTimeoutMs).then(signal => {
+                    reject(new ProcessCancelledError(`${cmd} cancelled.`, signal));
+                }).catch(reject);
+            });
+
             proc.on('close', (code) => {
+                cancellationListener?.dispose();
+                if (cancellationToken?.isCancellationRequested) {
+                    return;
+                }
                 if (code !== 0) {
-                    reject(new Error(`Error running ${cmd} exited with code: ${code}`));
+                    reject(new ShellCommandError(`Error running ${cmd} exited with code: ${code}`, code, stderr.trim()));
+                } else {
+                    resolve({ stdout: stdout.trim(), stderr: stderr.trim(), exitCode: code });
                 }
-                resolve({ stdout: stdout.trim(), stderr: stderr.trim(), exitCode: code });
             });
 
             // Handle process errors
             proc.on('error', (err) => {
+                cancellationListener?.dispose();
                 reject(err);
             });
+        });
+    }
+
+    /**
+     * Runs a command and hands each line of stdout to a callback as soon as it arrives.
+     * Unlike run, stdout is never buffered, so commands with very large outputs
+     * (e.g. queries over a big repository) can be processed incrementally.
+     */
+    public static async runStreaming(
+        cmd: string,
+        cwd: string,
+        setupEnvVars: { [key: string]: string },
+        onStdoutLine: (line: string) => void,
+        cancellationToken?: vscode.CancellationToken,
+        outputChannel?: vscode.OutputChannel,
+        cancellationTimeoutMs = DEFAULT_CANCELLATION_TIMEOUT_MILLIS
+    ): Promise<Omit<ProcessOutput, 'stdout'>> {
+        return new Promise<Omit<ProcessOutput, 'stdout'>>((resolve, reject) => {
+            const spawnOptions: child.SpawnOptions = {
+                cwd: cwd,
+                shell: 'bash',
+                windowsHide: false,
+                detached: true,
+                env: { ...process.env, ...setupEnvVars }
+            };
 
-            // Handle cancellation
-            if (cancellationToken) {
-                cancellationToken.onCancellationRequested(() => {
-                    proc.kill();
-                    reject(new Error(`${cmd} cancelled.`));
+            const proc = child.spawn(cmd, spawnOptions);
+
+            let stderr = '';
+            let callbackError: unknown;
+
+            if (proc.stdout) {
+                const lineReader = readline.createInterface({ input: proc.stdout, crlfDelay: Infinity });
+                lineReader.on('line', (line) => {
+                    if (callbackError !== undefined) {
+                        return;
+                    }
+                    try {
+                        onStdoutLine(line);
+                    } catch (error) {
+                        // Stop consuming output, the error is reported once the process ends
+                        callbackError = error;
+                        ShellService.stop(proc, cancellationTimeoutMs).catch(reject);
+                    }
                 });
             }
+
+            // Capture stderr line-by-line
+            proc.stderr?.on('data', (data: Buffer) => {
+                const text = data.toString();
+                stderr += text;
+                text.split('\n').forEach(line => {
+                    if (outputChannel) {
+                        outputChannel.appendLine(line); // Append each line to the output channel
+                    }
+                });
+            });
+
+            // Handle cancellation, the listener is disposed once the process is gone
+            const cancellationListener = cancellationToken?.onCancellationRequested(() => {
+                ShellService.stop(proc, cancellationTimeoutMs).then(signal => {
+                    reject(new ProcessCancelledError(`${cmd} cancelled.`, signal));
+                }).catch(reject);
+            });
+
+            proc.on('close', (code) => {
+                cancellationListener?.dispose();
+                if (cancellationToken?.isCancellationRequested) {
+                    return;
+                } else if (callbackError !== undefined) {
+                    reject(callbackError);
+                } else if (code !== 0) {
+                    reject(new ShellCommandError(`Error running ${cmd} exited with code: ${code}`, code, stderr.trim()));
+                } else {
+                    resolve({ stderr: stderr.trim(), exitCode: code });
+                }
+            });
+
+            // Handle process errors
+            proc.on('error', (err) => {
+                cancellationListener?.dispose();
+                reject(err);
+            });
         });
     }
 
-    public async runShellCommand(cmd: string, cancellationToken?: vscode.CancellationToken): Promise<{ stdout: string, stderr: string }> {
-        return ShellService.run(cmd, this.workspaceFolder.uri.path, this.setupEnvVars, cancellationToken, this.outputChannel);
+    /**
+     * Runs a shell command from the given directory, which defaults to the
+     * workspace folder but may be the root of a nested bazel workspace.
+     */
+    public async runShellCommand(cmd: string, cancellationToken?: vscode.CancellationToken, cwd = this.workspaceFolder.uri.path): Promise<{ stdout: string, stderr: string }> {
+        return this.schedule(cmd, cwd, (token) => ShellService.run(cmd, cwd, this.setupEnvVars, token, this.outputChannel,
+            this.configurationManager.getCancellationTimeoutMs()), cancellationToken);
+    }
+
+    /**
+     * Runs a shell command like runShellCommand, but without writing its stdout to the
+     * output channel. Meant for commands whose output is only read by the extension,
+     * such as the bazel help commands. Errors are still shown.
+     */
+    public async runShellCommandQuietly(cmd: string, cancellationToken?: vscode.CancellationToken, cwd = this.workspaceFolder.uri.path): Promise<{ stdout: string, stderr: string }> {
+        return this.schedule(cmd, cwd, (token) => ShellService.run(cmd, cwd, this.setupEnvVars, token, this.outputChannel,
+            this.configurationManager.getCancellationTimeoutMs(), false), cancellationToken);
+    }
+
+    public async runShellCommandStreaming(cmd: string, onStdoutLine: (line: string) => void, cancellationToken?: vscode.CancellationToken, cwd = this.workspaceFolder.uri.path): Promise<{ stderr: string }> {
+        return this.schedule(cmd, cwd, (token) => ShellService.runStreaming(cmd, cwd, this.setupEnvVars, onStdoutLine, token, this.outputChannel,
+            this.configurationManager.getCancellationTimeoutMs()), cancellationToken);
+    }
+
+    /**
+     * Queues bazel commands behind the other invocations at their output base.
+     * Any other command is run right away.
+     */
+    private async schedule<T>(cmd: string,
+        cwd: string,
+        run: (cancellationToken?: vscode.CancellationToken) => Promise<T>,
+        cancellationToken?: vscode.CancellationToken): Promise<T> {
+        const outputBase = BazelInvocationScheduler.getOutputBase(cmd, this.configurationManager.getExecutableCommand(), cwd);
+        const runAndTrackServer = async (token?: vscode.CancellationToken) => {
+            try {
+                return await run(token);
+            } catch (error) {
+                // The bazel client did not stop when it was interrupted
+                if (outputBase !== undefined && error instanceof ProcessCancelledError &&
+                    error.signal !== undefined && error.signal !== 'SIGINT') {
+                    await this.invocationScheduler.addInterruptedServer(outputBase, cmd.trim());
+                }
+                return Promise.reject(error);
+            }
+        };
+        if (outputBase === undefined || !this.configurationManager.shouldQueueInvocations()) {
+            return runAndTrackServer(cancellationToken);
+        }
+        return this.invocationScheduler.schedule(outputBase, cmd.trim(), 'background', runAndTrackServer, cancellationToken);
+    }
+
+    // Stops a process started in its own process group with all of its children
+    private static async stop(proc: child.ChildProcess, cancellationTimeoutMs: number): Promise<NodeJS.Signals | undefined> {
+        if (proc.pid === undefined) {
+            return undefined;
+        }
+        return interruptProcessTree(proc.pid, cancellationTimeoutMs);
     }
 }
\ No newline at end of file
@@ -0,0 +1,264 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { REPO_BOUNDARY_FILES } from './bazel-service';
+import { Console } from './console';
+import { StarlarkEvaluator, StarlarkGlob, StarlarkParser, StarlarkRuleCall, StarlarkValue } from './starlark-parser';
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * A target that has a source file in one of its file attributes.
+ */
+export interface SourceFileOwner {
+    ruleType: string;
+    targetName: string;
+    // The owning package relative to the workspace root, e.g. foo/bar
+    packagePath: string;
+    workspaceRoot: string;
+    // True if the target only owns the file through a filegroup in the same package
+    viaFilegroup: boolean;
+}
+
+/**
+ * The targets owning a source file. If ownership is ambiguous, some of the
+ * package's rules could not be evaluated (e.g. macros or unresolved variables)
+ * so that bazel itself has to be asked.
+ */
+export interface SourceFileOwnership {
+    owners: SourceFileOwner[];
+    ambiguous: boolean;
+    // The label of the source file, e.g. //foo/bar:baz/qux.cc
+    label?: string;
+    workspaceRoot?: string;
+}
+
+/**
+ * Resolves which targets own a source file the way Bazel does: the file belongs to the
+ * closest package above it and is owned by every rule that lists it, directly or through
+ * a glob, in one of its file attributes.
+ */
+export class SourceOwnershipResolver {
+    // Attributes that list the files making up a target
+    public static readonly fileAttributes = ['srcs', 'hdrs', 'textual_hdrs', 'data'];
+
+    private static readonly buildFileNames = ['BUILD.bazel', 'BUILD'];
+
+    /**
+     * Finds the targets owning the given source file.
+     * @param sourceFilePath The absolute path of the source file.
+     */
+    public static async resolve(sourceFilePath: string): Promise<SourceFileOwnership> {
+        const workspaceRoot = await this.findWorkspaceRoot(path.dirname(sourceFilePath));
+        if (!workspaceRoot) {
+            return { owners: [], ambiguous: false };
+        }
+
+        const buildFile = await this.findOwningBuildFile(path.dirname(sourceFilePath), workspaceRoot);
+        if (!buildFile) {
+            return { owners: [], ambiguous: false, workspaceRoot };
+        }
+
+        const packageDir = path.dirname(buildFile);
+        const packagePath = path.relative(workspaceRoot, packageDir).split(path.sep).join('/');
+        const relativePath = path.relative(packageDir, sourceFilePath).split(path.sep).join('/');
+        const label = `//${packagePath}:${relativePath}`;
+
+        let ruleCalls: StarlarkRuleCall[];
+        try {
+            ruleCalls = StarlarkParser.parseRuleCalls(await fsPromises.readFile(buildFile, 'utf8'));
+        } catch (error) {
+            Console.error(`Error parsing ${buildFile}:`, error);
+            return { owners: [], ambiguous: true, label, workspaceRoot };
+        }
+
+        const result = this.resolveInRuleCalls(ruleCalls, relativePath, packagePath);
+        return {
+            owners: result.owners.map(owner => ({ ...owner, packagePath, workspaceRoot })),
+            ambiguous: result.ambiguous,
+            label,
+            workspaceRoot
+        };
+    }
+
+    /**
+     * Finds the rules of a package that own a file.
+     * @param ruleCalls The rules declared in the package's BUILD file.
+     * @param relativePath The path of the file relative to the package.
+     * @param packagePath The package relative to the workspace root.
+     */
+    public static resolveInRuleCalls(ruleCalls: StarlarkRuleCall[], relativePath: string, packagePath: string): {
+        owners: { ruleType: string, targetName: string, viaFilegroup: boolean }[], ambiguous: boolean } {
+        const fileLabels = new Set([relativePath, `:${relativePath}`, `//${packagePath}:${relativePath}`, `@//${packagePath}:${relativePath}`]);
+        const owners: { ruleType: string, targetName: string, viaFilegroup: boolean }[] = [];
+        let hasUnresolvedRules = false;
+
+        ruleCalls.forEach(ruleCall => {
+            const values = this.fileAttributes.map(attribute => ruleCall.attributes[attribute]);
+            if (values.some(value => this.ownsFile(value, relativePath, fileLabels))) {
+                owners.push({ ruleType: ruleCall.ruleType, targetName: ruleCall.name, viaFilegroup: false });
+            } else if (this.isMacro(ruleCall) || this.fileAttributes.some(attribute => this.isUnresolved(ruleCall, attribute))) {
+                // Macros may declare further targets and unknown values may hide the file
+                hasUnresolvedRules = true;
+            }
+        });
+
+        // Rules that list an owning filegroup own the file as well
+        let filegroups = owners.filter(owner => owner.ruleType === 'filegroup').map(owner => owner.targetName);
+        while (filegroups.length > 0) {
+            const filegroupLabels = new Set(filegroups.flatMap(name => [name, `:${name}`, `//${packagePath}:${name}`]));
+            const newOwners = ruleCalls.filter(ruleCall =>
+                !owners.some(owner => owner.targetName === ruleCall.name) &&
+                this.fileAttributes.some(attribute => this.listsLabel(ruleCall.attributes[attribute], filegroupLabels)));
+            newOwners.forEach(ruleCall => owners.push({ ruleType: ruleCall.ruleType, targetName: ruleCall.name, viaFilegroup: true }));
+            filegroups = newOwners.filter(ruleCall => ruleCall.ruleType === 'filegroup').map(ruleCall => ruleCall.name);
+        }
+
+        return { owners, ambiguous: owners.length === 0 && hasUnresolvedRules };
+    }
+
+    /**
+     * Builds the query for the rules of a package that list a file in one of their
+     * file attributes, for packages whose BUILD file cannot be evaluated here.
+     * @param label The label of the source file, e.g. //foo:bar.cc.
+     */
+    public static getOwnersQuery(label: string): string {
+        const packagePath = label.split(':')[0];
+        // Attribute values are matched as strings like [//foo:bar.cc, //foo:baz.cc]
+        const pattern = `${this.escapeRegExp(label)}(,|]|$)`;
+        return this.fileAttributes
+            .map(attribute => `attr(${attribute}, "${pattern}", ${packagePath}:*)`)
+            .join(' + ');
+    }
+
+    /**
+     * Matches a path relative to the package against a Bazel glob pattern.
+     * `*` matches within a path segment and `**` matches any number of segments.
+     */
+    public static matchesGlobPattern(relativePath: string, pattern: string): boolean {
+        const segments = pattern.split('/');
+        const source = segments.map((segment, index) => {
+            const isLast = index === segments.length - 1;
+            if (segment === '**') {
+                return isLast ? '.*' : '(?:[^/]+/)*';
+            }
+            const escaped = segment.split('*').map(part => this.escapeRegExp(part)).join('[^/]*');
+            return isLast ? escaped : `${escaped}/`;
+        }).join('');
+        return new RegExp(`^${source}$`).test(relativePath);
+    }
+
+    private static escapeRegExp(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+
+    private static ownsFile(value: StarlarkValue, relativePath: string, fileLabels: Set<string>): boolean {
+        if (this.listsLabel(value, fileLabels)) {
+            return true;
+        }
+        return StarlarkEvaluator.toGlobList(value).some(glob => this.matchesGlob(relativePath, glob));
+    }
+
+    private static matchesGlob(relativePath: string, glob: StarlarkGlob): boolean {
+        return glob.include.some(pattern => this.matchesGlobPattern(relativePath, pattern)) &&
+            !glob.exclude.some(pattern => this.matchesGlobPattern(relativePath, pattern));
+    }
+
+    private static listsLabel(value: StarlarkValue, labels: Set<string>): boolean {
+        return StarlarkEvaluator.toStringList(value).some(element => labels.has(element));
+    }
+
+    // Rule sets from external repositories (e.g. @rules_cc) declare rules, while
+    // .bzl files of the workspace itself mostly wrap them in macros.
+    private static isMacro(ruleCall: StarlarkRuleCall): boolean {
+        return ruleCall.loadedFrom !== undefined && !ruleCall.loadedFrom.startsWith('@');
+    }
+
+    // Whether an attribute is set to something that could not be evaluated to labels and globs
+    private static isUnresolved(ruleCall: StarlarkRuleCall, attribute: string): boolean {
+        if (!(attribute in ruleCall.attributes)) {
+            return false;
+        }
+        const value = ruleCall.attributes[attribute];
+        if (typeof value === 'string' || value instanceof StarlarkGlob) {
+            return false;
+        } else if (Array.isArray(value)) {
+            return value.some(element => typeof element !== 'string' && !(element instanceof StarlarkGlob));
+        }
+        return true;
+    }
+
+    /**
+     * Walks up from the given directory to the closest directory with a BUILD file,
+     * which is the package owning everything below it.
+     */
+    private static async findOwningBuildFile(currentDir: string, workspaceRoot: string): Promise<string | undefined> {
+        let dir = currentDir;
+        while (!path.relative(workspaceRoot, dir).startsWith('..')) {
+            for (const buildFileName of this.buildFileNames) {
+                const candidatePath = path.join(dir, buildFileName);
+                if (await this.isFile(candidatePath)) {
+                    return candidatePath;
+                }
+            }
+            if (dir === workspaceRoot) {
+                break;
+            }
+            dir = path.dirname(dir);
+        }
+        return undefined;
+    }
+
+    /**
+     * Finds the Bazel workspace root by searching for a repository boundary file
+     * (`MODULE.bazel`, `REPO.bazel`, `WORKSPACE.bazel` or `WORKSPACE`).
+     * @param currentDir - The directory to start searching from.
+     * @returns The Bazel workspace root path, or undefined if not found.
+     */
+    private static async findWorkspaceRoot(currentDir: string): Promise<string | undefined> {
+        let dir = currentDir;
+        for (;;) {
+            for (const fileName of REPO_BOUNDARY_FILES) {
+                if (await this.isFile(path.join(dir, fileName))) {
+                    return dir;
+                }
+            }
+
+            const parentDir = path.dirname(dir);
+            if (parentDir === dir) {
+                // Reached the root directory
+                return undefined;
+            }
+            dir = parentDir;
+        }
+    }
+
+    private static async isFile(filePath: string): Promise<boolean> {
+        try {
+            return (await fsPromises.stat(filePath)).isFile();
+        } catch (error) {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,1023 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * A small Starlark tokenizer, parser and evaluator that is sufficient to
+ * read BUILD files. It does not attempt to execute macros; it only evaluates
+ * the literal values handed to each top level rule or macro call.
+ */
+
+export type StarlarkTokenType = 'name' | 'string' | 'number' | 'op' | 'newline' | 'eof';
+
+export interface StarlarkToken {
+    type: StarlarkTokenType;
+    value: string;
+    line: number;
+    column: number;
+}
+
+export type StarlarkExpression =
+    | { kind: 'string', value: string }
+    | { kind: 'number', value: number }
+    | { kind: 'identifier', name: string }
+    | { kind: 'list', elements: StarlarkExpression[] }
+    | { kind: 'dict', entries: { key: StarlarkExpression, value: StarlarkExpression }[] }
+    | { kind: 'call', callee: StarlarkExpression, args: StarlarkArgument[], line: number }
+    | { kind: 'dot', object: StarlarkExpression, name: string }
+    | { kind: 'index', object: StarlarkExpression, index: StarlarkExpression }
+    | { kind: 'binary', op: string, left: StarlarkExpression, right: StarlarkExpression }
+    | { kind: 'unary', op: string, operand: StarlarkExpression }
+    | { kind: 'conditional', condition: StarlarkExpression, then: StarlarkExpression, otherwise: StarlarkExpression }
+    | { kind: 'unknown' };
+
+export interface StarlarkArgument {
+    name?: string;
+    value: StarlarkExpression;
+    unpack?: '*' | '**';
+}
+
+export type StarlarkStatement =
+    | { kind: 'expression', expression: StarlarkExpression, line: number }
+    | { kind: 'assignment', targets: string[], op: string, value: StarlarkExpression, line: number };
+
+export class StarlarkGlob {
+    constructor(public readonly include: string[],
+        public readonly exclude: string[] = [],
+        public readonly excludeDirectories = true) { }
+}
+
+export type StarlarkValue = string | number | boolean | null | undefined | StarlarkGlob | StarlarkValue[] | StarlarkDict;
+export interface StarlarkDict {
+    [key: string]: StarlarkValue
+}
+
+export type StarlarkAttributes = StarlarkDict;
+
+/**
+ * A rule (or macro) invocation found at the top level of a BUILD file.
+ */
+export interface StarlarkRuleCall {
+    ruleType: string;
+    name: string;
+    attributes: StarlarkAttributes;
+    line: number;
+    loadedFrom?: string;
+}
+
+export class StarlarkSyntaxError extends Error {
+    constructor(message: string, public readonly line: number, public readonly column: number) {
+        super(`${message} (line ${line}, column ${column})`);
+        this.name = 'StarlarkSyntaxError';
+    }
+}
+
+const STATEMENT_KEYWORDS = new Set(['def', 'if', 'elif', 'else', 'for', 'while', 'return', 'pass', 'break', 'continue']);
+const OPERATORS = [
+    '//=', '**', '//', '==', '!=', '<=', '>=', '+=', '-=', '*=', '/=', '%=', '|=', '&=', '^=', '->',
+    '(', ')', '[', ']', '{', '}', ',', ':', '.', '=', '+', '-', '*', '/', '%', '<', '>', '|', '&', '^', '~', ';'
+];
+const ESCAPES: { [key: string]: string } = { n: '\n', t: '\t', r: '\r', '\\': '\\', '\'': '\'', '"': '"', '0': '\0', '\n': '' };
+
+/**
+ * Splits Starlark source into tokens. Newline tokens are only emitted
+ * outside of brackets so that each logical line ends with exactly one.
+ * @param errors If given, syntax errors are recorded there and the statement they
+ * occur in is skipped instead of throwing.
+ */
+export function tokenizeStarlark(content: string, errors?: StarlarkSyntaxError[]): StarlarkToken[] {
+    const tokens: StarlarkToken[] = [];
+    let pos = 0;
+    let line = 1;
+    let lineStart = 0;
+    let depth = 0;
+
+    const push = (type: StarlarkTokenType, value: string, start: number, startLine: number, startColumn: number) => {
+        tokens.push({ type, value, line: startLine, column: startColumn });
+        pos = start;
+    };
+
+    while (pos < content.length) {
+        const ch = content[pos];
+        const column = pos - lineStart;
+
+        try {
+            if (ch === '\n') {
+                if (depth === 0 && tokens.length > 0 && tokens[tokens.length - 1].type !== 'newline') {
+                    tokens.push({ type: 'newline', value: '\n', line, column });
+                }
+                pos++;
+                line++;
+                lineStart = pos;
+            } else if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\f') {
+                pos++;
+            } else if (ch === '#') {
+                while (pos < content.length && content[pos] !== '\n') {
+                    pos++;
+                }
+            } else if (ch === '\\' && content[pos + 1] === '\n') {
+                // Explicit line continuation
+                pos += 2;
+                line++;
+                lineStart = pos;
+            } else if (/[A-Za-z_]/.test(ch)) {
+                let end = pos + 1;
+                while (end < content.length && /[A-Za-z0-9_]/.test(content[end])) {
+                    end++;
+                }
+                const word = content.slice(pos, end);
+                const quote = content[end];
+                if ((quote === '"' || quote === '\'') && /^(r|b|rb|br)$/i.test(word)) {
+                    // String prefix such as r"..." or b'...'
+                    const result = readString(content, end, /r/i.test(word), line, lineStart);
+                    tokens.push({ type: 'string', value: result.value, line, column });
+                    line = result.line;
+                    lineStart = result.lineStart >= 0 ? result.lineStart : lineStart;
+                    pos = result.end;
+                } else {
+                    push('name', word, end, line, column);
+                }
+            } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(content[pos + 1] || ''))) {
+                const match = /^(0[xX][0-9a-fA-F]+|0[oO][0-7]+|[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?)/.exec(content.slice(pos, pos + 64));
+                const value = match ? match[0] : ch;
+                push('number', value, pos + value.length, line, column);
+            } else if (ch === '"' || ch === '\'') {
+                const result = readString(content, pos, false, line, lineStart);
+                tokens.push({ type: 'string', value: result.value, line, column });
+                line = result.line;
+                lineStart = result.lineStart >= 0 ? result.lineStart : lineStart;
+                pos = result.end;
+            } else {
+                const op = OPERATORS.find(candidate => content.startsWith(candidate, pos));
+                if (!op) {
+                    throw new StarlarkSyntaxError(`Unexpected character '${ch}'`, line, column);
+                }
+                if (op === '(' || op === '[' || op === '{') {
+                    depth++;
+                } else if ((op === ')' || op === ']' || op === '}') && depth > 0) {
+                    depth--;
+                }
+                push('op', op, pos + op.length, line, column);
+            }
+        } catch (error) {
+            if (!(error instanceof StarlarkSyntaxError) || errors === undefined) {
+                throw error;
+            }
+            // Drop the statement the error is in and carry on with the next line
+            errors.push(error);
+            while (tokens.length > 0 && tokens[tokens.length - 1].type !== 'newline') {
+                tokens.pop();
+            }
+            depth = 0;
+            while (pos < content.length && content[pos] !== '\n') {
+                pos++;
+            }
+        }
+    }
+
+    if (tokens.length > 0 && tokens[tokens.length - 1].type !== 'newline') {
+        tokens.push({ type: 'newline', value: '\n', line, column: pos - lineStart });
+    }
+    tokens.push({ type: 'eof', value: '', line, column: pos - lineStart });
+    return tokens;
+}
+
+function readString(content: string, start: number, raw: boolean, line: number, currentLineStart: number): { value: string, end: number, line: number, lineStart: number } {
+    const startLine = line;
+    const quote = content[start];
+    const triple = content.startsWith(quote.repeat(3), start);
+    const delimiter = triple ? quote.repeat(3) : quote;
+    let pos = start + delimiter.length;
+    let value = '';
+    let lineStart = -1;
+
+    while (pos < content.length) {
+        if (content.startsWith(delimiter, pos)) {
+            return { value, end: pos + delimiter.length, line, lineStart };
+        }
+        const ch = content[pos];
+        if (ch === '\\' && pos + 1 < content.length) {
+            const next = content[pos + 1];
+            if (raw) {
+                value += ch + next;
+            } else if (next in ESCAPES) {
+                value += ESCAPES[next];
+            } else {
+                value += ch + next;
+            }
+            if (next === '\n') {
+                line++;
+                lineStart = pos + 2;
+            }
+            pos += 2;
+            continue;
+        }
+        if (ch === '\n') {
+            if (!triple) {
+                break;
+            }
+            line++;
+            lineStart = pos + 1;
+        }
+        value += ch;
+        pos++;
+    }
+    // Reported at the opening quote, as the string may span lines
+    throw new StarlarkSyntaxError('Unterminated string', startLine, start - currentLineStart);
+}
+
+/**
+ * Recursive descent parser over the tokens of a Starlark file. Only top level
+ * statements are returned; the bodies of def, if and for blocks are skipped
+ * since BUILD files cannot be evaluated without executing them.
+ */
+export class StarlarkParser {
+    private pos = 0;
+
+    private constructor(private readonly tokens: StarlarkToken[],
+        public readonly errors: StarlarkSyntaxError[] = []) { }
+
+    /**
+     * Parses Starlark source into a list of top level statements.
+     * Statements that fail to parse are recorded in errors and skipped.
+     * @param content The contents of a BUILD or .bzl file.
+     */
+    public static parse(content: string): { statements: StarlarkStatement[], errors: StarlarkSyntaxError[] } {
+        const errors: StarlarkSyntaxError[] = [];
+        const parser = new StarlarkParser(tokenizeStarlark(content, errors), errors);
+        const statements = parser.parseModule();
+        return { statements, errors: parser.errors };
+    }
+
+    /**
+     * Parses a BUILD file and returns every top level call that declares a `name`,
+     * along with its evaluated attributes.
+     * @param content The contents of the BUILD file.
+     * @returns The rule calls in the order they appear in the file.
+     */
+    public static parseRuleCalls(content: string): StarlarkRuleCall[] {
+        const { statements } = StarlarkParser.parse(content);
+        return new StarlarkEvaluator().evaluateRuleCalls(statements);
+    }
+
+    private peek(offset = 0): StarlarkToken {
+        return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+    }
+
+    private next(): StarlarkToken {
+        const token = this.peek();
+        if (token.type !== 'eof') {
+            this.pos++;
+        }
+        return token;
+    }
+
+    private isOp(value: string, offset = 0): boolean {
+        const token = this.peek(offset);
+        return token.type === 'op' && token.value === value;
+    }
+
+    private isName(value: string, offset = 0): boolean {
+        const token = this.peek(offset);
+        return token.type === 'name' && token.value === value;
+    }
+
+    private expectOp(value: string): StarlarkToken {
+        const token = this.next();
+        if (token.type !== 'op' || token.value !== value) {
+            throw new StarlarkSyntaxError(`Expected '${value}' but found '${token.value}'`, token.line, token.column);
+        }
+        return token;
+    }
+
+    private skipLine() {
+        while (this.peek().type !== 'newline' && this.peek().type !== 'eof') {
+            this.next();
+        }
+        if (this.peek().type === 'newline') {
+            this.next();
+        }
+    }
+
+    private parseModule(): StarlarkStatement[] {
+        const statements: StarlarkStatement[] = [];
+
+        while (this.peek().type !== 'eof') {
+            const token = this.peek();
+            if (token.type === 'newline') {
+                this.next();
+                continue;
+            }
+
+            // Indented lines belong to a block body, which is not evaluated.
+            if (token.column > 0 || (token.type === 'name' && STATEMENT_KEYWORDS.has(token.value))) {
+                this.skipLine();
+                continue;
+            }
+
+            try {
+                statements.push(...this.parseSimpleStatements());
+            } catch (error) {
+                if (error instanceof StarlarkSyntaxError) {
+                    this.errors.push(error);
+                    this.skipLine();
+                } else {
+                    throw error;
+                }
+            }
+        }
+        return statements;
+    }
+
+    private parseSimpleStatements(): StarlarkStatement[] {
+        const statements: StarlarkStatement[] = [];
+        do {
+            if (this.isOp(';')) {
+                this.next();
+            }
+            if (this.peek().type === 'newline' || this.peek().type === 'eof') {
+                break;
+            }
+            statements.push(this.parseSimpleStatement());
+        } while (this.isOp(';'));
+
+        const end = this.next();
+        if (end.type !== 'newline' && end.type !== 'eof') {
+            throw new StarlarkSyntaxError(`Unexpected '${end.value}'`, end.line, end.column);
+        }
+        return statements;
+    }
+
+    private parseSimpleStatement(): StarlarkStatement {
+        const line = this.peek().line;
+        const expression = this.parseExpressionList();
+        const token = this.peek();
+        if (token.type === 'op' && /^(=|\+=|-=|\*=|\/=|\/\/=|%=|\|=|&=|\^=)$/.test(token.value)) {
+            this.next();
+            const value = this.parseExpressionList();
+            return { kind: 'assignment', targets: StarlarkParser.assignmentTargets(expression), op: token.value, value, line };
+        }
+        return { kind: 'expression', expression, line };
+    }
+
+    private static assignmentTargets(expression: StarlarkExpression): string[] {
+        if (expression.kind === 'identifier') {
+            return [expression.name];
+        } else if (expression.kind === 'list') {
+            return expression.elements.flatMap(element => StarlarkParser.assignmentTargets(element));
+        }
+        return [];
+    }
+
+    // An expression optionally followed by commas, which forms a tuple.
+    private parseExpressionList(): StarlarkExpression {
+        const first = this.parseTest();
+        if (!this.isOp(',')) {
+            return first;
+        }
+        const elements = [first];
+        while (this.isOp(',')) {
+            this.next();
+            if (this.isExpressionEnd()) {
+                break;
+            }
+            elements.push(this.parseTest());
+        }
+        return { kind: 'list', elements };
+    }
+
+    private isExpressionEnd(): boolean {
+        const token = this.peek();
+        return token.type === 'newline' || token.type === 'eof' ||
+            (token.type === 'op' && /^(\)|\]|\}|=|;|:)$/.test(token.value));
+    }
+
+    private parseTest(): StarlarkExpression {
+        if (this.isName('lambda')) {
+            // Lambdas are never evaluated; skip the parameters and body.
+            this.next();
+            while (!this.isOp(':') && this.peek().type !== 'eof') {
+                this.next();
+            }
+            this.expectOp(':');
+            this.parseTest();
+            return { kind: 'unknown' };
+        }
+
+        const value = this.parseOr();
+        if (this.isName('if')) {
+            this.next();
+            const condition = this.parseOr();
+            if (!this.isName('else')) {
+                const token = this.peek();
+                throw new StarlarkSyntaxError('Expected \'else\' in conditional expression', token.line, token.column);
+            }
+            this.next();
+            const otherwise = this.parseTest();
+            return { kind: 'conditional', condition, then: value, otherwise };
+        }
+        return value;
+    }
+
+    private parseOr(): StarlarkExpression {
+        let left = this.parseAnd();
+        while (this.isName('or')) {
+            this.next();
+            left = { kind: 'binary', op: 'or', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): StarlarkExpression {
+        let left = this.parseNot();
+        while (this.isName('and')) {
+            this.next();
+            left = { kind: 'binary', op: 'and', left, right: this.parseNot() };
+        }
+        return left;
+    }
+
+    private parseNot(): StarlarkExpression {
+        if (this.isName('not')) {
+            this.next();
+            return { kind: 'unary', op: 'not', operand: this.parseNot() };
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): StarlarkExpression {
+        let left = this.parseBinary(0);
+        for (;;) {
+            const token = this.peek();
+            let op: string | undefined;
+            if (token.type === 'op' && /^(==|!=|<|>|<=|>=)$/.test(token.value)) {
+                op = token.value;
+                this.next();
+            } else if (this.isName('in')) {
+                op = 'in';
+                this.next();
+            } else if (this.isName('not') && this.isName('in', 1)) {
+                op = 'not in';
+                this.next();
+                this.next();
+            }
+            if (!op) {
+                return left;
+            }
+            left = { kind: 'binary', op, left, right: this.parseBinary(0) };
+        }
+    }
+
+    private static readonly BINARY_PRECEDENCE: string[][] = [
+        ['|'], ['^'], ['&'], ['+', '-'], ['*', '/', '//', '%']
+    ];
+
+    private parseBinary(level: number): StarlarkExpression {
+        if (level >= StarlarkParser.BINARY_PRECEDENCE.length) {
+            return this.parseUnary();
+        }
+        const ops = StarlarkParser.BINARY_PRECEDENCE[level];
+        let left = this.parseBinary(level + 1);
+        while (this.peek().type === 'op' && ops.includes(this.peek().value)) {
+            const op = this.next().value;
+            left = { kind: 'binary', op, left, right: this.parseBinary(level + 1) };
+        }
+        return left;
+    }
+
+    private parseUnary(): StarlarkExpression {
+        const token = this.peek();
+        if (token.type === 'op' && (token.value === '-' || token.value === '+' || token.value === '~')) {
+            this.next();
+            return { kind: 'unary', op: token.value, operand: this.parseUnary() };
+        }
+        return this.parsePostfix();
+    }
+
+    private parsePostfix(): StarlarkExpression {
+        let expression = this.parsePrimary();
+        for (;;) {
+            if (this.isOp('.')) {
+                this.next();
+                const name = this.next();
+                if (name.type !== 'name') {
+                    throw new StarlarkSyntaxError('Expected attribute name', name.line, name.column);
+                }
+                expression = { kind: 'dot', object: expression, name: name.value };
+            } else if (this.isOp('(')) {
+                const line = this.next().line;
+                expression = { kind: 'call', callee: expression, args: this.parseArguments(), line };
+            } else if (this.isOp('[')) {
+                this.next();
+                const index = this.parseSliceOrIndex();
+                this.expectOp(']');
+                expression = { kind: 'index', object: expression, index };
+            } else {
+                return expression;
+            }
+        }
+    }
+
+    private parseSliceOrIndex(): StarlarkExpression {
+        if (this.isOp(':')) {
+            this.skipUntilClosing(']');
+            return { kind: 'unknown' };
+        }
+        const index = this.parseExpressionList();
+        if (this.isOp(':')) {
+            this.skipUntilClosing(']');
+            return { kind: 'unknown' };
+        }
+        return index;
+    }
+
+    private parseArguments(): StarlarkArgument[] {
+        const args: StarlarkArgument[] = [];
+        while (!this.isOp(')')) {
+            if (this.isOp('*') || this.isOp('**')) {
+                const unpack = this.next().value as '*' | '**';
+                args.push({ value: this.parseTest(), unpack });
+            } else if (this.peek().type === 'name' && this.isOp('=', 1)) {
+                const name = this.next().value;
+                this.next();
+                args.push({ name, value: this.parseTest() });
+            } else {
+                const value = this.parseTest();
+                if (this.isName('for')) {
+                    // Generator expression as the sole argument
+                    this.skipUntilClosing(')');
+                    args.push({ value: { kind: 'unknown' } });
+                    break;
+                }
+                args.push({ value });
+            }
+            if (!this.isOp(',')) {
+                break;
+            }
+            this.next();
+        }
+        this.expectOp(')');
+        return args;
+    }
+
+    // Skips tokens until the matching closing bracket at the current depth without consuming it.
+    private skipUntilClosing(closing: string) {
+        let depth = 0;
+        while (this.peek().type !== 'eof') {
+            const token = this.peek();
+            if (token.type === 'op') {
+                if (token.value === '(' || token.value === '[' || token.value === '{') {
+                    depth++;
+                } else if (token.value === ')' || token.value === ']' || token.value === '}') {
+                    if (depth === 0) {
+                        if (token.value !== closing) {
+                            throw new StarlarkSyntaxError(`Expected '${closing}' but found '${token.value}'`, token.line, token.column);
+                        }
+                        return;
+                    }
+                    depth--;
+                }
+            }
+            this.next();
+        }
+    }
+
+    private parsePrimary(): StarlarkExpression {
+        const token = this.next();
+        switch (token.type) {
+        case 'string': {
+            // Adjacent string literals are concatenated
+            let value = token.value;
+            while (this.peek().type === 'string') {
+                value += this.next().value;
+            }
+            return { kind: 'string', value };
+        }
+        case 'number':
+            return { kind: 'number', value: Number(token.value) };
+        case 'name':
+            return { kind: 'identifier', name: token.value };
+        case 'op':
+            if (token.value === '(') {
+                return this.parseParenthesized();
+            } else if (token.value === '[') {
+                return this.parseListDisplay();
+            } else if (token.value === '{') {
+                return this.parseDictDisplay();
+            }
+            break;
+        default:
+            break;
+        }
+        throw new StarlarkSyntaxError(`Unexpected '${token.value}'`, token.line, token.column);
+    }
+
+    private parseParenthesized(): StarlarkExpression {
+        if (this.isOp(')')) {
+            this.next();
+            return { kind: 'list', elements: [] };
+        }
+        const first = this.parseTest();
+        if (this.isName('for')) {
+            this.skipUntilClosing(')');
+            this.expectOp(')');
+            return { kind: 'unknown' };
+        }
+        if (!this.isOp(',')) {
+            this.expectOp(')');
+            return first;
+        }
+        const elements = [first];
+        while (this.isOp(',')) {
+            this.next();
+            if (this.isOp(')')) {
+                break;
+            }
+            elements.push(this.parseTest());
+        }
+        this.expectOp(')');
+        return { kind: 'list', elements };
+    }
+
+    private parseListDisplay(): StarlarkExpression {
+        const elements: StarlarkExpression[] = [];
+        while (!this.isOp(']')) {
+            elements.push(this.parseTest());
+            if (this.isName('for')) {
+                // List comprehensions cannot be evaluated statically
+                this.skipUntilClosing(']');
+                this.expectOp(']');
+                return { kind: 'unknown' };
+            }
+            if (!this.isOp(',')) {
+                break;
+            }
+            this.next();
+        }
+        this.expectOp(']');
+        return { kind: 'list', elements };
+    }
+
+    private parseDictDisplay(): StarlarkExpression {
+        const entries: { key: StarlarkExpression, value: StarlarkExpression }[] = [];
+        while (!this.isOp('}')) {
+            const key = this.parseTest();
+            this.expectOp(':');
+            const value = this.parseTest();
+            if (this.isName('for')) {
+                this.skipUntilClosing('}');
+                this.expectOp('}');
+                return { kind: 'unknown' };
+            }
+            entries.push({ key, value });
+            if (!this.isOp(',')) {
+                break;
+            }
+            this.next();
+        }
+        this.expectOp('}');
+        return { kind: 'dict', entries };
+    }
+}
+
+/**
+ * Evaluates the literal parts of a parsed BUILD file. Values that depend on
+ * anything the evaluator cannot know (macro results, rule attributes, etc.)
+ * evaluate to undefined.
+ */
+export class StarlarkEvaluator {
+    private readonly scope = new Map<string, StarlarkValue>();
+    private readonly loadedSymbols = new Map<string, { module: string, symbol: string }>();
+
+    public evaluateRuleCalls(statements: StarlarkStatement[]): StarlarkRuleCall[] {
+        const ruleCalls: StarlarkRuleCall[] = [];
+
+        for (const statement of statements) {
+            if (statement.kind === 'assignment') {
+                this.assign(statement.targets, statement.op, statement.value);
+                continue;
+            }
+
+            const expression = statement.expression;
+            if (expression.kind !== 'call') {
+                continue;
+            }
+
+            const callee = StarlarkEvaluator.calleeName(expression.callee);
+            if (callee === 'load') {
+                this.load(expression.args);
+                continue;
+            }
+
+            const attributes = this.evaluateKeywordArguments(expression.args);
+            if (callee === undefined || typeof attributes.name !== 'string') {
+                continue;
+            }
+
+            const loaded = this.loadedSymbols.get(callee);
+            ruleCalls.push({
+                ruleType: loaded ? loaded.symbol : callee,
+                name: attributes.name,
+                attributes: attributes,
+                line: expression.line,
+                loadedFrom: loaded?.module
+            });
+        }
+
+        return ruleCalls;
+    }
+
+    private static calleeName(callee: StarlarkExpression): string | undefined {
+        if (callee.kind === 'identifier') {
+            return callee.name;
+        } else if (callee.kind === 'dot') {
+            const objectName = StarlarkEvaluator.calleeName(callee.object);
+            if (objectName === undefined) {
+                return undefined;
+            }
+            // native.cc_library is the same rule as cc_library
+            return objectName === 'native' ? callee.name : `${objectName}.${callee.name}`;
+        }
+        return undefined;
+    }
+
+    private load(args: StarlarkArgument[]) {
+        const [moduleArg, ...symbolArgs] = args;
+        if (!moduleArg || moduleArg.value.kind !== 'string') {
+            return;
+        }
+        const module = moduleArg.value.value;
+        for (const arg of symbolArgs) {
+            if (arg.value.kind !== 'string') {
+                continue;
+            }
+            // load("//foo.bzl", "a", b = "c") binds a as a and b as c
+            const symbol = arg.value.value;
+            this.loadedSymbols.set(arg.name || symbol, { module, symbol });
+        }
+    }
+
+    private assign(targets: string[], op: string, expression: StarlarkExpression) {
+        let value = this.evaluate(expression);
+        if (targets.length !== 1) {
+            if (Array.isArray(value) && value.length === targets.length) {
+                targets.forEach((target, index) => this.scope.set(target, (value as StarlarkValue[])[index]));
+            } else {
+                targets.forEach(target => this.scope.set(target, undefined));
+            }
+            return;
+        }
+        if (op !== '=') {
+            value = StarlarkEvaluator.applyBinary(op.slice(0, -1), this.scope.get(targets[0]), value);
+        }
+        this.scope.set(targets[0], value);
+    }
+
+    private evaluateKeywordArguments(args: StarlarkArgument[]): StarlarkAttributes {
+        const attributes: StarlarkAttributes = {};
+        for (const arg of args) {
+            if (arg.name !== undefined) {
+                attributes[arg.name] = this.evaluate(arg.value);
+            } else if (arg.unpack === '**') {
+                const value = this.evaluate(arg.value);
+                if (StarlarkEvaluator.isDict(value)) {
+                    Object.assign(attributes, value);
+                }
+            }
+        }
+        return attributes;
+    }
+
+    public evaluate(expression: StarlarkExpression): StarlarkValue {
+        switch (expression.kind) {
+        case 'string':
+        case 'number':
+            return expression.value;
+        case 'identifier':
+            if (expression.name === 'True') {
+                return true;
+            } else if (expression.name === 'False') {
+                return false;
+            } else if (expression.name === 'None') {
+                return null;
+            }
+            return this.scope.get(expression.name);
+        case 'list':
+            return expression.elements.map(element => this.evaluate(element));
+        case 'dict': {
+            const dict: StarlarkDict = {};
+            for (const entry of expression.entries) {
+                const key = this.evaluate(entry.key);
+                if (typeof key === 'string') {
+                    dict[key] = this.evaluate(entry.value);
+                }
+            }
+            return dict;
+        }
+        case 'call':
+            return this.evaluateCall(expression.callee, expression.args);
+        case 'index': {
+            const object = this.evaluate(expression.object);
+            const index = this.evaluate(expression.index);
+            if (Array.isArray(object) && typeof index === 'number') {
+                return object[index < 0 ? object.length + index : index];
+            } else if (StarlarkEvaluator.isDict(object) && typeof index === 'string') {
+                return object[index];
+            }
+            return undefined;
+        }
+        case 'binary':
+            return StarlarkEvaluator.applyBinary(expression.op, this.evaluate(expression.left), this.evaluate(expression.right));
+        case 'unary': {
+            const operand = this.evaluate(expression.operand);
+            if (expression.op === 'not') {
+                return operand === undefined ? undefined : !StarlarkEvaluator.isTruthy(operand);
+            } else if (expression.op === '-' && typeof operand === 'number') {
+                return -operand;
+            }
+            return expression.op === '+' ? operand : undefined;
+        }
+        case 'conditional': {
+            const condition = this.evaluate(expression.condition);
+            if (condition !== undefined && !StarlarkEvaluator.isTruthy(condition)) {
+                return this.evaluate(expression.otherwise);
+            }
+            return this.evaluate(expression.then);
+        }
+        default:
+            return undefined;
+        }
+    }
+
+    private evaluateCall(callee: StarlarkExpression, args: StarlarkArgument[]): StarlarkValue {
+        const name = StarlarkEvaluator.calleeName(callee);
+        const positional = args.filter(arg => arg.name === undefined && arg.unpack === undefined).map(arg => this.evaluate(arg.value));
+        const keywords = this.evaluateKeywordArguments(args);
+
+        if (name === 'glob') {
+            const include = StarlarkEvaluator.toStringList(keywords.include ?? positional[0]);
+            const exclude = StarlarkEvaluator.toStringList(keywords.exclude ?? positional[1]);
+            const excludeDirectories = keywords.exclude_directories !== 0 && keywords.exclude_directories !== false;
+            return new StarlarkGlob(include, exclude, excludeDirectories);
+        } else if (name === 'select') {
+            // The configuration is unknown, so merge every branch.
+            const branches = positional[0];
+            if (!StarlarkEvaluator.isDict(branches)) {
+                return undefined;
+            }
+            const values = Object.values(branches);
+            if (values.every(value => Array.isArray(value) || value instanceof StarlarkGlob)) {
+                return values.reduce<StarlarkValue[]>((merged, value) => merged.concat(value as StarlarkValue), []);
+            }
+            return values[0];
+        } else if (name === 'Label' && typeof positional[0] === 'string') {
+            return positional[0];
+        } else if (name === 'str' && positional.length === 1) {
+            const value = positional[0];
+            return typeof value === 'string' || typeof value === 'number' ? `${value}` : undefined;
+        } else if (name === 'len') {
+            const value = positional[0];
+            return typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+        } else if (callee.kind === 'dot') {
+            const object = this.evaluate(callee.object);
+            if (typeof object === 'string' && callee.name === 'join' && Array.isArray(positional[0])) {
+                const parts = positional[0];
+                return parts.every(part => typeof part === 'string') ? parts.join(object) : undefined;
+            } else if (typeof object === 'string' && callee.name === 'format') {
+                let index = 0;
+                return object.replace(/\{(\w*)\}/g, (match, key: string) => {
+                    const value = key === '' ? positional[index++] : (/^\d+$/.test(key) ? positional[Number(key)] : keywords[key]);
+                    return typeof value === 'string' || typeof value === 'number' ? `${value}` : match;
+                });
+            }
+        }
+        return undefined;
+    }
+
+    private static applyBinary(op: string, left: StarlarkValue, right: StarlarkValue): StarlarkValue {
+        switch (op) {
+        case '+':
+            if (typeof left === 'string' && typeof right === 'string') {
+                return left + right;
+            } else if (typeof left === 'number' && typeof right === 'number') {
+                return left + right;
+            } else if (StarlarkEvaluator.isListLike(left) && StarlarkEvaluator.isListLike(right)) {
+                return StarlarkEvaluator.asList(left).concat(StarlarkEvaluator.asList(right));
+            }
+            return undefined;
+        case '|':
+            if (StarlarkEvaluator.isDict(left) && StarlarkEvaluator.isDict(right)) {
+                return { ...left, ...right };
+            }
+            return undefined;
+        case '%':
+            if (typeof left === 'string') {
+                const values = Array.isArray(right) ? [...right] : [right];
+                return left.replace(/%[sdr%]/g, (match) => {
+                    if (match === '%%') {
+                        return '%';
+                    }
+                    const value = values.shift();
+                    return typeof value === 'string' || typeof value === 'number' ? `${value}` : match;
+                });
+            }
+            return undefined;
+        case '==':
+            return left === undefined || right === undefined ? undefined : JSON.stringify(left) === JSON.stringify(right);
+        case '!=':
+            return left === undefined || right === undefined ? undefined : JSON.stringify(left) !== JSON.stringify(right);
+        case 'and':
+            return left === undefined ? undefined : (StarlarkEvaluator.isTruthy(left) ? right : left);
+        case 'or':
+            return left === undefined ? undefined : (StarlarkEvaluator.isTruthy(left) ? left : right);
+        case 'in':
+        case 'not in': {
+            let result: boolean | undefined;
+            if (Array.isArray(right)) {
+                result = right.includes(left);
+            } else if (typeof right === 'string' && typeof left === 'string') {
+                result = right.includes(left);
+            } else if (StarlarkEvaluator.isDict(right) && typeof left === 'string') {
+                result = left in right;
+            }
+            return result === undefined || op === 'in' ? result : !result;
+        }
+        default:
+            return undefined;
+        }
+    }
+
+    private static isTruthy(value: StarlarkValue): boolean {
+        if (Array.isArray(value) || typeof value === 'string') {
+            return value.length > 0;
+        } else if (StarlarkEvaluator.isDict(value)) {
+            return Object.keys(value).length > 0;
+        }
+        return !!value;
+    }
+
+    private static isListLike(value: StarlarkValue): value is StarlarkValue[] | StarlarkGlob {
+        return Array.isArray(value) || value instanceof StarlarkGlob;
+    }
+
+    private static asList(value: StarlarkValue[] | StarlarkGlob): StarlarkValue[] {
+        return Array.isArray(value) ? value : [value];
+    }
+
+    public static isDict(value: StarlarkValue): value is StarlarkDict {
+        return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof StarlarkGlob);
+    }
+
+    /**
+     * Returns the string elements of a value, treating a single string as a list of one.
+     */
+    public static toStringList(value: StarlarkValue): string[] {
+        if (typeof value === 'string') {
+            return [value];
+        } else if (Array.isArray(value)) {
+            return value.filter((element): element is string => typeof element === 'string');
+        }
+        return [];
+    }
+
+    /**
+     * Returns the globs contained in a list valued attribute such as srcs.
+     */
+    public static toGlobList(value: StarlarkValue): StarlarkGlob[] {
+        if (value instanceof StarlarkGlob) {
+            return [value];
+        } else if (Array.isArray(value)) {
+            return value.filter((element): element is StarlarkGlob => element instanceof StarlarkGlob);
+        }
+        return [];
+    }
+
+    public static toBoolean(value: StarlarkValue, defaultValue = false): boolean {
+        if (typeof value === 'boolean') {
+            return value;
+        } else if (typeof value === 'number') {
+            return value !== 0;
+        }
+        return defaultValue;
+    }
+}
@@ -22,8 +22,11 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 
+import { ConfigurationManager } from './configuration-manager';
 import { EnvVarsUtils } from './env-vars-utils';
 import { ExtensionUtils } from './extension-utils';
+import { BazelInvocationScheduler } from './invocation-scheduler';
+import { interruptProcessTree, ProcessCancelledError } from './process-utils';
 import { clearTerminal } from '../ui/terminal';
 import * as vscode from 'vscode';
 
@@ -46,12 +49,23 @@ export class CustomTaskProvider implements vscode.TaskProvider {
 }
 
 export class TaskService {
+    // The processes of the running tasks, as started by their terminals
+    private readonly taskProcessIds = new Map<vscode.TaskExecution, number>();
 
     constructor(private readonly context: vscode.ExtensionContext,
         private readonly workspaceFolder: vscode.WorkspaceFolder,
-        private readonly setupEnvVars: string[]) {
+        private readonly setupEnvVars: string[],
+        private readonly configurationManager: ConfigurationManager,
+        private readonly invocationScheduler: BazelInvocationScheduler) {
         const customTaskProvider = vscode.tasks.registerTaskProvider(CustomTaskProvider.type, new CustomTaskProvider());
         context.subscriptions.push(customTaskProvider);
+        context.subscriptions.push(vscode.tasks.onDidStartTaskProcess(e => {
+            if (e.processId !== undefined) {
+                this.taskProcessIds.set(e.execution, e.processId);
+            }
+        }), vscode.tasks.onDidEndTaskProcess(e => {
+            this.taskProcessIds.delete(e.execution);
+        }));
     }
 
 
@@ -63,19 +77,20 @@ export class TaskService {
         envVars: { [key: string]: string } = {},
         executionType: 'shell' | 'process' = 'shell',
         resolveOn: 'onDidStartTask' | 'onDidEndTask' = 'onDidEndTask',
-        problemMatcher = '$gcc') {
+        problemMatcher: string | string[] = '$gcc',
+        cwd = this.workspaceFolder.uri.path) {
         const workspaceFolder = this.workspaceFolder;
 
         const envVarsObj = { ...EnvVarsUtils.listToObject(this.setupEnvVars), ...envVars };
         let execution: vscode.ShellExecution | vscode.ProcessExecution | vscode.CustomExecution;
         if (executionType === 'shell') {
             execution = new vscode.ShellExecution(command, {
-                cwd: workspaceFolder.uri.path, env: envVarsObj,
+                cwd: cwd, env: envVarsObj,
                 executable: '/bin/bash',  // Ensure bash is used as the shell
                 shellArgs: ['-c'] });
         } else {
             const args = command.split(' ');
-            execution = new vscode.ProcessExecution(args[0], args.slice(1), { cwd: workspaceFolder.uri.path, env: envVarsObj });
+            execution = new vscode.ProcessExecution(args[0], args.slice(1), { cwd: cwd, env: envVarsObj });
         }
 
         // const taskType = `${CustomTaskProvider.type}-${taskName}-${id}`;  // Dynamically set the task type
@@ -98,16 +113,77 @@ export class TaskService {
             reveal: vscode.TaskRevealKind.Always,
             panel: vscode.TaskPanelKind.Dedicated
         };
-        if (clearTerminalFirst) {
-            clearTerminal();
+        const executeTask = async () => {
+            if (clearTerminalFirst) {
+                clearTerminal();
+            }
+            return vscode.tasks.executeTask(task);
+        };
+
+        const executable = this.configurationManager.getExecutableCommand();
+        const outputBase = BazelInvocationScheduler.getOutputBase(command, executable, cwd);
+        if (outputBase === undefined || !this.configurationManager.shouldQueueInvocations()) {
+            return this.waitForTask(taskName, await executeTask(), resolveOn, cancellationToken, outputBase);
+        }
+
+        if (BazelInvocationScheduler.getCommandName(command, executable) === 'run') {
+            // bazel run releases the server lock once the built binary runs,
+            // so the invocations queued after it only wait for it to start.
+            const taskExecution = await this.invocationScheduler.schedule(outputBase, taskName, 'foreground',
+                executeTask, cancellationToken);
+            return this.waitForTask(taskName, taskExecution, resolveOn, cancellationToken, outputBase);
         }
 
-        const taskExecution = await vscode.tasks.executeTask(task);
+        return this.invocationScheduler.schedule(outputBase, taskName, 'foreground',
+            async (token) => this.waitForTask(taskName, await executeTask(), resolveOn, token, outputBase),
+            cancellationToken);
+    }
+
+    /**
+     * Stops a task and the processes it started, e.g. the binary of bazel run, and waits until they are gone.
+     * The processes are interrupted first so that bazel cancels the command, and terminated or killed
+     * if they are still running after the cancellation timeout.
+     * @returns The signal that stopped the task's processes, or undefined if they were gone already.
+     */
+    public async terminateTask(taskExecution: vscode.TaskExecution): Promise<NodeJS.Signals | undefined> {
+        const timeoutMs = this.configurationManager.getCancellationTimeoutMs();
+        const processId = this.taskProcessIds.get(taskExecution);
+        const signal = processId !== undefined ? await interruptProcessTree(processId, timeoutMs) : undefined;
+        // The task did not start its process yet, or its terminal still runs
+        if (vscode.tasks.taskExecutions.includes(taskExecution)) {
+            await new Promise<void>((resolve) => {
+                const timeout = setTimeout(() => {
+                    disposable.dispose();
+                    resolve();
+                }, timeoutMs);
+                const disposable = vscode.tasks.onDidEndTask(e => {
+                    if (e.execution === taskExecution) {
+                        clearTimeout(timeout);
+                        disposable.dispose();
+                        resolve();
+                    }
+                });
+                taskExecution.terminate();
+            });
+        }
+        return signal;
+    }
 
+    /**
+     * Waits for a task to start or end. A cancelled task is only rejected once its processes are gone.
+     * @param outputBase The output base of the bazel command the task runs, to keep track of its
+     * server if the bazel client had to be killed.
+     */
+    private waitForTask(taskName: string,
+        taskExecution: vscode.TaskExecution,
+        resolveOn: 'onDidStartTask' | 'onDidEndTask',
+        cancellationToken?: vscode.CancellationToken,
+        outputBase?: string) {
         return new Promise<vscode.TaskExecution>((resolve, reject) => {
             // if (resolveOn === 'onDidEndTask') {
             const disposable = vscode.tasks.onDidEndTask(e => {
-                if (e.execution === taskExecution) {
+                // A cancelled task ends before all of its processes may be gone
+                if (e.execution === taskExecution && !cancellationToken?.isCancellationRequested) {
                     disposable.dispose();
                     resolve(e.execution);
                 }
@@ -122,9 +198,17 @@ export class TaskService {
                 });
             }
 
-            cancellationToken?.onCancellationRequested(() => {
-                taskExecution.terminate();
-                reject(new Error(`${taskName} cancelled.`));
+            cancellationToken?.onCancellationRequested(async () => {
+                let signal: NodeJS.Signals | undefined;
+                try {
+                    signal = await this.terminateTask(taskExecution);
+                    if (outputBase !== undefined && signal !== undefined && signal !== 'SIGINT') {
+                        await this.invocationScheduler.addInterruptedServer(outputBase, taskName);
+                    }
+                } finally {
+                    disposable.dispose();
+                    reject(new ProcessCancelledError(`${taskName} cancelled.`, signal));
+                }
             });
         });
     }
@@ -0,0 +1,111 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { JUnitTestCaseStatus } from './junit-xml-parser';
+
+/**
+ * A test case found in the output of a test runner.
+ */
+export interface TestLogCase {
+    name: string;
+    status: JUnitTestCaseStatus;
+    durationMillis?: number;
+    output: string;
+}
+
+/**
+ * Splits test.log into the output of its test cases, for runners whose markers are known:
+ * gtest (`[ RUN      ] Foo.Bar` to `[       OK ] Foo.Bar (1 ms)`) and go test
+ * (`=== RUN   TestFoo` to `--- PASS: TestFoo (0.00s)`).
+ */
+export class TestLogParser {
+    private static readonly gtestStartRegex = /^\[ RUN {6}\] (\S+)$/;
+    private static readonly gtestEndRegex = /^\[ +(OK|FAILED|SKIPPED) +\] (\S+)(?: \((\d+) ms\))?/;
+    private static readonly goStartRegex = /^=== RUN\s+(\S+)$/;
+    private static readonly goEndRegex = /^\s*--- (PASS|FAIL|SKIP): (\S+) \(([\d.]+)s\)$/;
+
+    public static parse(log: string): TestLogCase[] {
+        const testCases: Map<string, TestLogCase> = new Map();
+        const running: Map<string, string[]> = new Map();
+        // Go prints the logs of a test case indented below its result
+        let lastGoTestCase: TestLogCase | undefined;
+
+        log.split(/\r?\n/).forEach(line => {
+            const start = line.match(this.gtestStartRegex) || line.match(this.goStartRegex);
+            if (start) {
+                running.set(start[1], []);
+                lastGoTestCase = undefined;
+                return;
+            }
+
+            const gtestEnd = line.match(this.gtestEndRegex);
+            if (gtestEnd && running.has(gtestEnd[2])) {
+                const output = running.get(gtestEnd[2]) as string[];
+                running.delete(gtestEnd[2]);
+                testCases.set(gtestEnd[2], {
+                    name: gtestEnd[2],
+                    status: this.toStatus(gtestEnd[1]),
+                    durationMillis: gtestEnd[3] !== undefined ? Number(gtestEnd[3]) : undefined,
+                    output: output.join('\n')
+                });
+                return;
+            }
+
+            const goEnd = line.match(this.goEndRegex);
+            if (goEnd) {
+                const output = running.get(goEnd[2]) || [];
+                running.delete(goEnd[2]);
+                lastGoTestCase = {
+                    name: goEnd[2],
+                    status: this.toStatus(goEnd[1]),
+                    durationMillis: Math.round(Number(goEnd[3]) * 1000),
+                    output: output.join('\n')
+                };
+                testCases.set(goEnd[2], lastGoTestCase);
+                return;
+            }
+
+            if (lastGoTestCase && /^\s+\S/.test(line)) {
+                lastGoTestCase.output = lastGoTestCase.output ? `${lastGoTestCase.output}\n${line}` : line;
+                return;
+            }
+            lastGoTestCase = undefined;
+            running.forEach(output => output.push(line));
+        });
+
+        // Test cases that never ended crashed the test
+        running.forEach((output, name) => {
+            testCases.set(name, { name, status: 'failed', output: output.join('\n') });
+        });
+        return Array.from(testCases.values());
+    }
+
+    private static toStatus(result: string): JUnitTestCaseStatus {
+        if (result === 'OK' || result === 'PASS') {
+            return 'passed';
+        } else if (result === 'SKIPPED' || result === 'SKIP') {
+            return 'skipped';
+        }
+        return 'failed';
+    }
+}
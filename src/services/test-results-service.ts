@@ -0,0 +1,279 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelParser } from './bazel-parser';
+import { Console } from './console';
+import { ExecrootPathMapper } from './execroot-path-mapper';
+import { JUnitTestCase, JUnitXmlParser } from './junit-xml-parser';
+import { TestLogCase, TestLogParser } from './test-log-parser';
+import { BazelInvocationManager } from '../models/bazel-invocation-manager';
+import { BazelTarget } from '../models/bazel-target';
+import { BazelTestCaseAttempt, BazelTestCaseResult, BazelTestLog, BazelTestOutputInfo, BazelTestResults, BazelTestSourceLocation } from '../models/bazel-test-results';
+import { BazelTestResultsManager } from '../models/bazel-test-results-manager';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Reads the results of test targets from the test.xml and test.log files bazel writes to
+ * bazel-testlogs, including those of every shard, run (--runs_per_test) and attempt
+ * (--flaky_test_attempts).
+ */
+export class TestResultsService {
+    private static readonly maxLocationsPerTestCase = 20;
+    // E.g. `File "foo/bar_test.py", line 12` of python tracebacks
+    private static readonly pythonLocationRegex = /File "(.+?)", line (\d+)/g;
+    // E.g. `foo/bar_test.cc:12: Failure` of gtest or `    bar_test.go:12: got 1` of go test
+    private static readonly locationRegex = /(\/?(?:[\w.+@-]+\/)*[\w.+@-]+\.[A-Za-z]\w*):(\d+)(?::(\d+))?/g;
+
+    constructor(private readonly bazelInvocationManager: BazelInvocationManager,
+        private readonly bazelTestResultsManager: BazelTestResultsManager
+    ) { }
+
+    /**
+     * Reads the test results of a target and keeps them as its latest results.
+     */
+    public async updateTestResults(target: BazelTarget): Promise<BazelTestResults | undefined> {
+        const testResults = await this.readTestResults(target);
+        this.bazelTestResultsManager.setTestResults(target, testResults);
+        return testResults;
+    }
+
+    /**
+     * Reads the test results of a target after it ran.
+     * @returns The results or undefined if the target has no test outputs.
+     */
+    public async readTestResults(target: BazelTarget): Promise<BazelTestResults | undefined> {
+        const invocation = this.bazelInvocationManager.getLastInvocation(target);
+        if (invocation && invocation.isFinished() && invocation.getTestAttempts().length === 0) {
+            // No test ran, e.g. the build failed, so the test logs are left from an earlier run
+            return undefined;
+        }
+
+        const testLogsDirectory = TestResultsService.getTestLogsDirectory(target);
+        const outputs = await TestResultsService.findOutputs(testLogsDirectory);
+        if (outputs.length === 0) {
+            return undefined;
+        }
+
+        const resultsId = BazelTestResults.getId(target.id);
+        const attemptsByTestCase: Map<string, { name: string, classname: string, attempts: BazelTestCaseAttempt[] }> = new Map();
+        const testLogs: BazelTestLog[] = [];
+        for (const info of outputs) {
+            const testCases = await TestResultsService.readTestCases(target, info);
+            testCases.forEach(({ name, classname, attempt }) => {
+                const key = classname ? `${classname}.${name}` : name;
+                const testCase = attemptsByTestCase.get(key) || { name, classname, attempts: [] };
+                testCase.attempts.push(attempt);
+                attemptsByTestCase.set(key, testCase);
+            });
+            if (info.testLogPath) {
+                testLogs.push(new BazelTestLog(resultsId, info));
+            }
+        }
+
+        const packageDirectory = path.dirname(path.join(target.getWorkspaceRoot(), TestResultsService.getTestPath(target)));
+        const testCases = Array.from(attemptsByTestCase.values()).map(({ name, classname, attempts }) => {
+            const testCase = new BazelTestCaseResult(resultsId, name, classname, attempts);
+            const failure = testCase.getFailure();
+            if (failure) {
+                const text = [failure.message, failure.stackTrace, failure.output].filter(part => part).join('\n');
+                testCase.locations = TestResultsService.findSourceLocations(text, testCase.id, target.getWorkspaceRoot(), packageDirectory);
+            }
+            return testCase;
+        });
+        return new BazelTestResults(target.id, target.bazelPath, testCases, testLogs);
+    }
+
+    /**
+     * Finds the references to workspace files in the output of a test, e.g. of assertions and stack frames.
+     * @param text The output of the test.
+     * @param parentId The id of the test case the locations belong to.
+     * @param workspaceRoot The directory bazel ran in.
+     * @param packageDirectory The directory of the test's package, which go test prints paths relative to.
+     */
+    public static findSourceLocations(text: string, parentId: string, workspaceRoot: string, packageDirectory: string): BazelTestSourceLocation[] {
+        const locations: Map<string, BazelTestSourceLocation> = new Map();
+        const filePaths: Map<string, string | undefined> = new Map();
+        const resolve = (printedPath: string): string | undefined => {
+            if (!filePaths.has(printedPath)) {
+                const candidates = [
+                    ExecrootPathMapper.toWorkspacePath(printedPath, workspaceRoot),
+                    path.join(packageDirectory, printedPath)
+                ];
+                filePaths.set(printedPath, candidates.find(candidate => {
+                    const relativePath = path.relative(workspaceRoot, candidate);
+                    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath) && this.isFile(candidate);
+                }));
+            }
+            return filePaths.get(printedPath);
+        };
+
+        text.split(/\r?\n/).forEach(line => {
+            [this.pythonLocationRegex, this.locationRegex].forEach(regex => {
+                let match;
+                const lineRegex = new RegExp(regex);
+                while ((match = lineRegex.exec(line)) !== null && locations.size < this.maxLocationsPerTestCase) {
+                    const filePath = resolve(match[1]);
+                    if (filePath) {
+                        const location = new BazelTestSourceLocation(parentId, filePath, Number(match[2]),
+                            match[3] !== undefined ? Number(match[3]) : undefined, line.trim());
+                        if (!locations.has(location.id)) {
+                            locations.set(location.id, location);
+                        }
+                    }
+                }
+            });
+        });
+        return Array.from(locations.values());
+    }
+
+    /**
+     * Returns the directory of a target's test outputs, e.g. <workspace>/bazel-testlogs/foo/bar_test.
+     */
+    public static getTestLogsDirectory(target: BazelTarget): string {
+        return path.join(target.getWorkspaceRoot(), 'bazel-testlogs', TestResultsService.getTestPath(target));
+    }
+
+    // The path of the target relative to the workspace, e.g. foo/bar_test
+    private static getTestPath(target: BazelTarget): string {
+        const packagePath = BazelParser.getPackageFromBazelPath(target.bazelPath).replace(/^\/\//, '');
+        return path.join(...packagePath.split('/'), target.label);
+    }
+
+    /**
+     * Finds the outputs of the shards, runs and attempts below a directory of bazel-testlogs.
+     * Earlier attempts are kept in test_attempts, while test.xml and test.log are of the last attempt.
+     */
+    private static async findOutputs(directory: string, info: BazelTestOutputInfo = {}): Promise<BazelTestOutputInfo[]> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        } catch (error) {
+            return [];
+        }
+
+        const outputs: BazelTestOutputInfo[] = [];
+        const names = new Set(entries.map(entry => entry.name));
+        if (names.has('test_attempts')) {
+            const attempts: Map<number, BazelTestOutputInfo> = new Map();
+            try {
+                (await fs.promises.readdir(path.join(directory, 'test_attempts'))).forEach(name => {
+                    const match = name.match(/^attempt_(\d+)\.(xml|log)$/);
+                    if (match) {
+                        const attempt = attempts.get(Number(match[1])) || { ...info, attempt: Number(match[1]) };
+                        const filePath = path.join(directory, 'test_attempts', name);
+                        if (match[2] === 'xml') {
+                            attempt.testXmlPath = filePath;
+                        } else {
+                            attempt.testLogPath = filePath;
+                        }
+                        attempts.set(Number(match[1]), attempt);
+                    }
+                });
+            } catch (error) {
+                Console.warn(`Cannot read the test attempts in ${directory}:`, error);
+            }
+            outputs.push(...Array.from(attempts.values()).sort((a, b) => (a.attempt || 0) - (b.attempt || 0)));
+        }
+
+        if (names.has('test.xml') || names.has('test.log')) {
+            const lastAttempt = outputs.length > 0 ? Math.max(...outputs.map(output => output.attempt || 0)) + 1 : undefined;
+            outputs.push({
+                ...info,
+                attempt: lastAttempt,
+                testXmlPath: names.has('test.xml') ? path.join(directory, 'test.xml') : undefined,
+                testLogPath: names.has('test.log') ? path.join(directory, 'test.log') : undefined
+            });
+        }
+
+        for (const entry of entries.filter(entry => entry.isDirectory())) {
+            const shardMatch = entry.name.match(/^shard_(\d+)_of_\d+$/);
+            const runMatch = entry.name.match(/^run_(\d+)_of_\d+$/);
+            if (shardMatch) {
+                outputs.push(...await this.findOutputs(path.join(directory, entry.name), { ...info, shard: Number(shardMatch[1]) }));
+            } else if (runMatch) {
+                outputs.push(...await this.findOutputs(path.join(directory, entry.name), { ...info, run: Number(runMatch[1]) }));
+            }
+        }
+        return outputs;
+    }
+
+    /**
+     * Reads the test cases of one output. The test cases are taken from test.log if test.xml was
+     * generated by bazel for a runner without XML output, which has a single test case named after the target.
+     */
+    private static async readTestCases(target: BazelTarget, info: BazelTestOutputInfo):
+        Promise<{ name: string, classname: string, attempt: BazelTestCaseAttempt }[]> {
+        const xmlTestCases = info.testXmlPath ? await this.readFile(info.testXmlPath, content => JUnitXmlParser.parse(content)) : [];
+        const logTestCases = info.testLogPath ? await this.readFile(info.testLogPath, content => TestLogParser.parse(content)) : [];
+
+        const testPath = this.getTestPath(target).split(path.sep).join('/');
+        const isGenerated = xmlTestCases.length === 1 && xmlTestCases[0].name === testPath;
+        if (logTestCases.length > 0 && (xmlTestCases.length === 0 || isGenerated)) {
+            return logTestCases.map(logTestCase => ({
+                name: logTestCase.name,
+                classname: '',
+                attempt: {
+                    status: logTestCase.status,
+                    durationMillis: logTestCase.durationMillis,
+                    output: logTestCase.output,
+                    info: info
+                }
+            }));
+        }
+
+        const logOutputs: Map<string, TestLogCase> = new Map(logTestCases.map(logTestCase => [logTestCase.name, logTestCase]));
+        return xmlTestCases.map((xmlTestCase: JUnitTestCase) => {
+            const logTestCase = logOutputs.get(`${xmlTestCase.classname}.${xmlTestCase.name}`) || logOutputs.get(xmlTestCase.name);
+            return {
+                name: xmlTestCase.name,
+                classname: xmlTestCase.classname,
+                attempt: {
+                    status: xmlTestCase.status,
+                    durationMillis: xmlTestCase.durationMillis,
+                    message: xmlTestCase.message,
+                    stackTrace: xmlTestCase.details,
+                    output: xmlTestCase.output || logTestCase?.output,
+                    info: info
+                }
+            };
+        });
+    }
+
+    private static async readFile<T>(filePath: string, parse: (content: string) => T[]): Promise<T[]> {
+        try {
+            return parse(await fs.promises.readFile(filePath, 'utf8'));
+        } catch (error) {
+            Console.error(`Error reading ${filePath}:`, error);
+            return [];
+        }
+    }
+
+    private static isFile(filePath: string): boolean {
+        try {
+            return fs.statSync(filePath).isFile();
+        } catch (error) {
+            return false;
+        }
+    }
+}
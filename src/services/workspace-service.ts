@@ -22,10 +22,37 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 
+import { createHashFromIds } from './string-utils';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 
+/**
+ * Workspace state of a single workspace folder, stored in the workspace state
+ * of the extension under keys prefixed by the folder.
+ */
+class WorkspaceFolderMemento implements vscode.Memento {
+    constructor(private readonly memento: vscode.Memento,
+        private readonly prefix: string) { }
+
+    public keys(): readonly string[] {
+        return this.memento.keys()
+            .filter(key => key.startsWith(this.prefix))
+            .map(key => key.substring(this.prefix.length));
+    }
+
+    public get<T>(key: string): T | undefined;
+    public get<T>(key: string, defaultValue: T): T;
+    public get<T>(key: string, defaultValue?: T): T | undefined {
+        const value = this.memento.get<T>(`${this.prefix}${key}`);
+        return value !== undefined ? value : defaultValue;
+    }
+
+    public update(key: string, value: unknown): Thenable<void> {
+        return this.memento.update(`${this.prefix}${key}`, value);
+    }
+}
+
 export class WorkspaceService {
     // Static instance for singleton pattern
     private static instance: WorkspaceService;
@@ -66,9 +93,72 @@ export class WorkspaceService {
         return this.workspaceFolder;
     }
 
-    public async getSubdirectoryPaths(root = '') {
+    // All open workspace folders, or the fallback folder if none is open
+    public getWorkspaceFolders(): vscode.WorkspaceFolder[] {
+        const folders = vscode.workspace.workspaceFolders;
+        if (folders && folders.length > 0) {
+            return [...folders];
+        }
+        return [this.workspaceFolder];
+    }
+
+    public isMultiRoot(): boolean {
+        return this.getWorkspaceFolders().length > 1;
+    }
+
+    public getWorkspaceFolderForUri(uri: vscode.Uri): vscode.WorkspaceFolder | undefined {
+        return vscode.workspace.getWorkspaceFolder(uri);
+    }
+
+    /**
+     * Gets the workspace folder the user is working in: the folder of the active
+     * editor, or the only workspace folder. Undefined if this cannot be decided.
+     */
+    public getActiveWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+        const textEditor = vscode.window.activeTextEditor;
+        if (textEditor) {
+            const folder = this.getWorkspaceFolderForUri(textEditor.document.uri);
+            if (folder) {
+                return folder;
+            }
+        }
+        const folders = this.getWorkspaceFolders();
+        return folders.length === 1 ? folders[0] : undefined;
+    }
+
+    /**
+     * Gets a key that identifies the workspace folder in stored state and tree item ids.
+     * The first workspace folder has an empty key so that its state is the same as
+     * when it is opened on its own.
+     */
+    public getWorkspaceFolderKey(workspaceFolder: vscode.WorkspaceFolder): string {
+        if (workspaceFolder.uri.toString() === this.workspaceFolder.uri.toString()) {
+            return '';
+        }
+        return createHashFromIds([{ id: workspaceFolder.uri.toString() }]);
+    }
+
+    /**
+     * Creates an extension context whose workspace state and storage only belong to the
+     * given workspace folder. Everything else is shared with the extension context.
+     */
+    public createWorkspaceFolderContext(context: vscode.ExtensionContext,
+        workspaceFolder: vscode.WorkspaceFolder): vscode.ExtensionContext {
+        const key = this.getWorkspaceFolderKey(workspaceFolder);
+        if (key === '') {
+            return context;
+        }
+
+        const storageUri = context.storageUri ? vscode.Uri.joinPath(context.storageUri, 'folders', key) : undefined;
+        return Object.create(context, {
+            workspaceState: { value: new WorkspaceFolderMemento(context.workspaceState, `${key}/`) },
+            storageUri: { value: storageUri }
+        });
+    }
+
+    public async getSubdirectoryPaths(root = '', workspaceFolder = this.workspaceFolder) {
         const all = '/' + path.join('/', root, '...');
-        const absoluteRoot = path.join(WorkspaceService.getInstance().getWorkspaceFolder().uri.path, root);
+        const absoluteRoot = path.join(workspaceFolder.uri.path, root);
 
         return fs.promises.readdir(absoluteRoot, { withFileTypes: true }).then((data) => {
             const res: string[] = new Array(data.length + 1);
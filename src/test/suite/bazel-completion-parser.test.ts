@@ -0,0 +1,64 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelCompletionParser } from '../../services/bazel-completion-parser';
+import { readFixture } from '../fixtures';
+import * as assert from 'assert';
+
+suite('Bazel Completion Parser Tests', () => {
+    test('Commands are listed in order with their arguments', () => {
+        const commands = BazelCompletionParser.parse(readFixture('bazel-help-completion.txt'));
+
+        assert.strictEqual(commands.length, 22);
+        assert.deepStrictEqual(commands[0], { name: 'analyze-profile', argument: 'path' });
+        assert.deepStrictEqual(commands.find(command => command.name === 'clean'), { name: 'clean', argument: undefined });
+        assert.deepStrictEqual(commands.find(command => command.name === 'run'), { name: 'run', argument: 'label-bin' });
+    });
+
+    test('Dashes in command names map to underscores in argument variables', () => {
+        const commands = BazelCompletionParser.parse(readFixture('bazel-help-completion.txt'));
+
+        assert.strictEqual(commands.find(command => command.name === 'mobile-install')?.argument, 'label');
+        assert.strictEqual(commands.find(command => command.name === 'print_action')?.argument, 'label');
+    });
+
+    test('Only commands taking labels or query expressions accept targets', () => {
+        const commands = BazelCompletionParser.parse(readFixture('bazel-help-completion.txt'));
+        const targetCommands = commands
+            .filter(command => BazelCompletionParser.acceptsTargets(command))
+            .map(command => command.name);
+
+        assert.deepStrictEqual(targetCommands,
+            ['aquery', 'build', 'coverage', 'cquery', 'fetch', 'mobile-install', 'print_action', 'query', 'run', 'test']);
+    });
+
+    test('Query commands accept targets even without a label argument', () => {
+        assert.ok(BazelCompletionParser.acceptsTargets({ name: 'cquery' }));
+        assert.ok(!BazelCompletionParser.acceptsTargets({ name: 'info', argument: 'info-key' }));
+    });
+
+    test('Output without a command list yields no commands', () => {
+        assert.deepStrictEqual(BazelCompletionParser.parse(''), []);
+        assert.deepStrictEqual(BazelCompletionParser.parse('ERROR: \'completion\' is not a known command.\n'), []);
+    });
+});
@@ -0,0 +1,78 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { DependencyGraphBuilder } from '../../services/bazel-dependency-graph';
+import { readFixture } from '../fixtures';
+import * as assert from 'assert';
+
+// A line of streamed jsonproto output for a rule depending on the given labels
+function ruleLine(label: string, inputs: string[]): string {
+    return JSON.stringify({ type: 'RULE', rule: { name: label, ruleClass: 'cc_library', location: `/ws/BUILD:${inputs.length}:1`, ruleInput: inputs } });
+}
+
+suite('Bazel Dependency Graph Tests', () => {
+    test('Generated files are replaced by the rules generating them', () => {
+        const builder = new DependencyGraphBuilder();
+        builder.addLine(ruleLine('//app:main', ['//app:version.h', '//app:main.cc']));
+        builder.addLine(JSON.stringify({ type: 'GENERATED_FILE', generatedFile: { name: '//app:version.h', generatingRule: '//app:version' } }));
+        builder.addLine(JSON.stringify({ type: 'SOURCE_FILE', sourceFile: { name: '//app:main.cc' } }));
+        builder.addLine(ruleLine('//app:version', []));
+
+        const graph = builder.build('//app:main');
+        assert.deepStrictEqual(graph.nodes.map(node => node.label), ['//app:main', '//app:version']);
+        assert.deepStrictEqual(graph.edges, [{ from: '//app:main', to: '//app:version' }]);
+        assert.strictEqual(graph.truncated, false);
+    });
+
+    test('Truncated graphs keep the rules closest to the root', () => {
+        const builder = new DependencyGraphBuilder(false, 3);
+        // Query output lists the deepest dependencies first
+        builder.addLine(ruleLine('//lib:leaf', []));
+        builder.addLine(ruleLine('//lib:deep', ['//lib:leaf']));
+        builder.addLine(ruleLine('//lib:util', ['//lib:deep']));
+        builder.addLine(ruleLine('//lib:base', []));
+        builder.addLine(ruleLine('//app:main', ['//lib:util', '//lib:base']));
+
+        const graph = builder.build('//app:main');
+        assert.deepStrictEqual(graph.nodes.map(node => node.label), ['//app:main', '//lib:util', '//lib:base']);
+        assert.deepStrictEqual(graph.edges, [{ from: '//app:main', to: '//lib:util' }, { from: '//app:main', to: '//lib:base' }]);
+        assert.strictEqual(graph.truncated, true);
+    });
+
+    test('Graph output is read without kinds, leaving out external rules if asked', () => {
+        const builder = new DependencyGraphBuilder(true);
+        readFixture('query-graph-output.txt').split('\n').forEach(line => builder.addGraphLine(line));
+
+        const graph = builder.build('//app:main');
+        assert.deepStrictEqual(graph.nodes.map(node => `${node.label} ${node.ruleClass}`), ['//app:main rule', '//lib:util rule', '//lib:base rule']);
+        assert.deepStrictEqual(graph.edges, [{ from: '//app:main', to: '//lib:util' }, { from: '//lib:util', to: '//lib:base' }]);
+    });
+
+    test('External rules are kept unless left out', () => {
+        const builder = new DependencyGraphBuilder(false);
+        readFixture('query-graph-output.txt').split('\n').forEach(line => builder.addGraphLine(line));
+
+        const external = builder.build('//app:main').nodes.find(node => node.label.startsWith('@'));
+        assert.ok(external?.isExternal);
+    });
+});
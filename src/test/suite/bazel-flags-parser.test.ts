@@ -0,0 +1,106 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelFlagsParser } from '../../services/bazel-flags-parser';
+import { readFixture } from '../fixtures';
+import * as assert from 'assert';
+
+suite('Bazel Flags Parser Tests', () => {
+    test('Flags are decoded from help flags-as-proto and sorted by name', () => {
+        const flags = BazelFlagsParser.parseFlagsAsProto(readFixture('bazel-help-flags-as-proto.txt'));
+
+        assert.deepStrictEqual(flags.map(flag => flag.name), ['action_env', 'compilation_mode', 'keep_going']);
+        assert.deepStrictEqual(flags[2], {
+            name: 'keep_going',
+            hasNegativeFlag: true,
+            documentation: 'Continue as much as possible after an error.',
+            commands: ['build', 'test'],
+            abbreviation: 'k',
+            allowsMultiple: false,
+            requiresValue: false,
+            documentationCategory: 'misc',
+            typeConverter: 'com.google.devtools.common.options.Converters$BooleanConverter'
+        });
+    });
+
+    test('Lengths of more than one varint byte are read', () => {
+        const flags = BazelFlagsParser.parseFlagsAsProto(readFixture('bazel-help-flags-as-proto.txt'));
+        const compilationMode = flags.find(flag => flag.name === 'compilation_mode');
+
+        assert.ok(compilationMode);
+        assert.ok(compilationMode.documentation.length > 127);
+        assert.ok(compilationMode.documentation.endsWith('which makes it harder to debug.'));
+        assert.deepStrictEqual(compilationMode.commands, ['build', 'test', 'run']);
+        assert.strictEqual(compilationMode.requiresValue, true);
+        assert.strictEqual(compilationMode.typeConverter, 'com.google.devtools.build.lib.analysis.config.CompilationMode$Converter');
+    });
+
+    test('Unknown fields of every wire type are skipped', () => {
+        // The fixture holds a varint above 2^32 between the flags and fixed32 and fixed64 fields in action_env
+        const flags = BazelFlagsParser.parseFlagsAsProto(readFixture('bazel-help-flags-as-proto.txt'));
+        const actionEnv = flags.find(flag => flag.name === 'action_env');
+
+        assert.strictEqual(flags.length, 3);
+        assert.ok(actionEnv);
+        assert.strictEqual(actionEnv.allowsMultiple, true);
+        assert.strictEqual(actionEnv.requiresValue, true);
+    });
+
+    test('Truncated output is rejected', () => {
+        const output = Buffer.from(readFixture('bazel-help-flags-as-proto.txt').trim(), 'base64');
+
+        assert.throws(() => BazelFlagsParser.parseFlagsAsProto(output.subarray(0, 40).toString('base64')), /Truncated length delimited field/);
+        // A varint whose last byte still has the continuation bit set
+        assert.throws(() => BazelFlagsParser.parseFlagsAsProto(Buffer.from([0x08, 0x80]).toString('base64')), /Truncated varint/);
+    });
+
+    test('Empty output yields no flags', () => {
+        assert.deepStrictEqual(BazelFlagsParser.parseFlagsAsProto(''), []);
+    });
+
+    test('Types and defaults are read from the long help of a command', () => {
+        const flags = BazelFlagsParser.parseCommandHelp(readFixture('bazel-help-build.txt'));
+
+        assert.deepStrictEqual(flags.get('keep_going'), { valueDescription: 'a boolean', defaultValue: 'false', allowedValues: undefined });
+        assert.deepStrictEqual(flags.get('compilation_mode'), {
+            valueDescription: 'fastbuild, dbg or opt',
+            defaultValue: 'fastbuild',
+            allowedValues: ['fastbuild', 'dbg', 'opt']
+        });
+        assert.deepStrictEqual(flags.get('cache_test_results')?.allowedValues, ['auto', 'yes', 'no']);
+        assert.deepStrictEqual(flags.get('color')?.allowedValues, ['yes', 'no', 'auto']);
+    });
+
+    test('Flags without a default or with parentheses in their description are read', () => {
+        const flags = BazelFlagsParser.parseCommandHelp(readFixture('bazel-help-build.txt'));
+
+        assert.deepStrictEqual(flags.get('action_env'), {
+            valueDescription: 'a \'name=value\' assignment with an optional value part',
+            defaultValue: undefined,
+            allowedValues: undefined
+        });
+        assert.strictEqual(flags.get('jobs')?.defaultValue, 'auto');
+        assert.strictEqual(flags.get('jobs')?.allowedValues, undefined);
+        assert.strictEqual(flags.has('distdir'), true);
+    });
+});
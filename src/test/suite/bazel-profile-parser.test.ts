@@ -0,0 +1,88 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelProfileParser } from '../../services/bazel-profile-parser';
+import { readFixture } from '../fixtures';
+import * as assert from 'assert';
+
+suite('Bazel Profile Parser Tests', () => {
+    test('The phases of the build last until the next one starts', () => {
+        const summary = BazelProfileParser.parse(readFixture('profile/build-profile.json'));
+
+        assert.strictEqual(summary.bazelVersion, 'release 7.1.0');
+        assert.strictEqual(summary.totalMillis, 1950);
+        assert.deepStrictEqual(summary.phases.map(phase => [phase.name, phase.durationMillis]), [
+            ['Launch Blaze', 100],
+            ['Initialize command', 50],
+            ['Load and analyze dependencies', 250],
+            ['Prepare for build', 50],
+            ['Build artifacts', 1450],
+            ['Complete build', 50]
+        ]);
+    });
+
+    test('The critical path is listed in the order it ran and left out of the categories', () => {
+        const summary = BazelProfileParser.parse(readFixture('profile/build-profile.json'));
+
+        assert.deepStrictEqual(summary.criticalPath.map(event => [event.name, event.startMillis, event.durationMillis]), [
+            ['action \'Compiling math/math.cc\'', 500, 700],
+            ['action \'Linking app/main\'', 1250, 600]
+        ]);
+        assert.deepStrictEqual(summary.categories, [
+            { name: 'action processing', durationMillis: 1600, count: 3 },
+            { name: 'general information', durationMillis: 1500, count: 2 },
+            { name: 'package creation', durationMillis: 120, count: 2 }
+        ]);
+    });
+
+    test('The slowest actions are kept with their mnemonic and target', () => {
+        const summary = BazelProfileParser.parse(readFixture('profile/build-profile.json'), 2);
+
+        assert.strictEqual(summary.actionCount, 3);
+        assert.deepStrictEqual(summary.slowestActions, [
+            { name: 'Compiling math/math.cc', category: 'action processing', startMillis: 500, durationMillis: 700, mnemonic: 'CppCompile', targetLabel: '//math:math' },
+            { name: 'Linking app/main', category: 'action processing', startMillis: 1250, durationMillis: 600, mnemonic: 'CppLink', targetLabel: '//app:main' }
+        ]);
+    });
+
+    test('Profiles may be a plain array of events on a named critical path thread', () => {
+        const summary = BazelProfileParser.parse(JSON.stringify([
+            { name: 'thread_name', ph: 'M', tid: 7, args: { name: 'Critical Path' } },
+            { cat: 'action processing', name: 'Genrule', ph: 'X', ts: 2000, dur: 3000, tid: 1 },
+            { name: 'Genrule', ph: 'X', ts: 2000, dur: 3000, tid: 7 }
+        ]));
+
+        assert.strictEqual(summary.bazelVersion, undefined);
+        assert.strictEqual(summary.totalMillis, 3);
+        assert.deepStrictEqual(summary.criticalPath.map(event => event.name), ['Genrule']);
+        assert.strictEqual(summary.actionCount, 1);
+    });
+
+    test('Profiles without events are empty', () => {
+        const summary = BazelProfileParser.parse('{"traceEvents": []}');
+
+        assert.strictEqual(summary.totalMillis, 0);
+        assert.deepStrictEqual(summary.phases, []);
+        assert.deepStrictEqual(summary.categories, []);
+    });
+});
@@ -0,0 +1,98 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelrcParser } from '../../services/bazelrc-parser';
+import { getFixturePath } from '../fixtures';
+import * as assert from 'assert';
+import * as path from 'path';
+
+suite('Bazelrc Parser Tests', () => {
+    const workspaceRoot = getFixturePath('bazelrc');
+    const parseMainFile = () => BazelrcParser.parseFile(path.join(workspaceRoot, 'main.bazelrc'), workspaceRoot);
+
+    test('Imported files are parsed in place', async () => {
+        const entries = await parseMainFile();
+
+        assert.deepStrictEqual(entries.map(entry => `${path.basename(entry.file)}:${entry.line}`), [
+            'main.bazelrc:2',
+            'common.bazelrc:1',
+            'cycle.bazelrc:4',
+            'common.bazelrc:3',
+            'main.bazelrc:6',
+            'main.bazelrc:8',
+            'main.bazelrc:9'
+        ]);
+    });
+
+    test('Import and try-import cycles are parsed once', async () => {
+        const entries = await parseMainFile();
+        const files = entries.map(entry => path.basename(entry.file));
+
+        assert.strictEqual(files.filter(file => file === 'cycle.bazelrc').length, 1);
+        assert.strictEqual(entries.filter(entry => entry.config === 'ci').length, 1);
+        assert.strictEqual(entries.filter(entry => entry.args.includes('--enable_bzlmod')).length, 1);
+    });
+
+    test('A missing try-import is skipped', async () => {
+        const entries = await parseMainFile();
+
+        assert.ok(entries.every(entry => path.basename(entry.file) !== 'user.bazelrc'));
+        assert.deepStrictEqual(await BazelrcParser.parseFile(path.join(workspaceRoot, 'user.bazelrc'), workspaceRoot, new Set(), true), []);
+    });
+
+    test('Continued lines, quotes and comments are split into arguments', async () => {
+        const entries = await parseMainFile();
+
+        assert.deepStrictEqual(entries.find(entry => entry.config === 'debug' && entry.command === 'build'), {
+            command: 'build',
+            config: 'debug',
+            args: ['--compilation_mode=dbg', '--copt=-g3 -O0'],
+            file: path.join(workspaceRoot, 'main.bazelrc'),
+            line: 6
+        });
+        assert.deepStrictEqual(entries.find(entry => entry.config === 'asan')?.args, ['--copt=-fsanitize=address']);
+    });
+
+    test('Configs are expanded for a command with the configs they refer to', async () => {
+        const entries = await parseMainFile();
+
+        assert.deepStrictEqual(BazelrcParser.getConfigNames(entries), ['asan', 'ci', 'debug']);
+        assert.deepStrictEqual(BazelrcParser.getConfigCommands(entries, 'debug'), ['build', 'test']);
+        assert.deepStrictEqual(BazelrcParser.expandConfig(entries, 'debug', 'build'), ['--compilation_mode=dbg', '--copt=-g3 -O0']);
+        assert.deepStrictEqual(BazelrcParser.expandConfig(entries, 'debug', 'test'),
+            ['--compilation_mode=dbg', '--copt=-g3 -O0', '--copt=-fsanitize=address', '--test_output=errors']);
+    });
+
+    test('Options set without a config are collected', async () => {
+        const entries = await parseMainFile();
+
+        assert.deepStrictEqual(BazelrcParser.getOptionValues(entries, 'deleted_packages', ['build']), ['foo/bar,foo/baz']);
+        assert.deepStrictEqual(BazelrcParser.getOptionValues(entries, 'enable_bzlmod'), []);
+        assert.deepStrictEqual(BazelrcParser.getOptionValues(entries, 'keep_going', ['build']), []);
+    });
+
+    test('Commands inherit the lines of their parent commands', () => {
+        assert.deepStrictEqual(BazelrcParser.getApplicableCommands('coverage'), ['always', 'common', 'build', 'test', 'coverage']);
+        assert.deepStrictEqual(BazelrcParser.getApplicableCommands('version'), ['always', 'common', 'version']);
+    });
+});
@@ -0,0 +1,148 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelInvocation } from '../../models/bazel-invocation';
+import { BuildEvent, BuildEventParser } from '../../services/build-event-parser';
+import { readFixture } from '../fixtures';
+import * as assert from 'assert';
+
+function parseFixture(): BuildEvent[] {
+    return readFixture('build-events.json').split('\n')
+        .map(line => BuildEventParser.parseLine(line))
+        .filter((event): event is BuildEvent => event !== undefined);
+}
+
+function createInvocation(): BazelInvocation {
+    const invocation = new BazelInvocation('target-id', 'test', 'bazel test //app:main_test', '/ws');
+    parseFixture().forEach(event => invocation.apply(event));
+    return invocation;
+}
+
+suite('Build Event Parser Tests', () => {
+    test('Only lines holding a build event are parsed', () => {
+        assert.strictEqual(parseFixture().length, 18);
+        assert.strictEqual(BuildEventParser.parseLine(''), undefined);
+        assert.strictEqual(BuildEventParser.parseLine('   '), undefined);
+        assert.strictEqual(BuildEventParser.parseLine('{"progress":{}}'), undefined);
+        assert.strictEqual(BuildEventParser.parseLine('null'), undefined);
+        assert.deepStrictEqual(BuildEventParser.parseLine('  {"id":{"buildFinished":{}}}\r'), { id: { buildFinished: {} } });
+    });
+
+    test('Only local files have a path', () => {
+        assert.strictEqual(BuildEventParser.toFilePath({ uri: 'file:///ws/bazel-out/k8-fastbuild/bin/app/main' }), '/ws/bazel-out/k8-fastbuild/bin/app/main');
+        assert.strictEqual(BuildEventParser.toFilePath({ uri: 'file:///ws/my%20app/main' }), '/ws/my app/main');
+        assert.strictEqual(BuildEventParser.toFilePath({ uri: 'bytestream://remote.cache/blobs/1234/56' }), undefined);
+        assert.strictEqual(BuildEventParser.toFilePath({ name: 'main' }), undefined);
+        assert.strictEqual(BuildEventParser.toFilePath(undefined), undefined);
+    });
+
+    test('Int64 values are read from strings', () => {
+        assert.strictEqual(BuildEventParser.toNumber('1700000004000'), 1700000004000);
+        assert.strictEqual(BuildEventParser.toNumber(12), 12);
+        assert.strictEqual(BuildEventParser.toNumber('not a number'), undefined);
+        assert.strictEqual(BuildEventParser.toNumber(undefined), undefined);
+    });
+
+    test('Invocations read their command and exit code', () => {
+        const invocation = createInvocation();
+        assert.strictEqual(invocation.invocationId, '6b9c8c7e-3f1a-4d52-9a6e-0c1d2e3f4a5b');
+        assert.strictEqual(invocation.bazelCommand, 'test');
+        assert.deepStrictEqual(invocation.exitCode, { name: 'BUILD_FAILURE', code: 1 });
+        assert.strictEqual(invocation.finishTime, 1700000004000);
+        assert.strictEqual(invocation.isSuccess(), false);
+        assert.strictEqual(invocation.isFinished(), true);
+    });
+
+    test('Target results leave out aspects and keep why targets were aborted', () => {
+        const invocation = createInvocation();
+        assert.deepStrictEqual(invocation.getTargetResults(), [
+            { label: '//app:main', kind: 'cc_binary rule', success: true, failureMessage: undefined },
+            { label: '//app:main_test', kind: 'cc_test rule' },
+            {
+                label: '//lib:broken',
+                success: false,
+                abortReason: 'ANALYSIS_FAILURE',
+                failureMessage: 'Analysis of target \'//lib:broken\' failed'
+            },
+            { label: '//app:legacy', success: true, failureMessage: undefined }
+        ]);
+    });
+
+    test('Output files are collected from nested file sets and important outputs', () => {
+        const invocation = createInvocation();
+        assert.deepStrictEqual(invocation.getOutputFiles('//app:main'), [
+            '/ws/bazel-out/k8-fastbuild/bin/app/main',
+            '/ws/bazel-out/k8-fastbuild/bin/app/libmain.a'
+        ]);
+        assert.deepStrictEqual(invocation.getOutputFiles('//app:legacy'), ['/ws/bazel-out/k8-fastbuild/bin/app/legacy']);
+        assert.deepStrictEqual(invocation.getOutputFiles('//lib:broken'), []);
+    });
+
+    test('Only failed actions are kept', () => {
+        const invocation = createInvocation();
+        assert.deepStrictEqual(invocation.getFailedActions(), [{
+            label: '//lib:util',
+            mnemonic: 'CppCompile',
+            exitCode: 1,
+            primaryOutputPath: '/ws/bazel-out/k8-fastbuild/bin/lib/_objs/util/util.o',
+            stdoutPath: undefined,
+            stderrPath: '/ws/bazel-out/_tmp/actions/stderr-1',
+            message: 'C++ compilation of rule \'//lib:util\' failed (Exit 1)'
+        }]);
+        assert.strictEqual(invocation.getOutput(),
+            'Loading: 0 packages loaded\nERROR: /ws/lib/BUILD:1:11: Compiling lib/util.cc failed\nlib/util.cc:3:1: error: expected \';\'\n');
+    });
+
+    test('Test attempts and summaries are read with their local outputs', () => {
+        const invocation = createInvocation();
+        const attempts = invocation.getTestAttempts('//app:main_test');
+        assert.deepStrictEqual(attempts.map(attempt => `${attempt.attempt} ${attempt.status} ${attempt.cached} ${attempt.durationMillis}`),
+            ['1 FAILED false 1520', '2 PASSED true 1490']);
+        assert.deepStrictEqual(attempts[1].outputs, { 'test.log': '/ws/bazel-out/k8-fastbuild/testlogs/app/main_test/test.log' });
+        assert.deepStrictEqual(invocation.getTestAttempts('//app:other_test'), []);
+
+        assert.deepStrictEqual(invocation.getTestSummaries(), [{
+            label: '//app:main_test',
+            status: 'FLAKY',
+            totalRunCount: 2,
+            shardCount: 1,
+            attemptCount: 2,
+            cachedCount: 0,
+            durationMillis: 3010,
+            passedLogPaths: ['/ws/bazel-out/k8-fastbuild/testlogs/app/main_test/test.log'],
+            failedLogPaths: ['/ws/bazel-out/k8-fastbuild/testlogs/app/main_test/attempts/attempt_1.log']
+        }]);
+    });
+
+    test('Cache statistics count remote cache hits', () => {
+        const invocation = createInvocation();
+        assert.deepStrictEqual(invocation.getCacheStatistics(), {
+            actionsCreated: 42,
+            actionsExecuted: 7,
+            actionCacheHits: 30,
+            actionCacheMisses: 5,
+            remoteCacheHits: 3
+        });
+        assert.strictEqual(invocation.summarize(), '1 of 3 targets failed, 1 action failed, 1 of 1 test passed, 7 of 42 actions executed');
+    });
+});
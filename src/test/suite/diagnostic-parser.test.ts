@@ -0,0 +1,97 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { DiagnosticParser } from '../../services/diagnostic-parser';
+import { readFixture } from '../fixtures';
+import * as assert from 'assert';
+
+suite('Diagnostic Parser Tests', () => {
+    test('Compiler output is read without colors or repeated diagnostics', () => {
+        const diagnostics = DiagnosticParser.parse(readFixture('diagnostics/cpp.txt'), 'cpp');
+        assert.deepStrictEqual(diagnostics, [
+            {
+                file: '/ws/app/BUILD.bazel',
+                line: 3,
+                column: 11,
+                severity: 'error',
+                message: 'Compiling app/main.cc failed: (Exit 1): gcc failed: error executing CppCompile command'
+            },
+            { file: 'app/main.cc', line: 5, column: 12, severity: 'error', message: '\'x\' was not declared in this scope' },
+            { file: '/proc/self/cwd/lib/util.h', line: 2, column: 10, severity: 'error', message: 'missing.h: No such file or directory' },
+            { file: 'bazel-out/k8-fastbuild/bin/lib/util.pb.h', line: 12, column: undefined, severity: 'warning', message: 'unused variable \'y\'' },
+            { file: 'lib/util.h', line: 1, column: 1, severity: 'info', message: 'in expansion of macro \'UTIL\'' }
+        ]);
+    });
+
+    test('Go diagnostics have no severity keyword', () => {
+        const diagnostics = DiagnosticParser.parse(readFixture('diagnostics/go.txt'), 'go');
+        assert.deepStrictEqual(diagnostics.map(diagnostic => `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`), [
+            '/ws/server/BUILD.bazel:4:11 GoCompilePkg server/server.a failed: (Exit 1): builder failed',
+            'server/server.go:12:5 undefined: handler',
+            'server/server.go:20:undefined missing return'
+        ]);
+    });
+
+    test('Language matchers are only used for the targets of their language', () => {
+        const diagnostics = DiagnosticParser.parse(readFixture('diagnostics/go.txt'), 'cpp');
+        assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.file), ['/ws/server/BUILD.bazel']);
+        assert.deepStrictEqual(DiagnosticParser.parse(readFixture('diagnostics/rust.txt')), []);
+    });
+
+    test('Python exceptions are reported at the innermost frame', () => {
+        const diagnostics = DiagnosticParser.parse(readFixture('diagnostics/python.txt'), 'python');
+        assert.deepStrictEqual(diagnostics, [
+            {
+                file: '/ws/bazel-out/k8-fastbuild/bin/tools/gen.runfiles/_main/tools/gen.py',
+                line: 12,
+                severity: 'error',
+                message: 'ValueError: bad input',
+                code: 'ValueError'
+            },
+            { file: 'tools/lint.py', line: 7, severity: 'error', message: 'SystemExit', code: 'SystemExit' }
+        ]);
+    });
+
+    test('Rust messages are reported at the location that follows them', () => {
+        const diagnostics = DiagnosticParser.parse(readFixture('diagnostics/rust.txt'), 'rust');
+        assert.deepStrictEqual(diagnostics, [
+            { file: 'src/main.rs', line: 2, column: 18, severity: 'error', message: 'mismatched types', code: 'E0308' },
+            { file: 'src/lib.rs', line: 10, column: 9, severity: 'warning', message: 'unused variable: `y`', code: undefined }
+        ]);
+    });
+
+    test('Both TypeScript formats are read', () => {
+        const diagnostics = DiagnosticParser.parse(readFixture('diagnostics/typescript.txt'), 'typescript');
+        assert.deepStrictEqual(diagnostics, [
+            { file: 'web/app.ts', line: 12, column: 5, severity: 'error', message: 'Type \'string\' is not assignable to type \'number\'.', code: 'TS2322' },
+            { file: 'web/util.tsx', line: 3, column: 1, severity: 'error', message: 'Cannot find name \'React\'.', code: 'TS2304' }
+        ]);
+    });
+
+    test('Problem matchers are only used for the languages VS Code knows', () => {
+        assert.deepStrictEqual(DiagnosticParser.getProblemMatchers('cpp'), ['$gcc']);
+        assert.deepStrictEqual(DiagnosticParser.getProblemMatchers('javascript'), ['$tsc']);
+        assert.deepStrictEqual(DiagnosticParser.getProblemMatchers('python'), []);
+        assert.deepStrictEqual(DiagnosticParser.getProblemMatchers(undefined), []);
+    });
+});
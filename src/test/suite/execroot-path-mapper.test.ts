@@ -0,0 +1,79 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { ExecrootPathMapper } from '../../services/execroot-path-mapper';
+import { getFixturePath } from '../fixtures';
+import * as assert from 'assert';
+import * as path from 'path';
+
+suite('Execroot Path Mapper Tests', () => {
+    const workspaceRoot = '/ws';
+
+    test('Relative paths are relative to the workspace', () => {
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('foo/bar.cc', workspaceRoot), '/ws/foo/bar.cc');
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('./foo/../foo/bar.cc', workspaceRoot), '/ws/foo/bar.cc');
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('bazel-out/k8-fastbuild/bin/foo/bar.pb.h', workspaceRoot),
+            '/ws/bazel-out/k8-fastbuild/bin/foo/bar.pb.h');
+    });
+
+    test('Paths inside the execroot are mapped to the workspace', () => {
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('/proc/self/cwd/foo/bar.cc', workspaceRoot), '/ws/foo/bar.cc');
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('/home/user/.cache/bazel/_bazel_user/1a2b/execroot/_main/foo/bar.cc', workspaceRoot),
+            '/ws/foo/bar.cc');
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('/home/user/.cache/bazel/_bazel_user/1a2b/sandbox/linux-sandbox/7/execroot/my_ws/foo/bar.cc',
+            workspaceRoot), '/ws/foo/bar.cc');
+    });
+
+    test('Runfiles of the main repository are mapped to the workspace', () => {
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('/ws/bazel-out/k8-fastbuild/bin/foo/foo_test.runfiles/_main/foo/foo_test.py', workspaceRoot),
+            '/ws/foo/foo_test.py');
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('/ws/bazel-out/k8-fastbuild/bin/foo/foo_test.runfiles/__main__/foo/foo_test.py', workspaceRoot),
+            '/ws/foo/foo_test.py');
+    });
+
+    test('Absolute paths outside of the execroot are kept', () => {
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('/usr/include/stdio.h', workspaceRoot), '/usr/include/stdio.h');
+    });
+
+    test('External files are found behind the bazel-<workspace> symlink', () => {
+        const fixtureRoot = getFixturePath('execroot-paths/ws');
+        const linkedPath = path.join(fixtureRoot, 'bazel-ws', 'external', 'repo', 'linked.h');
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('external/repo/linked.h', fixtureRoot), linkedPath);
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('../repo/linked.h', fixtureRoot), linkedPath);
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('/tmp/sandbox/execroot/_main/external/repo/linked.h', fixtureRoot), linkedPath);
+    });
+
+    test('External files are found in the workspace if they are not behind the symlink', () => {
+        const fixtureRoot = getFixturePath('execroot-paths/ws');
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('external/local/local.h', fixtureRoot),
+            path.join(fixtureRoot, 'external', 'local', 'local.h'));
+        // Missing files are mapped behind the symlink
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath('/ws/bin/foo_test.runfiles/other_repo/bar.py', fixtureRoot),
+            path.join(fixtureRoot, 'bazel-ws', 'external', 'other_repo', 'bar.py'));
+    });
+
+    test('Existing external files of the execroot are kept', () => {
+        const keptPath = getFixturePath('execroot-paths/output-base/execroot/_main/external/repo/kept.h');
+        assert.strictEqual(ExecrootPathMapper.toWorkspacePath(keptPath, getFixturePath('execroot-paths/ws')), keptPath);
+    });
+});
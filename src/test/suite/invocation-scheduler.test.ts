@@ -0,0 +1,196 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelInvocationPriority, BazelInvocationScheduler } from '../../services/invocation-scheduler';
+import { ProcessCancelledError } from '../../services/process-utils';
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+// Lets the invocations that were started or finished settle
+function settle(): Promise<void> {
+    return new Promise<void>(resolve => setImmediate(resolve));
+}
+
+// Schedules an invocation that runs until it is finished from the test
+function scheduleInvocation(scheduler: BazelInvocationScheduler,
+    started: string[],
+    outputBase: string,
+    description: string,
+    priority: BazelInvocationPriority = 'background',
+    cancellationToken?: vscode.CancellationToken) {
+    let finish: () => void = () => undefined;
+    const result = scheduler.schedule(outputBase, description, priority, () => {
+        started.push(description);
+        return new Promise<void>(resolve => finish = resolve);
+    }, cancellationToken);
+    return { result: result, finish: () => finish() };
+}
+
+function getQueuedDescriptions(scheduler: BazelInvocationScheduler): string[] {
+    return scheduler.getQueuedInvocations().map(invocation => invocation.description);
+}
+
+suite('Bazel Invocation Scheduler Tests', () => {
+    test('Output bases are read from the startup options or the workspace root', () => {
+        assert.strictEqual(BazelInvocationScheduler.getOutputBase('bazel build //app:main', 'bazel', '/ws'), '/ws');
+        assert.strictEqual(BazelInvocationScheduler.getOutputBase('  bazel --output_base=/tmp/base build //app:main\n', 'bazel', '/ws'), '/tmp/base');
+        assert.strictEqual(BazelInvocationScheduler.getOutputBase('bazel --bazelrc=.bazelrc --output_base base query //...', 'bazel', '/ws'), '/ws/base');
+    });
+
+    test('Command lines that do not run a bazel command have no output base', () => {
+        assert.strictEqual(BazelInvocationScheduler.getOutputBase('bazel --version', 'bazel', '/ws'), undefined);
+        assert.strictEqual(BazelInvocationScheduler.getOutputBase('bazelisk build //app:main', 'bazel', '/ws'), undefined);
+        assert.strictEqual(BazelInvocationScheduler.getOutputBase('ls -l', 'bazel', '/ws'), undefined);
+    });
+
+    test('Command names follow the startup options', () => {
+        assert.strictEqual(BazelInvocationScheduler.getCommandName('bazel --output_base /tmp/base --bazelrc=.bazelrc test //...', 'bazel'), 'test');
+        assert.strictEqual(BazelInvocationScheduler.getCommandName('bazelisk cquery //...', 'bazelisk'), 'cquery');
+        assert.strictEqual(BazelInvocationScheduler.getCommandName('bazel --output_base', 'bazel'), undefined);
+    });
+
+    test('Invocations run one at a time per output base with foreground ones first', async () => {
+        const scheduler = new BazelInvocationScheduler();
+        const started: string[] = [];
+        const build = scheduleInvocation(scheduler, started, '/ws', 'build', 'foreground');
+        const query = scheduleInvocation(scheduler, started, '/ws', 'query');
+        const testRun = scheduleInvocation(scheduler, started, '/ws', 'test', 'foreground');
+        const help = scheduleInvocation(scheduler, started, '/ws', 'help');
+        const other = scheduleInvocation(scheduler, started, '/other', 'other query');
+        await settle();
+
+        assert.deepStrictEqual(started, ['build', 'other query']);
+        assert.deepStrictEqual(scheduler.getRunningInvocations().map(invocation => invocation.description), ['build', 'other query']);
+        assert.deepStrictEqual(getQueuedDescriptions(scheduler), ['test', 'query', 'help']);
+
+        build.finish();
+        await build.result;
+        await settle();
+        assert.deepStrictEqual(started, ['build', 'other query', 'test']);
+
+        testRun.finish();
+        await settle();
+        query.finish();
+        await settle();
+        help.finish();
+        other.finish();
+        await Promise.all([testRun.result, query.result, help.result, other.result]);
+        assert.deepStrictEqual(started, ['build', 'other query', 'test', 'query', 'help']);
+        assert.deepStrictEqual(scheduler.getRunningInvocations(), []);
+        assert.deepStrictEqual(scheduler.getQueuedInvocations(), []);
+        scheduler.dispose();
+    });
+
+    test('Queued invocations are reordered within their output base', async () => {
+        const scheduler = new BazelInvocationScheduler();
+        const started: string[] = [];
+        const running = scheduleInvocation(scheduler, started, '/ws', 'running');
+        const first = scheduleInvocation(scheduler, started, '/ws', 'first');
+        const second = scheduleInvocation(scheduler, started, '/ws', 'second');
+        const third = scheduleInvocation(scheduler, started, '/ws', 'third');
+        await settle();
+        const [firstInvocation, , thirdInvocation] = scheduler.getQueuedInvocations();
+
+        scheduler.moveDown(firstInvocation);
+        assert.deepStrictEqual(getQueuedDescriptions(scheduler), ['second', 'first', 'third']);
+        scheduler.moveUp(thirdInvocation);
+        assert.deepStrictEqual(getQueuedDescriptions(scheduler), ['second', 'third', 'first']);
+        scheduler.moveToFront(firstInvocation);
+        assert.deepStrictEqual(getQueuedDescriptions(scheduler), ['first', 'second', 'third']);
+
+        // Invocations stay within the queue
+        scheduler.moveUp(firstInvocation);
+        scheduler.moveDown(thirdInvocation);
+        assert.deepStrictEqual(getQueuedDescriptions(scheduler), ['first', 'second', 'third']);
+
+        // The running invocation is not queued
+        scheduler.moveToFront(scheduler.getRunningInvocations()[0]);
+        assert.deepStrictEqual(getQueuedDescriptions(scheduler), ['first', 'second', 'third']);
+
+        scheduler.cancelQueued();
+        await Promise.all([first, second, third].map(invocation => assert.rejects(invocation.result, ProcessCancelledError)));
+        running.finish();
+        await running.result;
+        scheduler.dispose();
+    });
+
+    test('Cancelling the queue rejects the queued invocations without starting them', async () => {
+        const scheduler = new BazelInvocationScheduler();
+        const started: string[] = [];
+        const running = scheduleInvocation(scheduler, started, '/ws', 'running');
+        const queued = scheduleInvocation(scheduler, started, '/ws', 'queued');
+        const other = scheduleInvocation(scheduler, started, '/other', 'other');
+        await settle();
+
+        scheduler.cancelQueued();
+        await assert.rejects(queued.result, ProcessCancelledError);
+        assert.deepStrictEqual(scheduler.getQueuedInvocations(), []);
+
+        // The running invocations are left alone
+        const runningInvocations = scheduler.getRunningInvocations();
+        assert.deepStrictEqual(runningInvocations.map(invocation => invocation.description), ['running', 'other']);
+        assert.ok(runningInvocations.every(invocation => !invocation.isStopping()));
+
+        running.finish();
+        other.finish();
+        await Promise.all([running.result, other.result]);
+        await settle();
+        assert.deepStrictEqual(started, ['running', 'other']);
+        scheduler.dispose();
+    });
+
+    test('Cancelled running invocations keep their place until they stop', async () => {
+        const scheduler = new BazelInvocationScheduler();
+        const started: string[] = [];
+        const running = scheduleInvocation(scheduler, started, '/ws', 'running');
+        const queued = scheduleInvocation(scheduler, started, '/ws', 'queued');
+        await settle();
+
+        const [runningInvocation] = scheduler.getRunningInvocations();
+        scheduler.cancel(runningInvocation);
+        assert.ok(runningInvocation.isStopping());
+        assert.deepStrictEqual(scheduler.getRunningInvocations(), [runningInvocation]);
+        assert.deepStrictEqual(started, ['running']);
+
+        running.finish();
+        await running.result;
+        await settle();
+        assert.deepStrictEqual(started, ['running', 'queued']);
+        queued.finish();
+        await queued.result;
+        scheduler.dispose();
+    });
+
+    test('Invocations whose token is already cancelled are not queued', async () => {
+        const scheduler = new BazelInvocationScheduler();
+        const started: string[] = [];
+        const cancellationSource = new vscode.CancellationTokenSource();
+        cancellationSource.cancel();
+
+        const cancelled = scheduleInvocation(scheduler, started, '/ws', 'cancelled', 'foreground', cancellationSource.token);
+        await assert.rejects(cancelled.result, ProcessCancelledError);
+        assert.deepStrictEqual(started, []);
+        assert.deepStrictEqual(scheduler.getQueuedInvocations(), []);
+        scheduler.dispose();
+    });
+});
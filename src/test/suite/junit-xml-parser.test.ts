@@ -0,0 +1,95 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { JUnitXmlParser } from '../../services/junit-xml-parser';
+import { readFixture } from '../fixtures';
+import * as assert from 'assert';
+
+suite('JUnit XML Parser Tests', () => {
+    test('gtest reports are read with their failures and disabled tests', () => {
+        const testCases = JUnitXmlParser.parse(readFixture('test-results/gtest-test.xml'));
+
+        assert.deepStrictEqual(testCases.map(testCase => [testCase.suite, testCase.classname, testCase.name, testCase.status]), [
+            ['MathTest', 'MathTest', 'Adds', 'passed'],
+            ['MathTest', 'MathTest', 'Divides', 'failed'],
+            ['MathTest', 'MathTest', 'DISABLED_Overflows', 'skipped']
+        ]);
+        assert.strictEqual(testCases[1].durationMillis, 11);
+        assert.strictEqual(testCases[1].message, 'math_test.cc:12\nExpected equality of these values:\n  Divide(1, 0)\n    Which is: 1\n  0');
+        // CDATA sections are kept verbatim
+        assert.strictEqual(testCases[1].details, 'math_test.cc:12\nExpected equality of these values:\n  Divide(1, 0)\n    Which is: 1\n  0');
+    });
+
+    test('Entities are decoded in attributes and text', () => {
+        const [quotes] = JUnitXmlParser.parse(readFixture('test-results/pytest-test.xml'));
+
+        assert.strictEqual(quotes.message, 'AssertionError: assert \'<a>\' == "<b>"');
+        assert.strictEqual(quotes.details, 'def test_quotes():\n>       assert \'<a>\' == "<b>"\nE       AssertionError');
+        assert.strictEqual(quotes.output, 'parsing & checking € \u{1F600}\nwarning: <deprecated> & slow');
+    });
+
+    test('CDATA sections split around an escaped terminator are joined', () => {
+        const [testCase] = JUnitXmlParser.parse([
+            '<testsuite name="cdata">',
+            '<testcase name="terminator"><system-out><![CDATA[found ]]>]]&gt;<![CDATA[ in &amp; <b>]]></system-out></testcase>',
+            '</testsuite>'
+        ].join('\n'));
+
+        assert.strictEqual(testCase.output, 'found ]]> in &amp; <b>');
+    });
+
+    test('Skipped tests, single quoted attributes and comments are handled', () => {
+        const testCases = JUnitXmlParser.parse(readFixture('test-results/pytest-test.xml'));
+
+        assert.deepStrictEqual(testCases.map(testCase => testCase.name), ['test_quotes', 'test_skip', 'test_ok']);
+        assert.strictEqual(testCases[1].status, 'skipped');
+        assert.strictEqual(testCases[1].message, 'not on linux');
+        assert.strictEqual(testCases[1].details, 'tests/test_parser.py:20: not on linux');
+        assert.deepStrictEqual(testCases[2], {
+            name: 'test_ok',
+            classname: 'tests.test_parser',
+            suite: 'pytest',
+            status: 'passed',
+            durationMillis: 2
+        });
+    });
+
+    test('Reports generated by bazel hold a single test case for the target', () => {
+        const testCases = JUnitXmlParser.parse(readFixture('test-results/bazel-generated-test.xml'));
+
+        assert.deepStrictEqual(testCases, [{
+            name: '//tools:lint_test',
+            classname: '',
+            suite: '//tools:lint_test',
+            status: 'failed',
+            durationMillis: 2000,
+            message: 'exited with error code 1',
+            details: ''
+        }]);
+    });
+
+    test('Reports without test cases yield none', () => {
+        assert.deepStrictEqual(JUnitXmlParser.parse(''), []);
+        assert.deepStrictEqual(JUnitXmlParser.parse('<testsuites><testsuite name="empty" tests="0"/></testsuites>'), []);
+    });
+});
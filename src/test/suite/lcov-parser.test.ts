@@ -0,0 +1,67 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { LcovParser } from '../../services/lcov-parser';
+import { readFixture } from '../fixtures';
+import * as assert from 'assert';
+
+suite('LCOV Parser Tests', () => {
+    test('Each record of a combined report is read', () => {
+        const files = LcovParser.parse(readFixture('lcov/combined-report.dat'));
+
+        assert.deepStrictEqual(files.map(file => file.sourceFile), ['math/math.cc', 'math/math.h', 'math/math.cc']);
+        assert.deepStrictEqual(Array.from(files[0].lines.entries()), [[5, 3], [6, 3], [12, 0], [21, 1], [22, 0]]);
+        assert.deepStrictEqual(files[0].branches, [
+            { line: 21, block: '0', branch: '0', taken: 1 },
+            { line: 21, block: '0', branch: '1', taken: 0 },
+            { line: 30, block: '1', branch: '0', taken: undefined }
+        ]);
+    });
+
+    test('Function names may contain commas', () => {
+        const [file] = LcovParser.parse(readFixture('lcov/combined-report.dat'));
+
+        assert.deepStrictEqual(file.functions, [
+            { name: 'add(int, int)', line: 5, count: 3 },
+            { name: 'std::map<int, std::string>::at(int const&)', line: 12, count: 0 },
+            { name: '_Z6divideii', line: 20, count: 1 }
+        ]);
+    });
+
+    test('The records of a source file are merged', () => {
+        const files = LcovParser.merge(LcovParser.parse(readFixture('lcov/combined-report.dat')));
+
+        assert.deepStrictEqual(files.map(file => file.sourceFile), ['math/math.cc', 'math/math.h']);
+        const [file] = files;
+        assert.strictEqual(file.lines.get(5), 5);
+        assert.strictEqual(file.lines.get(22), 1);
+        assert.strictEqual(file.branches.find(branch => branch.line === 21 && branch.branch === '1')?.taken, 4);
+        // A block that never ran in any record stays untaken
+        assert.strictEqual(file.branches.find(branch => branch.line === 30)?.taken, undefined);
+        assert.strictEqual(file.functions.find(func => func.name === 'add(int, int)')?.count, 5);
+    });
+
+    test('Records outside of a source file are ignored', () => {
+        assert.deepStrictEqual(LcovParser.parse('TN:\nDA:1,1\nend_of_record\n'), []);
+    });
+});
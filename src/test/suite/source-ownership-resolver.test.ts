@@ -0,0 +1,115 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { SourceOwnershipResolver } from '../../services/source-ownership-resolver';
+import { StarlarkParser } from '../../services/starlark-parser';
+import { getFixturePath } from '../fixtures';
+import * as assert from 'assert';
+import * as path from 'path';
+
+suite('Source Ownership Resolver Tests', () => {
+    const workspaceRoot = getFixturePath('source-ownership');
+    const resolveOwners = async (relativePath: string) => {
+        const ownership = await SourceOwnershipResolver.resolve(path.join(workspaceRoot, ...relativePath.split('/')));
+        return ownership.owners.map(owner => `${owner.targetName}${owner.viaFilegroup ? ' (filegroup)' : ''}`);
+    };
+
+    test('** matches any number of directories at the start, middle and end of a pattern', () => {
+        assert.ok(SourceOwnershipResolver.matchesGlobPattern('main.cc', '**/*.cc'));
+        assert.ok(SourceOwnershipResolver.matchesGlobPattern('a/b/main.cc', '**/*.cc'));
+        assert.ok(SourceOwnershipResolver.matchesGlobPattern('src/main.h', 'src/**/*.h'));
+        assert.ok(SourceOwnershipResolver.matchesGlobPattern('src/a/b/main.h', 'src/**/*.h'));
+        assert.ok(!SourceOwnershipResolver.matchesGlobPattern('lib/src/main.h', 'src/**/*.h'));
+        assert.ok(SourceOwnershipResolver.matchesGlobPattern('data/a/b.json', 'data/**'));
+        assert.ok(!SourceOwnershipResolver.matchesGlobPattern('database.json', 'data/**'));
+    });
+
+    test('* stays within a directory and other characters match literally', () => {
+        assert.ok(SourceOwnershipResolver.matchesGlobPattern('main.cc', '*.cc'));
+        assert.ok(!SourceOwnershipResolver.matchesGlobPattern('src/main.cc', '*.cc'));
+        assert.ok(!SourceOwnershipResolver.matchesGlobPattern('mainxcc', '*.cc'));
+        assert.ok(SourceOwnershipResolver.matchesGlobPattern('a+b[1].cc', 'a+b[1].*'));
+    });
+
+    test('Files in subdirectories are owned through globs, minus the excluded ones', async () => {
+        assert.deepStrictEqual(await resolveOwners('app/src/helpers/strings.cc'), ['util']);
+        assert.deepStrictEqual(await resolveOwners('app/main.cc'), ['app']);
+        assert.deepStrictEqual(await resolveOwners('app/util/math_test.cc'), ['util_test']);
+    });
+
+    test('Headers and data files are owned through hdrs and data', async () => {
+        assert.deepStrictEqual(await resolveOwners('app/include/util/math.h'), ['util']);
+        assert.deepStrictEqual(await resolveOwners('app/testdata/golden.txt'), ['util_test']);
+    });
+
+    test('Rules listing an owning filegroup own the file as well, through chains of filegroups', async () => {
+        assert.deepStrictEqual(await resolveOwners('app/data/prod/settings.json'),
+            ['configs', 'all_data (filegroup)', 'app (filegroup)']);
+        assert.deepStrictEqual(await resolveOwners('app/README.md'), ['all_data', 'app (filegroup)']);
+        assert.deepStrictEqual(await resolveOwners('app/data/prod/local_settings.json'), []);
+    });
+
+    test('The label and workspace root of the file are reported', async () => {
+        const ownership = await SourceOwnershipResolver.resolve(path.join(workspaceRoot, 'app', 'include', 'util', 'math.h'));
+
+        assert.strictEqual(ownership.label, '//app:include/util/math.h');
+        assert.strictEqual(ownership.workspaceRoot, workspaceRoot);
+        assert.strictEqual(ownership.ambiguous, false);
+        assert.strictEqual(ownership.owners[0].packagePath, 'app');
+    });
+
+    test('Files no rule lists are only ambiguous in packages with macros', async () => {
+        const unowned = await SourceOwnershipResolver.resolve(path.join(workspaceRoot, 'app', 'unused.txt'));
+        assert.deepStrictEqual(unowned.owners, []);
+        assert.strictEqual(unowned.ambiguous, false);
+
+        const maybeGenerated = await SourceOwnershipResolver.resolve(path.join(workspaceRoot, 'macros', 'other.cc'));
+        assert.deepStrictEqual(maybeGenerated.owners, []);
+        assert.strictEqual(maybeGenerated.ambiguous, true);
+
+        // A macro listing the file is an owner like any rule
+        assert.deepStrictEqual(await resolveOwners('macros/listed.cc'), ['generated']);
+    });
+
+    test('Attributes that cannot be evaluated make ownership ambiguous', () => {
+        const ruleCalls = StarlarkParser.parseRuleCalls([
+            'load("@rules_cc//cc:defs.bzl", "cc_library")',
+            'load(":srcs.bzl", "SRCS")',
+            'cc_library(name = "lib", srcs = SRCS)'
+        ].join('\n'));
+
+        assert.deepStrictEqual(SourceOwnershipResolver.resolveInRuleCalls(ruleCalls, 'lib.cc', 'pkg'), { owners: [], ambiguous: true });
+    });
+
+    test('The owners query matches the label in attribute values', () => {
+        for (const label of ['//foo:bar.cc', '//foo:a^b[1].cc', '//foo:x[1].cc', '//foo:c++\\d.cc']) {
+            const query = SourceOwnershipResolver.getOwnersQuery(label);
+            const pattern = new RegExp((query.match(/^attr\(srcs, "(.*?)", \/\/foo:\*\)/) as RegExpMatchArray)[1]);
+
+            assert.ok(pattern.test(`[${label}]`), `${query} does not match ${label}`);
+            assert.ok(pattern.test(`[${label}, //foo:other.cc]`), `${query} does not match ${label} in a list`);
+            assert.ok(!pattern.test(`[${label.replace('.cc', 'xcc')}]`), `${query} matches more than ${label}`);
+            assert.ok(!pattern.test(`[${label}.orig]`), `${query} matches a longer label than ${label}`);
+        }
+    });
+});
@@ -0,0 +1,178 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { StarlarkEvaluator, StarlarkGlob, StarlarkParser, tokenizeStarlark } from '../../services/starlark-parser';
+import * as assert from 'assert';
+
+suite('Starlark Parser Tests', () => {
+    test('Globs are evaluated with their include and exclude patterns', () => {
+        const [ruleCall] = StarlarkParser.parseRuleCalls([
+            'cc_library(',
+            '    name = "lib",',
+            '    srcs = glob(["*.cc"], exclude = ["*_test.cc"]),',
+            '    hdrs = glob(include = ["*.h"], exclude_directories = 0),',
+            ')'
+        ].join('\n'));
+
+        assert.strictEqual(ruleCall.name, 'lib');
+        assert.deepStrictEqual(ruleCall.attributes.srcs, new StarlarkGlob(['*.cc'], ['*_test.cc'], true));
+        assert.deepStrictEqual(ruleCall.attributes.hdrs, new StarlarkGlob(['*.h'], [], false));
+    });
+
+    test('All branches of a select are merged', () => {
+        const [ruleCall] = StarlarkParser.parseRuleCalls([
+            'SRCS = ["common.cc"]',
+            'cc_binary(',
+            '    name = "app",',
+            '    srcs = SRCS + select({',
+            '        "//conditions:linux": ["linux.cc"],',
+            '        "//conditions:default": glob(["default/*.cc"]),',
+            '    }),',
+            '    copts = select({"//:opt": "-O2", "//conditions:default": "-O0"}),',
+            ')'
+        ].join('\n'));
+
+        assert.deepStrictEqual(ruleCall.attributes.srcs, ['common.cc', 'linux.cc', new StarlarkGlob(['default/*.cc'])]);
+        assert.deepStrictEqual(StarlarkEvaluator.toGlobList(ruleCall.attributes.srcs), [new StarlarkGlob(['default/*.cc'])]);
+        // Values that cannot be merged are taken from the first branch
+        assert.strictEqual(ruleCall.attributes.copts, '-O2');
+    });
+
+    test('Loaded symbols are resolved through their aliases', () => {
+        const ruleCalls = StarlarkParser.parseRuleCalls([
+            'load("@rules_python//python:defs.bzl", "py_binary", my_test = "py_test")',
+            'py_binary(name = "main")',
+            'my_test(name = "main_test")',
+            'cc_library(name = "native_lib")'
+        ].join('\n'));
+
+        assert.deepStrictEqual(ruleCalls.map(ruleCall => [ruleCall.ruleType, ruleCall.name, ruleCall.loadedFrom]), [
+            ['py_binary', 'main', '@rules_python//python:defs.bzl'],
+            ['py_test', 'main_test', '@rules_python//python:defs.bzl'],
+            ['cc_library', 'native_lib', undefined]
+        ]);
+    });
+
+    test('native. calls are the same rules as the plain calls', () => {
+        const [ruleCall] = StarlarkParser.parseRuleCalls('native.cc_test(name = "t", size = "small")');
+
+        assert.strictEqual(ruleCall.ruleType, 'cc_test');
+        assert.strictEqual(ruleCall.attributes.size, 'small');
+    });
+
+    test('Line continuations join the lines of a statement', () => {
+        const ruleCalls = StarlarkParser.parseRuleCalls([
+            'NAME = "first" + \\',
+            '    "_second"',
+            'cc_library(name = NAME)'
+        ].join('\n'));
+
+        assert.strictEqual(ruleCalls.length, 1);
+        assert.strictEqual(ruleCalls[0].name, 'first_second');
+        assert.strictEqual(ruleCalls[0].line, 3);
+    });
+
+    test('Triple-quoted strings may span lines and contain quotes', () => {
+        const ruleCalls = StarlarkParser.parseRuleCalls([
+            'genrule(',
+            '    name = "gen",',
+            '    cmd = """echo "a"',
+            'echo \'b\'""",',
+            ')',
+            'filegroup(name = "after")'
+        ].join('\n'));
+
+        assert.deepStrictEqual(ruleCalls.map(ruleCall => ruleCall.name), ['gen', 'after']);
+        assert.strictEqual(ruleCalls[0].attributes.cmd, 'echo "a"\necho \'b\'');
+        assert.strictEqual(ruleCalls[1].line, 6);
+    });
+
+    test('Block bodies are skipped', () => {
+        const ruleCalls = StarlarkParser.parseRuleCalls([
+            'def my_macro(name):',
+            '    native.cc_library(name = name)',
+            '',
+            'my_macro(name = "from_macro")'
+        ].join('\n'));
+
+        assert.deepStrictEqual(ruleCalls.map(ruleCall => [ruleCall.ruleType, ruleCall.name]), [['my_macro', 'from_macro']]);
+    });
+
+    test('Parse errors are recorded and the following statements are kept', () => {
+        const { statements, errors } = StarlarkParser.parse([
+            'cc_library(name = "before")',
+            'cc_library(name = = "broken")',
+            'cc_library(name = "after")'
+        ].join('\n'));
+
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].line, 2);
+        assert.strictEqual(statements.length, 2);
+    });
+
+    test('Unexpected characters are recorded and the following statements are kept', () => {
+        const content = [
+            'cc_library(name = "before")',
+            'cc_library(',
+            '    name = "broken",',
+            '    srcs = ["a.cc"] $,',
+            ')',
+            'cc_library(name = "after")'
+        ].join('\n');
+        const { errors } = StarlarkParser.parse(content);
+
+        assert.ok(errors.some(error => error.line === 4 && error.message.includes('Unexpected character \'$\'')));
+        assert.deepStrictEqual(StarlarkParser.parseRuleCalls(content).map(ruleCall => ruleCall.name), ['before', 'after']);
+    });
+
+    test('Unterminated strings are recorded and the following statements are kept', () => {
+        const content = [
+            'cc_library(name = "broken)',
+            'cc_library(name = "after")'
+        ].join('\n');
+        const { errors } = StarlarkParser.parse(content);
+
+        assert.strictEqual(errors.length, 1);
+        assert.ok(errors[0].message.startsWith('Unterminated string'));
+        assert.deepStrictEqual(StarlarkParser.parseRuleCalls(content).map(ruleCall => ruleCall.name), ['after']);
+    });
+
+    test('Unterminated strings are reported at their opening quote', () => {
+        const content = [
+            'cc_library(name = "before")',
+            'cc_library(name = r"broken)',
+            'cc_library(',
+            '    name = """spans',
+            'lines)'
+        ].join('\n');
+        const { errors } = StarlarkParser.parse(content);
+
+        assert.deepStrictEqual(errors
+            .filter(error => error.message.startsWith('Unterminated string'))
+            .map(error => `${error.line}:${error.column}`), ['2:19', '4:11']);
+    });
+
+    test('The tokenizer throws without an error list', () => {
+        assert.throws(() => tokenizeStarlark('x = $'), /Unexpected character/);
+    });
+});
@@ -0,0 +1,75 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { TestLogParser } from '../../services/test-log-parser';
+import { readFixture } from '../fixtures';
+import * as assert from 'assert';
+
+suite('Test Log Parser Tests', () => {
+    test('gtest logs are split into their test cases', () => {
+        const testCases = TestLogParser.parse(readFixture('test-results/gtest-test.log'));
+
+        assert.deepStrictEqual(testCases, [
+            { name: 'MathTest.Adds', status: 'passed', durationMillis: 0, output: '' },
+            {
+                name: 'MathTest.Divides',
+                status: 'failed',
+                durationMillis: 11,
+                output: 'math_test.cc:12: Failure\nExpected equality of these values:\n  Divide(1, 0)\n    Which is: 1\n  0'
+            },
+            { name: 'MathTest.Skips', status: 'skipped', durationMillis: 0, output: 'math_test.cc:20: Skipped\nneeds a GPU' }
+        ]);
+    });
+
+    test('go test logs are split into their test cases and subtests', () => {
+        const testCases = TestLogParser.parse(readFixture('test-results/go-test.log'));
+        const byName = new Map(testCases.map(testCase => [testCase.name, testCase]));
+
+        assert.strictEqual(byName.get('TestParse')?.status, 'failed');
+        assert.strictEqual(byName.get('TestParse')?.durationMillis, 10);
+        assert.strictEqual(byName.get('TestParse/empty')?.status, 'passed');
+        assert.strictEqual(byName.get('TestParse/quoted')?.status, 'failed');
+        assert.strictEqual(byName.get('TestParse/quoted')?.output, '    parse_test.go:25: got "a", want "b"');
+    });
+
+    test('Indented go logs after a result belong to that test case', () => {
+        const testCases = TestLogParser.parse(readFixture('test-results/go-test.log'));
+
+        assert.deepStrictEqual(testCases.find(testCase => testCase.name === 'TestSkip'),
+            { name: 'TestSkip', status: 'skipped', durationMillis: 0, output: '    skip_test.go:10: needs network' });
+    });
+
+    test('Test cases that never end are failed with the rest of the log', () => {
+        const testCases = TestLogParser.parse(readFixture('test-results/go-test.log'));
+
+        assert.deepStrictEqual(testCases[testCases.length - 1], {
+            name: 'TestPanics',
+            status: 'failed',
+            output: 'panic: runtime error: index out of range [5] with length 3 [recovered]\nFAIL\texample.com/parse\t0.020s\n'
+        });
+    });
+
+    test('Logs without known markers yield no test cases', () => {
+        assert.deepStrictEqual(TestLogParser.parse('exec ${PAGER:-/usr/bin/less} "$0" || exit 1\nall good\n'), []);
+    });
+});
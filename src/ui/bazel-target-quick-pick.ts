@@ -155,7 +155,7 @@ export class BazelTargetQuickPick {
         const targetItems = filteredTargets
             .map(target => ({
                 label: `${prependItemText}${target.label}`,
-                detail: `${prependItemText}${target.bazelPath}`,
+                detail: this.formatTargetDetail(target, prependItemText),
                 iconPath: this.iconService.getIcon(target.language),
                 target: target,
                 alwaysShow: true,
@@ -170,6 +170,13 @@ export class BazelTargetQuickPick {
         this.quickPick.busy = false; // Mark the QuickPick as not busy.
     }
 
+    // Format the detail line of a target, flagging traits such as manual, flaky or exclusive tests.
+    private formatTargetDetail(target: BazelTarget, prependItemText: string): string {
+        const detail = `${prependItemText}${target.bazelPath}`;
+        const traits = target.getTraits();
+        return traits.length > 0 ? `${detail}  $(tag) ${traits.join(', ')}` : detail;
+    }
+
     // Handle the acceptance of the selected item in the QuickPick.
     private onDidAccept() {
         const selection = this.quickPick.selectedItems[0];
@@ -22,31 +22,59 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////////
 
+import { BazelInvocationManager } from '../models/bazel-invocation-manager';
 import { BazelAction, BazelTarget } from '../models/bazel-target';
 import { BazelTargetManager } from '../models/bazel-target-manager';
 import { BazelTargetMultiProperty, BazelTargetMultiPropertyItem } from '../models/bazel-target-multi-property';
 import { BazelTargetProperty } from '../models/bazel-target-property';
 import { BazelTargetState, BazelTargetStateManager } from '../models/bazel-target-state-manager';
+import { BazelTestCaseResult, BazelTestLog, BazelTestResults, BazelTestSourceLocation } from '../models/bazel-test-results';
+import { BazelTestResultsManager } from '../models/bazel-test-results-manager';
 import { ConfigurationManager, UserCustomButton, UserCustomCategory as UserCustomCategory } from '../services/configuration-manager';
+import { Console } from '../services/console';
 import { ExtensionUtils } from '../services/extension-utils';
 import { IconService } from '../services/icon-service';
 import { capitalizeFirstLetter } from '../services/string-utils';
+import { WorkspaceService } from '../services/workspace-service';
 import * as vscode from 'vscode';
 
-export type BazelTreeElement = BazelTargetCategory | BazelTarget | BazelTargetMultiProperty | BazelTargetProperty | BazelTargetMultiPropertyItem | UserCustomCategory | UserCustomButton;
+export type BazelTreeElement = WorkspaceFolderCategory | BazelTargetCategory | BazelTarget | BazelTargetMultiProperty | BazelTargetProperty | BazelTargetMultiPropertyItem | UserCustomCategory | UserCustomButton
+    | BazelTestResults | BazelTestCaseResult | BazelTestSourceLocation | BazelTestLog;
+
+/**
+ * Groups the categories of a workspace folder when more than one folder is open.
+ */
+export class WorkspaceFolderCategory {
+    public readonly id: string;
+    constructor(public readonly workspaceFolder: vscode.WorkspaceFolder) {
+        this.id = `workspaceFolder:${workspaceFolder.uri.toString()}`;
+    }
+}
 
 export class BazelTargetCategory {
     public readonly id: string;
-    constructor(public readonly action: BazelAction) {
-        this.id = action;
+    constructor(public readonly action: BazelAction,
+        public readonly workspaceFolder: vscode.WorkspaceFolder) {
+        const folderKey = WorkspaceService.getInstance().getWorkspaceFolderKey(workspaceFolder);
+        this.id = folderKey ? `${folderKey}/${action}` : action;
     }
 }
 
+/**
+ * The models shown in the tree for a single workspace folder.
+ */
+interface BazelTargetTreeSection {
+    workspaceFolder: vscode.WorkspaceFolder;
+    configurationManager: ConfigurationManager;
+    bazelTargetManager: BazelTargetManager;
+}
+
 export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTreeElement> {
     private _onDidChangeTreeData: vscode.EventEmitter<BazelTreeElement | undefined | void> = new vscode.EventEmitter<BazelTreeElement | undefined | void>();
     readonly onDidChangeTreeData: vscode.Event<BazelTreeElement | undefined | void> = this._onDidChangeTreeData.event;
 
     private expandedStateCache: { [key: string]: boolean } = {};
+    private sections: BazelTargetTreeSection[] = [];
 
     // Define a map of BazelAction to vscode.ThemeIcon
     private iconMap: Map<BazelAction, vscode.ThemeIcon> = new Map([
@@ -77,10 +105,10 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
     private defaultIcon: vscode.ThemeIcon = new vscode.ThemeIcon('question');
 
     constructor(private context: vscode.ExtensionContext,
-        private readonly configurationManager: ConfigurationManager,
         private readonly iconService: IconService,
-        private readonly bazelTargetManager: BazelTargetManager,
-        private readonly bazelTargetStateManager: BazelTargetStateManager
+        private readonly bazelTargetStateManager: BazelTargetStateManager,
+        private readonly bazelInvocationManager: BazelInvocationManager,
+        private readonly bazelTestResultsManager: BazelTestResultsManager
     ) {
         // Load expanded state into memory at startup
         const savedState = this.context.workspaceState.get<{ [key: string]: boolean }>('expandedState', {});
@@ -91,6 +119,34 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
             // Refresh the tree whenever a target state changes
             this.refresh();
         });
+
+        // Refresh the tree whenever new results of a target are read from its build events
+        this.bazelInvocationManager.onDidChangeInvocation(() => {
+            this.refresh();
+        });
+
+        // Refresh the tree whenever the test results of a target were read
+        this.bazelTestResultsManager.onDidChangeTestResults(() => {
+            this.refresh();
+        });
+    }
+
+    /**
+     * Adds the targets and custom buttons of a workspace folder to the tree.
+     */
+    public addWorkspaceFolder(workspaceFolder: vscode.WorkspaceFolder,
+        configurationManager: ConfigurationManager,
+        bazelTargetManager: BazelTargetManager) {
+        this.sections.push({ workspaceFolder, configurationManager, bazelTargetManager });
+        this.refresh();
+    }
+
+    private getSection(workspaceFolder: vscode.WorkspaceFolder): BazelTargetTreeSection {
+        const section = this.sections.find(section => section.workspaceFolder.uri.toString() === workspaceFolder.uri.toString());
+        if (!section) {
+            throw new Error(`Workspace folder ${workspaceFolder.name} is not shown in the tree`);
+        }
+        return section;
     }
 
     private getIcon(element: BazelTarget | BazelTargetCategory): vscode.ThemeIcon {
@@ -113,16 +169,26 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
         return this.actionOrder[action] || 99; // Assign default priority for unknown actions
     }
 
-    private getRootChildren(): Promise<(BazelTargetCategory | UserCustomCategory)[]> {
+    private getRootChildren(): Promise<(WorkspaceFolderCategory | BazelTargetCategory | UserCustomCategory)[]> {
+        // Set the context based on whether specific elements exist
+        const bazelActions = new Set(this.sections.flatMap(section => section.bazelTargetManager.getTargetActions()));
+        vscode.commands.executeCommand('setContext', `${ExtensionUtils.getExtensionName(this.context)}.bazelTreeActions`, Array.from(bazelActions).join('|'));
+
+        if (this.sections.length > 1) {
+            return Promise.resolve(this.sections.map(section => new WorkspaceFolderCategory(section.workspaceFolder)));
+        } else if (this.sections.length === 1) {
+            return this.getChildrenForSection(this.sections[0]);
+        }
+        return Promise.resolve([]);
+    }
+
+    private getChildrenForSection(section: BazelTargetTreeSection): Promise<(BazelTargetCategory | UserCustomCategory)[]> {
         return new Promise(resolve => {
             // Get BazelActions and map them to BazelTargetCategory
-            const bazelActions: BazelAction[] = this.bazelTargetManager.getTargetActions();
-
-            // Set the context based on whether specific elements exist
-            vscode.commands.executeCommand('setContext', `${ExtensionUtils.getExtensionName(this.context)}.bazelTreeActions`, bazelActions.join('|'));
+            const bazelActions: BazelAction[] = section.bazelTargetManager.getTargetActions();
 
             // Map each BazelAction to BazelTargetCategory
-            const bazelTargetCategories = bazelActions.map(action => new BazelTargetCategory(action));
+            const bazelTargetCategories = bazelActions.map(action => new BazelTargetCategory(action, section.workspaceFolder));
 
             // Sort the BazelTargetCategory based on the predefined action order
             bazelTargetCategories.sort((a, b) => {
@@ -132,7 +198,7 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
             });
 
             // Get custom user buttons
-            const customButtons = this.configurationManager.getCustomButtons();
+            const customButtons = section.configurationManager.getCustomButtons();
 
             // Return the sorted categories as a resolved Promise
             return resolve([...bazelTargetCategories, ...customButtons]);
@@ -140,20 +206,31 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
     }
 
     private getChildrenForBazelTargetCategory(category: BazelTargetCategory): BazelTarget[] {
-        return this.bazelTargetManager.getTargets(category.action);
+        return this.getSection(category.workspaceFolder).bazelTargetManager.getTargets(category.action);
     }
 
-    private getChildrenForBazelTarget(target: BazelTarget): (BazelTargetProperty | BazelTargetMultiProperty)[] {
-        const properties = [
+    private getChildrenForBazelTarget(target: BazelTarget): (BazelTargetProperty | BazelTargetMultiProperty | BazelTestResults)[] {
+        const properties: (BazelTargetProperty | BazelTargetMultiProperty | BazelTestResults)[] = [
             target.getEnvVars(),
             target.getConfigArgs(),
             target.getBazelArgs(),
             target.getRunArgs()
         ];
 
+        const testResults = this.bazelTestResultsManager.getTestResults(target);
+        if (testResults) {
+            properties.push(testResults);
+        }
         return properties;
     }
 
+    private getChildrenForTestResults(testResults: BazelTestResults): (BazelTestCaseResult | BazelTestLog)[] {
+        // Failed test cases first, in the order they ran
+        const statusOrder = { 'failed': 0, 'passed': 1, 'skipped': 2 };
+        const testCases = [...testResults.getTestCases()].sort((a, b) => statusOrder[a.getStatus()] - statusOrder[b.getStatus()]);
+        return [...testCases, ...testResults.testLogs];
+    }
+
     private getChildrenForBazelTargetProperty(property: BazelTargetMultiProperty): BazelTargetMultiPropertyItem[] {
         return property.get();
     }
@@ -163,7 +240,10 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
     }
 
     // Method to get children of a specific element (e.g., bazel target properties)
-    private getChildrenForElement(element: BazelTreeElement): Promise<(BazelTarget | BazelTargetProperty | BazelTargetMultiProperty | BazelTargetMultiPropertyItem | UserCustomButton)[]> {
+    private getChildrenForElement(element: BazelTreeElement): Promise<BazelTreeElement[]> {
+        if (element instanceof WorkspaceFolderCategory) {
+            return this.getChildrenForSection(this.getSection(element.workspaceFolder));
+        }
         return new Promise(resolve => {
             if (element instanceof BazelTargetCategory) {
                 return resolve(this.getChildrenForBazelTargetCategory(element));
@@ -173,6 +253,10 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
                 return resolve(this.getChildrenForBazelTargetProperty(element));
             } else if (element instanceof UserCustomCategory) {
                 return resolve(this.getChildrenForUserCustomCategory(element));
+            } else if (element instanceof BazelTestResults) {
+                return resolve(this.getChildrenForTestResults(element));
+            } else if (element instanceof BazelTestCaseResult) {
+                return resolve(element.locations);
             } else {
                 // Any other type has no children
                 return resolve([]);
@@ -195,8 +279,20 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
         this._onDidChangeTreeData.fire();
     }
 
+    private getWorkspaceFolderTreeItem(element: WorkspaceFolderCategory): vscode.TreeItem {
+        const isExpanded = this.getExpandedState(element.id, true);
+        const collapsibleState = isExpanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+
+        const treeItem = new vscode.TreeItem(element.workspaceFolder.name, collapsibleState);
+        treeItem.id = element.id;
+        treeItem.contextValue = 'workspaceFolder';
+        treeItem.iconPath = new vscode.ThemeIcon('root-folder');
+        treeItem.tooltip = element.workspaceFolder.uri.fsPath;
+        return treeItem;
+    }
+
     private getTargetCategoryTreeItem(element: BazelTargetCategory): vscode.TreeItem {
-        const isExpanded = this.getExpandedState(element.action);
+        const isExpanded = this.getExpandedState(element.id);
         const collapsibleState = isExpanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
 
 
@@ -225,8 +321,9 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
         treeItem.id = element.id;
         treeItem.iconPath = this.iconService.getIcon(element.language);
         treeItem.label = element.label;
-        treeItem.tooltip = `${element.action} ${this.configurationManager.shouldRunBinariesDirect() ? element.buildPath : element.bazelPath}`;
-        const selectedTarget = this.bazelTargetManager.getSelectedTarget(element.action);
+        treeItem.tooltip = this.formatTargetTooltip(element);
+        treeItem.description = this.formatTargetResult(element);
+        const selectedTarget = this.getSection(element.getWorkspaceFolder()).bazelTargetManager.getSelectedTarget(element.action);
         const isSelected = selectedTarget && selectedTarget.id === element.id;
         if (isSelected) {
             treeItem.label = `● ${treeItem.label}`;
@@ -235,6 +332,55 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
         return treeItem;
     }
 
+    /**
+     * Marks a target whose latest invocation finished with whether it succeeded.
+     */
+    private formatTargetResult(element: BazelTarget): string | undefined {
+        const success = this.bazelInvocationManager.getLastInvocation(element)?.isSuccess();
+        if (success === undefined) {
+            return undefined;
+        }
+        return success ? '✓' : '✗';
+    }
+
+    /**
+     * Builds a multi-line tooltip with the rule details known for the target.
+     */
+    private formatTargetTooltip(element: BazelTarget): string {
+        const configurationManager = this.getSection(element.getWorkspaceFolder()).configurationManager;
+        const lines = [`${element.action} ${configurationManager.shouldRunBinariesDirect() ? element.buildPath : element.bazelPath}`];
+        if (element.ruleType) {
+            lines.push(`Rule: ${element.ruleType}`);
+        }
+        const traits = element.getTraits();
+        if (traits.length > 0) {
+            lines.push(`Traits: ${traits.join(', ')}`);
+        }
+        const { tags, srcs, location } = element.metadata;
+        if (tags && tags.length > 0) {
+            lines.push(`Tags: ${tags.join(', ')}`);
+        }
+        if (srcs && srcs.length > 0) {
+            const maxSrcs = 10;
+            const more = srcs.length > maxSrcs ? `, ... (${srcs.length - maxSrcs} more)` : '';
+            lines.push(`Srcs: ${srcs.slice(0, maxSrcs).join(', ')}${more}`);
+        }
+        if (location) {
+            lines.push(`Location: ${location}`);
+        }
+        const invocation = this.bazelInvocationManager.getLastInvocation(element);
+        if (invocation) {
+            const success = invocation.isSuccess();
+            let result = success ? 'succeeded' : 'failed';
+            if (success === undefined) {
+                result = invocation.isFinished() ? 'ended without a result' : 'running';
+            }
+            const summary = invocation.summarize();
+            lines.push(`Last ${invocation.action}: ${result}${summary ? ` (${summary})` : ''}`);
+        }
+        return lines.join('\n');
+    }
+
     // Converts BazelTargetProperty into a tree item
     private getPropertyTreeItem(property: BazelTargetProperty): vscode.TreeItem {
         const item = new vscode.TreeItem(property.label + ' ' + property.get(), vscode.TreeItemCollapsibleState.None);
@@ -255,13 +401,120 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
         return item;
     }
 
-    private getPropertyChildTreeItem(propertyItem: BazelTargetMultiPropertyItem): vscode.TreeItem {
+    private async getPropertyChildTreeItem(propertyItem: BazelTargetMultiPropertyItem): Promise<vscode.TreeItem> {
         const item = new vscode.TreeItem(propertyItem.get(), vscode.TreeItemCollapsibleState.None);
         item.contextValue = 'MultiPropTreeItemChild';
         item.id = propertyItem.id;
+
+        // Show what the value stands for, e.g. the flags of a config
+        try {
+            const valueDescription = await propertyItem.describe();
+            if (valueDescription) {
+                item.description = valueDescription.description;
+                const tooltip = [valueDescription.warning, valueDescription.tooltip].filter(line => line).join('\n\n');
+                item.tooltip = tooltip || undefined;
+                if (valueDescription.warning) {
+                    item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+                }
+            }
+        } catch (error) {
+            Console.warn(`Cannot describe ${propertyItem.get()}:`, error);
+        }
+        return item;
+    }
+
+    private getTestResultsTreeItem(testResults: BazelTestResults): vscode.TreeItem {
+        const isExpanded = this.getExpandedState(testResults.id, !testResults.isSuccess());
+        const collapsibleState = isExpanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+        const item = new vscode.TreeItem('Test results', collapsibleState);
+        item.id = testResults.id;
+        item.contextValue = 'testResults';
+        item.description = testResults.summarize();
+        item.tooltip = `${testResults.label}: ${testResults.summarize()}\nRead ${new Date(testResults.readTime).toLocaleString()}`;
+        item.iconPath = testResults.isSuccess() ?
+            new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')) :
+            new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        return item;
+    }
+
+    private getTestCaseTreeItem(testCase: BazelTestCaseResult): vscode.TreeItem {
+        const collapsibleState = testCase.locations.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None;
+        const item = new vscode.TreeItem(testCase.getFullName(), collapsibleState);
+        item.id = testCase.id;
+        item.contextValue = 'testCaseResult';
+
+        const status = testCase.getStatus();
+        const durationMillis = testCase.getDurationMillis();
+        item.description = [
+            testCase.isFlaky() ? 'flaky' : undefined,
+            durationMillis !== undefined ? `${durationMillis} ms` : undefined
+        ].filter(part => part).join(', ');
+        if (status === 'failed') {
+            item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        } else if (status === 'skipped') {
+            item.iconPath = new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('testing.iconSkipped'));
+        } else if (testCase.isFlaky()) {
+            item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        } else {
+            item.iconPath = new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        }
+
+        // The failure with its stack trace, e.g. the assertion that failed
+        const tooltip = new vscode.MarkdownString(`**${testCase.getFullName()}** ${status}`);
+        const failure = testCase.getFailure();
+        if (failure) {
+            if (failure.message) {
+                tooltip.appendMarkdown('\n\n');
+                tooltip.appendText(failure.message);
+            }
+            const details = failure.stackTrace || failure.output;
+            if (details) {
+                tooltip.appendCodeblock(details, 'text');
+            }
+        }
+        if (testCase.attempts.length > 1) {
+            tooltip.appendMarkdown(`\n\nAttempts: ${testCase.attempts.map(attempt => attempt.status).join(', ')}`);
+        }
+        item.tooltip = tooltip;
+
+        if (testCase.locations.length > 0) {
+            item.command = this.createOpenFileCommand(testCase.locations[0].filePath, testCase.locations[0].line, testCase.locations[0].column);
+        }
+        return item;
+    }
+
+    private getTestSourceLocationTreeItem(location: BazelTestSourceLocation): vscode.TreeItem {
+        const item = new vscode.TreeItem(`${vscode.workspace.asRelativePath(location.filePath)}:${location.line}`, vscode.TreeItemCollapsibleState.None);
+        item.id = location.id;
+        item.contextValue = 'testSourceLocation';
+        item.description = location.text;
+        item.tooltip = location.text;
+        item.iconPath = new vscode.ThemeIcon('go-to-file');
+        item.command = this.createOpenFileCommand(location.filePath, location.line, location.column);
+        return item;
+    }
+
+    private getTestLogTreeItem(testLog: BazelTestLog): vscode.TreeItem {
+        const item = new vscode.TreeItem(testLog.getLabel(), vscode.TreeItemCollapsibleState.None);
+        item.id = testLog.id;
+        item.contextValue = 'testLog';
+        item.tooltip = testLog.info.testLogPath;
+        item.iconPath = new vscode.ThemeIcon('output');
+        if (testLog.info.testLogPath) {
+            item.command = this.createOpenFileCommand(testLog.info.testLogPath);
+        }
         return item;
     }
 
+    private createOpenFileCommand(filePath: string, line?: number, column?: number): vscode.Command {
+        const position = new vscode.Position(Math.max(0, (line || 1) - 1), Math.max(0, (column || 1) - 1));
+        return {
+            title: 'Open',
+            command: 'vscode.open',
+            arguments: [vscode.Uri.file(filePath), { selection: new vscode.Range(position, position) }]
+        };
+    }
+
     private getUserCustomCategoryTreeItem(category: UserCustomCategory): vscode.TreeItem {
         const isExpanded = this.getExpandedState(category.id);
         const collapsibleState = isExpanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
@@ -280,8 +533,10 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
         return item;
     }
 
-    getTreeItem(element: BazelTreeElement): vscode.TreeItem {
-        if (element instanceof BazelTargetCategory) {
+    getTreeItem(element: BazelTreeElement): vscode.TreeItem | Thenable<vscode.TreeItem> {
+        if (element instanceof WorkspaceFolderCategory) {
+            return this.getWorkspaceFolderTreeItem(element);
+        } else if (element instanceof BazelTargetCategory) {
             return this.getTargetCategoryTreeItem(element);
         } else if (element instanceof BazelTarget) {
             return this.getTargetTreeItem(element);
@@ -295,15 +550,24 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
             return this.getUserCustomCategoryTreeItem(element);
         } else if (element instanceof UserCustomButton) {
             return this.getUserCustomButtonTreeItem(element);
+        } else if (element instanceof BazelTestResults) {
+            return this.getTestResultsTreeItem(element);
+        } else if (element instanceof BazelTestCaseResult) {
+            return this.getTestCaseTreeItem(element);
+        } else if (element instanceof BazelTestSourceLocation) {
+            return this.getTestSourceLocationTreeItem(element);
+        } else if (element instanceof BazelTestLog) {
+            return this.getTestLogTreeItem(element);
         } else {
             throw Error(`No such type of tree element allowed: ${element}`);
         }
 
     }
 
-    private async findParentOfBazelTargetTreeItem(targetId: string): Promise<BazelTargetCategory | undefined> {
-        // Get all root elements
-        const rootElements = await this.getRootChildren(); // Use a synchronous version of getRootChildren if possible
+    private async findParentOfBazelTargetTreeItem(target: BazelTarget): Promise<BazelTargetCategory | undefined> {
+        const targetId = target.id;
+        // Get all categories of the workspace folder of the target
+        const rootElements = await this.getChildrenForSection(this.getSection(target.getWorkspaceFolder()));
 
         for (const root of rootElements) {
             if (root instanceof BazelTargetCategory) {
@@ -319,7 +583,7 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
 
     public expandTarget(target: BazelTarget): void {
         // Expand the parent category
-        this.findParentOfBazelTargetTreeItem(target.id).then((parent) => {
+        this.findParentOfBazelTargetTreeItem(target).then((parent) => {
             if (!parent) {
                 throw new Error('Could not find target category in tree');
             }
@@ -342,9 +606,9 @@ export class BazelTargetTreeProvider implements vscode.TreeDataProvider<BazelTre
     }
 
     // Get the expanded/collapsed state for a given item
-    private getExpandedState(itemId: string): boolean {
+    private getExpandedState(itemId: string, defaultState = false): boolean {
         const expanded = this.expandedStateCache[itemId];
-        return expanded ?? false;  // Default to false if not in cache
+        return expanded ?? defaultState;  // Default to collapsed if not in cache
     }
 
     private getTreeItemModelId(element: BazelTreeElement): string {
@@ -0,0 +1,69 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BazelInvocation } from '../models/bazel-invocation';
+import { BazelInvocationManager } from '../models/bazel-invocation-manager';
+import { capitalizeFirstLetter } from '../services/string-utils';
+import * as vscode from 'vscode';
+
+/**
+ * Shows a notification when a bazel invocation fails, linking to the output of
+ * its first failed action or test.
+ */
+export function registerBuildEventNotifications(context: vscode.ExtensionContext,
+    bazelInvocationManager: BazelInvocationManager) {
+    context.subscriptions.push(bazelInvocationManager.onDidFinishInvocation(invocation => {
+        // Cancelled invocations are not failures worth reporting
+        if (invocation.isSuccess() !== false || invocation.exitCode?.name === 'INTERRUPTED') {
+            return;
+        }
+        showInvocationFailure(invocation);
+    }));
+}
+
+function showInvocationFailure(invocation: BazelInvocation) {
+    const buttons: { [title: string]: string } = {};
+    const stderrPath = invocation.getFailedActions().find(action => action.stderrPath)?.stderrPath;
+    if (stderrPath) {
+        buttons['Open stderr'] = stderrPath;
+    }
+    const testLogPath = invocation.getTestSummaries().flatMap(summary => summary.failedLogPaths)[0];
+    if (testLogPath) {
+        buttons['Open test log'] = testLogPath;
+    }
+
+    const failedLabels = invocation.getTargetResults()
+        .filter(result => result.success === false)
+        .map(result => result.label);
+    const exitName = invocation.exitCode?.name ? ` (${invocation.exitCode.name})` : '';
+    const labels = failedLabels.length > 0 ? ` ${failedLabels.slice(0, 3).join(', ')}${failedLabels.length > 3 ? ', ...' : ''}` : '';
+    const summary = invocation.summarize();
+    const message = `${capitalizeFirstLetter(invocation.action)}${labels} failed${exitName}${summary ? `: ${summary}` : ''}`;
+
+    vscode.window.showErrorMessage(message, ...Object.keys(buttons)).then(selection => {
+        if (selection) {
+            vscode.window.showTextDocument(vscode.Uri.file(buttons[selection]));
+        }
+    });
+}
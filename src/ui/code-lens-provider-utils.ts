@@ -28,8 +28,10 @@ import * as vscode from 'vscode';
 export function registerCodeLensProviders(context: vscode.ExtensionContext, bazelService: BazelService) {
     const testProvider = new UnifiedCodeLensProvider(context, bazelService);
 
-    vscode.languages.registerCodeLensProvider({ language: 'go', scheme: 'file' }, testProvider);
-    vscode.languages.registerCodeLensProvider({ language: 'cpp', scheme: 'file' }, testProvider);
-    vscode.languages.registerCodeLensProvider({ language: 'c', scheme: 'file' }, testProvider);
-    vscode.languages.registerCodeLensProvider({ language: 'python', scheme: 'file' }, testProvider);
+    // Only provide code lenses for the files of the workspace folder of the bazel service.
+    const pattern = new vscode.RelativePattern(bazelService.getWorkspaceFolder(), '**/*');
+    vscode.languages.registerCodeLensProvider({ language: 'go', scheme: 'file', pattern: pattern }, testProvider);
+    vscode.languages.registerCodeLensProvider({ language: 'cpp', scheme: 'file', pattern: pattern }, testProvider);
+    vscode.languages.registerCodeLensProvider({ language: 'c', scheme: 'file', pattern: pattern }, testProvider);
+    vscode.languages.registerCodeLensProvider({ language: 'python', scheme: 'file', pattern: pattern }, testProvider);
 }
\ No newline at end of file
@@ -76,21 +76,36 @@ export class UnifiedCodeLensProvider implements vscode.CodeLensProvider {
         this.regexPatterns.push(...runRegexes);
     }
 
-    public provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.CodeLens[] {
+    public async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
         // Match the correct regex based on the document's language
-        const codeLenses: vscode.CodeLens[] = [];
+        const patterns = this.regexPatterns.filter(pattern => pattern.language === document.languageId);
+        if (patterns.length === 0) {
+            return [];
+        }
+
+        // Only files owned by a target can be run or tested
+        let owningTargets: BazelTarget[];
+        try {
+            owningTargets = await this.bazelService.fetchTargetsOwningSourceFile(document.fileName, token);
+        } catch (error) {
+            Console.error(`Cannot find targets owning ${document.fileName}:`, error);
+            return [];
+        }
+
+        if (owningTargets.length === 0 || token.isCancellationRequested) {
+            return [];
+        }
 
-        this.regexPatterns
-            .filter(pattern => pattern.language === document.languageId)
-            .forEach(pattern => {
-                const lenses = this.processRegexPattern(document, pattern, token);
-                codeLenses.push(...lenses);
-            });
+        const codeLenses: vscode.CodeLens[] = [];
+        patterns.forEach(pattern => {
+            const lenses = this.processRegexPattern(document, pattern, owningTargets[0], token);
+            codeLenses.push(...lenses);
+        });
 
         return codeLenses;
     }
 
-    private processRegexPattern(document: vscode.TextDocument, pattern: Pattern, _token: vscode.CancellationToken): vscode.CodeLens[] {
+    private processRegexPattern(document: vscode.TextDocument, pattern: Pattern, owningTarget: BazelTarget, _token: vscode.CancellationToken): vscode.CodeLens[] {
         const text = document.getText();
         const language = document.languageId; // Detect the language of the document
         const codeLenses: vscode.CodeLens[] = [];
@@ -121,19 +136,11 @@ export class UnifiedCodeLensProvider implements vscode.CodeLensProvider {
                 functionName = match[1] || match[2];
             }
             const line = document.lineAt(document.positionAt(match.index).line);
-            const targets = BazelService.extractBazelTargetsAssociatedWithSourceFile(document.fileName);
-
-            if (targets.length === 0) {
-                continue;
-            }
 
             Console.info(`Installing code lens provider for ${action} on ${functionName}...`);
 
-            const realTargets = targets.map(target => {
-                return new BazelTarget(this.context, this.bazelService, target.label, target.bazelPath, target.buildPath, action, target.ruleType);
-            });
-
-            const target = realTargets[0];
+            const target = new BazelTarget(this.context, this.bazelService, owningTarget.label, owningTarget.bazelPath,
+                owningTarget.buildPath, action, owningTarget.ruleType, undefined, owningTarget.metadata);
 
             // Modify run arguments for the specific function
             if (pattern.type === PatternType.Test) {
@@ -0,0 +1,105 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelCoverageManager } from '../models/bazel-coverage-manager';
+import * as vscode from 'vscode';
+
+/**
+ * Decorates the lines of visible editors with their coverage from the latest coverage
+ * reports: covered and uncovered lines are highlighted, and lines with branches show
+ * how many of them were taken.
+ */
+export class CoverageDecorationProvider {
+    private readonly coveredDecorationType: vscode.TextEditorDecorationType;
+    private readonly uncoveredDecorationType: vscode.TextEditorDecorationType;
+    private readonly partialBranchesDecorationType: vscode.TextEditorDecorationType;
+
+    constructor(context: vscode.ExtensionContext,
+        private readonly bazelCoverageManager: BazelCoverageManager
+    ) {
+        this.coveredDecorationType = vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            backgroundColor: new vscode.ThemeColor('diffEditor.insertedLineBackground'),
+            overviewRulerColor: new vscode.ThemeColor('testing.iconPassed'),
+            overviewRulerLane: vscode.OverviewRulerLane.Left
+        });
+        this.uncoveredDecorationType = vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            backgroundColor: new vscode.ThemeColor('diffEditor.removedLineBackground'),
+            overviewRulerColor: new vscode.ThemeColor('testing.iconFailed'),
+            overviewRulerLane: vscode.OverviewRulerLane.Left
+        });
+        this.partialBranchesDecorationType = vscode.window.createTextEditorDecorationType({
+            after: {
+                color: new vscode.ThemeColor('editorWarning.foreground'),
+                margin: '0 0 0 2em'
+            }
+        });
+
+        context.subscriptions.push(this.coveredDecorationType, this.uncoveredDecorationType, this.partialBranchesDecorationType);
+        context.subscriptions.push(vscode.window.onDidChangeVisibleTextEditors(() => this.refresh()));
+        context.subscriptions.push(this.bazelCoverageManager.onDidChangeCoverage(() => this.refresh()));
+    }
+
+    public refresh() {
+        vscode.window.visibleTextEditors.forEach(editor => this.decorate(editor));
+    }
+
+    private decorate(editor: vscode.TextEditor) {
+        const fileCoverage = editor.document.uri.scheme === 'file' ?
+            this.bazelCoverageManager.getFileCoverage(editor.document.uri.fsPath) : undefined;
+        const covered: vscode.DecorationOptions[] = [];
+        const uncovered: vscode.DecorationOptions[] = [];
+        const partialBranches: vscode.DecorationOptions[] = [];
+
+        if (fileCoverage) {
+            const lineCount = editor.document.lineCount;
+            fileCoverage.coverage.lines.forEach((count, line) => {
+                if (line < 1 || line > lineCount) {
+                    // The file changed since the coverage run
+                    return;
+                }
+                const range = editor.document.lineAt(line - 1).range;
+                const hoverMessage = `Executed ${count} time${count === 1 ? '' : 's'}`;
+                (count > 0 ? covered : uncovered).push({ range, hoverMessage });
+            });
+
+            fileCoverage.getBranchesByLine().forEach((branches, line) => {
+                const takenCount = branches.filter(branch => (branch.taken || 0) > 0).length;
+                if (line < 1 || line > lineCount || takenCount === branches.length) {
+                    return;
+                }
+                const range = editor.document.lineAt(line - 1).range;
+                partialBranches.push({
+                    range: new vscode.Range(range.end, range.end),
+                    hoverMessage: `${takenCount} of ${branches.length} branches taken`,
+                    renderOptions: { after: { contentText: `${takenCount}/${branches.length} branches` } }
+                });
+            });
+        }
+
+        editor.setDecorations(this.coveredDecorationType, covered);
+        editor.setDecorations(this.uncoveredDecorationType, uncovered);
+        editor.setDecorations(this.partialBranchesDecorationType, partialBranches);
+    }
+}
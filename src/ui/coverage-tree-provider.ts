@@ -0,0 +1,136 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelCoverageCount, BazelCoverageReport, BazelFileCoverage } from '../models/bazel-coverage';
+import { BazelCoverageManager } from '../models/bazel-coverage-manager';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export type CoverageTreeElement = BazelCoverageReport | BazelFileCoverage;
+
+/**
+ * Shows the coverage reports of coverage runs, with the line and branch coverage of each file.
+ */
+export class CoverageTreeProvider implements vscode.TreeDataProvider<CoverageTreeElement> {
+    private _onDidChangeTreeData: vscode.EventEmitter<CoverageTreeElement | undefined | void> = new vscode.EventEmitter<CoverageTreeElement | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<CoverageTreeElement | undefined | void> = this._onDidChangeTreeData.event;
+
+    private treeView: vscode.TreeView<CoverageTreeElement> | undefined;
+
+    constructor(private readonly bazelCoverageManager: BazelCoverageManager) {
+        this.bazelCoverageManager.onDidChangeCoverage(() => this.refresh());
+    }
+
+    public registerTreeView(treeView: vscode.TreeView<CoverageTreeElement>) {
+        this.treeView = treeView;
+        this.updateMessage();
+    }
+
+    public refresh() {
+        this.updateMessage();
+        this._onDidChangeTreeData.fire();
+    }
+
+    private updateMessage() {
+        if (this.treeView) {
+            const hasReports = this.bazelCoverageManager.getCoverageReports().length > 0;
+            this.treeView.message = hasReports ? undefined : 'Run coverage on a test target.';
+        }
+    }
+
+    getTreeItem(element: CoverageTreeElement): vscode.TreeItem {
+        if (element instanceof BazelCoverageReport) {
+            const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+            item.id = element.id;
+            item.contextValue = 'coverageReport';
+            item.iconPath = new vscode.ThemeIcon('shield');
+            item.description = CoverageTreeProvider.formatCoverage(element.getLineCount(), element.getBranchCount());
+            item.tooltip = [
+                `${element.files.length} files`,
+                `Read ${new Date(element.readTime).toLocaleString()} from`,
+                ...element.reportPaths
+            ].join('\n');
+            return item;
+        }
+
+        const item = new vscode.TreeItem(vscode.workspace.asRelativePath(element.filePath), vscode.TreeItemCollapsibleState.None);
+        item.id = element.id;
+        item.contextValue = 'fileCoverage';
+        item.resourceUri = vscode.Uri.file(element.filePath);
+        item.iconPath = CoverageTreeProvider.getIcon(element.getLineCount());
+        item.description = CoverageTreeProvider.formatCoverage(element.getLineCount(), element.getBranchCount());
+
+        const lines = element.getLineCount();
+        const branches = element.getBranchCount();
+        const functions = element.getFunctionCount();
+        item.tooltip = [
+            element.filePath,
+            `Lines: ${lines.covered}/${lines.total}`,
+            branches.total > 0 ? `Branches: ${branches.covered}/${branches.total}` : undefined,
+            functions.total > 0 ? `Functions: ${functions.covered}/${functions.total}` : undefined
+        ].filter(line => line).join('\n');
+        item.command = {
+            title: 'Open',
+            command: 'vscode.open',
+            arguments: [vscode.Uri.file(element.filePath)]
+        };
+        return item;
+    }
+
+    getChildren(element?: CoverageTreeElement): vscode.ProviderResult<CoverageTreeElement[]> {
+        if (!element) {
+            // The latest report first
+            return this.bazelCoverageManager.getCoverageReports().reverse();
+        } else if (element instanceof BazelCoverageReport) {
+            // Files outside the workspace, e.g. of external repositories, are listed last
+            return [...element.files].sort((a, b) => {
+                const aExternal = path.isAbsolute(vscode.workspace.asRelativePath(a.filePath));
+                const bExternal = path.isAbsolute(vscode.workspace.asRelativePath(b.filePath));
+                return aExternal === bExternal ? 0 : (aExternal ? 1 : -1);
+            });
+        }
+        return [];
+    }
+
+    /**
+     * Formats the coverage as e.g. `85.0% lines, 50.0% branches`.
+     */
+    private static formatCoverage(lines: BazelCoverageCount, branches: BazelCoverageCount): string {
+        const linePercentage = BazelCoverageReport.formatPercentage(lines);
+        const branchPercentage = BazelCoverageReport.formatPercentage(branches);
+        return [
+            linePercentage ? `${linePercentage} lines` : 'no lines',
+            branchPercentage ? `${branchPercentage} branches` : undefined
+        ].filter(part => part).join(', ');
+    }
+
+    private static getIcon(lines: BazelCoverageCount): vscode.ThemeIcon {
+        const ratio = lines.total > 0 ? lines.covered / lines.total : 1;
+        if (ratio >= 0.8) {
+            return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        } else if (ratio >= 0.5) {
+            return new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        }
+        return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+    }
+}
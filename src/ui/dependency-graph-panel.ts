@@ -0,0 +1,375 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { DependencyGraph } from '../services/bazel-dependency-graph';
+import { v4 as uuidv4 } from 'uuid';
+import * as vscode from 'vscode';
+
+/**
+ * Messages sent from the dependency graph webview to the extension.
+ */
+export type DependencyGraphPanelMessage =
+    { type: 'update', depth: number, excludeExternal: boolean } |
+    { type: 'somepath', to: string } |
+    { type: 'showAll' } |
+    { type: 'openBuildFile', location: string };
+
+/**
+ * A webview that draws a dependency graph as layers of rules, with zoom,
+ * depth and external repository controls, and a path search between two targets.
+ */
+export class DependencyGraphPanel {
+    private readonly panel: vscode.WebviewPanel;
+
+    constructor(viewType: string,
+        title: string,
+        onMessage: (message: DependencyGraphPanelMessage) => void,
+        onDispose: () => void
+    ) {
+        this.panel = vscode.window.createWebviewPanel(viewType, title, vscode.ViewColumn.Active, {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        });
+        this.panel.webview.html = this.getHtml();
+        this.panel.webview.onDidReceiveMessage(onMessage);
+        this.panel.onDidDispose(onDispose);
+    }
+
+    public reveal() {
+        this.panel.reveal();
+    }
+
+    public showLoading(description: string) {
+        this.panel.webview.postMessage({ type: 'loading', description: description });
+    }
+
+    public showError(description: string) {
+        this.panel.webview.postMessage({ type: 'error', description: description });
+    }
+
+    /**
+     * Draws a graph.
+     * @param graph The graph to draw.
+     * @param root The label laid out at the top; other rules are placed by their distance from it.
+     * @param depth The depth limit the graph was queried with, shown in the controls.
+     * @param excludeExternal Whether external repositories were left out, shown in the controls.
+     * @param pathTo If the graph is a path between the root and another target, that target.
+     */
+    public showGraph(graph: DependencyGraph, root: string, depth: number, excludeExternal: boolean, pathTo?: string) {
+        this.panel.webview.postMessage({
+            type: 'graph',
+            graph: graph,
+            root: root,
+            depth: depth,
+            excludeExternal: excludeExternal,
+            pathTo: pathTo
+        });
+    }
+
+    private getHtml(): string {
+        const nonce = uuidv4().replace(/-/g, '');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+    body { margin: 0; padding: 0; color: var(--vscode-foreground); background: var(--vscode-editor-background); font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); }
+    #toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 6px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    #toolbar input[type=text] { width: 260px; }
+    input, button { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 4px; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    #status { opacity: 0.8; }
+    #graph { width: 100vw; height: calc(100vh - 40px); cursor: grab; }
+    .node rect { fill: var(--vscode-editorWidget-background); stroke: var(--vscode-editorWidget-border, var(--vscode-foreground)); rx: 4; }
+    .node.root rect { stroke: var(--vscode-focusBorder); stroke-width: 2; }
+    .node.target rect { stroke: var(--vscode-charts-orange); stroke-width: 2; }
+    .node.external rect { stroke-dasharray: 4 2; opacity: 0.8; }
+    .node text { fill: var(--vscode-foreground); font-size: 12px; }
+    .node .kind { opacity: 0.7; font-size: 10px; }
+    .node { cursor: pointer; }
+    .edge { stroke: var(--vscode-foreground); stroke-opacity: 0.4; fill: none; }
+    #arrow path { fill: var(--vscode-foreground); fill-opacity: 0.4; }
+</style>
+</head>
+<body>
+<div id="toolbar">
+    <label>Depth <input id="depth" type="number" min="0" value="3" style="width: 48px" title="0 means unlimited"></label>
+    <label><input id="excludeExternal" type="checkbox"> Hide external repos</label>
+    <button id="apply">Apply</button>
+    <button id="zoomIn" title="Zoom in">+</button>
+    <button id="zoomOut" title="Zoom out">-</button>
+    <button id="fit" title="Fit to window">Fit</button>
+    <input id="pathTo" type="text" placeholder="Why does it depend on... (e.g. //foo:bar)" title="Alt+click a node to fill in">
+    <button id="findPath">Find path</button>
+    <button id="showAll" style="display: none">Show full graph</button>
+    <span id="status"></span>
+</div>
+<svg id="graph" xmlns="http://www.w3.org/2000/svg">
+    <defs>
+        <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z"></path>
+        </marker>
+    </defs>
+    <g id="scene"></g>
+</svg>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const svgNs = 'http://www.w3.org/2000/svg';
+    const svg = document.getElementById('graph');
+    const scene = document.getElementById('scene');
+    const status = document.getElementById('status');
+    const depthInput = document.getElementById('depth');
+    const excludeExternalInput = document.getElementById('excludeExternal');
+    const pathToInput = document.getElementById('pathTo');
+    const showAllButton = document.getElementById('showAll');
+
+    const nodeWidth = 220;
+    const nodeHeight = 40;
+    const columnGap = 30;
+    const rowGap = 60;
+    let viewBox = { x: 0, y: 0, width: 1000, height: 800 };
+    let bounds = { x: 0, y: 0, width: 1000, height: 800 };
+
+    function applyViewBox() {
+        svg.setAttribute('viewBox', viewBox.x + ' ' + viewBox.y + ' ' + viewBox.width + ' ' + viewBox.height);
+    }
+
+    function fit() {
+        const margin = 20;
+        const aspect = svg.clientWidth / Math.max(svg.clientHeight, 1);
+        let width = bounds.width + 2 * margin;
+        let height = bounds.height + 2 * margin;
+        if (width / height < aspect) {
+            width = height * aspect;
+        } else {
+            height = width / aspect;
+        }
+        viewBox = { x: bounds.x + bounds.width / 2 - width / 2, y: bounds.y - margin, width: width, height: height };
+        applyViewBox();
+    }
+
+    function zoom(factor, centerX, centerY) {
+        const cx = centerX === undefined ? viewBox.x + viewBox.width / 2 : centerX;
+        const cy = centerY === undefined ? viewBox.y + viewBox.height / 2 : centerY;
+        viewBox = {
+            x: cx - (cx - viewBox.x) * factor,
+            y: cy - (cy - viewBox.y) * factor,
+            width: viewBox.width * factor,
+            height: viewBox.height * factor
+        };
+        applyViewBox();
+    }
+
+    // Places every node in a row by its distance from the root, breadth first.
+    function layout(graph, root) {
+        const children = new Map();
+        const incoming = new Set();
+        graph.nodes.forEach(node => children.set(node.label, []));
+        graph.edges.forEach(edge => {
+            children.get(edge.from).push(edge.to);
+            incoming.add(edge.to);
+        });
+
+        let starts = graph.nodes.filter(node => node.label === root).map(node => node.label);
+        if (starts.length === 0) {
+            starts = graph.nodes.filter(node => !incoming.has(node.label)).map(node => node.label);
+        }
+
+        const levels = new Map();
+        const queue = [];
+        starts.forEach(label => { levels.set(label, 0); queue.push(label); });
+        while (queue.length > 0) {
+            const label = queue.shift();
+            children.get(label).forEach(child => {
+                if (!levels.has(child)) {
+                    levels.set(child, levels.get(label) + 1);
+                    queue.push(child);
+                }
+            });
+        }
+        // Nodes that cannot be reached from the root (e.g. in cycles) go below everything else
+        const lastLevel = Math.max(0, ...levels.values()) + 1;
+        graph.nodes.forEach(node => { if (!levels.has(node.label)) { levels.set(node.label, lastLevel); } });
+
+        const rows = new Map();
+        graph.nodes.forEach(node => {
+            const level = levels.get(node.label);
+            if (!rows.has(level)) { rows.set(level, []); }
+            rows.get(level).push(node);
+        });
+
+        const positions = new Map();
+        let widest = 0;
+        rows.forEach(row => { widest = Math.max(widest, row.length); });
+        const totalWidth = widest * (nodeWidth + columnGap);
+        rows.forEach((row, level) => {
+            row.sort((a, b) => (a.label < b.label ? -1 : 1));
+            const rowWidth = row.length * (nodeWidth + columnGap);
+            row.forEach((node, index) => {
+                positions.set(node.label, {
+                    x: (totalWidth - rowWidth) / 2 + index * (nodeWidth + columnGap),
+                    y: level * (nodeHeight + rowGap)
+                });
+            });
+        });
+        bounds = { x: 0, y: 0, width: Math.max(totalWidth, nodeWidth), height: (Math.max(0, ...rows.keys()) + 1) * (nodeHeight + rowGap) };
+        return positions;
+    }
+
+    function shorten(text, maxLength) {
+        return text.length > maxLength ? '…' + text.slice(text.length - maxLength + 1) : text;
+    }
+
+    function render(message) {
+        const graph = message.graph;
+        while (scene.firstChild) {
+            scene.removeChild(scene.firstChild);
+        }
+        const positions = layout(graph, message.root);
+
+        graph.edges.forEach(edge => {
+            const from = positions.get(edge.from);
+            const to = positions.get(edge.to);
+            const line = document.createElementNS(svgNs, 'path');
+            const x1 = from.x + nodeWidth / 2;
+            const y1 = from.y + nodeHeight;
+            const x2 = to.x + nodeWidth / 2;
+            const y2 = to.y;
+            const bend = Math.max(Math.abs(y2 - y1) / 2, 20);
+            line.setAttribute('d', 'M ' + x1 + ' ' + y1 + ' C ' + x1 + ' ' + (y1 + bend) + ', ' + x2 + ' ' + (y2 - bend) + ', ' + x2 + ' ' + y2);
+            line.setAttribute('class', 'edge');
+            line.setAttribute('marker-end', 'url(#arrow)');
+            scene.appendChild(line);
+        });
+
+        graph.nodes.forEach(node => {
+            const position = positions.get(node.label);
+            const group = document.createElementNS(svgNs, 'g');
+            let className = 'node';
+            if (node.label === message.root) { className += ' root'; }
+            if (node.label === message.pathTo) { className += ' target'; }
+            if (node.isExternal) { className += ' external'; }
+            group.setAttribute('class', className);
+            group.setAttribute('transform', 'translate(' + position.x + ',' + position.y + ')');
+
+            const title = document.createElementNS(svgNs, 'title');
+            title.textContent = node.label + ' (' + node.ruleClass + ')\\nClick to open the BUILD file, Alt+click to find the path to it.';
+            group.appendChild(title);
+
+            const rect = document.createElementNS(svgNs, 'rect');
+            rect.setAttribute('width', nodeWidth);
+            rect.setAttribute('height', nodeHeight);
+            group.appendChild(rect);
+
+            const label = document.createElementNS(svgNs, 'text');
+            label.setAttribute('x', 8);
+            label.setAttribute('y', 17);
+            label.textContent = shorten(node.label, 32);
+            group.appendChild(label);
+
+            const kind = document.createElementNS(svgNs, 'text');
+            kind.setAttribute('x', 8);
+            kind.setAttribute('y', 32);
+            kind.setAttribute('class', 'kind');
+            kind.textContent = node.ruleClass;
+            group.appendChild(kind);
+
+            group.addEventListener('click', event => {
+                if (event.altKey) {
+                    pathToInput.value = node.label;
+                    vscode.postMessage({ type: 'somepath', to: node.label });
+                } else if (node.location) {
+                    vscode.postMessage({ type: 'openBuildFile', location: node.location });
+                }
+            });
+            scene.appendChild(group);
+        });
+
+        depthInput.value = message.depth;
+        excludeExternalInput.checked = message.excludeExternal;
+        showAllButton.style.display = message.pathTo ? '' : 'none';
+        let text = graph.nodes.length + ' targets, ' + graph.edges.length + ' dependencies';
+        if (message.pathTo) {
+            text = graph.nodes.length === 0 ? 'No path to ' + message.pathTo : 'Path to ' + message.pathTo + ': ' + text;
+        }
+        if (graph.truncated) {
+            text += ' (truncated, reduce the depth to see everything)';
+        }
+        status.textContent = text;
+        fit();
+    }
+
+    document.getElementById('apply').addEventListener('click', () => {
+        vscode.postMessage({ type: 'update', depth: Number(depthInput.value) || 0, excludeExternal: excludeExternalInput.checked });
+    });
+    document.getElementById('zoomIn').addEventListener('click', () => zoom(0.8));
+    document.getElementById('zoomOut').addEventListener('click', () => zoom(1.25));
+    document.getElementById('fit').addEventListener('click', () => fit());
+    document.getElementById('findPath').addEventListener('click', () => {
+        if (pathToInput.value.trim()) {
+            vscode.postMessage({ type: 'somepath', to: pathToInput.value.trim() });
+        }
+    });
+    showAllButton.addEventListener('click', () => vscode.postMessage({ type: 'showAll' }));
+
+    svg.addEventListener('wheel', event => {
+        event.preventDefault();
+        const point = svg.createSVGPoint();
+        point.x = event.clientX;
+        point.y = event.clientY;
+        const scenePoint = point.matrixTransform(svg.getScreenCTM().inverse());
+        zoom(event.deltaY > 0 ? 1.1 : 0.9, scenePoint.x, scenePoint.y);
+    }, { passive: false });
+
+    let dragStart = undefined;
+    svg.addEventListener('mousedown', event => {
+        dragStart = { x: event.clientX, y: event.clientY, viewBox: Object.assign({}, viewBox) };
+    });
+    window.addEventListener('mousemove', event => {
+        if (!dragStart) { return; }
+        const scale = viewBox.width / Math.max(svg.clientWidth, 1);
+        viewBox.x = dragStart.viewBox.x - (event.clientX - dragStart.x) * scale;
+        viewBox.y = dragStart.viewBox.y - (event.clientY - dragStart.y) * scale;
+        applyViewBox();
+    });
+    window.addEventListener('mouseup', () => { dragStart = undefined; });
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'loading') {
+            status.textContent = 'Loading ' + message.description + '...';
+        } else if (message.type === 'error') {
+            status.textContent = message.description;
+        } else if (message.type === 'graph') {
+            render(message);
+        }
+    });
+</script>
+</body>
+</html>`;
+    }
+}
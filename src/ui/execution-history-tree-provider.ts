@@ -0,0 +1,106 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelExecution, BazelExecutionStatus, formatDuration } from '../models/bazel-execution';
+import { BazelExecutionHistoryManager } from '../models/bazel-execution-history-manager';
+import * as vscode from 'vscode';
+
+/**
+ * Shows the actions that ran on targets, the latest first.
+ */
+export class ExecutionHistoryTreeProvider implements vscode.TreeDataProvider<BazelExecution> {
+    private _onDidChangeTreeData: vscode.EventEmitter<BazelExecution | undefined | void> = new vscode.EventEmitter<BazelExecution | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<BazelExecution | undefined | void> = this._onDidChangeTreeData.event;
+
+    private treeView: vscode.TreeView<BazelExecution> | undefined;
+
+    constructor(private readonly bazelExecutionHistoryManager: BazelExecutionHistoryManager) {
+        this.bazelExecutionHistoryManager.onDidChangeHistory(() => this.refresh());
+    }
+
+    public registerTreeView(treeView: vscode.TreeView<BazelExecution>) {
+        this.treeView = treeView;
+        this.updateMessage();
+    }
+
+    public refresh() {
+        this.updateMessage();
+        this._onDidChangeTreeData.fire();
+    }
+
+    private updateMessage() {
+        if (this.treeView) {
+            const hasExecutions = this.bazelExecutionHistoryManager.getExecutions().length > 0;
+            this.treeView.message = hasExecutions ? undefined : 'Build, run or test a target.';
+        }
+    }
+
+    getTreeItem(execution: BazelExecution): vscode.TreeItem {
+        const item = new vscode.TreeItem(`${execution.action} ${execution.label}`, vscode.TreeItemCollapsibleState.None);
+        item.id = execution.id;
+        item.iconPath = ExecutionHistoryTreeProvider.getIcon(execution.status);
+
+        const startTime = new Date(execution.startTime);
+        const isToday = startTime.toDateString() === new Date().toDateString();
+        item.description = [
+            isToday ? startTime.toLocaleTimeString() : startTime.toLocaleString(),
+            execution.durationMillis !== undefined ? formatDuration(execution.durationMillis) : undefined
+        ].filter(part => part).join(' · ');
+
+        item.tooltip = [
+            execution.command,
+            `Started ${startTime.toLocaleString()}`,
+            execution.durationMillis !== undefined ? `Took ${formatDuration(execution.durationMillis)}` : 'Running...',
+            execution.exitCode !== undefined ? `Exited with ${execution.exitCode} (${execution.status})` : `Status: ${execution.status}`,
+            `In ${execution.workspaceRoot}`,
+            execution.logPath ? `Log: ${execution.logPath}` : undefined
+        ].filter(line => line).join('\n');
+
+        if (execution.status === 'running') {
+            item.contextValue = 'runningExecution';
+        } else {
+            item.contextValue = execution.logPath ? 'executionWithLog' : 'execution';
+        }
+        return item;
+    }
+
+    getChildren(element?: BazelExecution): vscode.ProviderResult<BazelExecution[]> {
+        if (!element) {
+            return this.bazelExecutionHistoryManager.getExecutions();
+        }
+        return [];
+    }
+
+    private static getIcon(status: BazelExecutionStatus): vscode.ThemeIcon {
+        switch (status) {
+        case 'running':
+            return new vscode.ThemeIcon('sync~spin');
+        case 'succeeded':
+            return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        case 'failed':
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        default:
+            return new vscode.ThemeIcon('circle-slash');
+        }
+    }
+}
@@ -0,0 +1,130 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelInterruptedServer, BazelInvocationScheduler, BazelScheduledInvocation } from '../services/invocation-scheduler';
+import * as vscode from 'vscode';
+
+interface InvocationQuickPickItem extends vscode.QuickPickItem {
+    invocation?: BazelScheduledInvocation;
+    interruptedServer?: BazelInterruptedServer;
+}
+
+function formatElapsedTime(since: number): string {
+    const seconds = Math.floor((Date.now() - since) / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function createInvocationItem(invocation: BazelScheduledInvocation, showOutputBase: boolean): InvocationQuickPickItem {
+    const state = invocation.startedAt !== undefined ?
+        `${invocation.isStopping() ? 'stopping' : 'running'} for ${formatElapsedTime(invocation.startedAt)}` :
+        `queued for ${formatElapsedTime(invocation.queuedAt)}`;
+    const icon = invocation.isStopping() ? '$(loading~spin)' : (invocation.isRunning() ? '$(sync~spin)' : '$(clock)');
+    return {
+        label: `${icon} ${invocation.description}`,
+        description: invocation.priority === 'background' ? `${state} (background)` : state,
+        detail: showOutputBase ? invocation.outputBase : undefined,
+        invocation: invocation
+    };
+}
+
+function createInterruptedServerItem(server: BazelInterruptedServer): InvocationQuickPickItem {
+    return {
+        label: `$(warning) ${server.description}`,
+        description: `interrupted ${formatElapsedTime(server.interruptedAt)} ago, the bazel server${server.pid !== undefined ? ` (pid ${server.pid})` : ''} may still be busy`,
+        detail: server.outputBase,
+        interruptedServer: server
+    };
+}
+
+async function pickInterruptedServerAction(invocationScheduler: BazelInvocationScheduler, server: BazelInterruptedServer) {
+    const actions: { [title: string]: () => void } = {};
+    if (server.pid !== undefined) {
+        actions['$(trash) Kill Server'] = () => invocationScheduler.killInterruptedServer(server);
+    }
+    actions['$(check) Dismiss'] = () => invocationScheduler.forgetInterruptedServer(server);
+
+    const selection = await vscode.window.showQuickPick(Object.keys(actions), {
+        placeHolder: `The bazel server at ${server.outputBase}`
+    });
+    if (selection !== undefined) {
+        actions[selection]();
+    }
+}
+
+async function pickInvocationAction(invocationScheduler: BazelInvocationScheduler, invocation: BazelScheduledInvocation) {
+    const actions: { [title: string]: () => void } = {};
+    if (invocation.isStopping()) {
+        vscode.window.showInformationMessage(`${invocation.description} is being stopped.`);
+        return;
+    }
+    if (!invocation.isRunning()) {
+        actions['$(arrow-circle-up) Move to Front'] = () => invocationScheduler.moveToFront(invocation);
+        actions['$(arrow-up) Move Up'] = () => invocationScheduler.moveUp(invocation);
+        actions['$(arrow-down) Move Down'] = () => invocationScheduler.moveDown(invocation);
+    }
+    actions['$(close) Cancel'] = () => invocationScheduler.cancel(invocation);
+
+    const selection = await vscode.window.showQuickPick(Object.keys(actions), {
+        placeHolder: invocation.description
+    });
+    if (selection !== undefined) {
+        actions[selection]();
+    }
+}
+
+/**
+ * Shows the running and queued bazel invocations, and the actions to reorder or cancel the one that is picked.
+ * The bazel servers that may still be busy with an interrupted invocation are shown below them, to kill or dismiss.
+ */
+export async function showInvocationQueueQuickPick(invocationScheduler: BazelInvocationScheduler) {
+    const running = invocationScheduler.getRunningInvocations();
+    const queued = invocationScheduler.getQueuedInvocations();
+    const interruptedServers = invocationScheduler.getInterruptedServers();
+    if (running.length === 0 && queued.length === 0 && interruptedServers.length === 0) {
+        vscode.window.showInformationMessage('No bazel invocations are running or queued.');
+        return;
+    }
+
+    const invocations = [...running, ...queued];
+    const showOutputBase = new Set(invocations.map(invocation => invocation.outputBase)).size > 1;
+    const items: InvocationQuickPickItem[] = invocations.map(invocation => createInvocationItem(invocation, showOutputBase));
+    if (interruptedServers.length > 0) {
+        items.push({ label: 'Interrupted', kind: vscode.QuickPickItemKind.Separator }, ...interruptedServers.map(createInterruptedServerItem));
+    }
+    const cancelAllItem: InvocationQuickPickItem = { label: '$(close-all) Cancel All Queued Invocations' };
+    if (queued.length > 1) {
+        items.push({ label: '', kind: vscode.QuickPickItemKind.Separator }, cancelAllItem);
+    }
+
+    const selection = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select a bazel invocation to reorder or cancel',
+        matchOnDescription: true
+    });
+    if (selection === cancelAllItem) {
+        invocationScheduler.cancelQueued();
+    } else if (selection?.invocation) {
+        await pickInvocationAction(invocationScheduler, selection.invocation);
+    } else if (selection?.interruptedServer) {
+        await pickInterruptedServerAction(invocationScheduler, selection.interruptedServer);
+    }
+}
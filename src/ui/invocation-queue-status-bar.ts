@@ -0,0 +1,93 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { ExtensionUtils } from '../services/extension-utils';
+import { BazelInvocationScheduler } from '../services/invocation-scheduler';
+import * as vscode from 'vscode';
+
+const MAX_DESCRIPTION_LENGTH = 40;
+
+/**
+ * Shows the running and queued bazel invocations in the status bar while there are any.
+ * Clicking it shows the queue to reorder or cancel the invocations.
+ */
+export class InvocationQueueStatusBar implements vscode.Disposable {
+    private readonly statusBarItem: vscode.StatusBarItem;
+
+    constructor(context: vscode.ExtensionContext,
+        private readonly invocationScheduler: BazelInvocationScheduler) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.statusBarItem.command = `${ExtensionUtils.getExtensionName(context)}.showInvocationQueue`;
+
+        context.subscriptions.push(this);
+        context.subscriptions.push(invocationScheduler.onDidChangeQueue(() => this.update()));
+    }
+
+    public dispose() {
+        this.statusBarItem.dispose();
+    }
+
+    private update() {
+        const running = this.invocationScheduler.getRunningInvocations();
+        const queued = this.invocationScheduler.getQueuedInvocations();
+        const interruptedServers = this.invocationScheduler.getInterruptedServers();
+        if (running.length === 0 && queued.length === 0 && interruptedServers.length === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const waiting = queued.length > 0 ? ` $(list-ordered) ${queued.length} queued` : '';
+        const interrupted = interruptedServers.length > 0 ? ` $(warning) ${interruptedServers.length} interrupted` : '';
+        if (running.length === 1) {
+            const icon = running[0].isStopping() ? '$(loading~spin) Stopping' : '$(sync~spin)';
+            this.statusBarItem.text = `${icon} ${InvocationQueueStatusBar.shorten(running[0].description)}${waiting}${interrupted}`;
+        } else if (running.length > 1) {
+            this.statusBarItem.text = `$(sync~spin) ${running.length} bazel invocations${waiting}${interrupted}`;
+        } else {
+            this.statusBarItem.text = `${waiting}${interrupted}`.trim();
+        }
+
+        const tooltip = new vscode.MarkdownString();
+        running.forEach(invocation => {
+            const icon = invocation.isStopping() ? '$(loading~spin) Stopping' : '$(sync~spin)';
+            tooltip.appendMarkdown(`${icon} ${InvocationQueueStatusBar.escape(invocation.description)}  \n`);
+        });
+        queued.forEach(invocation => tooltip.appendMarkdown(`$(clock) ${InvocationQueueStatusBar.escape(invocation.description)}  \n`));
+        interruptedServers.forEach(server => {
+            const pid = server.pid !== undefined ? ` (pid ${server.pid})` : '';
+            tooltip.appendMarkdown(`$(warning) The bazel server${pid} may still be busy with ${InvocationQueueStatusBar.escape(server.description)}  \n`);
+        });
+        tooltip.appendMarkdown('\nClick to reorder or cancel');
+        tooltip.supportThemeIcons = true;
+        this.statusBarItem.tooltip = tooltip;
+        this.statusBarItem.show();
+    }
+
+    private static shorten(description: string): string {
+        return description.length > MAX_DESCRIPTION_LENGTH ? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 3)}...` : description;
+    }
+
+    private static escape(text: string): string {
+        return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+    }
+}
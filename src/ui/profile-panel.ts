@@ -0,0 +1,297 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+import { BazelProfile } from '../models/bazel-profile';
+import { v4 as uuidv4 } from 'uuid';
+import * as vscode from 'vscode';
+
+/**
+ * Messages sent from the profile webview to the extension.
+ */
+export type ProfilePanelMessage =
+    { type: 'select', id: string, compareTo?: string };
+
+/**
+ * A webview that shows the critical path, slowest actions, build phases and time per category
+ * of a profiled build, optionally side by side with another profile.
+ */
+export class ProfilePanel {
+    private readonly panel: vscode.WebviewPanel;
+
+    constructor(viewType: string,
+        title: string,
+        onMessage: (message: ProfilePanelMessage) => void,
+        onDispose: () => void
+    ) {
+        this.panel = vscode.window.createWebviewPanel(viewType, title, vscode.ViewColumn.Active, {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        });
+        this.panel.webview.html = this.getHtml();
+        this.panel.webview.onDidReceiveMessage(onMessage);
+        this.panel.onDidDispose(onDispose);
+    }
+
+    public reveal() {
+        this.panel.reveal();
+    }
+
+    public dispose() {
+        this.panel.dispose();
+    }
+
+    /**
+     * Shows a profile.
+     * @param profiles All profiles that can be picked, the latest first.
+     * @param profile The profile to show.
+     * @param compareTo The profile to show next to it, if any.
+     */
+    public showProfile(profiles: BazelProfile[], profile: BazelProfile, compareTo?: BazelProfile) {
+        this.panel.title = `Build Profile of ${profile.label}`;
+        this.panel.webview.postMessage({
+            type: 'profile',
+            profiles: profiles.map(item => ({ id: item.id, label: item.label, time: item.time, totalMillis: item.totalMillis })),
+            profile: profile,
+            compareTo: compareTo
+        });
+    }
+
+    private getHtml(): string {
+        const nonce = uuidv4().replace(/-/g, '');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+    body { margin: 0; padding: 0 12px 12px 12px; color: var(--vscode-foreground); background: var(--vscode-editor-background); font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); }
+    #toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 6px 0; border-bottom: 1px solid var(--vscode-panel-border); }
+    select { color: var(--vscode-dropdown-foreground); background: var(--vscode-dropdown-background); border: 1px solid var(--vscode-dropdown-border, transparent); padding: 2px 4px; max-width: 420px; }
+    h2 { font-size: 1.1em; margin: 16px 0 6px 0; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 2px 8px 2px 0; vertical-align: top; }
+    th { font-weight: 600; opacity: 0.8; }
+    td.time { text-align: right; white-space: nowrap; font-variant-numeric: tabular-nums; }
+    td.bar { width: 30%; }
+    .bar div { height: 10px; margin-top: 4px; background: var(--vscode-charts-blue); }
+    .columns { display: grid; grid-template-columns: 1fr; gap: 16px; }
+    .columns.compare { grid-template-columns: 1fr 1fr; }
+    .slower { color: var(--vscode-charts-red); }
+    .faster { color: var(--vscode-charts-green); }
+    .muted { opacity: 0.7; }
+    .name { word-break: break-all; }
+</style>
+</head>
+<body>
+<div id="toolbar">
+    <label>Profile <select id="profile"></select></label>
+    <label>Compare with <select id="compareTo"></select></label>
+</div>
+<div id="content"><p class="muted">Loading...</p></div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const profileSelect = document.getElementById('profile');
+    const compareToSelect = document.getElementById('compareTo');
+    const content = document.getElementById('content');
+
+    function formatDuration(millis) {
+        if (millis < 1000) {
+            return millis + 'ms';
+        } else if (millis < 60000) {
+            return (millis / 1000).toFixed(1) + 's';
+        }
+        const seconds = Math.round(millis / 1000);
+        return Math.floor(seconds / 60) + 'm ' + (seconds % 60) + 's';
+    }
+
+    function formatDelta(millis, otherMillis) {
+        if (otherMillis === undefined || millis === undefined) {
+            return { text: '', className: '' };
+        }
+        const delta = millis - otherMillis;
+        const percentage = otherMillis > 0 ? ' (' + (delta >= 0 ? '+' : '') + Math.round(delta / otherMillis * 100) + '%)' : '';
+        const text = (delta >= 0 ? '+' : '-') + formatDuration(Math.abs(delta)) + percentage;
+        return { text: text, className: delta > 0 ? 'slower' : (delta < 0 ? 'faster' : '') };
+    }
+
+    function element(tag, text, className) {
+        const node = document.createElement(tag);
+        if (text !== undefined) { node.textContent = text; }
+        if (className) { node.className = className; }
+        return node;
+    }
+
+    function bar(millis, maxMillis) {
+        const cell = element('td', undefined, 'bar');
+        const fill = element('div');
+        fill.style.width = (maxMillis > 0 ? Math.max(1, millis / maxMillis * 100) : 0) + '%';
+        cell.appendChild(fill);
+        return cell;
+    }
+
+    function describeProfile(profile) {
+        return profile.label + ' - ' + new Date(profile.time).toLocaleString() + ' (' + formatDuration(profile.totalMillis) + ')';
+    }
+
+    function fillSelect(select, profiles, selectedId, allowNone) {
+        while (select.firstChild) { select.removeChild(select.firstChild); }
+        if (allowNone) {
+            select.appendChild(element('option', '(none)')).value = '';
+        }
+        profiles.forEach(profile => {
+            const option = element('option', describeProfile(profile));
+            option.value = profile.id;
+            option.selected = profile.id === selectedId;
+            select.appendChild(option);
+        });
+    }
+
+    // A table of times by name, with the times of the compared profile and their difference
+    function timeTable(title, times, otherTimes, totalMillis) {
+        const section = element('div');
+        section.appendChild(element('h2', title));
+        const table = element('table');
+        const header = element('tr');
+        ['Name', 'Time', ''].forEach(text => header.appendChild(element('th', text)));
+        if (otherTimes) {
+            ['Compared', 'Difference'].forEach(text => header.appendChild(element('th', text)));
+        }
+        table.appendChild(header);
+
+        const names = times.map(time => time.name);
+        (otherTimes || []).forEach(time => { if (!names.includes(time.name)) { names.push(time.name); } });
+        const byName = (list, name) => (list || []).find(time => time.name === name);
+        names.forEach(name => {
+            const time = byName(times, name);
+            const otherTime = byName(otherTimes, name);
+            const row = element('tr');
+            row.appendChild(element('td', name || '(none)', 'name'));
+            row.appendChild(element('td', time ? formatDuration(time.durationMillis) : '-', 'time'));
+            row.appendChild(bar(time ? time.durationMillis : 0, totalMillis));
+            if (otherTimes) {
+                row.appendChild(element('td', otherTime ? formatDuration(otherTime.durationMillis) : '-', 'time'));
+                const delta = formatDelta(time ? time.durationMillis : 0, otherTime ? otherTime.durationMillis : 0);
+                row.appendChild(element('td', delta.text, 'time ' + delta.className));
+            }
+            table.appendChild(row);
+        });
+        section.appendChild(table);
+        return section;
+    }
+
+    function eventTable(title, events, showStart) {
+        const section = element('div');
+        section.appendChild(element('h2', title));
+        if (events.length === 0) {
+            section.appendChild(element('p', 'None recorded.', 'muted'));
+            return section;
+        }
+        const maxMillis = Math.max(...events.map(event => event.durationMillis));
+        const table = element('table');
+        const header = element('tr');
+        [showStart ? 'Start' : undefined, 'Action', 'Time', ''].filter(text => text !== undefined)
+            .forEach(text => header.appendChild(element('th', text)));
+        table.appendChild(header);
+        events.forEach(event => {
+            const row = element('tr');
+            if (showStart) {
+                row.appendChild(element('td', formatDuration(event.startMillis), 'time muted'));
+            }
+            const name = element('td', event.name, 'name');
+            name.title = [event.mnemonic, event.targetLabel, event.category].filter(part => part).join('\\n');
+            if (event.targetLabel) {
+                name.appendChild(element('div', event.targetLabel, 'muted'));
+            }
+            row.appendChild(name);
+            row.appendChild(element('td', formatDuration(event.durationMillis), 'time'));
+            row.appendChild(bar(event.durationMillis, maxMillis));
+            table.appendChild(row);
+        });
+        section.appendChild(table);
+        return section;
+    }
+
+    function criticalPathMillis(profile) {
+        return profile.criticalPath.reduce((total, event) => total + event.durationMillis, 0);
+    }
+
+    function summary(profile, compareTo) {
+        const times = [
+            { name: 'Wall time', durationMillis: profile.totalMillis },
+            { name: 'Critical path', durationMillis: criticalPathMillis(profile) }
+        ];
+        const otherTimes = compareTo ? [
+            { name: 'Wall time', durationMillis: compareTo.totalMillis },
+            { name: 'Critical path', durationMillis: criticalPathMillis(compareTo) }
+        ] : undefined;
+        const section = timeTable('Summary', times, otherTimes, profile.totalMillis);
+        const details = [profile.actionCount + ' actions', profile.bazelVersion ? 'bazel ' + profile.bazelVersion : undefined, profile.command]
+            .filter(part => part).join(' · ');
+        section.appendChild(element('p', details, 'muted name'));
+        return section;
+    }
+
+    function sideBySide(profile, compareTo, render) {
+        const columns = element('div', undefined, compareTo ? 'columns compare' : 'columns');
+        columns.appendChild(render(profile, compareTo ? describeProfile(profile) : undefined));
+        if (compareTo) {
+            columns.appendChild(render(compareTo, describeProfile(compareTo)));
+        }
+        return columns;
+    }
+
+    function render(message) {
+        const profile = message.profile;
+        const compareTo = message.compareTo;
+        fillSelect(profileSelect, message.profiles, profile.id, false);
+        fillSelect(compareToSelect, message.profiles.filter(item => item.id !== profile.id), compareTo ? compareTo.id : '', true);
+
+        while (content.firstChild) { content.removeChild(content.firstChild); }
+        content.appendChild(summary(profile, compareTo));
+        content.appendChild(timeTable('Build phases', profile.phases, compareTo ? compareTo.phases : undefined, profile.totalMillis));
+        const maxCategoryMillis = Math.max(0, ...profile.categories.map(time => time.durationMillis));
+        content.appendChild(timeTable('Time per category (summed over all threads)', profile.categories.slice(0, 15),
+            compareTo ? compareTo.categories.slice(0, 15) : undefined, maxCategoryMillis));
+        content.appendChild(sideBySide(profile, compareTo, (item, title) =>
+            eventTable('Critical path (' + formatDuration(criticalPathMillis(item)) + ')' + (title ? ': ' + title : ''), item.criticalPath, true)));
+        content.appendChild(sideBySide(profile, compareTo, (item, title) =>
+            eventTable('Slowest actions' + (title ? ': ' + title : ''), item.slowestActions, false)));
+    }
+
+    function select() {
+        vscode.postMessage({ type: 'select', id: profileSelect.value, compareTo: compareToSelect.value || undefined });
+    }
+    profileSelect.addEventListener('change', select);
+    compareToSelect.addEventListener('change', select);
+
+    window.addEventListener('message', event => {
+        if (event.data.type === 'profile') {
+            render(event.data);
+        }
+    });
+</script>
+</body>
+</html>`;
+    }
+}
@@ -98,6 +98,12 @@ export async function showProgressStatus<T>(
         cancellationSource.cancel(); // Trigger cancellation
     });
 
+    // The method only ends once the processes it started are gone, which may take a while
+    const stoppingListener = cancellationSource.token.onCancellationRequested(() => {
+        statusBarItem.text = `$(loading~spin) Stopping ${title}`;
+        statusBarItem.tooltip = 'Waiting for the cancelled processes to stop';
+    });
+
     try {
         // Configure the status bar item
         statusBarItem.tooltip = 'Click to cancel';
@@ -118,6 +124,7 @@ export async function showProgressStatus<T>(
     } finally {
         statusBarItem.dispose();
         disposable.dispose();
+        stoppingListener.dispose();
     }
 }
 
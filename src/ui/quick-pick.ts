@@ -25,15 +25,22 @@
 import * as vscode from 'vscode';
 
 
+// An item that, once selected, offers the choices for its value, e.g. the values of an enum flag
+export interface QuickPickOption extends vscode.QuickPickItem {
+    choices?: string[];
+}
+
+type QuickPickData = string | QuickPickOption;
+
 // Overload signatures
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function showSimpleQuickPick(quickPickData: string[], onChange: (data: any) => void): void;
+export function showSimpleQuickPick(quickPickData: QuickPickData[], onChange: (data: any) => void): void;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function showSimpleQuickPick(loadQuickPickData: (cancellationToken: vscode.CancellationToken) => Promise<string[]>, onChange: (data: any) => void, loadingLabel: string): void;
+export function showSimpleQuickPick(loadQuickPickData: (cancellationToken: vscode.CancellationToken) => Promise<QuickPickData[]>, onChange: (data: any) => void, loadingLabel: string): void;
 
 // Actual implementation
 export function showSimpleQuickPick(
-    quickPickDataOrLoader: string[] | ((cancellationToken: vscode.CancellationToken) => Promise<string[]>),
+    quickPickDataOrLoader: QuickPickData[] | ((cancellationToken: vscode.CancellationToken) => Promise<QuickPickData[]>),
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     onChange: (data: any) => void,
     loadingLabel = 'Loading...'
@@ -49,7 +56,7 @@ export function showSimpleQuickPick(
     quickPick.show();
 
     // Determine if quickPickDataOrLoader is an array or a function returning a Promise
-    let loadQuickPickData: Promise<string[]>;
+    let loadQuickPickData: Promise<QuickPickData[]>;
     if (Array.isArray(quickPickDataOrLoader)) {
         // If it's an array, wrap it in a resolved promise
         loadQuickPickData = Promise.resolve(quickPickDataOrLoader);
@@ -62,15 +69,17 @@ export function showSimpleQuickPick(
     loadQuickPickData.then(quickPickData => {
         quickPick.placeholder = '';
         // Once data is loaded, populate the QuickPick items
-        const quickItems: vscode.QuickPickItem[] = [{ label: '' }];
+        const quickItems: QuickPickOption[] = [{ label: '' }];
         quickPickData.forEach(arg => {
-            if (arg !== undefined && arg.trim().length > 0) {
-                quickItems.push({ label: arg });
+            const item = typeof arg === 'string' ? { label: arg } : arg;
+            if (item !== undefined && item.label.trim().length > 0) {
+                quickItems.push(item);
             }
         });
 
         // Set the loaded items in the QuickPick
         quickPick.items = quickItems;
+        quickPick.matchOnDescription = true;
 
         // Handle value change (updating the first item with user input)
         quickPick.onDidChangeValue(value => {
@@ -80,13 +89,18 @@ export function showSimpleQuickPick(
 
         // Handle selection change
         quickPick.onDidChangeSelection(items => {
-            const item = items[0];
+            const item = items[0] as QuickPickOption;
             quickPick.value = item.label;
             quickPick.hide();
-            vscode.window.showInputBox({ value: item.label }).then(data => {
-                if (data !== undefined) {
-                    onChange(data);
+            pickValue(item).then(value => {
+                if (value === undefined) {
+                    return;
                 }
+                vscode.window.showInputBox({ value: value }).then(data => {
+                    if (data !== undefined) {
+                        onChange(data);
+                    }
+                });
             });
         });
 
@@ -102,3 +116,16 @@ export function showSimpleQuickPick(
         quickPick.hide();
     });
 }
+
+// Completes an item with one of its choices, e.g. --compilation_mode=dbg
+async function pickValue(item: QuickPickOption): Promise<string | undefined> {
+    if (!item.choices || item.choices.length === 0) {
+        return item.label;
+    }
+
+    const choice = await vscode.window.showQuickPick(item.choices, {
+        placeHolder: `Select the value of ${item.label}`,
+        ignoreFocusOut: true
+    });
+    return choice === undefined ? undefined : `${item.label}=${choice}`;
+}
@@ -0,0 +1,127 @@
+////////////////////////////////////////////////////////////////////////////////////
+// MIT License
+//
+// Copyright (c) 2021-2024 NVIDIA Corporation
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////////
+
+import { BazelTarget } from '../models/bazel-target';
+import { BazelParser } from '../services/bazel-parser';
+import { IconService } from '../services/icon-service';
+import * as vscode from 'vscode';
+
+export class ReverseDependencyPackage {
+    constructor(public readonly packagePath: string,
+        public readonly targets: BazelTarget[]) { }
+}
+
+export type ReverseDependencyTreeElement = ReverseDependencyPackage | BazelTarget;
+
+/**
+ * Shows the targets that depend on a file or target, grouped by package.
+ */
+export class ReverseDependenciesTreeProvider implements vscode.TreeDataProvider<ReverseDependencyTreeElement> {
+    private _onDidChangeTreeData: vscode.EventEmitter<ReverseDependencyTreeElement | undefined | void> = new vscode.EventEmitter<ReverseDependencyTreeElement | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<ReverseDependencyTreeElement | undefined | void> = this._onDidChangeTreeData.event;
+
+    private packages: ReverseDependencyPackage[] = [];
+    private testTargetIds: Set<string> = new Set();
+    private treeView: vscode.TreeView<ReverseDependencyTreeElement> | undefined;
+    private message = 'Run "Show Reverse Dependencies" on a file or target.';
+
+    constructor(private readonly iconService: IconService) { }
+
+    public registerTreeView(treeView: vscode.TreeView<ReverseDependencyTreeElement>) {
+        this.treeView = treeView;
+        this.treeView.message = this.message;
+    }
+
+    /**
+     * Replaces the shown results.
+     * @param subject A description of what was queried, e.g. a file or target label.
+     * @param targets The targets depending on the subject.
+     * @param isTestTarget Whether a target can be added as a test target.
+     */
+    public setResults(subject: string, targets: BazelTarget[], isTestTarget: (target: BazelTarget) => boolean) {
+        this.testTargetIds = new Set(targets.filter(isTestTarget).map(target => target.id));
+        const targetsByPackage = new Map<string, BazelTarget[]>();
+        targets.forEach(target => {
+            const packagePath = BazelParser.getPackageFromBazelPath(target.bazelPath);
+            const packageTargets = targetsByPackage.get(packagePath) || [];
+            packageTargets.push(target);
+            targetsByPackage.set(packagePath, packageTargets);
+        });
+
+        this.packages = Array.from(targetsByPackage.entries())
+            .sort(([a], [b]) => (a < b ? -1 : 1))
+            .map(([packagePath, packageTargets]) => new ReverseDependencyPackage(packagePath, packageTargets));
+
+        const count = targets.length;
+        this.setMessage(count === 0
+            ? `Nothing depends on ${subject}.`
+            : `${count} target${count === 1 ? '' : 's'} in ${this.packages.length} package${this.packages.length === 1 ? '' : 's'} depend on ${subject}.`);
+        this.refresh();
+    }
+
+    public clear() {
+        this.packages = [];
+        this.testTargetIds.clear();
+        this.setMessage('Run "Show Reverse Dependencies" on a file or target.');
+        this.refresh();
+    }
+
+    public refresh() {
+        this._onDidChangeTreeData.fire();
+    }
+
+    private setMessage(message: string) {
+        this.message = message;
+        if (this.treeView) {
+            this.treeView.message = message;
+        }
+    }
+
+    getTreeItem(element: ReverseDependencyTreeElement): vscode.TreeItem {
+        if (element instanceof ReverseDependencyPackage) {
+            const item = new vscode.TreeItem(element.packagePath, vscode.TreeItemCollapsibleState.Expanded);
+            item.iconPath = new vscode.ThemeIcon('package');
+            item.description = `${element.targets.length}`;
+            item.contextValue = 'reverseDependencyPackage';
+            return item;
+        }
+
+        const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.None);
+        item.description = element.ruleType;
+        item.tooltip = element.bazelPath;
+        item.iconPath = this.iconService.getIcon(element.language);
+        const isTest = this.testTargetIds.has(element.id);
+        item.contextValue = isTest ? 'reverseDependencyTestTarget' : 'reverseDependencyBuildTarget';
+        return item;
+    }
+
+    getChildren(element?: ReverseDependencyTreeElement): vscode.ProviderResult<ReverseDependencyTreeElement[]> {
+        if (!element) {
+            return this.packages;
+        } else if (element instanceof ReverseDependencyPackage) {
+            return element.targets;
+        }
+        return [];
+    }
+}